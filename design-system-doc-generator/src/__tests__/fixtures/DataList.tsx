@@ -0,0 +1,53 @@
+import React from 'react';
+
+type BaseProps = {
+  /** 追加のクラス名 */
+  className?: string;
+};
+
+export type DataListProps<T> = BaseProps & {
+  /** 表示する項目 */
+  items: T[];
+  renderItem: (item: T) => string;
+  /**
+   * 項目が空のときに表示するメッセージ
+   * @default 'No items'
+   */
+  emptyMessage?: string;
+};
+
+/**
+ * 任意の項目を一覧表示するリスト
+ *
+ * @example
+ * <DataList items={['a', 'b']} renderItem={item => item} />
+ */
+export const DataList = <T,>({ items, renderItem, className, emptyMessage = 'No items' }: DataListProps<T>) => {
+  if (items.length === 0) {
+    return <p className="text-gray-500">{emptyMessage}</p>;
+  }
+
+  return (
+    <ul className={className}>
+      {items.map((item, index) => (
+        <li key={index}>{renderItem(item)}</li>
+      ))}
+    </ul>
+  );
+};
+
+interface BadgeProps {
+  /** バッジに表示するテキスト */
+  label: string;
+  /**
+   * 表示トーン
+   * @deprecated {@link BadgeProps.label} の装飾で代替してください
+   * @since 2.0.0
+   * @see https://example.com/badge
+   */
+  tone?: 'info' | 'warning';
+}
+
+export const Badge: React.FC<BadgeProps> = ({ label, tone = 'info' }) => (
+  <span className={tone === 'info' ? 'bg-blue-100' : 'bg-yellow-100'}>{label}</span>
+);
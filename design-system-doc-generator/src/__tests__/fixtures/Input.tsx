@@ -0,0 +1,37 @@
+import React, { forwardRef, memo } from 'react';
+
+interface InputProps {
+  /** 入力欄のラベル */
+  label: string;
+  placeholder?: string;
+}
+
+/**
+ * ラベル付きの入力欄
+ */
+export const Input = React.forwardRef<HTMLInputElement, InputProps>((props, ref) => (
+  <label className="flex flex-col gap-1">
+    {props.label}
+    <input ref={ref} className="border rounded px-2" placeholder={props.placeholder} />
+  </label>
+));
+
+Input.displayName = 'TextInput';
+
+interface CardProps {
+  /** カードのタイトル */
+  title: string;
+  elevated?: boolean;
+}
+
+export const Card = memo(function Card({ title, elevated = false }: CardProps) {
+  return <div className={elevated ? 'shadow-lg' : 'shadow-none'}>{title}</div>;
+});
+
+function PanelInner({ heading }: { heading: string }) {
+  return <section className="p-4">{heading}</section>;
+}
+
+export const Panel = withTheme(memo(forwardRef(PanelInner)));
+
+declare function withTheme<T>(component: T): T;
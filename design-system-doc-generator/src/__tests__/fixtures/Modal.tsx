@@ -0,0 +1,73 @@
+import React, { Component } from 'react';
+
+interface ModalProps {
+  /** モーダルのタイトル */
+  title: string;
+  /** 閉じるボタン押下時のハンドラ */
+  onClose?: () => void;
+  size?: 'sm' | 'lg';
+}
+
+interface ModalState {
+  /** 表示中かどうか */
+  open: boolean;
+  animating: boolean;
+}
+
+/**
+ * 画面中央に表示するダイアログ
+ */
+export class Modal extends React.Component<ModalProps, ModalState> {
+  static defaultProps = {
+    size: 'sm',
+  };
+
+  state = {
+    open: true,
+    animating: false,
+  };
+
+  componentDidMount() {
+    document.body.classList.add('overflow-hidden');
+  }
+
+  componentWillUnmount() {
+    document.body.classList.remove('overflow-hidden');
+  }
+
+  renderHeader() {
+    return <h2 className="text-lg">{this.props.title}</h2>;
+  }
+
+  render() {
+    return (
+      <div className="fixed inset-0 flex items-center">
+        {this.renderHeader()}
+      </div>
+    );
+  }
+}
+
+class DataTable extends Component {
+  constructor(props) {
+    super(props);
+    this.state = { page: 1 };
+  }
+
+  shouldComponentUpdate() {
+    return true;
+  }
+
+  render() {
+    const { rows, striped } = this.props;
+    return <table className={striped ? 'table-striped' : 'table'}>{rows.length}</table>;
+  }
+}
+
+DataTable.defaultProps = {
+  striped: false,
+};
+
+export default withRouter(DataTable);
+
+declare function withRouter<T>(component: T): T;
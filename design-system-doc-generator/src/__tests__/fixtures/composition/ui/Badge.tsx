@@ -0,0 +1,5 @@
+import React from 'react';
+
+export default function Badge({ label }: { label: string }) {
+  return <span className="rounded-full px-2">{label}</span>;
+}
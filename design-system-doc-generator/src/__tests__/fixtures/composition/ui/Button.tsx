@@ -0,0 +1,5 @@
+import React from 'react';
+
+export const Button = ({ children }: { children: React.ReactNode }) => (
+  <button className="px-4 py-2">{children}</button>
+);
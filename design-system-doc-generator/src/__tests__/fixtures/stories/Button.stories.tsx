@@ -0,0 +1,47 @@
+import type { Meta, StoryObj } from '@storybook/react';
+import Button from '../Button';
+
+const meta = {
+  title: 'Atoms/Button',
+  component: Button,
+  args: {
+    children: 'Click me',
+  },
+  argTypes: {
+    variant: {
+      control: { type: 'select' },
+      options: ['primary', 'secondary'],
+      description: 'ボタンの見た目',
+      table: { defaultValue: { summary: 'primary' } },
+    },
+    size: { control: 'radio', options: ['sm', 'md', 'lg'] },
+  },
+} satisfies Meta<typeof Button>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+export const Primary: Story = {
+  args: {
+    variant: 'primary',
+  },
+};
+
+export const DisabledSecondary: Story = {
+  name: '無効（セカンダリ）',
+  args: {
+    variant: 'secondary',
+    disabled: true,
+  },
+};
+
+export const WithIcon: Story = {
+  render: (args) => (
+    <Button {...args} onClick={() => alert('clicked')}>
+      <span aria-hidden>★</span> Favorite
+    </Button>
+  ),
+  args: {
+    size: 'lg',
+  },
+};
@@ -0,0 +1,30 @@
+import React from 'react';
+import { ComponentMeta, ComponentStory } from '@storybook/react';
+import Card from '../Card';
+
+export default {
+  title: 'Molecules/Card',
+  component: Card,
+} as ComponentMeta<typeof Card>;
+
+const Template: ComponentStory<typeof Card> = (args) => <Card {...args} />;
+
+export const Default = Template.bind({});
+Default.args = {
+  children: 'Content',
+};
+
+export const Flat = Template.bind({});
+Flat.args = {
+  shadow: false,
+  padding: 'sm',
+};
+Flat.storyName = '影なし';
+
+export const WithHeader = () => (
+  <Card padding="lg">
+    <h2>Title</h2>
+  </Card>
+);
+
+export const cardTitles = ['Default', 'Flat'];
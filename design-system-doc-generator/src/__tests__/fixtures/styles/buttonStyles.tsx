@@ -0,0 +1,10 @@
+import { focusRing, radius } from './tokens';
+
+export const baseButton = `${focusRing} px-4 py-2 ${radius}`;
+
+export const buttonTones = {
+  primary: 'bg-blue-500 text-white',
+  danger: 'bg-red-500 text-white',
+} as const;
+
+export default 'inline-flex items-center';
@@ -0,0 +1,2 @@
+export * from './buttonStyles';
+export { focusRing as ring } from './tokens';
@@ -0,0 +1,3 @@
+export const focusRing = 'focus:outline-none focus:ring-2';
+
+export const radius = ['rounded-md', 'shadow-sm'].join(' ');
@@ -0,0 +1,15 @@
+import { Button, Card } from '@acme/ui';
+import * as UI from '@acme/ui/components';
+import { Badge } from '../composition/ui';
+
+export function CheckoutPage({ total, buttonProps }: { total: number; buttonProps: object }) {
+  return (
+    <Card>
+      <Card.Header title="Checkout" />
+      <Badge label={`New`} />
+      <Button size="lg" variant={'primary'}>Pay {total}</Button>
+      <Button size="sm" disabled />
+      <UI.Button size={total > 100 ? 'lg' : 'sm'} {...buttonProps} />
+    </Card>
+  );
+}
@@ -0,0 +1,12 @@
+import { Button as DSButton } from '@acme/ui';
+
+const Button = () => <button type="button" />;
+
+export default function Settings() {
+  return (
+    <div>
+      <Button />
+      <DSButton size="sm" onClick={() => undefined}>Save</DSButton>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { ExtractedComponent } from '../../types';
+
+/**
+ * テスト用のExtractedComponentを生成（必須フィールドは空の既定値）
+ *
+ * @param overrides 上書きするフィールド
+ * @returns 抽出済みコンポーネント
+ */
+export const createComponent = (overrides: Partial<ExtractedComponent>): ExtractedComponent => ({
+  filePath: '/src/Component.tsx',
+  componentName: 'Component',
+  category: 'atoms',
+  tailwindClasses: [],
+  props: [],
+  dependencies: [],
+  hash: 'hash',
+  ...overrides,
+});
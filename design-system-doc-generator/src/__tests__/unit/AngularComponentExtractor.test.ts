@@ -0,0 +1,193 @@
+import * as path from 'path';
+import { AngularComponentExtractor } from '../../extractors/ast/AngularComponentExtractor';
+import { AngularPlatformExtractor, PlatformExtractorFactory } from '../../extractors/PlatformExtractorFactory';
+import { ComponentDocumentGenerator } from '../../generators/document/ComponentDocumentGenerator';
+
+const fixtureDir = path.join(__dirname, '../fixtures/angular');
+
+// デコレーター（@Input / @Output）とインラインテンプレート
+const buttonSource = `
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { NgClass } from '@angular/common';
+
+/**
+ * 汎用ボタン
+ */
+@Component({
+  selector: 'app-button',
+  standalone: true,
+  imports: [NgClass],
+  template: \`
+    <button
+      class="inline-flex items-center rounded-md"
+      [ngClass]="{ 'bg-blue-600 text-white': variant === 'primary', 'bg-red-600 text-white': variant === 'danger', 'opacity-50': disabled }"
+      [class.px-2]="size === 'sm'"
+      [disabled]="disabled"
+      (click)="pressed.emit($event)"
+    >
+      @if (loading) {
+        <app-spinner class="mr-2" />
+      }
+      <ng-content select="[icon]" />
+      <ng-content />
+    </button>
+  \`,
+})
+export class ButtonComponent {
+  /** ボタンの見た目 */
+  @Input() variant: 'primary' | 'danger' = 'primary';
+  @Input() size: 'sm' | 'md' = 'md';
+  @Input() disabled = false;
+  @Input({ required: true, alias: 'label' }) text!: string;
+  @Input() loading = false;
+
+  /** 押下時に送出 */
+  @Output() pressed = new EventEmitter<MouseEvent>();
+  @Output('dismissed') closed = new EventEmitter<void>();
+
+  close() {
+    this.closed.emit();
+  }
+}
+`;
+
+// シグナルAPI（input / model / output / computed）と templateUrl
+const toggleSource = `
+import { Component, computed, input, model, output } from '@angular/core';
+
+@Component({
+  selector: 'app-toggle',
+  templateUrl: './toggle.component.html',
+})
+export class ToggleComponent {
+  label = input<string>();
+  size = input<'sm' | 'md'>('md');
+  compact = input.required<boolean>();
+  checked = model(false);
+  changed = output<boolean>();
+
+  private sizes = { sm: 'h-4 w-8', md: 'h-6 w-11' };
+  classes = computed(() => ['rounded-full', this.sizes[this.size()], this.checked() ? 'bg-blue-600' : 'bg-gray-200']);
+
+  toggle() {
+    this.checked.set(!this.checked());
+    this.changed.emit(this.checked());
+  }
+}
+`;
+
+describe('AngularComponentExtractor', () => {
+  const extractor = new AngularComponentExtractor();
+
+  it('should extract decorator inputs, outputs and content projection from an inline template', () => {
+    const component = extractor.extract(path.join(fixtureDir, 'button.component.ts'), buttonSource, fixtureDir)!;
+
+    expect(component).toMatchObject({
+      componentName: 'ButtonComponent',
+      selector: 'app-button',
+      platform: 'angular',
+      docs: { description: '汎用ボタン' },
+      dependencies: ['@angular/core', '@angular/common'],
+    });
+    expect(component.props.map(prop => prop.name)).toEqual([
+      'variant', 'size', 'disabled', 'label', 'loading', '(pressed)', '(dismissed)', 'ng-content:[icon]', 'children',
+    ]);
+    expect(component.props.slice(0, 4)).toEqual([
+      { name: 'variant', type: "'primary' | 'danger'", required: false, defaultValue: "'primary'", docs: { description: 'ボタンの見た目' } },
+      { name: 'size', type: "'sm' | 'md'", required: false, defaultValue: "'md'" },
+      { name: 'disabled', type: 'boolean', required: false, defaultValue: 'false' },
+      { name: 'label', type: 'string', required: true },
+    ]);
+    expect(component.props.find(prop => prop.name === '(pressed)')).toEqual({
+      name: '(pressed)',
+      type: '($event: MouseEvent) => void',
+      required: false,
+      docs: { description: '押下時に送出' },
+      event: {
+        parameters: [{ name: '$event', type: 'MouseEvent', optional: false }],
+        returnType: 'void',
+        invocations: [['$event']],
+        forwardedTo: [],
+      },
+    });
+    expect(component.props.find(prop => prop.name === '(dismissed)')?.event?.invocations).toEqual([[]]);
+  });
+
+  it('should extract static, [ngClass] and [class.x] classes including elements inside control flow blocks', () => {
+    const component = extractor.extract(path.join(fixtureDir, 'button.component.ts'), buttonSource, fixtureDir)!;
+
+    expect(component.tailwindClasses).toEqual([
+      'bg-blue-600', 'bg-red-600', 'inline-flex', 'items-center', 'mr-2', 'opacity-50', 'px-2', 'rounded-md', 'text-white',
+    ]);
+    expect(component.conditionalClasses).toEqual([
+      { prop: 'variant', values: { primary: ['bg-blue-600', 'text-white'], danger: ['bg-red-600', 'text-white'] } },
+      { prop: 'size', values: { sm: ['px-2'] } },
+      { prop: 'disabled', values: { true: ['opacity-50'] } },
+    ]);
+    expect(component.jsxStructure?.children?.[0]).toMatchObject({ type: 'app-spinner', tailwindClasses: ['mr-2'] });
+  });
+
+  it('should read signal inputs, model() and computed classes from templateUrl', () => {
+    const component = extractor.extract(path.join(fixtureDir, 'toggle.component.ts'), toggleSource, fixtureDir)!;
+
+    expect(component.props).toEqual([
+      { name: 'label', type: 'string', required: false },
+      { name: 'size', type: "'sm' | 'md'", required: false, defaultValue: "'md'" },
+      { name: 'compact', type: 'boolean', required: true },
+      { name: 'checked', type: 'boolean', required: false, defaultValue: 'false', docs: { description: '[(checked)] で双方向バインディング可能' } },
+      {
+        name: '(checkedChange)',
+        type: '($event: boolean) => void',
+        required: false,
+        event: { parameters: [{ name: '$event', type: 'boolean', optional: false }], returnType: 'void', invocations: [], forwardedTo: [] },
+      },
+      {
+        name: '(changed)',
+        type: '($event: boolean) => void',
+        required: false,
+        event: { parameters: [{ name: '$event', type: 'boolean', optional: false }], returnType: 'void', invocations: [['this.checked(…)']], forwardedTo: [] },
+      },
+      { name: 'children', type: 'Slot', required: false, docs: { description: 'デフォルトのコンテンツ投影' } },
+    ]);
+    expect(component.conditionalClasses).toEqual([
+      { prop: 'size', values: { sm: ['h-4', 'w-8'], md: ['h-6', 'w-11'] } },
+      { prop: 'compact', values: { true: ['sr-only'], false: ['font-medium'] } },
+      { prop: 'checked', values: { true: ['bg-blue-600'], false: ['bg-gray-200'] } },
+    ]);
+  });
+});
+
+describe('AngularPlatformExtractor', () => {
+  it('should be created by the factory and validate Angular templates', () => {
+    const extractor = PlatformExtractorFactory.createExtractor('angular', { sourceDir: fixtureDir });
+
+    expect(extractor).toBeInstanceOf(AngularPlatformExtractor);
+    expect(PlatformExtractorFactory.detectPlatform(path.join(fixtureDir, 'toggle.component.ts'), { sourceDir: fixtureDir })).toBe('angular');
+    expect(extractor.validateCode('<app-button [size]="\'sm\'" />').warnings).toEqual([]);
+    expect(extractor.validateCode('<app-button size={"sm"} />').warnings[0].code).toBe('JSX_EXPRESSION');
+  });
+});
+
+describe('ComponentDocumentGenerator (Angular)', () => {
+  it('should emit template examples using the selector instead of JSX', () => {
+    const component = new AngularComponentExtractor().extract(path.join(fixtureDir, 'button.component.ts'), buttonSource, fixtureDir)!;
+    const doc = new ComponentDocumentGenerator().generateComponentDoc(component, [component], { includeExamples: true } as any);
+
+    expect(doc.selector).toBe('app-button');
+    expect(doc.usage).toBe('<app-button label="サンプルテキスト" />');
+    expect(doc.examples[0]).toMatchObject({ code: '<app-button\n  label="サンプルテキスト"\n/>', language: 'html', validation: { isValid: true } });
+    expect(doc.examples[1].code).toBe([
+      '<app-button',
+      '  variant="primary"',
+      '  size="sm"',
+      '  [disabled]="true"',
+      '  label="サンプルテキスト"',
+      '  [loading]="true"',
+      '  (pressed)="onPressed($event)"',
+      '  (dismissed)="onDismissed()"',
+      '>',
+      '  コンテンツ',
+      '</app-button>',
+    ].join('\n'));
+  });
+});
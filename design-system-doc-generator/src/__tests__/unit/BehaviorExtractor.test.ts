@@ -0,0 +1,99 @@
+import { BehaviorExtractor, HookCall } from '../../extractors/ast/BehaviorExtractor';
+import { ASTTraverser } from '../../extractors/ast/ASTTraverser';
+
+const { parse } = jest.requireActual('@typescript-eslint/typescript-estree');
+
+describe('BehaviorExtractor', () => {
+  const extractor = new BehaviorExtractor();
+
+  const extractBehavior = (code: string) => {
+    const ast = parse(code, { jsx: true, range: true });
+    const hookCalls: HookCall[] = [];
+    const elements: any[] = [];
+    new ASTTraverser().traverse(ast, {
+      onHookCall: (node, parent) => hookCalls.push({ node, parent }),
+      onJSXElement: (node) => elements.push(node),
+    });
+    return extractor.buildBehavior(hookCalls, elements, extractor.collectCustomHooks(ast));
+  };
+
+  it('should extract local state and effects', () => {
+    const behavior = extractBehavior(`
+      import React, { useState, useEffect, useReducer } from 'react';
+      export const Dropdown = ({ items }) => {
+        const [open, setOpen] = useState(false);
+        const [state, dispatch] = React.useReducer(reducer, initialState);
+        const ref = useRef(null);
+        useEffect(() => {
+          const close = () => setOpen(false);
+          document.addEventListener('click', close);
+          return () => document.removeEventListener('click', close);
+        }, [open]);
+        useLayoutEffect(() => measure());
+        useEffect(() => { track(items); }, []);
+        return <ul ref={ref}>{open && items.map(item => <li>{item}</li>)}</ul>;
+      };
+    `);
+
+    expect(behavior!.state).toEqual([
+      { name: 'open', setter: 'setOpen', hook: 'useState', initialValue: 'false' },
+      { name: 'state', setter: 'dispatch', hook: 'useReducer', initialValue: 'initialState' },
+    ]);
+    expect(behavior!.effects).toEqual([
+      { hook: 'useEffect', dependencies: ['open'], cleanup: true },
+      { hook: 'useLayoutEffect', dependencies: null, cleanup: false },
+      { hook: 'useEffect', dependencies: [], cleanup: false },
+    ]);
+    expect(behavior!.hooks.map(hook => hook.name)).toEqual(['useState', 'useReducer', 'useRef', 'useEffect', 'useLayoutEffect']);
+    expect(behavior!.hooks.every(hook => !hook.custom)).toBe(true);
+  });
+
+  it('should resolve contexts consumed through custom hooks in the same file', () => {
+    const behavior = extractBehavior(`
+      import { createContext, useContext } from 'react';
+      const TabsContext = createContext(null);
+      function useTabsContext() {
+        const context = useContext(TabsContext);
+        const [unused] = useState(0);
+        return context;
+      }
+      const useActiveTab = () => useTabsContext().active;
+      export function Tab({ id }) {
+        const active = useActiveTab();
+        const theme = useContext(ThemeContext);
+        const { isOpen } = useDisclosure();
+        return <button aria-selected={active === id}>{id}</button>;
+      }
+    `);
+
+    expect(behavior!.consumedContexts).toEqual(['TabsContext', 'ThemeContext']);
+    expect(behavior!.state).toEqual([]);
+    expect(behavior!.hooks).toEqual([
+      { name: 'useActiveTab', custom: true },
+      { name: 'useContext', custom: false },
+      { name: 'useDisclosure', custom: true },
+    ]);
+  });
+
+  it('should detect provided contexts', () => {
+    const behavior = extractBehavior(`
+      export const TabsProvider = ({ children }) => (
+        <TabsContext.Provider value={{}}>
+          <ThemeContext value="dark">{children}</ThemeContext>
+        </TabsContext.Provider>
+      );
+    `);
+
+    expect(behavior).toEqual({
+      hooks: [],
+      state: [],
+      consumedContexts: [],
+      providedContexts: ['TabsContext', 'ThemeContext'],
+      effects: [],
+    });
+  });
+
+  it('should return undefined for stateless components', () => {
+    expect(extractBehavior(`export const Badge = ({ label }) => <span>{label}</span>;`)).toBeUndefined();
+  });
+});
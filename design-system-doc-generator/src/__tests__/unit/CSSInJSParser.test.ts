@@ -0,0 +1,57 @@
+import { CSSInJSParser } from '../../extractors/ast/CSSInJSParser';
+const { parse } = jest.requireActual('@typescript-eslint/typescript-estree');
+
+// 式のソースをパースしてノードを取得
+const expression = (source: string) => parse(`(${source})`).body[0].expression;
+
+describe('CSSInJSParser', () => {
+  it('should split template CSS into declarations with nested selectors and skip comments', () => {
+    const parser = new CSSInJSParser();
+    const template = expression('css`\n  /* color: red; */\n  color: ${props => props.theme.colors.text};\n  ${mixin}\n  &:hover { @media (hover: hover) { opacity: 0.5; } }\n`');
+    const declarations = parser.parseTemplate(template.quasi);
+
+    expect(declarations).toEqual([
+      { property: 'color', value: '${props.theme.colors.text}', token: 'colors.text' },
+      { property: 'opacity', value: '0.5', selector: '&:hover @media (hover: hover)' },
+    ]);
+  });
+
+  it('should normalize object keys and map literal values to registered theme tokens', () => {
+    const parser = new CSSInJSParser();
+    parser.registerTheme(expression(`{ colors: { brand: '#ff0000' } } as const`));
+    parser.registerThemeRoot('tokens');
+
+    expect(parser.parseObject(expression(`{ WebkitLineClamp: 2, '--gap': '4px', borderColor: '#ff0000', color: tokens.colors.brand, ...{ margin: 0 } }`))).toEqual([
+      { property: '-webkit-line-clamp', value: '2' },
+      { property: '--gap', value: '4px' },
+      { property: 'border-color', value: '#ff0000', token: 'colors.brand' },
+      { property: 'color', value: '${tokens.colors.brand}', token: 'colors.brand' },
+      { property: 'margin', value: '0' },
+    ]);
+  });
+
+  it('should collect prop-conditional interpolations per prop value', () => {
+    const parser = new CSSInJSParser();
+    const variants = {};
+    const template = expression(`css\`
+  font-size: \${p => p.size === 'sm' ? '12px' : p.size === 'lg' ? p.theme.fontSizes.lg : '14px'};
+  &:focus {
+    \${({ quiet }) => !quiet ? 'outline: 2px solid;' : { outline: 'none' }}
+  }
+  color: red;
+\``);
+
+    expect(parser.parseTemplate(template.quasi, variants)).toEqual([{ property: 'color', value: 'red' }]);
+    expect(variants).toEqual({
+      size: {
+        sm: [{ property: 'font-size', value: '12px' }],
+        lg: [{ property: 'font-size', value: '${p.theme.fontSizes.lg}', token: 'fontSizes.lg' }],
+        default: [{ property: 'font-size', value: '14px' }],
+      },
+      quiet: {
+        false: [{ property: 'outline', value: '2px solid', selector: '&:focus' }],
+        true: [{ property: 'outline', value: 'none', selector: '&:focus' }],
+      },
+    });
+  });
+});
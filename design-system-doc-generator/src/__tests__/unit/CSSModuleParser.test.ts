@@ -0,0 +1,38 @@
+import { CSSModuleParser } from '../../extractors/ast/CSSModuleParser';
+
+describe('CSSModuleParser', () => {
+  it('should expand nested rules and attach declarations to the subject class', () => {
+    const classes = new CSSModuleParser().parse(`
+// SCSSの行コメント
+.card {
+  background: url(https://example.com/bg.png);
+  &--elevated { box-shadow: 0 1px 2px rgba(0, 0, 0, 0.2); }
+  .title { font-weight: 700; }
+  > img { width: 100%; }
+}
+:global(.dark) .card:not(.disabled) { color: white; }
+@keyframes spin { from { transform: rotate(0deg); } }
+`);
+
+    expect(Array.from(classes.keys())).toEqual(['card', 'card--elevated', 'title', 'disabled']);
+    expect(classes.get('card')!.declarations).toEqual([
+      { property: 'background', value: 'url(https://example.com/bg.png)' },
+      { property: 'width', value: '100%', selector: '& > img' },
+      { property: 'color', value: 'white', selector: ':global(.dark) &:not(.disabled)' },
+    ]);
+    expect(classes.get('card--elevated')!.declarations).toEqual([{ property: 'box-shadow', value: '0 1px 2px rgba(0, 0, 0, 0.2)' }]);
+    expect(classes.get('title')!.declarations).toEqual([{ property: 'font-weight', value: '700', selector: '.card &' }]);
+  });
+
+  it('should parse composes and media queries', () => {
+    const classes = new CSSModuleParser().parse(`
+.button { composes: base focus from "./shared.module.css"; composes: reset from global; }
+@media (min-width: 768px) and (hover: hover) { .button:hover { opacity: .8 } }
+`);
+
+    expect(classes.get('button')).toEqual({
+      composes: [{ classNames: ['base', 'focus'], from: './shared.module.css' }, { classNames: ['reset'], from: 'global' }],
+      declarations: [{ property: 'opacity', value: '.8', selector: '&:hover @media (min-width: 768px) and (hover: hover)' }],
+    });
+  });
+});
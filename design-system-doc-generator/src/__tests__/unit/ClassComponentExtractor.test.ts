@@ -0,0 +1,76 @@
+import * as path from 'path';
+import { ClassComponentExtractor } from '../../extractors/ast/ClassComponentExtractor';
+import { ComponentAnalyzer } from '../../extractors/ast/ComponentAnalyzer';
+import { TypeResolver } from '../../extractors/ast/TypeResolver';
+
+const modalPath = path.join(__dirname, '../fixtures/Modal.tsx');
+
+describe('ClassComponentExtractor', () => {
+  let resolver: TypeResolver;
+  let extractor: ClassComponentExtractor;
+
+  beforeAll(() => {
+    resolver = new TypeResolver();
+    extractor = new ClassComponentExtractor(resolver);
+  });
+
+  describe('with type information', () => {
+    it('should resolve props and state from the generic type arguments', async () => {
+      const { ast, services } = await new ComponentAnalyzer(resolver).analyzeFile(modalPath);
+
+      const info = extractor.extract(ast, 'Modal', services);
+
+      expect(info!.props).toEqual([
+        { name: 'title', type: 'string', required: true, defaultValue: undefined, docs: { description: 'モーダルのタイトル' } },
+        expect.objectContaining({ name: 'onClose', type: '() => void', required: false }),
+        { name: 'size', type: '"sm" | "lg"', required: false, defaultValue: 'sm' },
+      ]);
+      expect(info!.state).toEqual([
+        { name: 'open', type: 'boolean', required: false, defaultValue: 'true', docs: { description: '表示中かどうか' } },
+        { name: 'animating', type: 'boolean', required: false, defaultValue: 'false' },
+      ]);
+    });
+  });
+
+  describe('without type information', () => {
+    let ast: any;
+
+    beforeAll(async () => {
+      ({ ast } = await new ComponentAnalyzer().analyzeFile(modalPath));
+    });
+
+    it('should attach member docs from the props type argument', () => {
+      const info = extractor.extract(ast, 'Modal');
+
+      expect(info!.props).toEqual([
+        { name: 'title', type: 'any', required: true, defaultValue: undefined, docs: { description: 'モーダルのタイトル' } },
+        { name: 'size', type: 'any', required: false, defaultValue: 'sm' },
+      ]);
+    });
+
+    it('should list lifecycle methods and locate render()', () => {
+      const info = extractor.extract(ast, 'Modal');
+
+      expect(info!.lifecycleMethods).toEqual(['componentDidMount', 'componentWillUnmount']);
+      expect(info!.renderMethod.type).toBe('FunctionExpression');
+    });
+
+    it('should infer props from this.props and state from the constructor behind a HOC', () => {
+      // export default withRouter(DataTable) はファイル名由来の名前で参照される
+      const dataTable = extractor.extract(ast, 'RoutedDataTable');
+
+      expect(dataTable!.props).toEqual([
+        { name: 'rows', type: 'any', required: true, defaultValue: undefined },
+        { name: 'striped', type: 'any', required: false, defaultValue: 'false' },
+      ]);
+      expect(dataTable!.state).toEqual([{ name: 'page', type: 'any', required: false, defaultValue: '1' }]);
+      expect(dataTable!.lifecycleMethods).toEqual(['shouldComponentUpdate']);
+    });
+
+    it('should return null for function components', async () => {
+      const { ast: buttonAst } = await new ComponentAnalyzer().analyzeFile(path.join(__dirname, '../fixtures/Button.tsx'));
+
+      expect(extractor.extract(buttonAst, 'Button')).toBeNull();
+    });
+  });
+});
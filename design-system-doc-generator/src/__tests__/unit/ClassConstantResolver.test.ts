@@ -0,0 +1,96 @@
+import * as path from 'path';
+import { ClassConstantResolver } from '../../extractors/ast/ClassConstantResolver';
+
+const { parse } = jest.requireActual('@typescript-eslint/typescript-estree');
+
+// 解析対象のコンポーネントはフィクスチャディレクトリ直下にあるものとして扱う
+const componentPath = path.join(__dirname, '../fixtures/Component.tsx');
+const stylesPath = path.join(__dirname, '../fixtures/styles/buttonStyles.tsx');
+
+const getClassNameValue = (ast: any): any => {
+  let value: any = null;
+  const visit = (node: any) => {
+    if (!node || typeof node !== 'object' || value) return;
+    if (node.type === 'JSXAttribute' && node.name?.name === 'className') {
+      value = node.value;
+      return;
+    }
+    Object.values(node).forEach(visit);
+  };
+  visit(ast);
+  return value;
+};
+
+const resolve = (resolver: ClassConstantResolver, code: string) => {
+  const ast = parse(code, { jsx: true, range: true });
+  return resolver.resolveClassNode(getClassNameValue(ast), { ast, filePath: componentPath });
+};
+
+describe('ClassConstantResolver', () => {
+  let resolver: ClassConstantResolver;
+
+  beforeEach(() => {
+    resolver = new ClassConstantResolver();
+  });
+
+  it('should resolve imported constants across modules', () => {
+    const sources = resolve(resolver, `
+      import { baseButton } from './styles/buttonStyles';
+      export const Button = () => <button className={baseButton} />;
+    `);
+
+    expect(sources).toEqual([{
+      binding: 'baseButton',
+      filePath: path.relative(process.cwd(), stylesPath),
+      classes: ['px-4', 'py-2', 'focus:outline-none', 'focus:ring-2', 'rounded-md', 'shadow-sm'],
+    }]);
+  });
+
+  it('should resolve namespace members, default imports and re-exports inside class utilities', () => {
+    const sources = resolve(resolver, `
+      import * as styles from './styles';
+      import base from './styles/buttonStyles';
+      import { ring } from './styles';
+      export const Button = ({ danger }) => (
+        <button className={cn(base, danger ? styles.buttonTones.danger : styles.buttonTones.primary, ring)} />
+      );
+    `);
+
+    expect(sources.map(source => [source.binding, source.classes])).toEqual([
+      ['base', ['inline-flex', 'items-center']],
+      ['styles.buttonTones.danger', ['bg-red-500', 'text-white']],
+      ['styles.buttonTones.primary', ['bg-blue-500', 'text-white']],
+      ['ring', ['focus:outline-none', 'focus:ring-2']],
+    ]);
+  });
+
+  it('should resolve local constants and record the current file', () => {
+    const sources = resolve(resolver, `
+      const cardStyles = { base: 'p-4 ' + 'bg-white' };
+      export const Card = () => <div className={cardStyles.base} />;
+    `);
+
+    expect(sources).toEqual([{ binding: 'cardStyles.base', filePath: path.relative(process.cwd(), componentPath), classes: ['p-4', 'bg-white'] }]);
+  });
+
+  it('should stop at the depth limit', () => {
+    const shallowResolver = new ClassConstantResolver(1);
+
+    const sources = resolve(shallowResolver, `
+      import { baseButton } from './styles/buttonStyles';
+      export const Button = () => <button className={baseButton} />;
+    `);
+
+    // 定義元の直接のクラスのみ（tokens.tsx まで辿らない）
+    expect(sources[0].classes).toEqual(['px-4', 'py-2']);
+  });
+
+  it('should ignore props and unresolvable imports', () => {
+    const sources = resolve(resolver, `
+      import { theme } from '@acme/theme';
+      export const Box = ({ className }) => <div className={cn(className, theme)} />;
+    `);
+
+    expect(sources).toEqual([]);
+  });
+});
@@ -169,6 +169,240 @@ describe('ComponentAnalyzer', () => {
       expect(result.componentName).toBe('MyButton');
     });
 
+    it('should name an unnamed default export after the component it wraps', async () => {
+      const mockContent = `
+        import React, { forwardRef, memo } from 'react';
+
+        export const Input = forwardRef((props, ref) => <input ref={ref} {...props} />);
+        export default memo(function Avatar({ src }) { return <img src={src} />; });
+      `;
+
+      const identifier = (name: string) => ({ type: 'Identifier', name });
+      const call = (callee: string, argument: any) => ({ type: 'CallExpression', callee: identifier(callee), arguments: [argument] });
+      const inputNode = { type: 'VariableDeclarator', id: identifier('Input'), init: call('forwardRef', { type: 'ArrowFunctionExpression' }) };
+      const avatarNode = call('memo', { type: 'FunctionExpression', id: identifier('Avatar') });
+      const mockAst = {
+        type: 'Program',
+        body: [
+          { type: 'ExportNamedDeclaration', declaration: { type: 'VariableDeclaration', declarations: [inputNode] } },
+          { type: 'ExportDefaultDeclaration', declaration: avatarNode },
+        ]
+      };
+
+      (fs.promises.readFile as jest.Mock).mockResolvedValue(mockContent);
+      const { parseAndGenerateServices } = jest.requireMock('@typescript-eslint/typescript-estree');
+      (parseAndGenerateServices as jest.Mock).mockReturnValue({ ast: mockAst });
+
+      const result = await analyzer.analyzeFile('/test/Input.tsx');
+
+      expect(result.components.map(c => c.name)).toEqual(['Input', 'Avatar']);
+      expect(result.components[1]).toMatchObject({ node: avatarNode, wrappers: ['memo'] });
+
+      // 識別子をラップしている場合は displayName・識別子名の順に命名
+      const baseNode = { type: 'VariableDeclarator', id: identifier('AvatarBase'), init: { type: 'ArrowFunctionExpression' } };
+      (parseAndGenerateServices as jest.Mock).mockReturnValue({ ast: {
+        type: 'Program',
+        body: [
+          { type: 'VariableDeclaration', declarations: [baseNode] },
+          {
+            type: 'ExpressionStatement',
+            expression: {
+              type: 'AssignmentExpression',
+              left: { type: 'MemberExpression', object: identifier('AvatarBase'), property: identifier('displayName') },
+              right: { type: 'Literal', value: 'UserAvatar' },
+            },
+          },
+          { type: 'ExportDefaultDeclaration', declaration: call('memo', identifier('AvatarBase')) },
+        ]
+      } });
+
+      const wrapped = await analyzer.analyzeFile('/test/index.tsx');
+
+      expect(wrapped.components.map(c => [c.name, c.displayName])).toEqual([['UserAvatar', 'UserAvatar']]);
+    });
+
+    it('should not emit context, constant or non-styled template exports as components', async () => {
+      const mockContent = `
+        import React, { createContext } from 'react';
+        import styled, { css } from 'styled-components';
+        import { Button, withTheme } from './Button';
+
+        export const TabsContext = createContext(null);
+        export const ButtonSizes = Object.freeze({ sm: 'sm' });
+        export const Focusable = css\`outline: none;\`;
+        export const Tabs = () => <div />;
+        export const Title = styled.h1\`font-size: 2rem;\`;
+        export const ThemedButton = withTheme(Button);
+      `;
+
+      const identifier = (name: string) => ({ type: 'Identifier', name });
+      const call = (callee: any, ...args: any[]) => ({ type: 'CallExpression', callee, arguments: args });
+      const member = (object: string, property: string) => ({ type: 'MemberExpression', object: identifier(object), property: identifier(property) });
+      const exported = (name: string, init: any) => ({
+        type: 'ExportNamedDeclaration',
+        declaration: { type: 'VariableDeclaration', declarations: [{ type: 'VariableDeclarator', id: identifier(name), init }] },
+      });
+      const template = { type: 'TemplateLiteral', quasis: [], expressions: [] };
+      const mockAst = {
+        type: 'Program',
+        body: [
+          {
+            type: 'ImportDeclaration',
+            source: { value: './Button' },
+            specifiers: [{ type: 'ImportSpecifier', local: identifier('Button') }, { type: 'ImportSpecifier', local: identifier('withTheme') }],
+          },
+          exported('TabsContext', call(identifier('createContext'), { type: 'Literal', value: null })),
+          exported('ButtonSizes', call(member('Object', 'freeze'), { type: 'ObjectExpression', properties: [] })),
+          exported('Focusable', { type: 'TaggedTemplateExpression', tag: identifier('css'), quasi: template }),
+          exported('Tabs', { type: 'ArrowFunctionExpression' }),
+          exported('Title', { type: 'TaggedTemplateExpression', tag: member('styled', 'h1'), quasi: template }),
+          exported('ThemedButton', call(identifier('withTheme'), identifier('Button'))),
+        ]
+      };
+
+      (fs.promises.readFile as jest.Mock).mockResolvedValue(mockContent);
+      const { parseAndGenerateServices } = jest.requireMock('@typescript-eslint/typescript-estree');
+      (parseAndGenerateServices as jest.Mock).mockReturnValue({ ast: mockAst });
+
+      const result = await analyzer.analyzeFile('/test/Tabs.tsx');
+
+      expect(result.components.map(c => c.name)).toEqual(['Tabs', 'Title', 'ThemedButton']);
+    });
+
+    it('should extract every exported component in order', async () => {
+      const mockContent = `
+        import React from 'react';
+
+        export function Form() { return <form />; }
+        export const formStyles = { gap: 4 };
+        const FormField = () => <div />;
+        const FormLabel = () => <label />;
+        export { FormField, FormLabel as Label };
+      `;
+
+      const formNode = { type: 'FunctionDeclaration', id: { name: 'Form' } };
+      const fieldNode = { type: 'VariableDeclarator', id: { type: 'Identifier', name: 'FormField' }, init: { type: 'ArrowFunctionExpression' } };
+      const labelNode = { type: 'VariableDeclarator', id: { type: 'Identifier', name: 'FormLabel' }, init: { type: 'ArrowFunctionExpression' } };
+      const mockAst = {
+        type: 'Program',
+        body: [
+          { type: 'ExportNamedDeclaration', declaration: formNode },
+          {
+            type: 'ExportNamedDeclaration',
+            declaration: {
+              type: 'VariableDeclaration',
+              declarations: [
+                { type: 'VariableDeclarator', id: { type: 'Identifier', name: 'formStyles' }, init: { type: 'ObjectExpression' } },
+              ],
+            },
+          },
+          { type: 'VariableDeclaration', declarations: [fieldNode] },
+          { type: 'VariableDeclaration', declarations: [labelNode] },
+          {
+            type: 'ExportNamedDeclaration',
+            declaration: null,
+            specifiers: [
+              { type: 'ExportSpecifier', local: { name: 'FormField' }, exported: { name: 'FormField' } },
+              { type: 'ExportSpecifier', local: { name: 'FormLabel' }, exported: { name: 'Label' } },
+            ],
+          },
+        ]
+      };
+
+      (fs.promises.readFile as jest.Mock).mockResolvedValue(mockContent);
+      const { parseAndGenerateServices } = jest.requireMock('@typescript-eslint/typescript-estree');
+      (parseAndGenerateServices as jest.Mock).mockReturnValue({ ast: mockAst });
+
+      const result = await analyzer.analyzeFile('/test/Form.tsx');
+
+      expect(result.componentName).toBe('Form');
+      expect(result.components).toEqual([
+        { name: 'Form', node: formNode },
+        { name: 'FormField', node: fieldNode },
+        { name: 'Label', node: labelNode },
+      ]);
+    });
+
+    it('should detect compound subcomponents', async () => {
+      const mockContent = `
+        import React from 'react';
+
+        const CardHeader = () => <header />;
+        export const Card = () => <div />;
+        Card.Header = CardHeader;
+        Card.Footer = () => <footer />;
+        Card.displayName = 'Card';
+
+        const TabsPanel = () => <section />;
+        export const Tabs = Object.assign(() => <div />, { Panel: TabsPanel, variants: {} });
+      `;
+
+      const identifier = (name: string) => ({ type: 'Identifier', name });
+      const declarator = (name: string, init: any) => ({ type: 'VariableDeclarator', id: identifier(name), init });
+      const assignment = (object: string, property: string, right: any) => ({
+        type: 'ExpressionStatement',
+        expression: {
+          type: 'AssignmentExpression',
+          left: { type: 'MemberExpression', computed: false, object: identifier(object), property: identifier(property) },
+          right,
+        },
+      });
+
+      const headerNode = declarator('CardHeader', { type: 'ArrowFunctionExpression' });
+      const footerNode = { type: 'ArrowFunctionExpression' };
+      const panelNode = declarator('TabsPanel', { type: 'ArrowFunctionExpression' });
+      const mockAst = {
+        type: 'Program',
+        body: [
+          { type: 'VariableDeclaration', declarations: [headerNode] },
+          {
+            type: 'ExportNamedDeclaration',
+            declaration: { type: 'VariableDeclaration', declarations: [declarator('Card', { type: 'ArrowFunctionExpression' })] },
+          },
+          assignment('Card', 'Header', identifier('CardHeader')),
+          assignment('Card', 'Footer', footerNode),
+          assignment('Card', 'displayName', { type: 'Literal', value: 'Card' }),
+          { type: 'VariableDeclaration', declarations: [panelNode] },
+          {
+            type: 'ExportNamedDeclaration',
+            declaration: {
+              type: 'VariableDeclaration',
+              declarations: [declarator('Tabs', {
+                type: 'CallExpression',
+                callee: { type: 'MemberExpression', object: identifier('Object'), property: identifier('assign') },
+                arguments: [
+                  { type: 'ArrowFunctionExpression' },
+                  {
+                    type: 'ObjectExpression',
+                    properties: [
+                      { type: 'Property', key: identifier('Panel'), value: identifier('TabsPanel') },
+                      { type: 'Property', key: identifier('variants'), value: { type: 'ObjectExpression', properties: [] } },
+                    ],
+                  },
+                ],
+              })],
+            },
+          },
+        ]
+      };
+
+      (fs.promises.readFile as jest.Mock).mockResolvedValue(mockContent);
+      const { parseAndGenerateServices } = jest.requireMock('@typescript-eslint/typescript-estree');
+      (parseAndGenerateServices as jest.Mock).mockReturnValue({ ast: mockAst });
+
+      const result = await analyzer.analyzeFile('/test/Card.tsx');
+      const [card, tabs] = result.components;
+
+      expect(result.components.map(c => c.name)).toEqual(['Card', 'Tabs']);
+      expect(card.displayName).toBe('Card');
+      expect(card.subcomponents).toEqual([
+        { name: 'CardHeader', memberName: 'Header', node: headerNode },
+        { name: 'Card.Footer', memberName: 'Footer', node: footerNode },
+      ]);
+      expect(tabs.subcomponents).toEqual([{ name: 'TabsPanel', memberName: 'Panel', node: panelNode }]);
+      expect(tabs.wrappers).toBeUndefined();
+    });
+
     it('should handle variable declarations', async () => {
       const mockContent = `
         import React from 'react';
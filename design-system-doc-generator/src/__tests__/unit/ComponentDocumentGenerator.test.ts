@@ -80,6 +80,28 @@ describe('ComponentDocumentGenerator', () => {
       expect(doc.examples[0].code).toContain('<Button');
     });
 
+    it('should use the first literal of a literal union prop in examples', () => {
+      const literalComponent: ExtractedComponent = {
+        ...mockComponent,
+        props: [
+          { name: 'variant', type: "'primary' | 'secondary'", required: true },
+          { name: 'size', type: '1 | 2 | undefined', required: false },
+          { name: 'label', type: 'string', required: false },
+        ]
+      };
+
+      const doc = generator.generateComponentDoc(literalComponent, mockComponents, {
+        includeExamples: true,
+        outputFormat: 'json'
+      });
+
+      expect(doc.usage).toBe('<Button variant="primary" />');
+      expect(doc.examples[1].code).toContain('variant="primary"');
+      expect(doc.examples[1].code).toContain('size={1}');
+      expect(doc.examples[1].code).toContain('label="サンプルテキスト"');
+      expect(doc.examples[1].code).not.toContain('{{}}');
+    });
+
     it('should detect responsive design', () => {
       const responsiveComponent: ExtractedComponent = {
         ...mockComponent,
@@ -127,7 +149,7 @@ describe('ComponentDocumentGenerator', () => {
       expect(doc.description).toContain('アニメーション効果付き');
     });
 
-    it('should find related components', () => {
+    it('should find related components from the composition graph', () => {
       const relatedComponents: ExtractedComponent[] = [
         {
           filePath: '/test/PrimaryButton.tsx',
@@ -136,7 +158,9 @@ describe('ComponentDocumentGenerator', () => {
           tailwindClasses: [],
           props: [],
           dependencies: [],
-          hash: 'related1'
+          hash: 'related1',
+          jsxStructure: { type: 'Button', props: {} },
+          imports: [{ localName: 'Button', importedName: 'Button', source: './Button', resolvedPath: '/test/Button.tsx' }],
         },
         {
           filePath: '/test/SecondaryButton.tsx',
@@ -145,8 +169,11 @@ describe('ComponentDocumentGenerator', () => {
           tailwindClasses: [],
           props: [],
           dependencies: [],
-          hash: 'related2'
+          hash: 'related2',
+          jsxStructure: { type: 'Button', props: {} },
+          imports: [{ localName: 'Button', importedName: 'Button', source: './Button', resolvedPath: '/test/Button.tsx' }],
         },
+        { filePath: '/test/ButtonGroup.tsx', componentName: 'ButtonGroup', category: 'molecules', tailwindClasses: [], props: [], dependencies: [], hash: 'similar-related2' },
         {
           filePath: '/test/Card.tsx',
           componentName: 'Card',
@@ -158,16 +185,49 @@ describe('ComponentDocumentGenerator', () => {
         }
       ];
 
-      const doc = generator.generateComponentDoc(mockComponent, relatedComponents, {
+      const doc = generator.generateComponentDoc(mockComponent, [mockComponent, ...relatedComponents], {
         includeExamples: false,
         outputFormat: 'json'
       });
 
       expect(doc.relatedComponents).toContain('PrimaryButton');
       expect(doc.relatedComponents).toContain('SecondaryButton');
+      // 名前が似ているだけのコンポーネントは含めない
+      expect(doc.relatedComponents).not.toContain('ButtonGroup');
+      expect(doc.relatedComponents).not.toContain('Card');
       expect(doc.relatedComponents.length).toBeLessThanOrEqual(5);
     });
 
+    it('should list composition neighbours instead of padding with same-category components', () => {
+      const composingComponents: ExtractedComponent[] = [
+        {
+          ...mockComponent,
+          jsxStructure: { type: 'button', props: {}, children: [{ type: 'Icon', props: {} }] },
+          imports: [{ localName: 'Icon', importedName: 'Icon', source: './Icon', resolvedPath: '/test/Icon.tsx' }],
+        },
+        { filePath: '/test/Icon.tsx', componentName: 'Icon', category: 'atoms', tailwindClasses: [], props: [], dependencies: [], hash: 'icon' },
+        { filePath: '/test/Badge.tsx', componentName: 'Badge', category: 'atoms', tailwindClasses: [], props: [], dependencies: [], hash: 'badge' },
+        {
+          filePath: '/test/Card.tsx',
+          componentName: 'Card',
+          category: 'molecules',
+          tailwindClasses: [],
+          props: [],
+          dependencies: [],
+          hash: 'card',
+          jsxStructure: { type: 'Button', props: {} },
+          imports: [{ localName: 'Button', importedName: 'Button', source: './Button', resolvedPath: '/test/Button.tsx' }],
+        },
+      ];
+
+      const doc = generator.generateComponentDoc(composingComponents[0], composingComponents, {
+        includeExamples: false,
+        outputFormat: 'json'
+      });
+
+      expect(doc.relatedComponents).toEqual(['Icon', 'Card']);
+    });
+
     it('should generate proper prop descriptions', () => {
       const doc = generator.generateComponentDoc(mockComponent, mockComponents, {
         includeExamples: false,
@@ -183,6 +243,141 @@ describe('ComponentDocumentGenerator', () => {
       expect(disabledProp?.description).toBe('コンポーネントの無効化状態');
     });
 
+    it('should prefer doc comments over generated descriptions', () => {
+      const documentedComponent: ExtractedComponent = {
+        ...mockComponent,
+        docs: {
+          description: 'フォーム送信に使うプライマリボタン',
+          examples: ['<Button>保存</Button>'],
+          deprecated: 'ActionButtonを使用してください',
+          since: '1.2.0',
+          see: ['ActionButton'],
+        },
+        props: [
+          {
+            name: 'variant',
+            type: '"primary" | "secondary"',
+            required: false,
+            docs: { description: '見た目のバリエーション', defaultValue: "'primary'", deprecated: true },
+          },
+          { name: 'disabled', type: 'boolean', required: false },
+        ],
+      };
+
+      const doc = generator.generateComponentDoc(documentedComponent, mockComponents, {
+        includeExamples: true,
+        outputFormat: 'json'
+      });
+
+      expect(doc.description).toBe('フォーム送信に使うプライマリボタン');
+      expect(doc.deprecated).toBe('ActionButtonを使用してください');
+      expect(doc.since).toBe('1.2.0');
+      expect(doc.see).toEqual(['ActionButton']);
+      expect(doc.examples[0].code).toBe('<Button>保存</Button>');
+
+      const variantProp = doc.props.find(p => p.name === 'variant');
+      expect(variantProp).toEqual({
+        name: 'variant',
+        type: '"primary" | "secondary"',
+        required: false,
+        defaultValue: "'primary'",
+        description: '見た目のバリエーション',
+        deprecated: true,
+      });
+      expect(doc.props.find(p => p.name === 'disabled')?.description).toBe('コンポーネントの無効化状態');
+    });
+
+    it('should carry wrapper kinds and displayName into the document', () => {
+      const wrappedComponent: ExtractedComponent = {
+        ...mockComponent,
+        wrappers: ['memo', 'forwardRef'],
+        displayName: 'PrimaryButton',
+      };
+
+      const doc = generator.generateComponentDoc(wrappedComponent, mockComponents, {
+        includeExamples: false,
+        outputFormat: 'json'
+      });
+
+      expect(doc.wrappers).toEqual(['memo', 'forwardRef']);
+      expect(doc.displayName).toBe('PrimaryButton');
+    });
+
+    it('should carry forwarded rest props into the document', () => {
+      const forwardingComponent: ExtractedComponent = {
+        ...mockComponent,
+        forwardedProps: [{ source: 'rest', target: 'button', intrinsic: true }],
+      };
+
+      const doc = generator.generateComponentDoc(forwardingComponent, mockComponents, {
+        includeExamples: false,
+        outputFormat: 'json'
+      });
+
+      expect(doc.forwardedProps).toEqual([{ source: 'rest', target: 'button', intrinsic: true }]);
+    });
+
+    it('should carry cva variant matrices into the document', () => {
+      const variantComponent: ExtractedComponent = {
+        ...mockComponent,
+        variants: [{
+          name: 'buttonVariants',
+          library: 'cva',
+          base: ['inline-flex'],
+          variants: { size: { sm: ['h-8'], lg: ['h-12'] } },
+          compoundVariants: [],
+          defaultVariants: { size: 'sm' },
+        }],
+      };
+
+      const doc = generator.generateComponentDoc(variantComponent, mockComponents, {
+        includeExamples: false,
+        outputFormat: 'json'
+      });
+
+      expect(doc.variants).toHaveLength(1);
+      expect(doc.variants![0].variants.size.lg).toEqual(['h-12']);
+      expect(doc.variants![0].defaultVariants).toEqual({ size: 'sm' });
+    });
+
+    it('should list the providers of consumed contexts', () => {
+      const behavior = { hooks: [{ name: 'useContext', custom: false }], state: [], providedContexts: [], effects: [] };
+      const tab: ExtractedComponent = { ...mockComponent, componentName: 'Tab', behavior: { ...behavior, consumedContexts: ['TabsContext'] } };
+      const provider: ExtractedComponent = {
+        ...mockComponent,
+        componentName: 'TabsProvider',
+        behavior: { ...behavior, hooks: [], consumedContexts: [], providedContexts: ['TabsContext'] },
+      };
+
+      const doc = generator.generateComponentDoc(tab, [tab, provider], {
+        includeExamples: false,
+        outputFormat: 'json'
+      });
+
+      expect(doc.behavior!.consumedContexts).toEqual(['TabsContext']);
+      expect(doc.behavior!.requiredProviders).toEqual(['TabsProvider']);
+    });
+
+    it('should document compound subcomponents', () => {
+      const compoundComponent: ExtractedComponent = {
+        ...mockComponent,
+        componentName: 'Card',
+        subcomponents: [
+          { ...mockComponent, componentName: 'Card.Header', props: [{ name: 'title', type: 'string', required: true }] },
+        ],
+      };
+
+      const doc = generator.generateComponentDoc(compoundComponent, mockComponents, {
+        includeExamples: false,
+        outputFormat: 'json'
+      });
+
+      expect(doc.subcomponents).toHaveLength(1);
+      expect(doc.subcomponents![0].name).toBe('Card.Header');
+      expect(doc.subcomponents![0].usage).toContain('<Card.Header');
+      expect(doc.subcomponents![0].props.map(p => p.name)).toEqual(['title']);
+    });
+
     it('should handle components with no props', () => {
       const noPropComponent: ExtractedComponent = {
         ...mockComponent,
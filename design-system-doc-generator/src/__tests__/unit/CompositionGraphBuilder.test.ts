@@ -0,0 +1,89 @@
+import { CompositionGraphBuilder } from '../../core/CompositionGraphBuilder';
+import { createComponent } from '../helpers/createComponent';
+
+describe('CompositionGraphBuilder', () => {
+  const builder = new CompositionGraphBuilder();
+
+  const button = createComponent({ filePath: '/src/ui/Button.tsx', componentName: 'Button' });
+  const badge = createComponent({ filePath: '/src/ui/Badge.tsx', componentName: 'Badge' });
+  const icon = createComponent({ filePath: '/src/ui/Icon.tsx', componentName: 'Icon' });
+  const productCard = createComponent({
+    filePath: '/src/ProductCard.tsx',
+    componentName: 'ProductCard',
+    category: 'molecules',
+    imports: [
+      { localName: 'PrimaryButton', importedName: 'Button', source: '@/ui', resolvedPath: '/src/ui/Button.tsx' },
+      { localName: 'Tag', importedName: 'default', source: './ui/Badge', resolvedPath: '/src/ui/Badge.tsx' },
+      { localName: 'UI', importedName: '*', source: './ui', resolvedPath: '/src/ui/index.ts' },
+    ],
+    jsxStructure: {
+      type: 'div',
+      props: {},
+      children: [
+        { type: 'ProductCardHeader', props: {} },
+        { type: 'Tag', props: {} },
+        { type: 'UI.Icon', props: {} },
+        { type: 'div', props: {}, children: [{ type: 'PrimaryButton', props: {} }, 'Add to cart'] },
+        { type: 'Unknown', props: {} },
+      ],
+    },
+  });
+  const header = createComponent({ filePath: '/src/ProductCard.tsx', componentName: 'ProductCardHeader', jsxStructure: { type: 'Badge', props: {} } });
+
+  it('should build edges from JSX element names and resolved imports', () => {
+    const graph = builder.build([button, badge, icon, productCard, header]);
+
+    expect(graph.nodes.map(node => node.id)).toEqual([
+      '/src/ProductCard.tsx#ProductCard',
+      '/src/ProductCard.tsx#ProductCardHeader',
+      '/src/ui/Badge.tsx#Badge',
+      '/src/ui/Button.tsx#Button',
+      '/src/ui/Icon.tsx#Icon',
+    ]);
+    expect(graph.nodes[0]).toEqual({ id: '/src/ProductCard.tsx#ProductCard', componentName: 'ProductCard', filePath: '/src/ProductCard.tsx' });
+    expect(graph.edges).toEqual([
+      { from: '/src/ProductCard.tsx#ProductCard', to: '/src/ProductCard.tsx#ProductCardHeader' },
+      { from: '/src/ProductCard.tsx#ProductCard', to: '/src/ui/Badge.tsx#Badge' },
+      { from: '/src/ProductCard.tsx#ProductCard', to: '/src/ui/Button.tsx#Button' },
+      { from: '/src/ProductCard.tsx#ProductCard', to: '/src/ui/Icon.tsx#Icon' },
+    ]);
+  });
+
+  it('should list rendered and rendering components', () => {
+    const graph = builder.build([button, badge, icon, productCard, header]);
+
+    expect(builder.getRenders(graph, builder.getNodeId(productCard))).toEqual(['ProductCardHeader', 'Badge', 'Button', 'Icon']);
+    expect(builder.getRenderedBy(graph, builder.getNodeId(button))).toEqual(['ProductCard']);
+  });
+
+  it('should include elements outside the first JSX return', () => {
+    // if (loading) return <Spinner />; のような早期リターン・条件付きの要素
+    const spinner = createComponent({ filePath: '/src/ui/Spinner.tsx', componentName: 'Spinner' });
+    const list = createComponent({
+      filePath: '/src/List.tsx',
+      componentName: 'List',
+      imports: [{ localName: 'Spinner', importedName: 'Spinner', source: './ui/Spinner', resolvedPath: '/src/ui/Spinner.tsx' }],
+      jsxStructure: { type: 'ul', props: {} },
+      renderedElements: ['Spinner', 'ul', 'li'],
+    });
+
+    const graph = builder.build([spinner, list]);
+
+    expect(graph.edges).toEqual([{ from: '/src/List.tsx#List', to: '/src/ui/Spinner.tsx#Spinner' }]);
+  });
+
+  it('should keep components with the same name in different files apart', () => {
+    // アプリ側の Button がデザインシステムの Button をラップしている場合
+    const appButton = createComponent({
+      filePath: '/src/app/Button.tsx',
+      componentName: 'Button',
+      imports: [{ localName: 'BaseButton', importedName: 'Button', source: '../ui/Button', resolvedPath: '/src/ui/Button.tsx' }],
+      renderedElements: ['BaseButton'],
+    });
+
+    const graph = builder.build([button, appButton]);
+
+    expect(graph.nodes).toHaveLength(2);
+    expect(graph.edges).toEqual([{ from: '/src/app/Button.tsx#Button', to: '/src/ui/Button.tsx#Button' }]);
+  });
+});
@@ -390,4 +390,74 @@ describe('DesignTokenExtractor', () => {
       expect(result.breakpoints).toEqual({});
     });
   });
-});
\ No newline at end of file
+
+  describe('extractFromStyleSheet', () => {
+    it('should extract tokens from the parsed CSS declarations of CSS-in-JS components', async () => {
+      const component = {
+        componentName: 'Button',
+        styleInfo: {
+          type: 'styled-components',
+          declarations: {
+            Button: [
+              { property: 'color', value: '${theme.colors.primary}', token: 'colors.primary' },
+              { property: 'padding', value: '8px 16px' },
+              { property: 'border-radius', value: '6px' },
+              { property: 'opacity', value: '0.8', selector: '&:hover' },
+            ],
+            Link: [{ property: 'color', value: '#0066ff', token: 'colors.primary' }],
+          },
+          variants: {
+            Button: { size: { sm: [{ property: 'font-size', value: '12px', token: 'fontSizes.sm' }] } },
+          },
+        },
+      } as any;
+
+      const result = await extractor.extractFromStyleSheet([component]);
+
+      expect(result.colors).toEqual({
+        'colors.primary': { value: '#0066ff', rgb: 'rgb(0, 102, 255)', usage: ['Button', 'Link'] },
+      });
+      expect(result.spacing).toEqual({ 'padding-Button': '8px 16px' });
+      expect(result.borderRadius).toEqual({ 'border-radius-Button': '6px' });
+      expect(result.typography.fontSize).toEqual({ 'fontSizes.sm': '12px' });
+    });
+  });
+
+  describe('mergeDeclarationTokens', () => {
+    it('should merge declaration tokens and resolve theme references with the existing tokens', () => {
+      const tokens = {
+        colors: { primary: { value: '#3b82f6', rgb: 'rgb(59, 130, 246)', usage: [] } },
+        spacing: { '2': '8px' },
+        typography: { fontFamily: {}, fontSize: {}, fontWeight: {}, lineHeight: {} },
+        breakpoints: {},
+        shadows: {},
+        borderRadius: {},
+        custom: {},
+      } as any;
+      const component = {
+        componentName: 'Card',
+        styleInfo: {
+          type: 'emotion',
+          declarations: {
+            Card: [
+              { property: 'color', value: '${theme.colors.primary}', token: 'colors.primary' },
+              { property: 'border-color', value: '${theme.colors.accent}', token: 'colors.accent' },
+              { property: 'padding', value: '$2', token: 'space.2' },
+              { property: 'margin', value: '${props.gap}' },
+            ],
+          },
+        },
+      } as any;
+
+      const result = extractor.mergeDeclarationTokens([component], tokens);
+
+      expect(result).toBe(tokens);
+      expect(result.colors).toEqual({
+        primary: { value: '#3b82f6', rgb: 'rgb(59, 130, 246)', usage: [] },
+        'colors.primary': { value: '#3b82f6', rgb: 'rgb(59, 130, 246)', usage: ['Card'] },
+        'colors.accent': { value: '{colors.accent}', rgb: '{colors.accent}', usage: ['Card'] },
+      });
+      expect(result.spacing).toEqual({ '2': '8px', 'space.2': '8px', 'margin-Card': '${props.gap}' });
+    });
+  });
+});
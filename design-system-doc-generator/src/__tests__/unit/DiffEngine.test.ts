@@ -107,6 +107,28 @@ describe('DiffEngine', () => {
       expect(result.changes.components.removed[0].componentName).toBe('Input');
     });
 
+    it('should diff multiple components in the same file independently', async () => {
+      const form = createMockComponent('Form', './Form.tsx', ['space-y-4']);
+      const label = createMockComponent('FormLabel', './Form.tsx', ['text-sm']);
+      const field = createMockComponent('FormField', './Form.tsx', ['flex']);
+      const updatedLabel = createMockComponent('FormLabel', './Form.tsx', ['text-sm', 'font-medium']);
+
+      const snapshot1 = createMockSnapshot([form, label]);
+      const snapshot2 = createMockSnapshot([form, updatedLabel, field]);
+
+      const result = await diffEngine.compareSnapshots(snapshot1, snapshot2);
+
+      expect(result.summary.componentsAdded).toBe(1);
+      expect(result.summary.componentsRemoved).toBe(0);
+      expect(result.summary.componentsModified).toBe(1);
+      expect(result.changes.components.added[0].componentName).toBe('FormField');
+      expect(result.changes.components.modified[0]).toEqual({
+        path: './Form.tsx',
+        componentName: 'FormLabel',
+        changes: { classesAdded: ['font-medium'], classesRemoved: [], propsChanged: false },
+      });
+    });
+
     it('should detect modified components - classes added', async () => {
       const component1 = createMockComponent('Button', './Button.tsx', ['px-4', 'py-2']);
       const component2 = createMockComponent('Button', './Button.tsx', ['px-4', 'py-2', 'bg-blue-500']);
@@ -277,6 +299,7 @@ describe('DiffEngine', () => {
             removed: [removedComponent],
             modified: [{
               path: './Card.tsx',
+              componentName: 'Card',
               changes: {
                 classesAdded: ['bg-blue-500'],
                 classesRemoved: ['bg-gray-500'],
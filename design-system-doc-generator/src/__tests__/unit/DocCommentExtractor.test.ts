@@ -0,0 +1,131 @@
+import { DocCommentExtractor } from '../../extractors/ast/DocCommentExtractor';
+
+const { parse } = jest.requireActual('@typescript-eslint/typescript-estree');
+
+const parseSource = (code: string) => parse(code, { jsx: true, loc: true, range: true, comment: true });
+
+describe('DocCommentExtractor', () => {
+  let extractor: DocCommentExtractor;
+
+  beforeEach(() => {
+    extractor = new DocCommentExtractor();
+  });
+
+  describe('parseComment', () => {
+    it('should split description and tags', () => {
+      const doc = extractor.parseComment(`*
+ * Primary action button.
+ * Use once per view.
+ *
+ * @default 'md'
+ * @deprecated
+ * @since 1.4.0
+ * @see Link
+ * @see {@link https://example.com/button Button guide}
+ `);
+
+      expect(doc).toEqual({
+        description: 'Primary action button.\nUse once per view.',
+        defaultValue: "'md'",
+        deprecated: true,
+        since: '1.4.0',
+        see: ['Link', 'Button guide'],
+      });
+    });
+
+    it('should keep example code and strip code fences', () => {
+      const doc = extractor.parseComment(`*
+ * @example
+ * \`\`\`tsx
+ * <Button variant="primary">
+ *   Save
+ * </Button>
+ * \`\`\`
+ * @example <Button />
+ `);
+
+      expect(doc?.examples).toEqual(['<Button variant="primary">\n  Save\n</Button>', '<Button />']);
+    });
+
+    it('should return undefined for empty comments', () => {
+      expect(extractor.parseComment('*\n * \n ')).toBeUndefined();
+    });
+  });
+
+  describe('extractComponentDoc', () => {
+    it('should read the comment directly above the component declaration', () => {
+      const ast = parseSource(`
+/** Unrelated helper */
+const helper = () => null;
+
+/** Card container */
+export const Card = () => <div />;
+`);
+
+      expect(extractor.extractComponentDoc(ast, 'Card')).toEqual({ description: 'Card container' });
+    });
+
+    it('should ignore line comments and comments belonging to earlier statements', () => {
+      const ast = parseSource(`
+/** Helper docs */
+const helper = () => null;
+// not a doc comment
+export default function Card() { return <div />; }
+`);
+
+      expect(extractor.extractComponentDoc(ast, 'Card')).toBeUndefined();
+    });
+
+    it('should handle anonymous default exports', () => {
+      const ast = parseSource(`
+/** Anonymous card */
+export default function () { return <div />; }
+`);
+
+      expect(extractor.extractComponentDoc(ast, 'Card')).toEqual({ description: 'Anonymous card' });
+    });
+  });
+
+  describe('extractMemberDocs', () => {
+    it('should collect member docs from local interfaces and their parents', () => {
+      const ast: any = parseSource(`
+interface BaseProps {
+  /** Extra class names */
+  className?: string;
+}
+
+export interface ButtonProps extends BaseProps {
+  /** Visual style */
+  variant?: 'primary' | 'secondary';
+  size?: 'sm' | 'lg';
+}
+
+export const Button = ({ variant }: ButtonProps) => <button />;
+`);
+      const param = ast.body[2].declaration.declarations[0].init.params[0];
+
+      const docs = extractor.extractMemberDocs(ast, param.typeAnnotation);
+
+      expect(docs.get('className')).toEqual({ description: 'Extra class names' });
+      expect(docs.get('variant')).toEqual({ description: 'Visual style' });
+      expect(docs.has('size')).toBe(false);
+    });
+
+    it('should collect member docs from type aliases and intersections', () => {
+      const ast: any = parseSource(`
+type Sized = {
+  /** Size token */
+  size?: string;
+};
+
+function Tag(props: Sized & { /** Tag label */ label: string }) { return <span />; }
+`);
+      const param = ast.body[1].params[0];
+
+      const docs = extractor.extractMemberDocs(ast, param.typeAnnotation);
+
+      expect(docs.get('size')).toEqual({ description: 'Size token' });
+      expect(docs.get('label')).toEqual({ description: 'Tag label' });
+    });
+  });
+});
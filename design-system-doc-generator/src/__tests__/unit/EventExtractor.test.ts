@@ -0,0 +1,78 @@
+import { EventExtractor } from '../../extractors/ast/EventExtractor';
+
+const { parse } = jest.requireActual('@typescript-eslint/typescript-estree');
+
+describe('EventExtractor', () => {
+  const extractor = new EventExtractor();
+
+  const findComponent = (ast: any) =>
+    ast.body
+      .map((statement: any) => statement.declaration || statement)
+      .find((declaration: any) => declaration.type === 'FunctionDeclaration');
+
+  it('should collect callback signatures from local interfaces and type aliases', () => {
+    const ast = parse(`
+      interface BaseProps {
+        onFocus?(event: React.FocusEvent<HTMLInputElement>): void;
+      }
+      type Option = { id: string };
+      interface SelectProps extends BaseProps {
+        label: string;
+        onChange?: (value: Option | null, event?: React.ChangeEvent<HTMLSelectElement>) => void;
+        onValidate: ((value: string[]) => boolean | Promise<boolean>) | undefined;
+      }
+      export function Select({ label }: SelectProps & { onOpen: () => void }) {}
+    `, { jsx: true, range: true });
+
+    const signatures = extractor.collectSignatures(ast, findComponent(ast).params[0].typeAnnotation);
+
+    expect(Array.from(signatures.keys())).toEqual(['onFocus', 'onChange', 'onValidate', 'onOpen']);
+    expect(signatures.get('onFocus')).toEqual({
+      parameters: [{ name: 'event', type: 'React.FocusEvent<HTMLInputElement>', optional: false }],
+      returnType: 'void',
+    });
+    expect(signatures.get('onChange')).toEqual({
+      parameters: [
+        { name: 'value', type: 'Option | null', optional: false },
+        { name: 'event', type: 'React.ChangeEvent<HTMLSelectElement>', optional: true },
+      ],
+      returnType: 'void',
+    });
+    expect(signatures.get('onValidate')?.returnType).toBe('boolean | Promise<boolean>');
+    expect(signatures.get('onOpen')).toEqual({ parameters: [], returnType: 'void' });
+  });
+
+  it('should collect invocation arguments and forwarded elements', () => {
+    const ast = parse(`
+      export function Search({ onSearch, onChange: handleChange, onBlur }) {
+        const submit = (event) => {
+          onSearch?.(event.currentTarget.value, 'enter');
+          onSearch?.(event.currentTarget.value, 'enter');
+        };
+        return <input onChange={(e) => handleChange(e.target.value, e)} onBlur={onBlur} onKeyDown={submit} />;
+      }
+    `, { jsx: true, range: true });
+
+    const usages = extractor.collectUsages(findComponent(ast), ['onSearch', 'onChange', 'onBlur', 'onClear']);
+
+    expect(usages.get('onSearch')).toEqual({ invocations: [['event.currentTarget.value', "'enter'"]], forwardedTo: [] });
+    expect(usages.get('onChange')).toEqual({ invocations: [['e.target.value', 'e']], forwardedTo: [] });
+    expect(usages.get('onBlur')).toEqual({ invocations: [], forwardedTo: ['input'] });
+    expect(usages.has('onClear')).toBe(false);
+  });
+
+  it('should follow callbacks accessed through the props object', () => {
+    const ast = parse(`
+      export function Dialog(props) {
+        const { onClose } = props;
+        props.onOpenChange(false);
+        return <Modal.Root onDismiss={onClose} onEscape={props.onClose} />;
+      }
+    `, { jsx: true, range: true });
+
+    const usages = extractor.collectUsages(findComponent(ast), ['onClose', 'onOpenChange']);
+
+    expect(usages.get('onOpenChange')).toEqual({ invocations: [['false']], forwardedTo: [] });
+    expect(usages.get('onClose')).toEqual({ invocations: [], forwardedTo: ['Modal.Root'] });
+  });
+});
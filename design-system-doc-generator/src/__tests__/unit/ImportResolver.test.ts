@@ -0,0 +1,39 @@
+import * as path from 'path';
+import { ImportResolver } from '../../extractors/ast/ImportResolver';
+import { TypeResolver } from '../../extractors/ast/TypeResolver';
+
+const { parse } = jest.requireActual('@typescript-eslint/typescript-estree');
+
+const fixtureDir = path.join(__dirname, '../fixtures/composition');
+const componentPath = path.join(fixtureDir, 'ProductCard.tsx');
+
+describe('ImportResolver', () => {
+  it('should follow barrel re-exports to the defining files', () => {
+    const resolver = new ImportResolver();
+    const ast = parse(`
+      import React from 'react';
+      import { Button, Badge } from './ui';
+      import * as UI from './ui';
+    `, { jsx: true });
+
+    expect(resolver.resolveImports(ast, componentPath)).toEqual([
+      { localName: 'Button', importedName: 'Button', source: './ui', resolvedPath: path.join(fixtureDir, 'ui/Button.tsx') },
+      { localName: 'Badge', importedName: 'Badge', source: './ui', resolvedPath: path.join(fixtureDir, 'ui/Badge.tsx') },
+      { localName: 'UI', importedName: '*', source: './ui', resolvedPath: path.join(fixtureDir, 'ui/index.tsx') },
+    ]);
+  });
+
+  it('should resolve tsconfig paths aliases through the type resolver', () => {
+    const resolver = new ImportResolver(new TypeResolver(path.join(fixtureDir, 'tsconfig.json')));
+    const ast = parse(`
+      import { Badge as Tag } from '@ui';
+      import { Button } from '@ui/Button';
+      import type { ButtonProps } from '@ui/Button';
+    `, { jsx: true });
+
+    expect(resolver.resolveImports(ast, componentPath)).toEqual([
+      { localName: 'Tag', importedName: 'Badge', source: '@ui', resolvedPath: path.join(fixtureDir, 'ui/Badge.tsx') },
+      { localName: 'Button', importedName: 'Button', source: '@ui/Button', resolvedPath: path.join(fixtureDir, 'ui/Button.tsx') },
+    ]);
+  });
+});
@@ -257,4 +257,20 @@ describe('JSXStructureExtractor', () => {
       expect(result!.type).toBe('div');
     });
   });
-});
\ No newline at end of file
+
+  describe('extractElementNames', () => {
+    it('should list every element name once, including member expressions', () => {
+      const element = (name: any) => ({ type: 'JSXElement', openingElement: { type: 'JSXOpeningElement', name, attributes: [] } });
+      const identifier = (name: string) => ({ type: 'JSXIdentifier', name });
+
+      const names = extractor.extractElementNames([
+        element(identifier('Spinner')),
+        element(identifier('div')),
+        element({ type: 'JSXMemberExpression', object: identifier('UI'), property: identifier('Badge') }),
+        element(identifier('Spinner')),
+      ]);
+
+      expect(names).toEqual(['Spinner', 'div', 'UI.Badge']);
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import { MarkupParser } from '../../extractors/ast/MarkupParser';
+
+describe('MarkupParser', () => {
+  const parser = new MarkupParser();
+
+  it('should read quoted, braced, shorthand and valueless attributes', () => {
+    const [button] = parser.parse('<button class="px-4 {active ? \'ring-2\' : ""}" onclick={() => open = count > 1} {disabled} hidden>Open</button>');
+
+    expect(button).toEqual({
+      tag: 'button',
+      attributes: [
+        { name: 'class', value: 'px-4 {active ? \'ring-2\' : ""}', expression: false },
+        { name: 'onclick', value: '() => open = count > 1', expression: true },
+        { name: 'disabled', value: 'disabled', expression: true },
+        { name: 'hidden', value: null, expression: false },
+      ],
+      children: ['Open'],
+    });
+  });
+
+  it('should build the element tree skipping comments and raw text elements', () => {
+    const roots = parser.parse(`
+      <!-- <div class="ignored"></div> -->
+      <ul>
+        <li><img src="a.png"><span>{a < b ? 'x' : 'y'}</span></li>
+        <Child />
+      </ul>
+      <style>.a > .b { color: red; }</style>
+    `);
+
+    expect(roots.map(root => root.tag)).toEqual(['ul', 'style']);
+    expect(roots[0].children).toEqual([
+      {
+        tag: 'li',
+        attributes: [],
+        children: [
+          { tag: 'img', attributes: [{ name: 'src', value: 'a.png', expression: false }], children: [] },
+          { tag: 'span', attributes: [], children: ["{a < b ? 'x' : 'y'}"] },
+        ],
+      },
+      { tag: 'Child', attributes: [], children: [] },
+    ]);
+  });
+});
@@ -0,0 +1,140 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigManager } from '../../config/ConfigManager';
+import { PlatformExtractorFactory, ReactNativePlatformExtractor, WebPlatformExtractor } from '../../extractors/PlatformExtractorFactory';
+import { TailwindExtractor } from '../../extractors/TailwindExtractor';
+
+const config = { sourceDir: '/repo' };
+const detect = (filePath: string, content: string) => PlatformExtractorFactory.detectPlatform(filePath, config, content);
+
+describe('PlatformExtractorFactory.detectPlatform', () => {
+  it('should detect React Native from platform file suffixes', () => {
+    const webContent = `export const Button = () => <button className="px-4" />;`;
+    const nativeContent = `import { Pressable } from 'react-native';`;
+
+    expect(detect('/repo/ui/Button.ios.tsx', webContent)).toBe('react-native');
+    expect(detect('/repo/ui/Button.android.jsx', webContent)).toBe('react-native');
+    expect(detect('/repo/ui/Button.native.tsx', webContent)).toBe('react-native');
+    // .web.tsx はReact Nativeを使用していてもWeb向けの実装
+    expect(detect('/repo/native/Button.web.tsx', nativeContent)).toBe('web');
+  });
+
+  it('should detect React Native from react-native and expo imports', () => {
+    expect(detect('/repo/ui/Card.tsx', `import { View } from 'react-native';`)).toBe('react-native');
+    expect(detect('/repo/ui/Card.tsx', `const { View } = require("react-native");`)).toBe('react-native');
+    expect(detect('/repo/ui/Icon.tsx', `import Svg from 'react-native-svg';`)).toBe('react-native');
+    expect(detect('/repo/ui/Slider.tsx', `import Slider from '@react-native-community/slider';`)).toBe('react-native');
+    expect(detect('/repo/ui/Link.tsx', `import { Link } from 'expo-router';`)).toBe('react-native');
+    expect(detect('/repo/ui/Icon.tsx', `import { Ionicons } from '@expo/vector-icons';`)).toBe('react-native');
+    expect(detect('/repo/app/_layout.tsx', `import 'expo-dev-client';`)).toBe('react-native');
+    // react-native-web はWeb向けのパッケージ
+    expect(detect('/repo/ui/Card.tsx', `import { View } from 'react-native-web';`)).toBe('web');
+  });
+
+  it('should detect React Native from primitives and platform APIs', () => {
+    // Expoテンプレートの Themed 等、再エクスポート経由のプリミティブ
+    expect(detect('/repo/app/index.tsx', `import { View } from '@/components/Themed';
+export default () => <View style={{ flex: 1 }} />;`)).toBe('react-native');
+    expect(detect('/repo/ui/Row.tsx', `export const Row = () => <Pressable onPress={onPress} />;`)).toBe('react-native');
+    expect(detect('/repo/ui/styles.ts', `export const styles = StyleSheet.create({ row: {} });`)).toBe('react-native');
+    expect(detect('/repo/ui/Gap.tsx', `const gap = Platform.OS === 'ios' ? 8 : 4;`)).toBe('react-native');
+    // Text・Image はWebのデザインシステムにも存在するため手がかりにしない
+    expect(detect('/repo/ui/Title.tsx', `import { Text } from './Text';
+export const Title = () => <Text className="text-xl" />;`)).toBe('web');
+    expect(detect('/repo/ui/Overview.tsx', `export const Overview = () => <ViewToggle />;`)).toBe('web');
+  });
+
+  it('should fall back to the configured platform for JSX files without React Native hints', () => {
+    const webContent = `export const Banner = () => <div className="p-4" />;`;
+    const nativeConfig = { sourceDir: '/repo', platform: 'react-native' as const };
+
+    expect(PlatformExtractorFactory.detectPlatform('/repo/ui/Banner.tsx', nativeConfig, webContent)).toBe('react-native');
+    expect(PlatformExtractorFactory.detectPlatform('/repo/ui/Banner.web.tsx', nativeConfig, webContent)).toBe('web');
+    expect(detect('/repo/ui/Banner.tsx', webContent)).toBe('web');
+  });
+
+  it('should read the file when no content is given', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'platform-'));
+    const nativeFile = path.join(dir, 'Card.tsx');
+    const webFile = path.join(dir, 'Banner.tsx');
+    fs.writeFileSync(nativeFile, `import { View } from 'react-native';\nexport const Card = () => <View />;\n`);
+    fs.writeFileSync(webFile, `export const Banner = () => <div className="p-4" />;\n`);
+
+    try {
+      expect(PlatformExtractorFactory.detectPlatform(nativeFile, config)).toBe('react-native');
+      expect(PlatformExtractorFactory.detectPlatform(webFile, config)).toBe('web');
+      expect(new WebPlatformExtractor(config).detectPlatform(nativeFile)).toBeNull();
+      expect(new ReactNativePlatformExtractor(config).detectPlatform(webFile)).toBeNull();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('PlatformExtractorFactory.extractComponents', () => {
+  beforeAll(async () => {
+    // 型チェッカーはリポジトリのtsconfigを使用せず、一時ディレクトリのファイルのみを解析
+    const configManager = ConfigManager.getInstance();
+    const config = await configManager.loadConfig();
+    configManager.setConfig({ ...config, source: { ...config.source, tsConfigPath: undefined } });
+  });
+
+  it('should complement the configured platform with the JSX platforms or every built-in platform', () => {
+    expect(PlatformExtractorFactory.resolvePlatforms('web')).toEqual(['web', 'react-native']);
+    expect(PlatformExtractorFactory.resolvePlatforms('react-native')).toEqual(['react-native', 'web']);
+    expect(PlatformExtractorFactory.resolvePlatforms('vue')).toEqual(['vue', 'web', 'react-native']);
+    expect(PlatformExtractorFactory.resolvePlatforms('astro', true)).toEqual(['astro', 'web', 'react-native', 'vue', 'svelte', 'angular']);
+    expect(PlatformExtractorFactory.resolvePlatforms('vue', true)).toEqual(['vue', 'web', 'react-native', 'svelte', 'angular']);
+  });
+
+  it('should route each file to the extractor of its platform', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'platform-'));
+    const files = {
+      banner: path.join(dir, 'Banner.tsx'),
+      row: path.join(dir, 'Row.tsx'),
+      rowWeb: path.join(dir, 'Row.web.tsx'),
+    };
+    fs.writeFileSync(files.banner, `import React from 'react';\nexport const Banner = () => <div className="p-4" />;\n`);
+    fs.writeFileSync(files.row, `import React from 'react';\nimport { View } from 'react-native';\nexport const Row = () => <View className="flex-row" />;\n`);
+    fs.writeFileSync(files.rowWeb, `import React from 'react';\nexport const Row = () => <div className="flex" />;\n`);
+
+    try {
+      const extractorConfig = { sourceDir: dir, platform: 'web' as const };
+      const extractors = PlatformExtractorFactory.createMultiPlatformExtractor(['web', 'react-native'], extractorConfig);
+      const components = await PlatformExtractorFactory.extractComponents(extractors, Object.values(files), extractorConfig);
+
+      expect(components.map(component => [path.basename(component.filePath), component.platform, component.tailwindClasses])).toEqual([
+        ['Banner.tsx', 'web', ['p-4']],
+        ['Row.tsx', 'react-native', ['flex-row']],
+        ['Row.web.tsx', 'web', ['flex']],
+      ]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  }, 30000);
+
+  it('should read each file once for detection and share one pipeline between Web and React Native', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'platform-'));
+    const files = [path.join(dir, 'Banner.tsx'), path.join(dir, 'Row.tsx')];
+    fs.writeFileSync(files[0], `export const Banner = () => <div className="p-4" />;\n`);
+    fs.writeFileSync(files[1], `import { View } from 'react-native';\nexport const Row = () => <View />;\n`);
+    const extractFromFile = jest.spyOn(TailwindExtractor.prototype, 'extractFromFile').mockResolvedValue([]);
+    // import * as fs の名前空間は再定義できないため、モジュール本体を監視
+    const readFileSync = jest.spyOn(jest.requireActual<typeof fs>('fs'), 'readFileSync');
+
+    try {
+      const extractorConfig = { sourceDir: dir, platform: 'web' as const };
+      const extractors = PlatformExtractorFactory.createMultiPlatformExtractor(['web', 'react-native'], extractorConfig);
+      await PlatformExtractorFactory.extractComponents(extractors, files, extractorConfig);
+
+      files.forEach(file => expect(readFileSync.mock.calls.filter(([target]) => target === file)).toHaveLength(1));
+      expect(extractFromFile.mock.calls.map(([file]) => file)).toEqual(files);
+      expect(new Set(extractFromFile.mock.contexts).size).toBe(1);
+    } finally {
+      extractFromFile.mockRestore();
+      readFileSync.mockRestore();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
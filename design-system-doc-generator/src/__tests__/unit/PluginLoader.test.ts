@@ -0,0 +1,135 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigManager } from '../../config/ConfigManager';
+import { PluginLoader } from '../../config/PluginLoader';
+import { PlatformExtractorFactory } from '../../extractors/PlatformExtractorFactory';
+import { StyleExtractorFactory, EmotionExtractor } from '../../extractors/StyleExtractorFactory';
+import { ComponentValidator } from '../../types';
+
+// StyleExtractorの契約を満たすクラス本体（各モジュール形式で共通）
+const styleExtractorBody = `
+  constructor(config) { this.config = config; }
+  extractStyles(node) { return [{ type: 'styled-component', value: node.css }]; }
+  validateStyles(styles) { return { isValid: true, errors: [], warnings: [] }; }
+  generateExamples(styles) { return styles.map(style => style.value).join('\\n'); }
+`;
+
+const pluginSources: Record<string, string> = {
+  // CommonJS（module.exports にクラス）
+  'plugins/emotion.js': `module.exports = class EmotionExtractor {${styleExtractorBody}};\n`,
+  // ESM（default export）
+  'plugins/stitches.mjs': `export default class StitchesExtractor {${styleExtractorBody}}\n`,
+  // TypeScript（名前付きエクスポートと相対import）
+  'plugins/vanilla/index.ts': `import { prefix } from './prefix';
+export const version: string = '1.0.0';
+export class VanillaExtractor {
+  constructor(private config: { sourceDir: string }) {}
+  extractStyles(node: { css: string }) { return [{ type: 'className' as const, value: prefix(node.css) }]; }
+  validateStyles(styles: string[]) { return { isValid: true, errors: [], warnings: [] }; }
+  generateExamples(styles: { value: string }[]): string { return ''; }
+}
+`,
+  'plugins/vanilla/prefix.ts': `export const prefix = (value: string): string => \`vanilla_\${value}\`;\n`,
+  // validateStyles を実装していない
+  'plugins/broken.js': `module.exports = { BrokenExtractor: class { extractStyles() { return []; } generateExamples() { return ''; } } };\n`,
+  // PlatformExtractorの契約（filePatterns のみ欠落）
+  'plugins/astro.ts': `export default class AstroExtractor {
+  readonly platform = 'astro';
+  detectPlatform(filePath: string) { return filePath.endsWith('.astro') ? 'astro' : null; }
+  async extractComponents() { return []; }
+  validateCode() { return { errors: [], warnings: [] }; }
+  generateExamples() { return []; }
+  isValidComponent() { return true; }
+}
+`,
+  // ComponentValidator（クラスではなくオブジェクトのエクスポート）
+  'validators/naming.js': `exports.naming = {
+  validate(component) {
+    return /^[A-Z]/.test(component.componentName) ? {} : { warnings: [{ message: 'Component names should be PascalCase' }] };
+  },
+};
+`,
+};
+
+describe('PluginLoader', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'plugins-'));
+    for (const [file, source] of Object.entries(pluginSources)) {
+      fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+      fs.writeFileSync(path.join(dir, file), source);
+    }
+    fs.writeFileSync(path.join(dir, 'design-system.config.js'), `module.exports = {
+  styleSystem: 'emotion',
+  extensions: {
+    customPlatforms: { astro: { name: 'Astro', styleExtractor: './plugins/astro' } },
+    customStyleSystems: {
+      emotion: { name: 'Emotion', extractor: './plugins/emotion' },
+      stitches: { name: 'Stitches', extractor: './plugins/stitches.mjs' },
+      'vanilla-extract': { name: 'vanilla-extract', extractor: './plugins/vanilla' },
+      broken: { name: 'Broken', extractor: './plugins/broken' },
+      missing: { name: 'Missing', extractor: './plugins/missing' },
+    },
+    customValidators: {},
+    customGenerators: {},
+  },
+};
+`);
+    await ConfigManager.getInstance().loadConfig(path.join(dir, 'design-system.config.js'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should load CommonJS, ESM and TypeScript style extractors relative to the config file', () => {
+    const config = { sourceDir: dir };
+
+    const emotion = StyleExtractorFactory.createExtractor('emotion', config);
+    expect(emotion.extractStyles({ css: 'color: red;' })).toEqual([{ type: 'styled-component', value: 'color: red;' }]);
+    expect((emotion as any).config).toBe(config);
+
+    const stitches = StyleExtractorFactory.createExtractor('stitches', config);
+    expect(stitches.generateExamples([{ type: 'styled-component', value: 'padding: 4px;' }])).toBe('padding: 4px;');
+
+    const vanilla = StyleExtractorFactory.createExtractor('vanilla-extract', config);
+    expect(vanilla.extractStyles({ css: 'button' })).toEqual([{ type: 'className', value: 'vanilla_button' }]);
+  });
+
+  it('should prefer configured custom style systems over the built-in extractors of the same name', () => {
+    const emotion = StyleExtractorFactory.createExtractor('emotion', { sourceDir: dir });
+
+    expect(emotion).not.toBeInstanceOf(EmotionExtractor);
+    expect(emotion.constructor.name).toBe('EmotionExtractor');
+    expect(emotion.generateExamples([{ type: 'styled-component', value: 'margin: 0;' }])).toBe('margin: 0;');
+  });
+
+  it('should report missing modules and unimplemented methods', () => {
+    expect(() => StyleExtractorFactory.createExtractor('missing', { sourceDir: dir })).toThrow(
+      `Failed to load custom style extractor for 'missing': Cannot find StyleExtractor plugin './plugins/missing' (resolved from ${dir}).`
+    );
+    expect(() => StyleExtractorFactory.createExtractor('broken', { sourceDir: dir })).toThrow(
+      "StyleExtractor plugin './plugins/broken' does not export a valid StyleExtractor: missing validateStyles."
+    );
+  });
+
+  it('should check the PlatformExtractor properties of custom platforms', () => {
+    expect(() => PlatformExtractorFactory.createExtractor('astro', { sourceDir: dir })).toThrow(
+      "PlatformExtractor plugin './plugins/astro' is missing required properties: filePatterns."
+    );
+  });
+
+  it('should use an exported object that implements the contract as is', () => {
+    const validator = PluginLoader.instantiate<ComponentValidator>(
+      './validators/naming',
+      { name: 'ComponentValidator', methods: ['validate'] },
+      [],
+      dir
+    );
+
+    expect(validator.validate({ componentName: 'button' } as any).warnings).toEqual([{ message: 'Component names should be PascalCase' }]);
+    expect(validator.validate({ componentName: 'Button' } as any)).toEqual({});
+  });
+});
@@ -0,0 +1,113 @@
+import { PropExtractor } from '../../extractors/ast/PropExtractor';
+
+const { parse } = jest.requireActual('@typescript-eslint/typescript-estree');
+
+const parseSource = (code: string) => parse(code, { jsx: true, loc: true, range: true, comment: true });
+
+// TypeScriptプログラムの構築を避けるため型解決はモック
+jest.mock('../../extractors/ast/TypeResolver', () => ({
+  TypeResolver: jest.fn().mockImplementation(() => ({
+    resolveParameterProps: jest.fn(() => null),
+    resolveCallSignatures: jest.fn(() => null)
+  }))
+}));
+
+describe('PropExtractor', () => {
+  let extractor: PropExtractor;
+
+  beforeEach(() => {
+    extractor = new PropExtractor();
+  });
+
+  describe('extractForwardedProps', () => {
+    it('should detect rest props spread onto an intrinsic element', () => {
+      const ast = parseSource(`
+        export const Button = ({ variant = 'primary', ...rest }) => (
+          <button className={variant} {...rest} />
+        );
+      `);
+
+      expect(extractor.extractForwardedProps(ast, 'Button')).toEqual([
+        { source: 'rest', target: 'button', intrinsic: true },
+      ]);
+    });
+
+    it('should follow rest props destructured inside the body to child components', () => {
+      const ast = parseSource(`
+        export function IconButton(props) {
+          const { label, ...iconProps } = props;
+          return (
+            <Menu.Item>
+              <Icon {...iconProps} />
+              <Icon {...iconProps} />
+              {label}
+            </Menu.Item>
+          );
+        }
+      `);
+
+      expect(extractor.extractForwardedProps(ast, 'IconButton')).toEqual([
+        { source: 'iconProps', target: 'Icon', intrinsic: false },
+      ]);
+    });
+
+    it('should treat spreading the whole props object as forwarding', () => {
+      const ast = parseSource(`
+        export const Field = React.forwardRef((props, ref) => <input ref={ref} {...props} />);
+      `);
+
+      expect(extractor.extractForwardedProps(ast, 'Field')).toEqual([
+        { source: 'props', target: 'input', intrinsic: true },
+      ]);
+    });
+
+    it('should ignore spreads of unrelated objects', () => {
+      const ast = parseSource(`
+        export const Link = ({ href }) => {
+          const aria = { role: 'link' };
+          return <a href={href} {...aria} />;
+        };
+      `);
+
+      expect(extractor.extractForwardedProps(ast, 'Link')).toEqual([]);
+    });
+  });
+
+  describe('extractEvents', () => {
+    it('should attach callback signatures and invocations to event props', () => {
+      const ast = parseSource(`
+        interface ToggleProps {
+          checked?: boolean;
+          onCheckedChange?: (checked: boolean) => void;
+        }
+        export const Toggle = ({ checked = false, onCheckedChange, onHover }: ToggleProps) => (
+          <button onClick={() => onCheckedChange?.(!checked)} onMouseEnter={onHover} />
+        );
+      `);
+      const props = [
+        { name: 'checked', type: 'any', required: false, defaultValue: 'false' },
+        { name: 'onCheckedChange', type: 'any', required: true },
+        { name: 'onHover', type: 'any', required: true },
+      ];
+
+      const [checked, onCheckedChange, onHover] = extractor.extractEvents(ast, 'Toggle', props);
+
+      expect(checked).toEqual(props[0]);
+      expect(onCheckedChange).toEqual({
+        name: 'onCheckedChange',
+        type: '(checked: boolean) => void',
+        required: true,
+        event: {
+          parameters: [{ name: 'checked', type: 'boolean', optional: false }],
+          returnType: 'void',
+          invocations: [['!checked']],
+          forwardedTo: [],
+        },
+      });
+      expect(onHover).toEqual({
+        ...props[2],
+        event: { parameters: [], invocations: [], forwardedTo: ['button'] },
+      });
+    });
+  });
+});
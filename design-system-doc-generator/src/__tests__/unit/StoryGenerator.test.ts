@@ -0,0 +1,57 @@
+import * as path from 'path';
+import { StoryGenerator, GENERATED_STORY_MARKER } from '../../generators/document/StoryGenerator';
+import { createComponent } from '../helpers/createComponent';
+
+const fixtureDir = path.join(__dirname, '../fixtures');
+
+describe('StoryGenerator', () => {
+  const generator = new StoryGenerator();
+  const options = { sourceDir: fixtureDir, outputDir: path.join(fixtureDir, 'generated-stories') };
+
+  const button = createComponent({
+    filePath: path.join(fixtureDir, 'Button.tsx'),
+    componentName: 'Button',
+    props: [
+      { name: 'children', type: 'ReactNode', required: true },
+      { name: 'onClick', type: '() => void', required: false },
+      { name: 'disabled', type: 'boolean', required: false, defaultValue: 'false' },
+      { name: 'variant', type: '"primary" | "secondary"', required: false, defaultValue: 'primary' },
+      { name: 'size', type: 'any', required: false, defaultValue: 'md' },
+    ],
+    conditionalClasses: [{ prop: 'size', values: { sm: ['text-sm'], md: ['text-base'], lg: ['text-lg'] } }],
+  });
+
+  it('should build argTypes controls and one story per variant value and state', async () => {
+    const [file] = await generator.generate([button], options);
+
+    expect(file.filePath).toBe(path.join(options.outputDir, 'Button.stories.tsx'));
+    expect(file.stories).toEqual(['Default', 'Disabled', 'VariantSecondary', 'SizeSm', 'SizeLg']);
+    expect(file.content.split('\n')[0]).toContain(GENERATED_STORY_MARKER);
+    expect(file.content).toContain("import Button from '../Button';");
+    expect(file.content).toContain("  title: 'Atoms/Button',");
+    expect(file.content).toContain("  args: {\n    children: <div>コンテンツ</div>,\n  },");
+    expect(file.content).toContain("    onClick: { action: 'onClick', description: 'クリック時のイベントハンドラ' },");
+    expect(file.content).toContain(
+      "    variant: { control: { type: 'radio' }, options: ['primary', 'secondary'], description: 'コンポーネントのバリアント', table: { defaultValue: { summary: 'primary' } } },"
+    );
+    expect(file.content).toContain("    size: { control: { type: 'radio' }, options: ['sm', 'md', 'lg'],");
+    expect(file.content).toContain("export const Disabled: Story = {\n  args: {\n    disabled: true,\n  },\n};");
+    expect(file.content).toContain("export const SizeLg: Story = {\n  args: {\n    size: 'lg',\n  },\n};");
+    expect(file.validation.isValid).toBe(true);
+  });
+
+  it('should skip components that already have stories', async () => {
+    const withStories = { ...button, stories: [{ filePath: 'Button.stories.tsx', args: {}, argTypes: {}, stories: [] }] };
+    const uiButton = createComponent({
+      filePath: path.join(fixtureDir, 'composition/ui/Button.tsx'),
+      componentName: 'Button',
+      props: [{ name: 'shadow', type: 'boolean', required: false, defaultValue: 'true' }],
+    });
+
+    const files = await generator.generate([withStories, uiButton], options);
+
+    expect(files.map(file => file.filePath)).toEqual([path.join(options.outputDir, 'composition/ui/Button.stories.tsx')]);
+    expect(files[0].content).toContain("import { Button } from '../../../composition/ui/Button';");
+    expect(files[0].stories).toEqual(['Default', 'NoShadow']);
+  });
+});
@@ -0,0 +1,73 @@
+import * as path from 'path';
+import { StoryReader } from '../../core/StoryReader';
+import { ComponentDocumentGenerator } from '../../generators/document/ComponentDocumentGenerator';
+import { createComponent } from '../helpers/createComponent';
+
+const fixtureDir = path.join(__dirname, '../fixtures');
+
+describe('StoryReader', () => {
+  const reader = new StoryReader();
+  const button = createComponent({
+    filePath: path.join(fixtureDir, 'Button.tsx'),
+    componentName: 'Button',
+    props: [
+      { name: 'children', type: 'ReactNode', required: true },
+      { name: 'variant', type: '"primary" | "secondary"', required: false },
+    ],
+  });
+  const card = createComponent({ filePath: path.join(fixtureDir, 'Card.tsx'), componentName: 'Card', category: 'molecules' });
+  const storyFiles = [path.join(fixtureDir, 'stories/Button.stories.tsx'), path.join(fixtureDir, 'stories/Card.stories.tsx')];
+
+  it('should read CSF3 stories and expand args into the rendered JSX', async () => {
+    const [linkedButton] = await reader.attachStories([button, card], storyFiles);
+
+    expect(linkedButton.stories).toHaveLength(1);
+    const [stories] = linkedButton.stories!;
+    expect(stories.title).toBe('Atoms/Button');
+    expect(stories.args).toEqual({ children: "'Click me'" });
+    expect(stories.argTypes).toEqual({
+      variant: { control: 'select', options: ['primary', 'secondary'], description: 'ボタンの見た目', defaultValue: 'primary' },
+      size: { control: 'radio', options: ['sm', 'md', 'lg'] },
+    });
+    expect(stories.stories.map(story => [story.exportName, story.name, story.code])).toEqual([
+      ['Primary', 'Primary', '<Button variant="primary">Click me</Button>'],
+      ['DisabledSecondary', '無効（セカンダリ）', '<Button variant="secondary" disabled>Click me</Button>'],
+      ['WithIcon', 'With Icon', expect.stringContaining('<Button children="Click me" size="lg" onClick={() => alert(\'clicked\')}>')],
+    ]);
+  });
+
+  it('should read CSF2 templates, assigned args and story functions', async () => {
+    const [, linkedCard] = await reader.attachStories([button, card], storyFiles);
+
+    const stories = linkedCard.stories![0].stories;
+    expect(stories.map(story => [story.exportName, story.name, story.args, story.code])).toEqual([
+      ['Default', 'Default', { children: "'Content'" }, '<Card children="Content" />'],
+      ['Flat', '影なし', { shadow: 'false', padding: "'sm'" }, '<Card shadow={false} padding="sm" />'],
+      ['WithHeader', 'With Header', {}, expect.stringMatching(/^<Card padding="lg">\s*<h2>Title<\/h2>\s*<\/Card>$/)],
+    ]);
+  });
+
+  it('should skip story files whose component is not documented', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const [linkedCard] = await reader.attachStories([card], storyFiles);
+
+    expect(linkedCard.stories).toHaveLength(1);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Button.stories.tsx'));
+    warn.mockRestore();
+  });
+
+  it('should use stories in place of synthetic examples', async () => {
+    const [linkedButton] = await reader.attachStories([button], storyFiles.slice(0, 1));
+
+    const doc = new ComponentDocumentGenerator().generateComponentDoc(linkedButton, [linkedButton], { includeExamples: true, outputFormat: 'json' });
+
+    expect(doc.examples.map(example => example.title)).toEqual([
+      'ストーリー: Primary',
+      'ストーリー: 無効（セカンダリ）',
+      'ストーリー: With Icon',
+    ]);
+    expect(doc.examples[0].description).toContain('Atoms/Button / Primary（Button.stories.tsx）');
+    expect(doc.props.find(prop => prop.name === 'variant')?.description).toBe('ボタンの見た目');
+  });
+});
@@ -3,10 +3,30 @@ import {
   TailwindStyleExtractor, 
   StyleSheetExtractor,
   StyledComponentsExtractor,
-  CSSModulesExtractor
+  CSSModulesExtractor,
+  EmotionExtractor,
+  StitchesExtractor,
+  VanillaExtractExtractor,
+  StyleExtractor
 } from '../../extractors/StyleExtractorFactory';
 import { ConfigManager } from '../../config/ConfigManager';
 import { Platform } from '../../types';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+const { parse } = jest.requireActual('@typescript-eslint/typescript-estree');
+
+// ソースをパースし、TailwindExtractorと同様に全ノードを走査して抽出
+const extractFromSource = (extractor: StyleExtractor, source: string, filePath?: string) => {
+  const styles: any[] = [];
+  const traverse = (node: any) => {
+    if (!node || typeof node !== 'object') return;
+    styles.push(...extractor.extractStyles(node, filePath));
+    Object.values(node).forEach(value => typeof value === 'object' && traverse(value));
+  };
+  traverse(parse(source, { jsx: true, range: true }));
+  return styles;
+};
 
 // ConfigManagerのモック
 jest.mock('../../config/ConfigManager', () => ({
@@ -54,6 +74,12 @@ describe('StyleExtractorFactory', () => {
       expect(extractor).toBeInstanceOf(CSSModulesExtractor);
     });
 
+    it('should create CSS-in-JS extractors for emotion, stitches and vanilla-extract', () => {
+      expect(StyleExtractorFactory.createExtractor('emotion', mockConfig)).toBeInstanceOf(EmotionExtractor);
+      expect(StyleExtractorFactory.createExtractor('stitches', mockConfig)).toBeInstanceOf(StitchesExtractor);
+      expect(StyleExtractorFactory.createExtractor('vanilla-extract', mockConfig)).toBeInstanceOf(VanillaExtractExtractor);
+    });
+
     it('should throw error for unsupported style system', () => {
       expect(() => {
         StyleExtractorFactory.createExtractor('unknown-system', mockConfig);
@@ -287,29 +313,76 @@ describe('StyledComponentsExtractor', () => {
   });
 
   describe('extractStyles', () => {
-    it('should extract styled-components template literal', () => {
-      const node = {
-        type: 'TaggedTemplateExpression',
-        tag: {
-          type: 'MemberExpression',
-          object: { name: 'styled' },
-          property: { name: 'div' }
+    it('should parse the template CSS into declarations, token references and prop-conditional styles', () => {
+      const styles = extractFromSource(extractor, `
+import styled, { css } from 'styled-components';
+
+const focusRing = css\`
+  outline: 2px solid \${({ theme }) => theme.colors.focus};
+\`;
+
+export const Button = styled.button.attrs({ type: 'button' })<{ $size?: 'sm' | 'lg'; disabled?: boolean }>\`
+  color: \${({ theme }) => theme.colors.primary};
+  \${focusRing}
+  padding: \${({ $size }) => $size === 'sm' ? '4px' : '8px'};
+  &:hover { opacity: 0.8; }
+  @media (max-width: 600px) { width: 100%; }
+  \${props => props.disabled && css\`
+    cursor: not-allowed;
+  \`}
+\`;
+`);
+
+      expect(styles.map(style => style.name)).toEqual(['focusRing', 'Button']);
+      expect(styles[1]).toEqual({
+        type: 'styled-component',
+        value: expect.stringContaining('&:hover { opacity: 0.8; }'),
+        name: 'Button',
+        source: 'styled.button',
+        imports: ['styled-components'],
+        declarations: [
+          { property: 'color', value: '${theme.colors.primary}', token: 'colors.primary' },
+          { property: 'opacity', value: '0.8', selector: '&:hover' },
+          { property: 'width', value: '100%', selector: '@media (max-width: 600px)' },
+        ],
+        variants: {
+          $size: {
+            sm: [{ property: 'padding', value: '4px' }],
+            default: [{ property: 'padding', value: '8px' }],
+          },
+          disabled: {
+            true: [{ property: 'cursor', value: 'not-allowed' }],
+          },
         },
-        quasi: {
-          quasis: [
-            { value: { raw: 'padding: 16px; background-color: blue;' } }
-          ]
-        }
-      };
-
-      const styles = extractor.extractStyles(node);
+      });
+      expect(extractor.generateExamples(styles.slice(1))).toBe(
+        "import styled from 'styled-components';\n\nconst Button = styled.button`\n  color: ${theme.colors.primary};\n`;\n\n<Button $size=\"sm\">Example</Button>"
+      );
+    });
+  });
 
-      expect(styles).toHaveLength(1);
-      expect(styles[0]).toEqual({
-        type: 'styled-component',
-        value: 'padding: 16px; background-color: blue;',
-        imports: ['styled-components']
+  describe('validateStyles', () => {
+    it('should report empty and invalid values and duplicate declarations', () => {
+      const result = extractor.validateStyles([], {
+        type: 'styled-components',
+        declarations: {
+          Card: [
+            { property: 'color', value: '' },
+            { property: 'margin', value: '4px' },
+            { property: 'margin', value: '8px' },
+          ],
+        },
+        variants: {
+          Card: { size: { sm: [{ property: 'padding', value: '${undefined}px' }] } },
+        },
       });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual([
+        { message: "Empty value for 'color' in Card", code: 'EMPTY_DECLARATION_VALUE' },
+        { message: "Invalid value '${undefined}px' for 'padding' in Card (size: sm)", code: 'INVALID_DECLARATION_VALUE' },
+      ]);
+      expect(result.warnings).toEqual([{ message: "Duplicate declaration of 'margin' in Card", code: 'DUPLICATE_DECLARATION' }]);
     });
   });
 
@@ -327,4 +400,323 @@ describe('StyledComponentsExtractor', () => {
       expect(example).toContain('padding: 16px; background-color: blue;');
     });
   });
-});
\ No newline at end of file
+});
+describe('EmotionExtractor', () => {
+  const source = `
+import styled from '@emotion/styled';
+import { css } from '@emotion/react';
+
+const theme = { colors: { primary: '#2563eb' }, space: { 2: '8px' } };
+
+export const Button = styled.button\`
+  color: \${({ theme }) => theme.colors.primary};
+  padding: 8px;
+  &:hover { opacity: 0.8; }
+  @media (min-width: 768px) { padding: 12px; }
+\`;
+
+const card = css({ backgroundColor: '#2563eb', ':hover': { boxShadow: 'none' } });
+
+export const Title = () => (
+  <h1 css={theme => ({ fontSize: 24, color: theme.colors.primary })} sx={{ mt: 2 }}>Title</h1>
+);
+`;
+
+  it('should parse css templates, object styles and the css / sx props', () => {
+    const styles = extractFromSource(new EmotionExtractor({ sourceDir: './src' }), source);
+
+    expect(styles).toEqual([
+      {
+        type: 'styled-component',
+        value: expect.stringContaining('color: ${theme.colors.primary};'),
+        name: 'Button',
+        source: 'styled.button',
+        imports: ['@emotion/styled'],
+        declarations: [
+          { property: 'color', value: '${theme.colors.primary}', token: 'colors.primary' },
+          { property: 'padding', value: '8px', token: 'space.2' },
+          { property: 'opacity', value: '0.8', selector: '&:hover' },
+          { property: 'padding', value: '12px', selector: '@media (min-width: 768px)' },
+        ],
+      },
+      {
+        type: 'styled-component',
+        value: { 'background-color': '#2563eb' },
+        name: 'card',
+        source: 'css',
+        imports: ['@emotion/react'],
+        declarations: [
+          { property: 'background-color', value: '#2563eb', token: 'colors.primary' },
+          { property: 'box-shadow', value: 'none', selector: ':hover' },
+        ],
+      },
+      {
+        type: 'inline',
+        value: { 'font-size': '24', color: '${theme.colors.primary}' },
+        source: 'css prop',
+        imports: ['@emotion/react'],
+        declarations: [
+          { property: 'font-size', value: '24' },
+          { property: 'color', value: '${theme.colors.primary}', token: 'colors.primary' },
+        ],
+      },
+      {
+        type: 'inline',
+        value: { mt: '2' },
+        source: 'sx prop',
+        declarations: [{ property: 'mt', value: '2' }],
+      },
+    ]);
+  });
+
+  it('should generate an example from the styled component', () => {
+    const extractor = new EmotionExtractor({ sourceDir: './src' });
+    const example = extractor.generateExamples(extractFromSource(extractor, source));
+
+    expect(example).toContain("import styled from '@emotion/styled';");
+    expect(example).toContain('const Button = styled.button`\n  color: ${theme.colors.primary};\n  padding: 8px;\n`;');
+  });
+
+  it('should attribute prop-conditional css templates to variants instead of separate styles', () => {
+    const styles = extractFromSource(new EmotionExtractor({ sourceDir: './src' }), `
+import styled from '@emotion/styled';
+import { css } from '@emotion/react';
+
+export const Label = styled.span\`
+  color: gray;
+  \${({ active }) => active && css\`font-weight: bold;\`}
+\`;
+`);
+
+    expect(styles).toHaveLength(1);
+    expect(styles[0]).toMatchObject({
+      name: 'Label',
+      source: 'styled.span',
+      declarations: [{ property: 'color', value: 'gray' }],
+      variants: { active: { true: [{ property: 'font-weight', value: 'bold' }] } },
+    });
+  });
+});
+
+describe('StitchesExtractor', () => {
+  const source = `
+import { createStitches } from '@stitches/react';
+
+export const { styled, css } = createStitches({ theme: { colors: { primary: 'blue' }, space: { 1: '4px' } } });
+
+export const Button = styled('button', {
+  backgroundColor: '$primary',
+  padding: '$space$1',
+  color: 'blue',
+  '&:hover': { opacity: 0.9 },
+  variants: {
+    size: {
+      sm: { fontSize: '$1' },
+      lg: { fontSize: '$3', padding: '$2' },
+    },
+    outlined: { true: { border: '1px solid $primary' } },
+  },
+  defaultVariants: { size: 'sm' },
+});
+`;
+
+  it('should parse styled configs with variants and map tokens by scale', () => {
+    const [button] = extractFromSource(new StitchesExtractor({ sourceDir: './src' }), source);
+
+    expect(button).toMatchObject({
+      type: 'styled-component',
+      name: 'Button',
+      source: "styled('button')",
+      declarations: [
+        { property: 'background-color', value: '$primary', token: 'colors.primary' },
+        { property: 'padding', value: '$space$1', token: 'space.1' },
+        { property: 'color', value: 'blue', token: 'colors.primary' },
+        { property: 'opacity', value: '0.9', selector: '&:hover' },
+      ],
+      variants: {
+        size: {
+          sm: [{ property: 'font-size', value: '$1', token: 'fontSizes.1' }],
+          lg: [
+            { property: 'font-size', value: '$3', token: 'fontSizes.3' },
+            { property: 'padding', value: '$2', token: 'space.2' },
+          ],
+        },
+        outlined: { true: [{ property: 'border', value: '1px solid $primary' }] },
+      },
+      defaultVariants: { size: 'sm' },
+    });
+  });
+
+  it('should generate a styled example using the default variant', () => {
+    const extractor = new StitchesExtractor({ sourceDir: './src' });
+    const example = extractor.generateExamples(extractFromSource(extractor, source));
+
+    expect(example).toContain("const Button = styled('button', {\n  backgroundColor: '$primary',");
+    expect(example).toContain("    size: {\n      sm: {\n        fontSize: '$1',\n      },");
+    expect(example).toContain('<Button size="sm">Example</Button>');
+  });
+});
+
+describe('VanillaExtractExtractor', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vanilla-'));
+    fs.writeFileSync(path.join(dir, 'theme.css.ts'), `
+import { createGlobalTheme } from '@vanilla-extract/css';
+export const vars = createGlobalTheme(':root', { color: { brand: '#7c3aed' }, space: { small: '4px' } });
+`);
+    fs.writeFileSync(path.join(dir, 'button.css.ts'), `
+import { style, styleVariants } from '@vanilla-extract/css';
+import { recipe } from '@vanilla-extract/recipes';
+import { vars } from './theme.css';
+
+export const label = style({
+  color: vars.color.brand,
+  padding: '4px',
+  selectors: { '&:focus-visible': { outline: 'none' } },
+  '@media': { 'screen and (min-width: 768px)': { padding: 8 } },
+});
+
+export const tone = styleVariants({ quiet: { opacity: 0.6 }, loud: [label, { fontWeight: 700 }] });
+
+export const button = recipe({
+  base: { borderRadius: 6 },
+  variants: { size: { sm: { padding: vars.space.small }, lg: { padding: '12px' } } },
+  defaultVariants: { size: 'lg' },
+});
+`);
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should read the styles imported from .css.ts files', () => {
+    const extractor = new VanillaExtractExtractor({ sourceDir: dir });
+    const styles = extractFromSource(
+      extractor,
+      `import { button, label } from './button.css';\nexport const Button = () => <button className={button({ size: 'sm' })} />;`,
+      path.join(dir, 'Button.tsx')
+    );
+
+    expect(styles.map(style => style.name)).toEqual(['label', 'button']);
+    expect(styles[0]).toEqual({
+      type: 'className',
+      value: { color: '${vars.color.brand}', padding: '4px' },
+      name: 'label',
+      source: 'button.css.ts',
+      imports: ['@vanilla-extract/css'],
+      declarations: [
+        { property: 'color', value: '${vars.color.brand}', token: 'color.brand' },
+        { property: 'padding', value: '4px', token: 'space.small' },
+        { property: 'outline', value: 'none', selector: '&:focus-visible' },
+        { property: 'padding', value: '8', selector: '@media screen and (min-width: 768px)' },
+      ],
+    });
+    expect(styles[1]).toMatchObject({
+      name: 'button',
+      declarations: [{ property: 'border-radius', value: '6' }],
+      variants: {
+        size: {
+          sm: [{ property: 'padding', value: '${vars.space.small}', token: 'space.small' }],
+          lg: [{ property: 'padding', value: '12px' }],
+        },
+      },
+      defaultVariants: { size: 'lg' },
+      imports: ['@vanilla-extract/recipes'],
+    });
+    expect(extractor.generateExamples(styles.slice(1))).toBe(
+      "import { button } from './button.css';\n\n<div className={button({ size: 'lg' })}>Example</div>"
+    );
+  });
+
+  it('should name styleVariants after the variable', () => {
+    const extractor = new VanillaExtractExtractor({ sourceDir: dir });
+    const [tone] = extractFromSource(extractor, `import * as styles from './button.css';`, path.join(dir, 'Button.tsx'))
+      .filter(style => style.name === 'tone');
+
+    expect(tone.variants).toEqual({
+      tone: {
+        quiet: [{ property: 'opacity', value: '0.6' }],
+        loud: [{ property: 'font-weight', value: '700' }],
+      },
+    });
+  });
+});
+
+describe('CSSModulesExtractor', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'css-modules-'));
+    fs.writeFileSync(path.join(dir, 'shared.module.css'), `.focusRing { outline: 2px solid var(--color-focus); }\n`);
+    fs.writeFileSync(path.join(dir, 'Button.module.scss'), `
+$radius: 6px;
+
+.button {
+  composes: focusRing from './shared.module.css';
+  border-radius: $radius;
+  &:hover { opacity: 0.8; }
+  @media (max-width: 600px) { padding: 4px; }
+}
+
+.primary-button {
+  composes: button;
+  background-color: #0066ff;
+}
+`);
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should attach the declarations of the imported stylesheet to each referenced class', () => {
+    const extractor = new CSSModulesExtractor({ sourceDir: dir });
+    const styles = extractFromSource(
+      extractor,
+      `import css from './Button.module.scss';
+export const Button = () => <button className={[css.primaryButton, css['button'], css.ghost].join(' ')} />;`,
+      path.join(dir, 'Button.tsx')
+    );
+
+    expect(styles).toEqual([
+      {
+        type: 'className',
+        value: 'primary-button',
+        source: 'Button.module.scss',
+        imports: ['./Button.module.scss'],
+        declarations: [
+          { property: 'outline', value: '2px solid var(--color-focus)', token: '--color-focus' },
+          { property: 'border-radius', value: '6px', token: '$radius' },
+          { property: 'opacity', value: '0.8', selector: '&:hover' },
+          { property: 'padding', value: '4px', selector: '@media (max-width: 600px)' },
+          { property: 'background-color', value: '#0066ff' },
+        ],
+      },
+      expect.objectContaining({ value: 'button', source: 'Button.module.scss' }),
+      { type: 'className', value: 'ghost', source: 'Button.module.scss', imports: ['./Button.module.scss'], missing: true },
+    ]);
+    expect(extractor.generateExamples(styles)).toBe(
+      "import styles from './Button.module.scss';\n\n<div className={styles['primary-button']}>Example</div>"
+    );
+  });
+
+  it('should report referenced classes that are not defined in the stylesheet', () => {
+    const extractor = new CSSModulesExtractor({ sourceDir: dir });
+    const result = extractor.validateStyles([], {
+      type: 'css-modules',
+      classes: ['button', 'ghost'],
+      missingClasses: ['ghost'],
+      imports: ['./Button.module.scss'],
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual([{
+      message: "CSS Modules class 'ghost' is not defined in ./Button.module.scss",
+      code: 'UNDEFINED_CSS_MODULE_CLASS',
+    }]);
+    expect(extractor.validateStyles(['p-4']).isValid).toBe(true);
+  });
+});
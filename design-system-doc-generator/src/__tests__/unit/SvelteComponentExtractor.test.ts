@@ -0,0 +1,150 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SvelteComponentExtractor } from '../../extractors/ast/SvelteComponentExtractor';
+import { PlatformExtractorFactory, SveltePlatformExtractor } from '../../extractors/PlatformExtractorFactory';
+import { ComponentDocumentGenerator } from '../../generators/document/ComponentDocumentGenerator';
+
+const fixtureDir = path.join(__dirname, '../fixtures/svelte');
+
+describe('SvelteComponentExtractor', () => {
+  const extractor = new SvelteComponentExtractor();
+  const extract = (fileName: string) => {
+    const filePath = path.join(fixtureDir, fileName);
+    return extractor.extract(filePath, fs.readFileSync(filePath, 'utf-8'), fixtureDir)!;
+  };
+
+  it('should extract export let props, dispatched and forwarded events and slots (Svelte 4)', () => {
+    const component = extract('Toggle.svelte');
+
+    expect(component.componentName).toBe('Toggle');
+    expect(component.platform).toBe('svelte');
+    expect(component.docs?.description).toBe('オン・オフを切り替えるスイッチ');
+    expect(component.dependencies).toEqual(['svelte', './Icon.svelte']);
+    // export const はPropではない
+    expect(component.props.map(prop => prop.name)).toEqual([
+      'checked', 'label', 'size', 'disabled', 'class', 'on:change', 'on:focus', 'children', 'slot:hint',
+    ]);
+
+    expect(component.props.slice(0, 5)).toEqual([
+      { name: 'checked', type: 'boolean', required: false, defaultValue: 'false', docs: { description: '現在の状態' } },
+      { name: 'label', type: 'string', required: true, docs: { description: 'ラベル' } },
+      { name: 'size', type: 'ToggleSize', required: false, defaultValue: "'md'" },
+      { name: 'disabled', type: 'boolean', required: false, defaultValue: 'false' },
+      { name: 'class', type: 'string', required: false, defaultValue: "''" },
+    ]);
+
+    expect(component.props.find(prop => prop.name === 'on:change')).toEqual({
+      name: 'on:change',
+      type: '(event: CustomEvent<boolean>) => void',
+      required: false,
+      event: {
+        parameters: [{ name: 'event', type: 'CustomEvent<boolean>', optional: false }],
+        returnType: 'void',
+        invocations: [['checked']],
+        forwardedTo: [],
+      },
+    });
+    expect(component.props.find(prop => prop.name === 'on:focus')?.event?.forwardedTo).toEqual(['button']);
+    expect(component.props.find(prop => prop.name === 'slot:hint')?.docs?.description).toBe('名前付きスロット「hint」（スロットProps: checked）');
+  });
+
+  it('should extract class attributes, interpolations and class: directives', () => {
+    const component = extract('Toggle.svelte');
+
+    expect(component.tailwindClasses).toEqual([
+      'bg-blue-600', 'bg-gray-200', 'gap-2', 'h-4', 'h-6', 'inline-flex', 'items-center',
+      'opacity-50', 'rounded-full', 'text-sm', 'w-11', 'w-8',
+    ]);
+    expect(component.conditionalClasses).toEqual([
+      { prop: 'checked', values: { true: ['bg-blue-600'], false: ['bg-gray-200'] } },
+      { prop: 'size', values: { sm: ['h-4', 'w-8'], md: ['h-6', 'w-11'] } },
+      { prop: 'disabled', values: { true: ['opacity-50'] } },
+    ]);
+
+    expect(component.jsxStructure).toMatchObject({ type: 'label', className: 'inline-flex items-center gap-2' });
+    expect(component.jsxStructure?.children?.[0]).toMatchObject({ type: 'button', className: 'rounded-full' });
+  });
+
+  it('should read $props() runes, callback props and $derived classes (Svelte 5)', () => {
+    const component = extract('status-badge.svelte');
+
+    expect(component.componentName).toBe('StatusBadge');
+    expect(component.docs?.description).toBe('状態を表すバッジ');
+    expect(component.props).toEqual([
+      { name: 'tone', type: "'neutral' | 'success'", required: false, defaultValue: "'neutral'", docs: { description: '表示する色' } },
+      { name: 'dismissible', type: 'boolean', required: false, defaultValue: 'false', docs: { description: 'bind: で双方向バインディング可能' } },
+      {
+        name: 'onDismiss',
+        type: '(reason: string) => void',
+        required: false,
+        event: {
+          parameters: [{ name: 'reason', type: 'string', optional: false }],
+          returnType: 'void',
+          invocations: [["'click'"]],
+          forwardedTo: ['button'],
+        },
+      },
+      { name: 'children', type: 'Snippet', required: true },
+    ]);
+    expect(component.conditionalClasses).toEqual([
+      { prop: 'tone', values: { neutral: ['bg-gray-100', 'text-gray-800'], success: ['bg-green-100', 'text-green-800'] } },
+    ]);
+  });
+});
+
+describe('SveltePlatformExtractor', () => {
+  it('should be created by the factory and detect *.svelte files', async () => {
+    const extractor = PlatformExtractorFactory.createExtractor('svelte', { sourceDir: fixtureDir });
+
+    expect(extractor).toBeInstanceOf(SveltePlatformExtractor);
+    expect(PlatformExtractorFactory.detectPlatform(path.join(fixtureDir, 'Toggle.svelte'), { sourceDir: fixtureDir })).toBe('svelte');
+
+    const components = await extractor.extractComponents(path.join(fixtureDir, 'status-badge.svelte'), null);
+    expect(components.map(component => component.componentName)).toEqual(['StatusBadge']);
+    expect(extractor.validateCode('<StatusBadge className="p-4" />').errors[0].code).toBe('REACT_SPECIFIC_PROP');
+  });
+
+  it('should reject React and Vue syntax in Svelte markup', () => {
+    const extractor = PlatformExtractorFactory.createExtractor('svelte', { sourceDir: fixtureDir });
+
+    expect(extractor.validateCode('<Toggle checked={true} on:change={handleChange} />').errors).toEqual([]);
+    expect(extractor.validateCode('<Toggle :checked="true" />').errors.map(error => error.code)).toEqual(['VUE_SPECIFIC_SYNTAX']);
+    expect(extractor.validateCode('<Toggle @change="onChange" />').errors.map(error => error.code)).toEqual(['INVALID_EVENT_SYNTAX']);
+    expect(extractor.validateCode('const Example = () => <Toggle label="Label" />;').errors.map(error => error.code))
+      .toEqual(['REACT_COMPONENT_SYNTAX']);
+  });
+});
+
+describe('ComponentDocumentGenerator (Svelte)', () => {
+  it('should emit examples importing the .svelte file with Svelte markup', () => {
+    const filePath = path.join(fixtureDir, 'status-badge.svelte');
+    const component = new SvelteComponentExtractor().extract(filePath, fs.readFileSync(filePath, 'utf-8'), fixtureDir)!;
+    const doc = new ComponentDocumentGenerator().generateComponentDoc(component, [component], { includeExamples: true } as any);
+
+    expect(doc.examples[0].code).toBe([
+      '<script>',
+      "  import StatusBadge from './status-badge.svelte';",
+      '</script>',
+      '',
+      '<StatusBadge>',
+      '  コンテンツ',
+      '</StatusBadge>',
+    ].join('\n'));
+    expect(doc.examples[1]).toMatchObject({ language: 'svelte', validation: { isValid: true } });
+    expect(doc.examples[1].code).toBe([
+      '<script>',
+      "  import StatusBadge from './status-badge.svelte';",
+      '',
+      '  const handleDismiss = (reason) => {};',
+      '</script>',
+      '',
+      '<StatusBadge',
+      '  tone="neutral"',
+      '  dismissible={true}',
+      '  onDismiss={handleDismiss}',
+      '>',
+      '  コンテンツ',
+      '</StatusBadge>',
+    ].join('\n'));
+  });
+});
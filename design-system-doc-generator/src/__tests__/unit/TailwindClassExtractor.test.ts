@@ -1,4 +1,8 @@
 import { TailwindClassExtractor } from '../../extractors/ast/TailwindClassExtractor';
+import { ASTTraverser } from '../../extractors/ast/ASTTraverser';
+import { ClassCondition } from '../../types';
+
+const { parse } = jest.requireActual('@typescript-eslint/typescript-estree');
 
 describe('TailwindClassExtractor', () => {
   let extractor: TailwindClassExtractor;
@@ -164,4 +168,81 @@ describe('TailwindClassExtractor', () => {
       expect(extractor.isTailwindClass('bg-blue-')).toBe(false);
     });
   });
-});
\ No newline at end of file
+  describe('conditional classes', () => {
+    // ASTTraverser経由でclassName・switch文から条件付きクラスを収集
+    const collect = (code: string): ClassCondition[] => {
+      const conditions: ClassCondition[] = [];
+      new ASTTraverser().traverse(parse(code, { jsx: true, range: true }), {
+        onClassName: (node, bindings) => conditions.push(...extractor.extractConditionalClasses(node, bindings)),
+        onSwitch: (node) => conditions.push(...extractor.extractSwitchClasses(node)),
+      });
+      return conditions;
+    };
+
+    it('should attribute ternary branches to prop values', () => {
+      const conditions = collect(`
+        const Alert = ({ variant }) => (
+          <div className={variant === 'danger' ? 'bg-red-500 text-white' : 'bg-blue-500'} />
+        );
+      `);
+
+      expect(conditions).toEqual([
+        { prop: 'variant', value: 'danger', classes: ['bg-red-500', 'text-white'] },
+        { prop: 'variant', value: '*', classes: ['bg-blue-500'] },
+      ]);
+    });
+
+    it('should handle && expressions and clsx object keys', () => {
+      const conditions = collect(`
+        const Button = (props) => (
+          <button className={clsx('px-4', !props.disabled && 'hover:bg-gray-100', { 'opacity-50': props.disabled, 'ring-2': active })} />
+        );
+      `);
+
+      expect(conditions).toEqual([
+        { prop: 'disabled', value: 'false', classes: ['hover:bg-gray-100'] },
+        { prop: 'disabled', value: 'true', classes: ['opacity-50'] },
+        { prop: 'active', value: 'true', classes: ['ring-2'] },
+      ]);
+    });
+
+    it('should resolve lookup tables through variable declarations', () => {
+      const conditions = collect(`
+        const Badge = ({ size }) => {
+          const sizeClass = { sm: 'px-2 text-xs', lg: 'px-4 text-lg' }[size];
+          return <span className={cn('rounded', sizeClass)} />;
+        };
+      `);
+
+      expect(conditions).toEqual([
+        { prop: 'size', value: 'sm', classes: ['px-2', 'text-xs'] },
+        { prop: 'size', value: 'lg', classes: ['px-4', 'text-lg'] },
+      ]);
+    });
+
+    it('should attribute switch cases to prop values', () => {
+      const conditions = collect(`
+        const Tag = ({ tone }) => {
+          let toneClass;
+          switch (tone) {
+            case 'success':
+              toneClass = 'bg-green-100';
+              break;
+            default:
+              toneClass = 'bg-gray-100';
+          }
+          return <span className={toneClass} />;
+        };
+      `);
+
+      expect(conditions).toEqual([
+        { prop: 'tone', value: 'success', classes: ['bg-green-100'] },
+        { prop: 'tone', value: '*', classes: ['bg-gray-100'] },
+      ]);
+    });
+
+    it('should ignore unconditional classes', () => {
+      expect(collect(`const Box = () => <div className="p-4 bg-white" />;`)).toEqual([]);
+    });
+  });
+});
@@ -6,8 +6,9 @@ jest.mock('@typescript-eslint/typescript-estree', () => ({
   parseAndGenerateServices: jest.fn(),
 }));
 
-// Mock fs
+// Mock fs（パーサーが使用する同期APIは実物）
 jest.mock('fs', () => ({
+  ...jest.requireActual('fs'),
   promises: {
     readFile: jest.fn(),
   },
@@ -22,7 +23,8 @@ jest.mock('../../config/ConfigManager', () => ({
         platform: 'web',
         sourceDir: './test-fixtures',
         ignore: ['**/*.test.tsx']
-      }))
+      })),
+      getConfigDir: jest.fn(() => process.cwd())
     }))
   }
 }));
@@ -39,13 +41,19 @@ jest.mock('../../extractors/ast/ASTTraverser', () => ({
   }))
 }));
 jest.mock('../../extractors/ast/TailwindClassExtractor', () => ({
+  CLASS_UTILITIES: ['clsx', 'classnames', 'cn', 'twMerge'],
   TailwindClassExtractor: jest.fn().mockImplementation(() => ({
-    extractClasses: jest.fn()
+    extractClasses: jest.fn(),
+    extractConditionalClasses: jest.fn(() => []),
+    extractSwitchClasses: jest.fn(() => [])
   }))
 }));
 jest.mock('../../extractors/ast/PropExtractor', () => ({
   PropExtractor: jest.fn().mockImplementation(() => ({
-    extractProps: jest.fn()
+    extractProps: jest.fn(),
+    attachPropDocs: jest.fn((_ast, _name, props) => props),
+    extractEvents: jest.fn((_ast, _name, props) => props),
+    extractForwardedProps: jest.fn(() => [])
   }))
 }));
 jest.mock('../../extractors/ast/JSXStructureExtractor', () => ({
@@ -58,6 +66,23 @@ jest.mock('../../extractors/ast/ComponentCategorizer', () => ({
     categorizeComponent: jest.fn()
   }))
 }));
+jest.mock('../../extractors/ast/DocCommentExtractor', () => ({
+  DocCommentExtractor: jest.fn().mockImplementation(() => ({
+    extractComponentDoc: jest.fn()
+  }))
+}));
+jest.mock('../../extractors/ast/ClassComponentExtractor', () => ({
+  ClassComponentExtractor: jest.fn().mockImplementation(() => ({
+    extract: jest.fn(() => null)
+  }))
+}));
+jest.mock('../../extractors/ast/TypeResolver', () => ({
+  TypeResolver: jest.fn().mockImplementation(() => ({
+    getProgram: jest.fn(),
+    resolveParameterProps: jest.fn(),
+    resolveModulePath: jest.fn(() => null)
+  }))
+}));
 jest.mock('../../extractors/StyleExtractorFactory', () => ({
   StyleExtractorFactory: {
     createExtractor: jest.fn(() => ({
@@ -65,6 +90,11 @@ jest.mock('../../extractors/StyleExtractorFactory', () => ({
     }))
   }
 }));
+jest.mock('../../config/PluginLoader', () => ({
+  PluginLoader: {
+    instantiate: jest.fn()
+  }
+}));
 
 describe('TailwindExtractor', () => {
   let extractor: TailwindExtractor;
@@ -109,6 +139,7 @@ describe('TailwindExtractor', () => {
         content: mockContent,
         ast: { type: 'Program', body: [] },
         componentName: 'Button',
+        components: [{ name: 'Button', node: null }],
         isComponentFile: true
       });
 
@@ -139,9 +170,9 @@ describe('TailwindExtractor', () => {
 
       freshExtractor['categorizer'].categorizeComponent = jest.fn().mockReturnValue(undefined);
 
-      const result = await freshExtractor.extractFromFile('/test/Button.tsx');
+      const [result] = await freshExtractor.extractFromFile('/test/Button.tsx');
 
-      expect(result).not.toBeNull();
+      expect(result).toBeDefined();
       expect(result?.componentName).toBe('Button');
       expect(result?.tailwindClasses).toContain('bg-blue-500');
       expect(result?.tailwindClasses).toContain('hover:bg-blue-700');
@@ -178,6 +209,7 @@ describe('TailwindExtractor', () => {
         content: mockContent,
         ast: { type: 'Program', body: [] },
         componentName: 'Card',
+        components: [{ name: 'Card', node: null }],
         isComponentFile: true
       });
 
@@ -200,9 +232,9 @@ describe('TailwindExtractor', () => {
 
       freshExtractor['categorizer'].categorizeComponent = jest.fn().mockReturnValue(undefined);
 
-      const result = await freshExtractor.extractFromFile('/test/Card.tsx');
+      const [result] = await freshExtractor.extractFromFile('/test/Card.tsx');
 
-      expect(result).not.toBeNull();
+      expect(result).toBeDefined();
       expect(result?.componentName).toBe('Card');
       expect(result?.tailwindClasses).toContain('bg-white');
       expect(result?.tailwindClasses).toContain('border');
@@ -242,6 +274,7 @@ describe('TailwindExtractor', () => {
         content: mockContent,
         ast: { type: 'Program', body: [] },
         componentName: 'Button',
+        components: [{ name: 'Button', node: null }],
         isComponentFile: true
       });
 
@@ -271,9 +304,9 @@ describe('TailwindExtractor', () => {
 
       freshExtractor['categorizer'].categorizeComponent = jest.fn().mockReturnValue(undefined);
 
-      const result = await freshExtractor.extractFromFile('/test/Button.tsx');
+      const [result] = await freshExtractor.extractFromFile('/test/Button.tsx');
 
-      expect(result).not.toBeNull();
+      expect(result).toBeDefined();
       expect(result?.tailwindClasses).toContain('px-4');
       expect(result?.tailwindClasses).toContain('py-2');
       expect(result?.tailwindClasses).toContain('rounded');
@@ -321,6 +354,7 @@ describe('TailwindExtractor', () => {
         content: mockContent,
         ast: { type: 'Program', body: [] },
         componentName: 'Button',
+        components: [{ name: 'Button', node: null }],
         isComponentFile: true
       });
 
@@ -347,9 +381,9 @@ describe('TailwindExtractor', () => {
 
       freshExtractor['categorizer'].categorizeComponent = jest.fn().mockReturnValue(undefined);
 
-      const result = await freshExtractor.extractFromFile('/test/Button.tsx');
+      const [result] = await freshExtractor.extractFromFile('/test/Button.tsx');
 
-      expect(result).not.toBeNull();
+      expect(result).toBeDefined();
       expect(result?.props).toHaveLength(4);
       
       const childrenProp = result?.props.find(p => p.name === 'children');
@@ -371,6 +405,41 @@ describe('TailwindExtractor', () => {
       expect(variantProp?.defaultValue).toBe('primary');
     });
 
+    it('should group conditional classes by prop value', async () => {
+      const freshExtractor = new TailwindExtractor({
+        sourceDir: './test-fixtures',
+        ignore: ['**/*.test.tsx'],
+      });
+
+      freshExtractor['componentAnalyzer'].analyzeFile = jest.fn().mockResolvedValue({
+        content: 'export const Alert = () => null;',
+        ast: { type: 'Program', body: [] },
+        components: [{ name: 'Alert', node: null }],
+        isComponentFile: true
+      });
+
+      freshExtractor['astTraverser'].traverse = jest.fn().mockImplementation((ast, callbacks) => {
+        callbacks.onProp?.({ name: 'variant', type: 'any', required: false });
+        callbacks.onClassName?.({ type: 'Literal', value: 'p-4' }, new Map());
+      });
+
+      freshExtractor['tailwindExtractor'].extractClasses = jest.fn().mockReturnValue(['p-4']);
+      freshExtractor['tailwindExtractor'].extractConditionalClasses = jest.fn().mockReturnValue([
+        { prop: 'variant', value: 'danger', classes: ['text-white', 'bg-red-500'] },
+        { prop: 'variant', value: 'danger', classes: ['bg-red-500'] },
+        { prop: 'variant', value: '*', classes: ['bg-blue-500'] },
+        { prop: 'isOpen', value: 'true', classes: ['block'] },
+      ]);
+
+      const [result] = await freshExtractor.extractFromFile('/test/Alert.tsx');
+
+      // Propsに含まれない条件（ローカル変数 isOpen）は除外
+      expect(result.conditionalClasses).toEqual([
+        { prop: 'variant', values: { danger: ['bg-red-500', 'text-white'], '*': ['bg-blue-500'] } },
+      ]);
+      expect(result.tailwindClasses).toEqual(['bg-blue-500', 'bg-red-500', 'p-4', 'text-white']);
+    });
+
     it('should categorize components correctly', async () => {
       const mockContent = `
         import React from 'react';
@@ -392,6 +461,7 @@ describe('TailwindExtractor', () => {
         content: mockContent,
         ast: { type: 'Program', body: [] },
         componentName: 'Button',
+        components: [{ name: 'Button', node: null }],
         isComponentFile: true
       });
 
@@ -418,19 +488,19 @@ describe('TailwindExtractor', () => {
       });
 
       // Test atoms category
-      const atomResult = await freshExtractor.extractFromFile('/test/atoms/Button.tsx');
+      const [atomResult] = await freshExtractor.extractFromFile('/test/atoms/Button.tsx');
       expect(atomResult?.category).toBe('atoms');
 
       // Test molecules category
-      const moleculeResult = await freshExtractor.extractFromFile('/test/molecules/Card.tsx');
+      const [moleculeResult] = await freshExtractor.extractFromFile('/test/molecules/Card.tsx');
       expect(moleculeResult?.category).toBe('molecules');
 
       // Test organisms category
-      const organismResult = await freshExtractor.extractFromFile('/test/organisms/Header.tsx');
+      const [organismResult] = await freshExtractor.extractFromFile('/test/organisms/Header.tsx');
       expect(organismResult?.category).toBe('organisms');
     });
 
-    it('should return null for non-component files', async () => {
+    it('should return an empty array for non-component files', async () => {
       const mockContent = `
         export const utils = {
           formatDate: (date: Date) => date.toISOString(),
@@ -450,11 +520,12 @@ describe('TailwindExtractor', () => {
         content: mockContent,
         ast: { type: 'Program', body: [] },
         componentName: null,
+        components: [],
         isComponentFile: false
       });
 
       const result = await freshExtractor.extractFromFile('/test/utils.ts');
-      expect(result).toBeNull();
+      expect(result).toEqual([]);
     });
 
     it('should handle parsing errors gracefully', async () => {
@@ -475,7 +546,7 @@ describe('TailwindExtractor', () => {
       );
 
       const result = await extractor.extractFromFile('/test/Button.tsx');
-      expect(result).toBeNull();
+      expect(result).toEqual([]);
     });
 
     it('should ignore non-Tailwind classes', async () => {
@@ -504,6 +575,7 @@ describe('TailwindExtractor', () => {
         content: mockContent,
         ast: { type: 'Program', body: [] },
         componentName: 'Button',
+        components: [{ name: 'Button', node: null }],
         isComponentFile: true
       });
 
@@ -525,9 +597,9 @@ describe('TailwindExtractor', () => {
 
       freshExtractor['categorizer'].categorizeComponent = jest.fn().mockReturnValue(undefined);
 
-      const result = await freshExtractor.extractFromFile('/test/Button.tsx');
+      const [result] = await freshExtractor.extractFromFile('/test/Button.tsx');
 
-      expect(result).not.toBeNull();
+      expect(result).toBeDefined();
       expect(result?.tailwindClasses).toContain('px-4');
       expect(result?.tailwindClasses).toContain('py-2');
       expect(result?.tailwindClasses).not.toContain('custom-button');
@@ -560,6 +632,7 @@ describe('TailwindExtractor', () => {
         content: mockContent,
         ast: { type: 'Program', body: [] },
         componentName: 'ResponsiveButton',
+        components: [{ name: 'ResponsiveButton', node: null }],
         isComponentFile: true
       });
 
@@ -582,9 +655,9 @@ describe('TailwindExtractor', () => {
 
       freshExtractor['categorizer'].categorizeComponent = jest.fn().mockReturnValue(undefined);
 
-      const result = await freshExtractor.extractFromFile('/test/ResponsiveButton.tsx');
+      const [result] = await freshExtractor.extractFromFile('/test/ResponsiveButton.tsx');
 
-      expect(result).not.toBeNull();
+      expect(result).toBeDefined();
       expect(result?.tailwindClasses).toContain('px-4');
       expect(result?.tailwindClasses).toContain('py-2');
       expect(result?.tailwindClasses).toContain('sm:px-6');
@@ -595,6 +668,172 @@ describe('TailwindExtractor', () => {
       expect(result?.tailwindClasses).toContain('dark:bg-gray-800');
     });
 
+    it('should extract every exported component in a file', async () => {
+      const mockContent = `import React from 'react';
+export const Form = () => <form className="space-y-4" />;
+export const FormLabel = () => <label className="text-sm" />;`;
+
+      (fs.promises.readFile as jest.Mock).mockResolvedValue(mockContent);
+
+      const freshExtractor = new TailwindExtractor({
+        sourceDir: './test-fixtures',
+        ignore: ['**/*.test.tsx'],
+      });
+
+      const formNode = { type: 'VariableDeclarator', name: 'Form', range: [40, 92] };
+      const labelNode = { type: 'VariableDeclarator', name: 'FormLabel', range: [106, 160] };
+
+      freshExtractor['componentAnalyzer'].analyzeFile = jest.fn().mockResolvedValue({
+        content: mockContent,
+        ast: { type: 'Program', body: [] },
+        componentName: 'Form',
+        components: [
+          { name: 'Form', node: formNode },
+          { name: 'FormLabel', node: labelNode },
+        ],
+        isComponentFile: true
+      });
+
+      // 定義ノード毎に異なるクラスを返す
+      freshExtractor['astTraverser'].traverse = jest.fn().mockImplementation((node, callbacks) => {
+        if (callbacks.onImport) {
+          callbacks.onImport('react');
+        }
+        if (callbacks.onClassName && node.name) {
+          callbacks.onClassName({ type: 'Literal', value: node.name });
+        }
+      });
+
+      freshExtractor['tailwindExtractor'].extractClasses = jest.fn().mockImplementation(node =>
+        node.value === 'Form' ? ['space-y-4'] : ['text-sm']
+      );
+      freshExtractor['categorizer'].categorizeComponent = jest.fn().mockReturnValue('molecules');
+
+      const result = await freshExtractor.extractFromFile('/test/Form.tsx');
+
+      expect(result.map(c => c.componentName)).toEqual(['Form', 'FormLabel']);
+      expect(result[0].tailwindClasses).toEqual(['space-y-4']);
+      expect(result[1].tailwindClasses).toEqual(['text-sm']);
+      expect(result[0].dependencies).toEqual(['react']);
+      expect(result[1].dependencies).toEqual(['react']);
+      expect(result[0].hash).not.toBe(result[1].hash);
+    });
+
+    it('should record compound subcomponents on the parent component', async () => {
+      const mockContent = `import React from 'react';
+const CardHeader = () => <header className="p-2" />;
+export const Card = () => <div className="rounded" />;
+Card.Header = CardHeader;`;
+
+      (fs.promises.readFile as jest.Mock).mockResolvedValue(mockContent);
+
+      const freshExtractor = new TailwindExtractor({
+        sourceDir: './test-fixtures',
+        ignore: ['**/*.test.tsx'],
+      });
+
+      const headerNode = { type: 'VariableDeclarator', name: 'CardHeader', range: [33, 78] };
+      const cardNode = { type: 'VariableDeclarator', name: 'Card', range: [93, 131] };
+
+      freshExtractor['componentAnalyzer'].analyzeFile = jest.fn().mockResolvedValue({
+        content: mockContent,
+        ast: { type: 'Program', body: [] },
+        componentName: 'Card',
+        components: [
+          { name: 'Card', node: cardNode, subcomponents: [{ name: 'CardHeader', memberName: 'Header', node: headerNode }] },
+        ],
+        isComponentFile: true
+      });
+
+      freshExtractor['astTraverser'].traverse = jest.fn().mockImplementation((node, callbacks) => {
+        if (callbacks.onClassName && node.name) {
+          callbacks.onClassName({ type: 'Literal', value: node.name });
+        }
+      });
+      freshExtractor['tailwindExtractor'].extractClasses = jest.fn().mockImplementation(node =>
+        node.value === 'CardHeader' ? ['p-2'] : ['rounded']
+      );
+      freshExtractor['categorizer'].categorizeComponent = jest.fn().mockReturnValue('molecules');
+
+      const result = await freshExtractor.extractFromFile('/test/Card.tsx');
+
+      expect(result.map(c => c.componentName)).toEqual(['Card']);
+      expect(result[0].subcomponents?.map(c => c.componentName)).toEqual(['Card.Header']);
+      expect(result[0].subcomponents?.[0].tailwindClasses).toEqual(['p-2']);
+    });
+
+    it('should scope a wrapped component to the render function it references', async () => {
+      const { parse } = jest.requireActual('@typescript-eslint/typescript-estree');
+      const { ASTTraverser } = jest.requireActual('../../extractors/ast/ASTTraverser');
+      const { TailwindClassExtractor } = jest.requireActual('../../extractors/ast/TailwindClassExtractor');
+      const { JSXStructureExtractor } = jest.requireActual('../../extractors/ast/JSXStructureExtractor');
+      const content = `function CardBase({ title }) {
+  return <div className="rounded p-4">{title}</div>;
+}
+const CardHeader = () => <header className="font-bold" />;
+export const Card = Object.assign(memo(CardBase), { Header: CardHeader });
+export const Badge = () => <span className="text-xs" />;`;
+      const ast = parse(content, { jsx: true, range: true });
+
+      const freshExtractor = new TailwindExtractor({ sourceDir: './test-fixtures', ignore: [] });
+      freshExtractor['astTraverser'] = new ASTTraverser();
+      freshExtractor['tailwindExtractor'] = new TailwindClassExtractor();
+      freshExtractor['jsxExtractor'] = new JSXStructureExtractor();
+      freshExtractor['componentAnalyzer'].analyzeFile = jest.fn().mockResolvedValue({
+        content,
+        ast,
+        components: [
+          {
+            name: 'Card',
+            node: ast.body[2].declaration.declarations[0],
+            subcomponents: [{ name: 'CardHeader', memberName: 'Header', node: ast.body[1].declarations[0] }],
+          },
+          { name: 'Badge', node: ast.body[3].declaration.declarations[0] },
+        ],
+        isComponentFile: true
+      });
+
+      const [card, badge] = await freshExtractor.extractFromFile('/test/Card.tsx');
+
+      expect(card.tailwindClasses).toEqual(['p-4', 'rounded']);
+      expect(card.jsxStructure).toBeDefined();
+      expect(card.subcomponents?.[0].tailwindClasses).toEqual(['font-bold']);
+      expect(badge.tailwindClasses).toEqual(['text-xs']);
+    });
+
+    it('should tag each component with the platform detected from its file', async () => {
+      const nativeContent = `import { View } from 'react-native';
+export const Card = () => <View className="rounded" />;`;
+      const themedContent = `import { View } from '@/components/Themed';
+export const Card = () => <View className="rounded" />;`;
+      const webContent = `export const Card = () => <div className="rounded" />;`;
+
+      const freshExtractor = new TailwindExtractor({
+        sourceDir: './test-fixtures',
+        ignore: ['**/*.test.tsx'],
+      });
+      freshExtractor['categorizer'].categorizeComponent = jest.fn().mockReturnValue('molecules');
+
+      const extractPlatform = async (filePath: string, content: string) => {
+        freshExtractor['componentAnalyzer'].analyzeFile = jest.fn().mockResolvedValue({
+          content,
+          ast: { type: 'Program', body: [] },
+          componentName: 'Card',
+          components: [{ name: 'Card', node: null }],
+          isComponentFile: true
+        });
+        const [result] = await freshExtractor.extractFromFile(filePath);
+        return result.platform;
+      };
+
+      // 同一の実行でWeb・React Nativeのコンポーネントが混在
+      expect(await extractPlatform('/repo/apps/mobile/Card.tsx', nativeContent)).toBe('react-native');
+      expect(await extractPlatform('/repo/apps/mobile/Card.tsx', themedContent)).toBe('react-native');
+      expect(await extractPlatform('/repo/packages/ui/Card.ios.tsx', webContent)).toBe('react-native');
+      expect(await extractPlatform('/repo/packages/ui/Card.tsx', webContent)).toBe('web');
+      expect(await extractPlatform('/repo/packages/ui/Card.web.tsx', nativeContent)).toBe('web');
+    });
+
     it('should handle React Native StyleSheet extraction', async () => {
       const mockContent = `
         import React from 'react';
@@ -659,6 +898,7 @@ describe('TailwindExtractor', () => {
         content: mockContent,
         ast: { type: 'Program', body: [] },
         componentName: 'Button',
+        components: [{ name: 'Button', node: null }],
         isComponentFile: true
       });
 
@@ -672,9 +912,9 @@ describe('TailwindExtractor', () => {
       freshExtractor['tailwindExtractor'].extractClasses = jest.fn().mockReturnValue([]);
       freshExtractor['categorizer'].categorizeComponent = jest.fn().mockReturnValue('atoms');
 
-      const result = await freshExtractor.extractFromFile('/test/Button.tsx');
+      const [result] = await freshExtractor.extractFromFile('/test/Button.tsx');
 
-      expect(result).not.toBeNull();
+      expect(result).toBeDefined();
       expect(result?.componentName).toBe('Button');
       expect(result?.styleInfo.type).toBe('stylesheet');
       expect(result?.styleInfo.styles).toEqual({
@@ -683,5 +923,111 @@ describe('TailwindExtractor', () => {
       });
       expect(result?.styleInfo.imports).toContain('StyleSheet');
     });
+
+    it('should label CSS-in-JS style info with the configured style system', async () => {
+      const { ConfigManager } = require('../../config/ConfigManager');
+      ConfigManager.getInstance.mockReturnValueOnce({
+        getConfig: jest.fn(() => ({ styleSystem: 'emotion', platform: 'web' })),
+        getConfigDir: jest.fn(() => process.cwd())
+      });
+      const { StyleExtractorFactory } = require('../../extractors/StyleExtractorFactory');
+      StyleExtractorFactory.createExtractor.mockReturnValueOnce({
+        extractStyles: jest.fn((node) => node.type === 'Program' ? [{
+          type: 'styled-component',
+          value: 'color: red;',
+          name: 'Label',
+          declarations: [{ property: 'color', value: 'red' }],
+          imports: ['@emotion/styled']
+        }] : [])
+      });
+
+      const emotionExtractor = new TailwindExtractor({ sourceDir: './test-fixtures', ignore: [] });
+      emotionExtractor['componentAnalyzer'].analyzeFile = jest.fn().mockResolvedValue({
+        content: 'export const Label = styled.span`color: red;`;',
+        ast: { type: 'Program', body: [] },
+        components: [{ name: 'Label', node: null }],
+        isComponentFile: true
+      });
+      emotionExtractor['tailwindExtractor'].extractClasses = jest.fn().mockReturnValue([]);
+
+      const [result] = await emotionExtractor.extractFromFile('/test/Label.tsx');
+
+      expect(result.styleInfo.type).toBe('emotion');
+      expect(result.styleInfo.declarations).toEqual({ Label: [{ property: 'color', value: 'red' }] });
+    });
+
+    it('should scope style references to each component in a multi-component file', async () => {
+      const { parse } = jest.requireActual('@typescript-eslint/typescript-estree');
+      const content = `import styles from './Panel.module.css';
+export function Panel() {
+  return <div className={\`\${styles.base} \${styles.ghostly}\`} />;
+}
+export const Box = () => <div className={\`\${styles.base} \${styles.primary}\`} />;`;
+      const ast = parse(content, { jsx: true, range: true });
+
+      // CSS Modules の参照（ghostly はスタイルシートに定義がない）
+      const stylesheet: Record<string, string> = { base: 'block', primary: 'flex' };
+      const freshExtractor = new TailwindExtractor({ sourceDir: './test-fixtures', ignore: [] });
+      freshExtractor['styleExtractor'] = {
+        extractStyles: jest.fn((node: any) => node.type === 'MemberExpression' && node.object.name === 'styles' ? [{
+          type: 'className',
+          value: node.property.name,
+          source: 'Panel.module.css',
+          imports: ['./Panel.module.css'],
+          ...(stylesheet[node.property.name]
+            ? { declarations: [{ property: 'display', value: stylesheet[node.property.name] }] }
+            : { missing: true })
+        }] : [])
+      };
+      freshExtractor['componentAnalyzer'].analyzeFile = jest.fn().mockResolvedValue({
+        content,
+        ast,
+        components: [
+          { name: 'Panel', node: ast.body[1].declaration },
+          { name: 'Box', node: ast.body[2].declaration.declarations[0] },
+        ],
+        isComponentFile: true
+      });
+      freshExtractor['tailwindExtractor'].extractClasses = jest.fn().mockReturnValue([]);
+
+      const [panel, box] = await freshExtractor.extractFromFile('/test/Panel.tsx');
+
+      expect(panel.styleInfo.classes).toEqual(['base', 'ghostly']);
+      expect(panel.styleInfo.missingClasses).toEqual(['ghostly']);
+      expect(box.styleInfo.classes).toEqual(['base', 'primary']);
+      expect(box.styleInfo.missingClasses).toEqual([]);
+    });
+
+    it('should share only the module-level CSS-in-JS definitions a component references', async () => {
+      const { parse } = jest.requireActual('@typescript-eslint/typescript-estree');
+      const { EmotionExtractor } = jest.requireActual('../../extractors/StyleExtractorFactory');
+      const content = `const Pill = styled.span\`border-radius: 9999px;\`;
+export const Tag = () => <span css={{ color: 'red' }}>tag</span>;
+export const Chip = () => <Pill css={{ color: 'blue' }}>chip</Pill>;`;
+      const ast = parse(content, { jsx: true, range: true });
+
+      const freshExtractor = new TailwindExtractor({ sourceDir: './test-fixtures', ignore: [] });
+      freshExtractor['styleExtractor'] = new EmotionExtractor({ sourceDir: './test-fixtures', ignore: [] });
+      freshExtractor['componentAnalyzer'].analyzeFile = jest.fn().mockResolvedValue({
+        content,
+        ast,
+        components: [
+          { name: 'Tag', node: ast.body[1].declaration.declarations[0] },
+          { name: 'Chip', node: ast.body[2].declaration.declarations[0] },
+        ],
+        isComponentFile: true
+      });
+      freshExtractor['tailwindExtractor'].extractClasses = jest.fn().mockReturnValue([]);
+
+      const [tag, chip] = await freshExtractor.extractFromFile('/test/Tag.tsx');
+
+      expect(tag.styleInfo.declarations).toEqual({
+        'css prop': [{ property: 'color', value: 'red' }],
+      });
+      expect(chip.styleInfo.declarations).toEqual({
+        Pill: [{ property: 'border-radius', value: '9999px' }],
+        'css prop': [{ property: 'color', value: 'blue' }],
+      });
+    });
   });
 });
\ No newline at end of file
@@ -0,0 +1,173 @@
+import * as path from 'path';
+import { TypeResolver } from '../../extractors/ast/TypeResolver';
+import { ComponentAnalyzer } from '../../extractors/ast/ComponentAnalyzer';
+import { PropExtractor } from '../../extractors/ast/PropExtractor';
+
+const fixturesDir = path.join(__dirname, '../fixtures');
+
+describe('TypeResolver', () => {
+  let resolver: TypeResolver;
+  let analyzer: ComponentAnalyzer;
+  let propExtractor: PropExtractor;
+
+  beforeAll(() => {
+    resolver = new TypeResolver();
+    analyzer = new ComponentAnalyzer(resolver);
+    propExtractor = new PropExtractor(resolver);
+  });
+
+  const extractTypedProps = async (fileName: string, componentName: string) => {
+    const { ast, services } = await analyzer.analyzeFile(path.join(fixturesDir, fileName));
+    return propExtractor.extractTypedProps(ast, componentName, services, []);
+  };
+
+  describe('getProgram', () => {
+    it('should build a program containing the requested file', () => {
+      const filePath = path.join(fixturesDir, 'Button.tsx');
+      const program = resolver.getProgram(filePath);
+
+      expect(program).not.toBeNull();
+      expect(program!.getSourceFile(filePath)).toBeDefined();
+    });
+
+    it('should reuse the cached program for files already included', () => {
+      const filePath = path.join(fixturesDir, 'Button.tsx');
+
+      expect(resolver.getProgram(filePath)).toBe(resolver.getProgram(filePath));
+    });
+  });
+
+  describe('resolveParameterProps', () => {
+    it('should resolve props from an interface annotation', async () => {
+      const props = await extractTypedProps('Button.tsx', 'Button');
+
+      expect(props.map(p => p.name)).toEqual(['children', 'onClick', 'disabled', 'variant', 'size']);
+      expect(props.find(p => p.name === 'onClick')).toEqual({
+        name: 'onClick',
+        type: '() => void',
+        required: false,
+        defaultValue: undefined,
+      });
+      expect(props.find(p => p.name === 'variant')).toEqual({
+        name: 'variant',
+        type: '"primary" | "secondary"',
+        required: false,
+        defaultValue: 'primary',
+      });
+      expect(props.find(p => p.name === 'children')?.required).toBe(true);
+    });
+
+    it('should resolve generic and intersection props', async () => {
+      const props = await extractTypedProps('DataList.tsx', 'DataList');
+
+      expect(props).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ name: 'className', type: 'string', required: false }),
+          expect.objectContaining({ name: 'items', type: 'T[]', required: true }),
+          expect.objectContaining({ name: 'renderItem', type: '(item: T) => string', required: true }),
+          expect.objectContaining({ name: 'emptyMessage', type: 'string', required: false, defaultValue: 'No items' }),
+        ])
+      );
+    });
+
+    it('should resolve props from contextual React.FC typing', async () => {
+      const props = await extractTypedProps('DataList.tsx', 'Badge');
+
+      expect(props).toEqual([
+        expect.objectContaining({ name: 'label', type: 'string', required: true }),
+        expect.objectContaining({ name: 'tone', type: '"info" | "warning"', required: false, defaultValue: 'info' }),
+      ]);
+    });
+
+    it('should include doc comments from inherited and intersected declarations', async () => {
+      const props = await extractTypedProps('DataList.tsx', 'DataList');
+
+      expect(props.find(p => p.name === 'className')?.docs).toEqual({ description: '追加のクラス名' });
+      expect(props.find(p => p.name === 'emptyMessage')?.docs).toEqual({
+        description: '項目が空のときに表示するメッセージ',
+        defaultValue: "'No items'",
+      });
+      expect(props.find(p => p.name === 'renderItem')?.docs).toBeUndefined();
+    });
+
+    it('should parse deprecated, since and see tags', async () => {
+      const props = await extractTypedProps('DataList.tsx', 'Badge');
+
+      expect(props.find(p => p.name === 'tone')?.docs).toEqual({
+        description: '表示トーン',
+        deprecated: 'BadgeProps.label の装飾で代替してください',
+        since: '2.0.0',
+        see: ['https://example.com/badge'],
+      });
+    });
+
+    it('should return null without parser services', () => {
+      expect(resolver.resolveParameterProps({ type: 'Identifier' }, {})).toBeNull();
+    });
+  });
+
+  describe('wrapped components', () => {
+    it('should resolve props from forwardRef type arguments', async () => {
+      const props = await extractTypedProps('Input.tsx', 'Input');
+
+      expect(props).toEqual([
+        { name: 'label', type: 'string', required: true, defaultValue: undefined, docs: { description: '入力欄のラベル' } },
+        { name: 'placeholder', type: 'string', required: false, defaultValue: undefined },
+      ]);
+    });
+
+    it('should resolve props of a memoized named function expression', async () => {
+      const props = await extractTypedProps('Input.tsx', 'Card');
+
+      expect(props).toEqual([
+        expect.objectContaining({ name: 'title', type: 'string', required: true }),
+        expect.objectContaining({ name: 'elevated', type: 'boolean', required: false, defaultValue: 'false' }),
+      ]);
+    });
+
+    it('should see through nested HOCs to a locally declared render function', async () => {
+      const props = await extractTypedProps('Input.tsx', 'Panel');
+
+      expect(props).toEqual([expect.objectContaining({ name: 'heading', type: 'string', required: true })]);
+    });
+
+    it('should record wrapper kinds and displayName on component definitions', async () => {
+      const { components } = await analyzer.analyzeFile(path.join(fixturesDir, 'Input.tsx'));
+
+      expect(components.map(({ name, wrappers, displayName }) => ({ name, wrappers, displayName }))).toEqual([
+        { name: 'Input', wrappers: ['forwardRef'], displayName: 'TextInput' },
+        { name: 'Card', wrappers: ['memo'], displayName: undefined },
+        { name: 'Panel', wrappers: ['hoc', 'memo', 'forwardRef'], displayName: undefined },
+      ]);
+    });
+
+    it('should attach member docs from forwardRef type arguments without type information', async () => {
+      const { ast } = await new ComponentAnalyzer().analyzeFile(path.join(fixturesDir, 'Input.tsx'));
+      const props = [{ name: 'label', type: 'any', required: true }];
+
+      expect(propExtractor.attachPropDocs(ast, 'Input', props)[0].docs).toEqual({ description: '入力欄のラベル' });
+    });
+  });
+
+  describe('PropExtractor fallback', () => {
+    it('should return fallback props when the component cannot be found', async () => {
+      const fallback = [{ name: 'foo', type: 'any', required: true }];
+      const { ast, services } = await analyzer.analyzeFile(path.join(fixturesDir, 'Button.tsx'));
+
+      expect(propExtractor.extractTypedProps(ast, 'Missing', services, fallback)).toBe(fallback);
+    });
+
+    it('should attach doc comments from local declarations without type information', async () => {
+      const { ast } = await new ComponentAnalyzer().analyzeFile(path.join(fixturesDir, 'DataList.tsx'));
+      const props = [
+        { name: 'label', type: 'any', required: true },
+        { name: 'tone', type: 'string', required: false, defaultValue: 'info' },
+      ];
+
+      const documented = propExtractor.attachPropDocs(ast, 'Badge', props);
+
+      expect(documented[0].docs).toEqual({ description: 'バッジに表示するテキスト' });
+      expect(documented[1].docs).toEqual(expect.objectContaining({ since: '2.0.0', deprecated: expect.any(String) }));
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import * as path from 'path';
+import { UsageAnalyzer } from '../../core/UsageAnalyzer';
+import { UsageMarkdownFormatter } from '../../generators/document/UsageMarkdownFormatter';
+import { Snapshot } from '../../types';
+import { createComponent } from '../helpers/createComponent';
+
+const fixtureDir = path.join(__dirname, '../fixtures/usage');
+const uiDir = path.join(__dirname, '../fixtures/composition/ui');
+
+describe('UsageAnalyzer', () => {
+  const snapshot: Snapshot = {
+    version: '1.0.0',
+    timestamp: '2024-01-01T00:00:00.000Z',
+    tokens: { colors: {}, spacing: {}, typography: { fontFamily: {}, fontSize: {}, fontWeight: {}, lineHeight: {} }, breakpoints: {}, shadows: {}, borderRadius: {}, custom: {} },
+    project: { name: '@acme/ui', version: '1.0.0', framework: 'react', styling: 'tailwindcss' },
+    components: [
+      createComponent({
+        filePath: '/ds/src/Button.tsx',
+        componentName: 'Button',
+        props: [
+          { name: 'size', type: '"sm" | "lg"', required: false },
+          { name: 'variant', type: 'string', required: false },
+          { name: 'disabled', type: 'boolean', required: false },
+          { name: 'loading', type: 'boolean', required: false },
+          { name: 'onClick', type: '() => void', required: false },
+          { name: 'children', type: 'ReactNode', required: false },
+        ],
+      }),
+      createComponent({
+        filePath: '/ds/src/Card.tsx',
+        componentName: 'Card',
+        subcomponents: [
+          createComponent({ filePath: '/ds/src/Card.tsx', componentName: 'Card.Header', props: [{ name: 'title', type: 'string', required: true }] }),
+        ],
+      }),
+      createComponent({ filePath: path.join(uiDir, 'Badge.tsx'), componentName: 'Badge', props: [{ name: 'label', type: 'string', required: true }] }),
+      createComponent({ filePath: '/ds/src/Tooltip.tsx', componentName: 'Tooltip' }),
+    ],
+  };
+  const files = [path.join(fixtureDir, 'CheckoutPage.tsx'), path.join(fixtureDir, 'Settings.tsx')];
+
+  it('should count call sites matched by import source', async () => {
+    const report = await new UsageAnalyzer().analyze(snapshot, files, { sourceDir: fixtureDir });
+    const instances = Object.fromEntries(report.components.map(usage => [usage.componentName, usage.instances]));
+
+    expect(report.packages).toEqual(['@acme/ui']);
+    expect(report.filesScanned).toBe(2);
+    expect(report.components.map(usage => usage.componentName)).toEqual(['Button', 'Badge', 'Card', 'Card.Header', 'Tooltip']);
+    // ローカルに定義された同名の Button は数えない
+    expect(instances).toEqual({ Button: 4, Badge: 1, Card: 1, 'Card.Header': 1, Tooltip: 0 });
+    expect(report.components[0].files).toEqual(['CheckoutPage.tsx', 'Settings.tsx']);
+  });
+
+  it('should collect literal prop values and unused props', async () => {
+    const report = await new UsageAnalyzer().analyze(snapshot, files, { sourceDir: fixtureDir });
+    const button = report.components.find(usage => usage.componentName === 'Button')!;
+
+    expect(button.props.size).toEqual({ count: 4, values: { lg: 1, sm: 2 }, dynamic: 1 });
+    expect(button.props.variant).toEqual({ count: 1, values: { primary: 1 }, dynamic: 0 });
+    expect(button.props.disabled).toEqual({ count: 1, values: { true: 1 }, dynamic: 0 });
+    expect(button.props.children).toEqual({ count: 2, values: {}, dynamic: 2 });
+    expect(button.unusedProps).toEqual(['loading']);
+    expect(button.spreadInstances).toBe(1);
+
+    const badge = report.components.find(usage => usage.componentName === 'Badge')!;
+    expect(badge.props.label.values).toEqual({ New: 1 });
+  });
+
+  it('should only match the given packages', async () => {
+    const report = await new UsageAnalyzer().analyze(snapshot, files, { sourceDir: fixtureDir, packages: ['@other/ui'] });
+    const used = report.components.filter(usage => usage.instances > 0).map(usage => usage.componentName);
+
+    expect(used).toEqual(['Badge']);
+  });
+
+  it('should render the report as markdown', async () => {
+    const report = await new UsageAnalyzer().analyze(snapshot, files, { sourceDir: fixtureDir });
+    const markdown = new UsageMarkdownFormatter().generateMarkdown(report);
+
+    expect(markdown).toContain('| Button | 4 | 2 |');
+    expect(markdown).toContain('| size | 4 | `sm` ×2, `lg` ×1, 動的 ×1 |');
+    expect(markdown).toContain('## 未使用のコンポーネント\n\n- `Tooltip`');
+    expect(markdown).toContain('**未使用のProp**: `loading`（スプレッドで渡されている可能性があります）');
+  });
+});
@@ -0,0 +1,130 @@
+import { VariantExtractor } from '../../extractors/ast/VariantExtractor';
+
+const { parse } = jest.requireActual('@typescript-eslint/typescript-estree');
+
+const parseSource = (code: string) => parse(code, { jsx: true, loc: true, range: true });
+
+describe('VariantExtractor', () => {
+  let extractor: VariantExtractor;
+
+  beforeEach(() => {
+    extractor = new VariantExtractor();
+  });
+
+  describe('extractVariants', () => {
+    it('should build a variant matrix from a cva definition', () => {
+      const ast = parseSource(`
+        export const buttonVariants = cva(['inline-flex', 'items-center'], {
+          variants: {
+            intent: {
+              primary: 'bg-blue-500 text-white',
+              secondary: 'bg-gray-100',
+            },
+            size: { sm: 'h-8 px-3', 'lg': \`h-12 px-6\` },
+            disabled: { true: 'opacity-50' },
+          },
+          compoundVariants: [
+            { intent: 'primary', size: 'lg', class: 'uppercase' },
+            { intent: ['primary', 'secondary'], disabled: true, className: 'cursor-not-allowed' },
+          ],
+          defaultVariants: { intent: 'primary', size: 'sm' },
+        });
+      `);
+
+      expect(extractor.extractVariants(ast)).toEqual([{
+        name: 'buttonVariants',
+        library: 'cva',
+        base: ['inline-flex', 'items-center'],
+        variants: {
+          intent: { primary: ['bg-blue-500', 'text-white'], secondary: ['bg-gray-100'] },
+          size: { sm: ['h-8', 'px-3'], lg: ['h-12', 'px-6'] },
+          disabled: { true: ['opacity-50'] },
+        },
+        compoundVariants: [
+          { conditions: { intent: 'primary', size: 'lg' }, classes: ['uppercase'] },
+          { conditions: { intent: ['primary', 'secondary'], disabled: 'true' }, classes: ['cursor-not-allowed'] },
+        ],
+        defaultVariants: { intent: 'primary', size: 'sm' },
+      }]);
+    });
+
+    it('should read base and slot classes from a tv definition', () => {
+      const ast = parseSource(`
+        const card = tv({
+          base: 'rounded-lg border',
+          variants: {
+            shadow: { none: '', lg: { base: 'shadow-lg', header: 'border-b' } },
+          },
+        });
+      `);
+
+      const [definition] = extractor.extractVariants(ast);
+
+      expect(definition.library).toBe('tv');
+      expect(definition.base).toEqual(['rounded-lg', 'border']);
+      expect(definition.variants.shadow).toEqual({ none: [], lg: ['shadow-lg', 'border-b'] });
+      expect(definition.compoundVariants).toEqual([]);
+      expect(definition.defaultVariants).toEqual({});
+    });
+
+    it('should ignore other class utilities', () => {
+      const ast = parseSource(`const styles = clsx('p-4', 'm-2');`);
+
+      expect(extractor.extractVariants(ast)).toEqual([]);
+    });
+  });
+
+  describe('findUsedVariants', () => {
+    it('should return only definitions called inside the component', () => {
+      const ast = parseSource(`
+        const buttonVariants = cva('inline-flex', { variants: { size: { sm: 'h-8' } } });
+        const badgeVariants = cva('rounded', { variants: { tone: { info: 'bg-blue-100' } } });
+        export const Button = ({ size, className }) => (
+          <button className={cn(buttonVariants({ size }), className)} />
+        );
+      `);
+      const definitions = extractor.extractVariants(ast);
+      const button = ast.body[2].declaration.declarations[0];
+
+      expect(extractor.findUsedVariants(button, definitions).map(d => d.name)).toEqual(['buttonVariants']);
+    });
+  });
+
+  describe('linkProps', () => {
+    it('should fill option unions and defaults for matching props', () => {
+      const ast = parseSource(`
+        const buttonVariants = cva('inline-flex', {
+          variants: { size: { sm: 'h-8', lg: 'h-12' }, block: { true: 'w-full' } },
+          defaultVariants: { size: 'sm' },
+        });
+      `);
+      const definitions = extractor.extractVariants(ast);
+
+      const props = extractor.linkProps([
+        { name: 'size', type: 'any', required: false },
+        { name: 'block', type: 'boolean', required: false },
+        { name: 'label', type: 'string', required: true },
+      ], definitions);
+
+      expect(props).toEqual([
+        { name: 'size', type: '"sm" | "lg"', required: false, defaultValue: 'sm' },
+        { name: 'block', type: 'boolean', required: false, defaultValue: undefined },
+        { name: 'label', type: 'string', required: true },
+      ]);
+    });
+  });
+
+  describe('getAllClasses', () => {
+    it('should collect base, option and compound classes without duplicates', () => {
+      const ast = parseSource(`
+        const v = cva('flex p-2', {
+          variants: { size: { sm: 'p-2 text-sm' } },
+          compoundVariants: [{ size: 'sm', class: 'gap-1' }],
+        });
+      `);
+      const [definition] = extractor.extractVariants(ast);
+
+      expect(extractor.getAllClasses(definition)).toEqual(['flex', 'p-2', 'text-sm', 'gap-1']);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { VueSFCExtractor } from '../../extractors/ast/VueSFCExtractor';
+import { PlatformExtractorFactory, VuePlatformExtractor } from '../../extractors/PlatformExtractorFactory';
+import { ComponentDocumentGenerator } from '../../generators/document/ComponentDocumentGenerator';
+
+const fixtureDir = path.join(__dirname, '../fixtures/vue');
+
+describe('VueSFCExtractor', () => {
+  const extractor = new VueSFCExtractor();
+  const extract = (fileName: string) => {
+    const filePath = path.join(fixtureDir, fileName);
+    return extractor.extract(filePath, fs.readFileSync(filePath, 'utf-8'), fixtureDir)!;
+  };
+
+  it('should extract typed props, emits and slots from <script setup>', () => {
+    const component = extract('BaseButton.vue');
+
+    expect(component.componentName).toBe('BaseButton');
+    expect(component.platform).toBe('vue');
+    expect(component.docs?.description).toBe('汎用ボタン');
+    expect(component.dependencies).toEqual(['vue', './Spinner.vue']);
+    expect(component.props.map(prop => prop.name)).toEqual([
+      'variant', 'size', 'disabled', 'loading', 'onClick', 'onUpdate:pressed', '#icon', 'children',
+    ]);
+
+    const variant = component.props.find(prop => prop.name === 'variant')!;
+    expect(variant).toMatchObject({ type: "'primary' | 'danger'", required: false, defaultValue: "'primary'" });
+    expect(variant.docs?.description).toBe('ボタンの見た目');
+
+    const onClick = component.props.find(prop => prop.name === 'onClick')!;
+    expect(onClick.type).toBe('(event: MouseEvent) => void');
+    expect(onClick.event).toEqual({
+      parameters: [{ name: 'event', type: 'MouseEvent', optional: false }],
+      returnType: 'void',
+      invocations: [['event']],
+      forwardedTo: [],
+    });
+
+    expect(component.props.find(prop => prop.name === '#icon')).toMatchObject({
+      type: 'Slot',
+      docs: { description: '名前付きスロット「icon」（スロットProps: size）' },
+    });
+  });
+
+  it('should extract static and bound classes with conditional classes per prop', () => {
+    const component = extract('BaseButton.vue');
+
+    expect(component.tailwindClasses).toEqual([
+      'bg-blue-600', 'bg-red-600', 'inline-flex', 'items-center', 'mr-2', 'opacity-50',
+      'px-2', 'px-4', 'py-1', 'py-2', 'rounded-md', 'text-sm', 'text-white',
+    ]);
+    expect(component.conditionalClasses).toEqual([
+      { prop: 'variant', values: { danger: ['bg-red-600', 'text-white'], '*': ['bg-blue-600', 'text-white'] } },
+      { prop: 'size', values: { sm: ['px-2', 'py-1', 'text-sm'], md: ['px-4', 'py-2'] } },
+      { prop: 'disabled', values: { true: ['opacity-50'] } },
+    ]);
+
+    // <spinner> はインポートしたコンポーネント名（Spinner）として構造に記録
+    expect(component.jsxStructure?.type).toBe('button');
+    expect(component.jsxStructure?.children?.[0]).toMatchObject({ type: 'Spinner', tailwindClasses: ['mr-2'] });
+  });
+
+  it('should read Options API props and template $emit calls', () => {
+    const component = extract('card-panel.vue');
+
+    expect(component.componentName).toBe('CardPanel');
+    expect(component.props).toEqual([
+      { name: 'title', type: 'string', required: true, docs: { description: '見出し' } },
+      { name: 'items', type: 'any[]', required: false, defaultValue: '[]' },
+      { name: 'elevated', type: 'boolean', required: false },
+      {
+        name: 'onClose',
+        type: '() => void',
+        required: false,
+        event: { parameters: [], returnType: 'void', invocations: [[]], forwardedTo: [] },
+      },
+      { name: '#footer', type: 'Slot', required: false, docs: { description: '名前付きスロット「footer」' } },
+    ]);
+    expect(component.conditionalClasses).toEqual([{ prop: 'elevated', values: { true: ['shadow-lg'] } }]);
+  });
+});
+
+describe('VuePlatformExtractor', () => {
+  it('should be created by the factory and detect *.vue files', async () => {
+    const extractor = PlatformExtractorFactory.createExtractor('vue', { sourceDir: fixtureDir });
+
+    expect(extractor).toBeInstanceOf(VuePlatformExtractor);
+    expect(PlatformExtractorFactory.detectPlatform(path.join(fixtureDir, 'BaseButton.vue'), { sourceDir: fixtureDir })).toBe('vue');
+
+    const components = await extractor.extractComponents(path.join(fixtureDir, 'card-panel.vue'), null);
+    expect(components.map(component => component.componentName)).toEqual(['CardPanel']);
+    expect(extractor.validateCode('<CardPanel className="p-4" />').errors[0].code).toBe('REACT_SPECIFIC_PROP');
+  });
+
+  it('should reject React and Svelte syntax in Vue templates', () => {
+    const extractor = PlatformExtractorFactory.createExtractor('vue', { sourceDir: fixtureDir });
+
+    expect(extractor.validateCode('<CardPanel :elevated="true" @close="onClose" />').errors).toEqual([]);
+    expect(extractor.validateCode('<CardPanel elevated={true} />').errors.map(error => error.code)).toEqual(['JSX_EXPRESSION']);
+    expect(extractor.validateCode('<CardPanel on:close="onClose" />').errors.map(error => error.code)).toEqual(['INVALID_EVENT_SYNTAX']);
+    expect(extractor.validateCode('function Example() {\n  return (\n    <CardPanel title="Title" />\n  );\n}').errors.map(error => error.code))
+      .toEqual(['REACT_COMPONENT_SYNTAX']);
+  });
+});
+
+describe('ComponentDocumentGenerator (Vue)', () => {
+  it('should emit examples importing the .vue file with Vue template syntax', () => {
+    const filePath = path.join(fixtureDir, 'card-panel.vue');
+    const component = new VueSFCExtractor().extract(filePath, fs.readFileSync(filePath, 'utf-8'), fixtureDir)!;
+    const doc = new ComponentDocumentGenerator().generateComponentDoc(component, [component], { includeExamples: true } as any);
+
+    expect(doc.usage).toBe('<CardPanel title="サンプルテキスト" />');
+    expect(doc.examples[1]).toMatchObject({ language: 'vue', validation: { isValid: true } });
+    expect(doc.examples[1].code).toBe([
+      '<script setup>',
+      "import CardPanel from './card-panel.vue';",
+      '',
+      'const onClose = () => {};',
+      '</script>',
+      '',
+      '<template>',
+      '  <CardPanel',
+      '    title="サンプルテキスト"',
+      '    :items="{}"',
+      '    :elevated="true"',
+      '    @close="onClose"',
+      '  >',
+      '    <template #footer>コンテンツ</template>',
+      '  </CardPanel>',
+      '</template>',
+    ].join('\n'));
+  });
+});
@@ -7,6 +7,7 @@ import {
   writeJsonFile,
   fileExists,
   findFiles,
+  findSourceFiles,
   getRelativePath,
   getFileExtension,
   isReactComponent,
@@ -142,6 +143,21 @@ describe('fileUtils', () => {
     });
   });
 
+  describe('findSourceFiles', () => {
+    it('should search every pattern once and merge the results', async () => {
+      mockGlob.mockImplementation(async (pattern: any) =>
+        pattern.endsWith('.tsx') ? ['/src/b.tsx', '/src/a.tsx'] : ['/src/a.vue']
+      );
+      const ignore = ['**/*.test.*'];
+
+      const result = await findSourceFiles('/src', ['**/*.tsx', '**/*.vue', '**/*.tsx'], ignore);
+
+      expect(glob).toHaveBeenCalledTimes(2);
+      expect(glob).toHaveBeenCalledWith('/src/**/*.tsx', { ignore });
+      expect(result).toEqual(['/src/a.tsx', '/src/a.vue', '/src/b.tsx']);
+    });
+  });
+
   describe('getRelativePath', () => {
     it('should return relative path', () => {
       (path.relative as jest.Mock).mockReturnValue('components/Button.tsx');
@@ -66,6 +66,49 @@ program
     await command.execute();
   });
 
+// 利用状況集計コマンド
+program
+  .command('usage')
+  .description('利用側コードベースでのコンポーネントの利用状況を集計')
+  .option('-s, --source <dir>', '利用側のソースディレクトリ', './src')
+  .option('--snapshot <path>', 'デザインシステムのスナップショット', './.design-system-snapshots/snapshot.json')
+  .option('-o, --output <dir>', '出力ディレクトリ', './docs/design-system-usage')
+  .option('--package <names>', 'デザインシステムのパッケージ名（カンマ区切り）')
+  .action(async (options) => {
+    const { UsageCommand } = await import('./commands/usage');
+    const spinner = ora('利用状況を集計中...').start();
+    try {
+      const command = new UsageCommand(options);
+      await command.execute();
+      spinner.succeed(chalk.green('利用状況の集計完了！'));
+    } catch (error) {
+      spinner.fail(chalk.red('エラーが発生しました'));
+      console.error(error);
+      process.exit(1);
+    }
+  });
+
+// Storybookストーリー生成コマンド
+program
+  .command('stories')
+  .description('ストーリーのないコンポーネントのStorybookストーリー（CSF3）を生成')
+  .option('-s, --source <dir>', 'ソースディレクトリ', './src')
+  .option('-o, --output <dir>', '出力ディレクトリ', './stories')
+  .option('-c, --config <path>', '設定ファイルパス')
+  .action(async (options) => {
+    const { StoriesCommand } = await import('./commands/stories');
+    const spinner = ora('ストーリーを生成中...').start();
+    try {
+      const command = new StoriesCommand(options);
+      await command.execute();
+      spinner.succeed(chalk.green('ストーリー生成完了！'));
+    } catch (error) {
+      spinner.fail(chalk.red('エラーが発生しました'));
+      console.error(error);
+      process.exit(1);
+    }
+  });
+
 // AIドキュメント生成コマンド
 program
   .command('generate')
@@ -73,8 +116,8 @@ program
   .option('-s, --source <dir>', 'ソースディレクトリ', './src')
   .option('-o, --output <path>', '出力ディレクトリ', './docs/design-system')
   .option('-c, --config <path>', '設定ファイルパス')
-  .option('-p, --platform <platform>', 'プラットフォーム (web|react-native|カスタム)')
-  .option('--style-system <system>', 'スタイルシステム (tailwind|stylesheet|styled-components|カスタム)')
+  .option('-p, --platform <platform>', 'プラットフォーム (web|react-native|vue|svelte|angular|カスタム)')
+  .option('--style-system <system>', 'スタイルシステム (tailwind|stylesheet|styled-components|css-modules|emotion|stitches|vanilla-extract|カスタム)')
   .option('--include-examples', 'コード例を含める', false)
   .action(async (options) => {
     const spinner = ora('設定を読み込み中...').start();
@@ -1,14 +1,14 @@
 import * as path from 'path';
 import chalk from 'chalk';
-import { TailwindExtractor } from '../extractors/TailwindExtractor';
 import { DesignTokenExtractor } from '../extractors/DesignTokenExtractor';
 import { AIDocumentGenerator } from '../generators/AIDocumentGenerator';
-import { findFiles, ensureDirectoryExists } from '../utils/fileUtils';
+import { findFiles, findSourceFiles, ensureDirectoryExists } from '../utils/fileUtils';
 import { StyleExtractorFactory } from '../extractors/StyleExtractorFactory';
 import { PlatformExtractorFactory } from '../extractors/PlatformExtractorFactory';
 import { MultiPlatformDocumentGenerator } from '../generators/MultiPlatformDocumentGenerator';
+import { StoryReader } from '../core/StoryReader';
 import { ConfigManager } from '../config/ConfigManager';
-import { Platform, StyleSystem } from '../types';
+import { ExtractedComponent, Platform, StyleSystem } from '../types';
 
 /**
  * Generateコマンドのオプション設定
@@ -41,7 +41,7 @@ export interface GenerateOptions {
  * 実行プロセス：
  * 1. 設定の読み込みと統合（CLI引数 + 設定ファイル）
  * 2. プラットフォーム/スタイルシステムの決定
- * 3. コンポーネントファイルの発見と抽出
+ * 3. コンポーネントファイルの発見と抽出（Storybookのストーリーを紐付け）
  * 4. デザイントークンの抽出
  * 5. AIドキュメントの生成
  * 6. 複数形式でのファイル出力
@@ -116,58 +116,59 @@ export class GenerateCommand {
     
     console.log(chalk.gray(`Platform: ${finalPlatform}, Style System: ${finalStyleSystem}`));
 
-    // 既存のTailwindExtractorを使用（一時的な修正）
-    const tailwindExtractor = new TailwindExtractor({
+    // プラットフォーム抽出器（設定のプラットフォーム＋JSX/TSXのWeb・React Native）
+    // 抽出・検証・コード例はプラットフォーム毎の抽出器と、設定のスタイルシステムのStyleExtractorで行う
+    const extractorConfig = {
       sourceDir: sourcePath,
+      platform: finalPlatform,
       ignore: [
         '**/node_modules/**',
-        '**/*.test.tsx',
-        '**/*.test.ts',
-        '**/*.spec.tsx',
-        '**/*.spec.ts',
-        '**/*.stories.tsx',
-        '**/*.stories.ts',
+        '**/*.test.*',
+        '**/*.spec.*',
+        '**/*.stories.*',
         '**/dist/**',
         '**/build/**',
       ],
-    });
+    };
+    const platformExtractors = PlatformExtractorFactory.createMultiPlatformExtractor(
+      PlatformExtractorFactory.resolvePlatforms(finalPlatform),
+      extractorConfig
+    );
 
     const tokenExtractor = new DesignTokenExtractor();
     const documentGenerator = new AIDocumentGenerator();
 
-    // プラットフォーム固有のファイル検索（既存の方法を使用）
-    const patterns = [
-      `${sourcePath}/**/*.tsx`,
-      `${sourcePath}/**/*.jsx`,
-      `${sourcePath}/**/*.ts`,
-    ];
-
-    const allFiles = [];
-    for (const pattern of patterns) {
-      const files = await findFiles(pattern);
-      allFiles.push(...files);
-    }
-
-    // Filter out non-component files
-    const componentFiles = allFiles.filter(file => 
-      !file.includes('node_modules') &&
-      !file.includes('.test.') &&
-      !file.includes('.spec.') &&
-      !file.includes('.stories.') &&
-      (file.endsWith('.tsx') || file.endsWith('.jsx'))
+    const componentFiles = await findSourceFiles(
+      sourcePath,
+      platformExtractors.flatMap(extractor => extractor.filePatterns),
+      extractorConfig.ignore
     );
     console.log(chalk.gray(`Found ${componentFiles.length} component files`));
 
-    // Extract components using tailwind extractor
-    const components = [];
-    for (const file of componentFiles) {
-      const component = await tailwindExtractor.extractFromFile(file);
-      if (component) {
-        components.push(component);
-      }
-    }
+    // ファイル毎に判定したプラットフォームの抽出器で抽出
+    let components: ExtractedComponent[] = await PlatformExtractorFactory.extractComponents(
+      platformExtractors,
+      componentFiles,
+      extractorConfig
+    );
 
-    console.log(chalk.gray(`Extracted ${components.length} components`));
+    // プラットフォームはコンポーネント毎に判定済み（Web・React Nativeが混在する場合は内訳を表示）
+    const platformCounts = new Map<string, number>();
+    components.forEach(component => {
+      const platform = component.platform || finalPlatform;
+      platformCounts.set(platform, (platformCounts.get(platform) || 0) + 1);
+    });
+    const platformBreakdown = platformCounts.size > 1
+      ? ` (${Array.from(platformCounts, ([platform, count]) => `${platform}: ${count}`).join(', ')})`
+      : '';
+    console.log(chalk.gray(`Extracted ${components.length} components${platformBreakdown}`));
+
+    // Storybookのストーリーを component で指定されたコンポーネントに紐付け（コード例として使用）
+    const storyFiles = await findFiles(`${sourcePath}/**/*.stories.{tsx,jsx,ts}`, { ignore: '**/node_modules/**' });
+    if (storyFiles.length > 0) {
+      console.log(chalk.gray(`Found ${storyFiles.length} story files`));
+    }
+    components = await new StoryReader().attachStories(components, storyFiles);
 
     // Extract design tokens (プラットフォーム・スタイルシステムに応じて)
     let tokens;
@@ -1,8 +1,11 @@
 import * as path from 'path';
-import { TailwindExtractor } from '../extractors/TailwindExtractor';
 import { DesignTokenExtractor } from '../extractors/DesignTokenExtractor';
-import { findFiles, writeJsonFile, ensureDirectoryExists } from '../utils/fileUtils';
-import { Snapshot } from '../types';
+import { PlatformExtractorFactory } from '../extractors/PlatformExtractorFactory';
+import { ConfigManager } from '../config/ConfigManager';
+import { CompositionGraphBuilder } from '../core/CompositionGraphBuilder';
+import { StoryReader } from '../core/StoryReader';
+import { findFiles, findSourceFiles, writeJsonFile, ensureDirectoryExists } from '../utils/fileUtils';
+import { ExtractedComponent, Platform, Snapshot } from '../types';
 
 /**
  * Snapshotコマンドのオプション設定
@@ -29,6 +32,8 @@ export interface SnapshotOptions {
  * 2. デザイントークンの状態記録
  * 3. タイムスタンプ付きスナップショット生成
  * 4. JSON/Markdown形式での出力
+ * 5. Storybookのストーリー（*.stories.tsx）のコンポーネントへの紐付け
+ * 6. Web / React Native / Vue / Svelte / Angular のコンポーネントをプラットフォーム抽出器で記録
  * 
  * 活用場面：
  * - バージョン管理でのデザインシステム変更追跡
@@ -51,63 +56,60 @@ export class SnapshotCommand {
   async execute(): Promise<void> {
     const sourcePath = path.resolve(this.options.source);
     const outputPath = path.resolve(this.options.output);
+
+    // 抽出パイプライン（スタイルシステム・プラットフォーム）は設定ファイルに従う
+    const config = await ConfigManager.getInstance().loadConfig(this.options.config);
     
     // Initialize extractors
-    const tailwindExtractor = new TailwindExtractor({
+    // スナップショットは設定のプラットフォーム（カスタムプラットフォームを含む）と全ての組み込みプラットフォームのコンポーネントを記録
+    const extractorConfig = {
       sourceDir: sourcePath,
+      platform: config.platform as Platform,
       ignore: [
         '**/node_modules/**',
-        '**/*.test.tsx',
-        '**/*.test.ts',
-        '**/*.spec.tsx',
-        '**/*.spec.ts',
-        '**/*.stories.tsx',
-        '**/*.stories.ts',
+        '**/*.test.*',
+        '**/*.spec.*',
+        '**/*.stories.*',
         '**/dist/**',
         '**/build/**',
       ],
-    });
+    };
+    const platformExtractors = PlatformExtractorFactory.createMultiPlatformExtractor(
+      PlatformExtractorFactory.resolvePlatforms(config.platform, true),
+      extractorConfig
+    );
 
     const tokenExtractor = new DesignTokenExtractor();
 
-    // Find all React/TypeScript files
-    const patterns = [
-      `${sourcePath}/**/*.tsx`,
-      `${sourcePath}/**/*.jsx`,
-      `${sourcePath}/**/*.ts`,
-    ];
-
-    const allFiles = [];
-    for (const pattern of patterns) {
-      const files = await findFiles(pattern);
-      allFiles.push(...files);
-    }
-
-    // Filter out non-component files
-    const componentFiles = allFiles.filter(file => 
-      !file.includes('node_modules') &&
-      !file.includes('.test.') &&
-      !file.includes('.spec.') &&
-      !file.includes('.stories.') &&
-      (file.endsWith('.tsx') || file.endsWith('.jsx'))
+    const componentFiles = await findSourceFiles(
+      sourcePath,
+      platformExtractors.flatMap(extractor => extractor.filePatterns),
+      extractorConfig.ignore
     );
-
     console.log(`Found ${componentFiles.length} component files`);
 
-    // Extract components
-    const components = [];
-    for (const file of componentFiles) {
-      const component = await tailwindExtractor.extractFromFile(file);
-      if (component) {
-        components.push(component);
-      }
-    }
+    // Extract components（ファイル毎に判定したプラットフォームの抽出器で抽出）
+    let components: ExtractedComponent[] = await PlatformExtractorFactory.extractComponents(
+      platformExtractors,
+      componentFiles,
+      extractorConfig
+    );
 
     console.log(`Extracted ${components.length} components`);
 
-    // Extract design tokens
+    // Storybookのストーリーを component で指定されたコンポーネントに紐付け（コード例として使用）
+    const storyFiles = await findFiles(`${sourcePath}/**/*.stories.{tsx,jsx,ts}`, { ignore: '**/node_modules/**' });
+    if (storyFiles.length > 0) {
+      console.log(`Found ${storyFiles.length} story files`);
+    }
+    components = await new StoryReader().attachStories(components, storyFiles);
+
+    // Extract design tokens（TailwindCSS設定のトークンにCSS-in-JS・CSS Modulesの宣言のトークンをマージ）
     const tailwindConfigPath = path.join(process.cwd(), 'tailwind.config.js');
-    const tokens = await tokenExtractor.extractFromTailwindConfig(tailwindConfigPath);
+    const tokens = tokenExtractor.mergeDeclarationTokens(
+      components,
+      await tokenExtractor.extractFromTailwindConfig(tailwindConfigPath)
+    );
 
     // Get project info
     const projectInfo = await this.getProjectInfo();
@@ -119,6 +121,7 @@ export class SnapshotCommand {
       components,
       tokens,
       project: projectInfo,
+      composition: new CompositionGraphBuilder().build(components),  // 誰が誰を描画しているか
     };
 
     // Save snapshot
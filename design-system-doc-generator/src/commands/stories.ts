@@ -0,0 +1,120 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import chalk from 'chalk';
+import { PlatformExtractorFactory } from '../extractors/PlatformExtractorFactory';
+import { ConfigManager } from '../config/ConfigManager';
+import { StoryReader } from '../core/StoryReader';
+import { StoryGenerator, GENERATED_STORY_MARKER } from '../generators/document/StoryGenerator';
+import { findFiles, findSourceFiles, fileExists, ensureDirectoryExists } from '../utils/fileUtils';
+import { ExtractedComponent, Platform } from '../types';
+
+/**
+ * Storiesコマンドのオプション設定
+ */
+export interface StoriesOptions {
+  /** ソースディレクトリのパス */
+  source: string;
+  /** ストーリーファイルの出力ディレクトリ */
+  output: string;
+  /** 設定ファイルのパス（任意） */
+  config?: string;
+}
+
+/**
+ * StoriesCommand - Storybook ストーリー生成コマンド
+ *
+ * このクラスは、ソースディレクトリのコンポーネントを抽出し、ストーリーを持たない
+ * コンポーネントについて CSF3 形式の *.stories.tsx を出力ディレクトリに生成します。
+ *
+ * 主な機能：
+ * 1. コンポーネントの抽出と既存ストーリー（*.stories.tsx）の紐付け
+ * 2. ストーリーのないコンポーネントのストーリー生成（StoryGenerator）
+ * 3. 生成したファイルの構文検証結果の表示
+ *
+ * 上書きの規則：
+ * - 出力先にファイルがない場合は新規作成
+ * - 生成済みの目印（GENERATED_STORY_MARKER）がある場合は再生成して上書き
+ * - 目印のないファイル（手書き・手直し済みのストーリー）は上書きしない
+ */
+export class StoriesCommand {
+  private options: StoriesOptions;
+  private storyReader: StoryReader;
+  private storyGenerator: StoryGenerator;
+
+  /**
+   * StoriesCommandのコンストラクタ
+   *
+   * @param options - ストーリー生成オプション
+   */
+  constructor(options: StoriesOptions) {
+    this.options = options;
+    this.storyReader = new StoryReader();
+    this.storyGenerator = new StoryGenerator();
+  }
+
+  async execute(): Promise<void> {
+    const sourcePath = path.resolve(this.options.source);
+    const outputPath = path.resolve(this.options.output);
+
+    // 抽出パイプライン（スタイルシステム・プラットフォーム）は設定ファイルに従う
+    const config = await ConfigManager.getInstance().loadConfig(this.options.config);
+
+    // ストーリーはJSXで記述するため、JSX/TSXのプラットフォーム（Web・React Native）の抽出器で抽出
+    const extractorConfig = {
+      sourceDir: sourcePath,
+      platform: config.platform as Platform,
+      ignore: [
+        '**/node_modules/**',
+        '**/*.test.*',
+        '**/*.spec.*',
+        '**/*.stories.*',
+        '**/dist/**',
+        '**/build/**',
+      ],
+    };
+    const platformExtractors = PlatformExtractorFactory.createMultiPlatformExtractor(['web', 'react-native'], extractorConfig);
+
+    const componentFiles = await findSourceFiles(
+      sourcePath,
+      platformExtractors.flatMap(extractor => extractor.filePatterns),
+      extractorConfig.ignore
+    );
+    console.log(chalk.gray(`Found ${componentFiles.length} component files`));
+
+    let components: ExtractedComponent[] = await PlatformExtractorFactory.extractComponents(
+      platformExtractors,
+      componentFiles,
+      extractorConfig
+    );
+
+    // 手書きのストーリーを持つコンポーネントは生成対象外
+    const storyFiles = await findFiles(`${sourcePath}/**/*.stories.{tsx,jsx,ts}`, { ignore: '**/node_modules/**' });
+    components = await this.storyReader.attachStories(components, storyFiles);
+
+    const generated = await this.storyGenerator.generate(components, { sourceDir: sourcePath, outputDir: outputPath });
+
+    let written = 0;
+    for (const file of generated) {
+      if (await fileExists(file.filePath)) {
+        const existing = await fs.promises.readFile(file.filePath, 'utf-8');
+        if (!existing.includes(GENERATED_STORY_MARKER)) {
+          console.log(chalk.yellow(`Skipped ${path.relative(process.cwd(), file.filePath)} (hand-written stories)`));
+          continue;
+        }
+      }
+
+      await ensureDirectoryExists(path.dirname(file.filePath));
+      await fs.promises.writeFile(file.filePath, file.content, 'utf-8');
+      written++;
+
+      const status = file.validation.isValid ? chalk.green('✅') : chalk.yellow('⚠️');
+      console.log(`${status} ${path.relative(process.cwd(), file.filePath)} (${file.stories.join(', ')})`);
+      file.validation.errors.forEach(error => {
+        console.log(chalk.yellow(`   ${error.line}:${error.column} ${error.message}`));
+      });
+    }
+
+    console.log(chalk.gray(`Output directory: ${outputPath}`));
+    console.log(`Stories generated: ${written}/${components.length} components (${components.length - generated.length} already have stories)`);
+  }
+}
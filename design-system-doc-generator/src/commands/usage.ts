@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import chalk from 'chalk';
+import { UsageAnalyzer } from '../core/UsageAnalyzer';
+import { UsageMarkdownFormatter } from '../generators/document/UsageMarkdownFormatter';
+import { findFiles, readJsonFile, writeJsonFile, fileExists, ensureDirectoryExists } from '../utils/fileUtils';
+import { Snapshot } from '../types';
+
+/**
+ * Usageコマンドのオプション設定
+ */
+export interface UsageOptions {
+  /** 利用側のソースディレクトリのパス */
+  source: string;
+  /** デザインシステムのスナップショットファイルのパス */
+  snapshot: string;
+  /** 出力ディレクトリのパス */
+  output: string;
+  /** デザインシステムのパッケージ名（カンマ区切り・省略時はスナップショットのプロジェクト名） */
+  package?: string;
+}
+
+/**
+ * UsageCommand - デザインシステム利用状況集計コマンド
+ *
+ * このクラスは、デザインシステムを利用しているアプリケーションのソースを走査し、
+ * スナップショットに記録されたコンポーネントの利用状況をJSON・Markdownで出力します。
+ *
+ * 主な機能：
+ * 1. 利用側ソースのファイル探索
+ * 2. コンポーネント別の呼び出し数・呼び出しファイルの集計
+ * 3. Propに渡されたリテラル値の分布の集計
+ * 4. 未使用のコンポーネント・Propの検出
+ *
+ * 出力ファイル：
+ * - usage.json（プログラム消費用）
+ * - usage.md（人間読み取り用）
+ *
+ * 活用場面：
+ * - 非推奨化・破壊的変更の影響範囲の確認
+ * - 使われていないPropやバリアントの整理
+ * - よく使われる組み合わせの把握
+ */
+export class UsageCommand {
+  private options: UsageOptions;
+  private usageAnalyzer: UsageAnalyzer;
+  private markdownFormatter: UsageMarkdownFormatter;
+
+  /**
+   * UsageCommandのコンストラクタ
+   *
+   * @param options - 利用状況集計オプション
+   */
+  constructor(options: UsageOptions) {
+    this.options = options;
+    this.usageAnalyzer = new UsageAnalyzer();
+    this.markdownFormatter = new UsageMarkdownFormatter();
+  }
+
+  async execute(): Promise<void> {
+    const sourcePath = path.resolve(this.options.source);
+    const snapshotPath = path.resolve(this.options.snapshot);
+    const outputPath = path.resolve(this.options.output);
+
+    if (!await fileExists(snapshotPath)) {
+      throw new Error(`Snapshot not found: ${snapshotPath}`);
+    }
+
+    const snapshot: Snapshot = await readJsonFile(snapshotPath);
+    console.log(chalk.gray(`Snapshot: ${snapshotPath} (${snapshot.components.length} components)`));
+
+    // Find all React source files in the consuming codebase
+    const allFiles = [];
+    for (const pattern of [`${sourcePath}/**/*.tsx`, `${sourcePath}/**/*.jsx`]) {
+      allFiles.push(...await findFiles(pattern));
+    }
+
+    const sourceFiles = allFiles.filter(file =>
+      !file.includes('node_modules') &&
+      !file.includes('.test.') &&
+      !file.includes('.spec.') &&
+      !file.includes('.stories.')
+    );
+
+    console.log(chalk.gray(`Found ${sourceFiles.length} source files`));
+
+    const packages = this.options.package
+      ? this.options.package.split(',').map(name => name.trim()).filter(Boolean)
+      : undefined;
+    const report = await this.usageAnalyzer.analyze(snapshot, sourceFiles, { sourceDir: sourcePath, packages });
+
+    // Save files
+    await ensureDirectoryExists(outputPath);
+    await writeJsonFile(path.join(outputPath, 'usage.json'), report);
+    await fs.promises.writeFile(
+      path.join(outputPath, 'usage.md'),
+      this.markdownFormatter.generateMarkdown(report),
+      'utf-8'
+    );
+
+    const used = report.components.filter(usage => usage.instances > 0);
+    const instances = used.reduce((sum, usage) => sum + usage.instances, 0);
+    console.log(chalk.gray(`Output directory: ${outputPath}`));
+    console.log(`Used components: ${used.length}/${report.components.length} (${instances} instances)`);
+  }
+}
@@ -1,9 +1,11 @@
 import * as path from 'path';
 import chalk from 'chalk';
-import { ConfigManager } from '../config/ConfigManager';
-import { StyleExtractorFactory } from '../extractors/StyleExtractorFactory';
-import { PlatformExtractorFactory } from '../extractors/PlatformExtractorFactory';
-import { Platform, ValidationResult } from '../types';
+import { ConfigManager, CustomValidatorConfig } from '../config/ConfigManager';
+import { PluginContract, PluginLoader } from '../config/PluginLoader';
+import { StyleExtractor, StyleExtractorFactory } from '../extractors/StyleExtractorFactory';
+import { PlatformExtractor, PlatformExtractorFactory } from '../extractors/PlatformExtractorFactory';
+import { ComponentValidator, ExtractedComponent, ExtractorConfig, Platform, StyleSystem, ValidationResult } from '../types';
+import { findSourceFiles } from '../utils/fileUtils';
 
 export interface ValidateOptions {
   source: string;
@@ -12,6 +14,12 @@ export interface ValidateOptions {
   platform?: Platform;
 }
 
+// カスタムバリデーターのプラグインが実装すべきメソッド
+const COMPONENT_VALIDATOR_CONTRACT: PluginContract = {
+  name: 'ComponentValidator',
+  methods: ['validate'],
+};
+
 export interface ValidationSummary {
   totalFiles: number;
   totalComponents: number;
@@ -56,41 +64,22 @@ export class ValidateCommand {
       ],
     };
 
-    // 既存のTailwindExtractorを使用（一時的な修正）
-    const tailwindExtractor = new (await import('../extractors/TailwindExtractor')).TailwindExtractor({
-      sourceDir: sourcePath,
-      ignore: [
-        '**/node_modules/**',
-        '**/*.test.*',
-        '**/*.spec.*',
-        '**/*.stories.*',
-        '**/dist/**',
-        '**/build/**',
-      ],
-    });
+    // プラットフォーム抽出器（設定のプラットフォーム＋JSX/TSXのWeb・React Native）
+    const platformExtractors = PlatformExtractorFactory.createMultiPlatformExtractor(
+      PlatformExtractorFactory.resolvePlatforms(finalPlatform),
+      extractorConfig
+    );
+    // スタイルの検証は設定のスタイルシステムのStyleExtractorで行う
+    const styleExtractor = StyleExtractorFactory.createExtractor(config.styleSystem, extractorConfig);
+    // 指定されたルールを扱うカスタムバリデーター（extensions.customValidators）
+    const customValidators = this.loadCustomValidators(config.extensions.customValidators, rules);
     
     console.log(chalk.blue('🔍 Finding component files...'));
     
-    // プラットフォーム固有のファイル検索（一時的な修正）
-    const { findFiles } = await import('../utils/fileUtils');
-    const patterns = [
-      `${sourcePath}/**/*.tsx`,
-      `${sourcePath}/**/*.jsx`,
-      `${sourcePath}/**/*.ts`,
-    ];
-
-    const allFiles = [];
-    for (const pattern of patterns) {
-      const files = await findFiles(pattern);
-      allFiles.push(...files);
-    }
-
-    const componentFiles = allFiles.filter(file => 
-      !file.includes('node_modules') &&
-      !file.includes('.test.') &&
-      !file.includes('.spec.') &&
-      !file.includes('.stories.') &&
-      (file.endsWith('.tsx') || file.endsWith('.jsx'))
+    const componentFiles = await findSourceFiles(
+      sourcePath,
+      platformExtractors.flatMap(extractor => extractor.filePatterns),
+      extractorConfig.ignore
     );
     console.log(chalk.gray(`Found ${componentFiles.length} component files`));
     
@@ -107,7 +96,7 @@ export class ValidateCommand {
     // 各ファイルをバリデーション
     for (const file of componentFiles) {
       try {
-        const result = await this.validateFile(file, rules, tailwindExtractor, null);
+        const result = await this.validateFile(file, rules, platformExtractors, config.styleSystem, styleExtractor, customValidators, extractorConfig);
         summary.results.push(result);
         summary.totalComponents += result.componentCount || 1;
         summary.errors += result.errors.length;
@@ -133,11 +122,41 @@ export class ValidateCommand {
     return rulesString.split(',').map(rule => rule.trim()).filter(Boolean);
   }
 
+  /**
+   * 指定されたルールを扱うカスタムバリデーターを読み込む
+   *
+   * バリデーター名または設定の rules のいずれかが指定された場合に読み込みます。
+   * モジュールパスは設定ファイルからの相対パスとして解決されます。
+   *
+   * @param validatorConfigs extensions.customValidators の設定
+   * @param rules 指定されたルール
+   * @returns バリデーター名とインスタンスの配列
+   * @throws {Error} モジュールの読み込みに失敗した、または validate を実装していない場合
+   */
+  private loadCustomValidators(
+    validatorConfigs: Record<string, CustomValidatorConfig>,
+    rules: string[]
+  ): { name: string; validator: ComponentValidator }[] {
+    return Object.entries(validatorConfigs || {})
+      .filter(([name, validatorConfig]) => rules.includes(name) || (validatorConfig.rules || []).some(rule => rules.includes(rule)))
+      .map(([name, validatorConfig]) => {
+        try {
+          const validator = PluginLoader.instantiate<ComponentValidator>(validatorConfig.validator, COMPONENT_VALIDATOR_CONTRACT, [validatorConfig]);
+          return { name, validator };
+        } catch (error) {
+          throw new Error(`Failed to load custom validator '${name}': ${error instanceof Error ? error.message : error}`);
+        }
+      });
+  }
+
   private async validateFile(
     filePath: string,
     rules: string[],
-    tailwindExtractor: any,
-    platformExtractor: any
+    platformExtractors: PlatformExtractor[],
+    styleSystem: StyleSystem | string,
+    styleExtractor: StyleExtractor,
+    customValidators: { name: string; validator: ComponentValidator }[],
+    extractorConfig: ExtractorConfig
   ): Promise<ValidationResult> {
     const result: ValidationResult = {
       filePath,
@@ -147,15 +166,14 @@ export class ValidateCommand {
     };
 
     try {
-      // コンポーネント抽出（一時的な修正）
-      const component = await tailwindExtractor.extractFromFile(filePath);
-      result.componentCount = component ? 1 : 0;
-
-      // スタイルバリデーション
-      if (rules.includes('style') && component) {
-        // 簡易実装：Tailwindクラスの基本的なバリデーション
-        if (component.styles?.tailwindClasses) {
-          component.styles.tailwindClasses.forEach((className: string) => {
+      // コンポーネント抽出（ファイルのプラットフォームの抽出器で、ファイル内でエクスポートされた全コンポーネント）
+      const components = await PlatformExtractorFactory.extractComponents(platformExtractors, [filePath], extractorConfig);
+      result.componentCount = components.length;
+
+      // スタイルバリデーション（設定のスタイルシステムのStyleExtractor）
+      if (rules.includes('style')) {
+        for (const component of components) {
+          component.tailwindClasses.forEach(className => {
             if (className.includes('undefined') || className.includes('null')) {
               result.errors.push({
                 message: `Invalid class name: ${className}`,
@@ -164,6 +182,32 @@ export class ValidateCommand {
               });
             }
           });
+
+          const styleValidation = styleExtractor.validateStyles(this.getStyleValues(styleSystem, component), component.styleInfo);
+          result.errors.push(...styleValidation.errors.map(error => ({ ...error, severity: 'error' as const })));
+          result.warnings.push(...styleValidation.warnings.map(warning => ({ ...warning, severity: 'warning' as const })));
+        }
+      }
+
+      // プラットフォームバリデーション（コンポーネントのプラットフォームの抽出器でコード例を検証）
+      if (rules.includes('syntax')) {
+        for (const component of components) {
+          const platformExtractor = platformExtractors.find(extractor => extractor.platform === component.platform);
+          platformExtractor?.generateExamples(component).forEach(example => {
+            const platformValidation = platformExtractor.validateCode(example);
+            result.errors.push(...platformValidation.errors.map(error => ({ ...error, severity: 'error' as const })));
+            result.warnings.push(...platformValidation.warnings.map(warning => ({ ...warning, severity: 'warning' as const })));
+          });
+        }
+      }
+
+      // カスタムバリデーション（エラーコード省略時はバリデーター名）
+      for (const { name, validator } of customValidators) {
+        for (const component of components) {
+          const customValidation = validator.validate(component) || {};
+          result.errors.push(...(customValidation.errors || []).map(error => ({ code: name, ...error, severity: 'error' as const })));
+          result.warnings.push(...(customValidation.warnings || []).map(warning => ({ code: name, ...warning, severity: 'warning' as const })));
+          result.suggestions.push(...(customValidation.suggestions || []).map(suggestion => ({ code: name, ...suggestion, severity: 'info' as const })));
         }
       }
 
@@ -203,6 +247,33 @@ export class ValidateCommand {
     return result;
   }
 
+  /**
+   * スタイルシステムのバリデーションに渡すスタイルを取得
+   *
+   * Tailwindクラスは tailwind のみに渡し、その他のスタイルシステムには
+   * そのシステムで抽出したスタイル（CSS宣言自体は styleInfo から検証）を渡します。
+   *
+   * @param styleSystem 設定のスタイルシステム
+   * @param component 対象コンポーネント
+   * @returns Tailwindクラス / StyleSheetの "property: value" / CSS Modulesのクラス名 / CSS-in-JSのスタイル名
+   */
+  private getStyleValues(styleSystem: StyleSystem | string, component: ExtractedComponent): string[] {
+    const styleInfo = component.styleInfo;
+    switch (styleSystem) {
+      case 'tailwind':
+        return component.tailwindClasses;
+      case 'stylesheet':
+        return styleInfo?.type === 'stylesheet'
+          ? Object.values(styleInfo.styles || {}).flatMap(styleObject =>
+              Object.entries(styleObject || {}).map(([property, value]) => `${property}: ${value}`))
+          : [];
+      case 'css-modules':
+        return styleInfo?.classes || [];
+      default:
+        return Object.keys(styleInfo?.declarations || {});
+    }
+  }
+
   private validateAccessibility(component: any): { warnings: any[], suggestions: any[] } {
     const warnings = [];
     const suggestions = [];
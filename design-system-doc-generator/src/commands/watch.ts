@@ -72,7 +72,7 @@ export class WatchCommand {
    * 6. 継続的な監視モードの開始
    * 
    * 監視対象ファイルパターン：
-   * - **/*.tsx, **/*.jsx, **/*.ts（コンポーネント）
+   * - ソースディレクトリ配下の *.tsx, *.jsx, *.ts（コンポーネント）
    * - tailwind.config.js/ts（設定ファイル）
    * 
    * 除外対象：
@@ -241,6 +241,17 @@ export class ConfigManager {
     return this.config;
   }
 
+  /**
+   * 設定ファイルのディレクトリを取得
+   * 
+   * カスタムプラグインのモジュールパス（extensions）はこのディレクトリからの相対パスとして解決されます。
+   * 
+   * @returns 設定ファイルのディレクトリ（設定ファイルがない場合はカレントディレクトリ）
+   */
+  getConfigDir(): string {
+    return this.configPath ? path.dirname(path.resolve(this.configPath)) : process.cwd();
+  }
+
   /**
    * 設定を直接設定（プログラム実行時の動的設定変更用）
    * 
@@ -372,6 +383,7 @@ export class ConfigManager {
    * 
    * 既存のtailwind/stylesheet/styled-components以外のスタイルシステムをサポートするために使用します。
    * 例: Emotion、Stitches、vanilla-extract等
+   * 組み込みの抽出器がある名前（emotion等）で登録した場合は、登録した抽出器が優先されます。
    * 
    * @param name スタイルシステム名
    * @param config スタイルシステム設定
@@ -406,7 +418,7 @@ export class ConfigManager {
    * @returns カスタムプラットフォームの場合true
    */
   isCustomPlatform(platform: string): boolean {
-    return !['web', 'react-native'].includes(platform) && 
+    return !['web', 'react-native', 'vue', 'svelte', 'angular'].includes(platform) && 
            !!this.config?.extensions.customPlatforms[platform];
   }
 
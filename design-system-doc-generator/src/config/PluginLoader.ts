@@ -0,0 +1,258 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Module from 'module';
+import * as ts from 'typescript';
+import { ConfigManager } from './ConfigManager';
+
+/**
+ * PluginLoader - 設定ファイルのモジュールパスからプラグインを読み込むローダー
+ *
+ * extensions.customStyleSystems / customPlatforms / customValidators に指定された
+ * モジュールパスを解決・読み込みし、エクスポートがプラグインの契約
+ * （StyleExtractor / PlatformExtractor 等の抽象メソッド）を満たすことを検証します。
+ *
+ * 主な機能:
+ * - 設定ファイルのディレクトリからの相対パス・パッケージ名の解決
+ * - CommonJS / ESM / TypeScript モジュールの読み込み
+ * - default export・module.exports・名前付きエクスポートからの実装クラスの選択
+ * - 原因と対処を含むエラーメッセージ
+ *
+ * なぜ同期的に読み込むか:
+ * - StyleExtractorFactory / PlatformExtractorFactory の生成メソッドが同期APIのため
+ * - ESM・TypeScriptはCommonJSにトランスパイルして評価（トップレベルawaitは非対応）
+ */
+
+/**
+ * PluginContract - プラグインが満たすべき契約
+ */
+export interface PluginContract {
+  name: string;          // 契約名（エラーメッセージ用。例: StyleExtractor）
+  methods: string[];     // 実装が必須のメソッド
+  properties?: string[]; // インスタンスに必須のプロパティ
+}
+
+// 拡張子を省略したモジュールパスの補完順
+const MODULE_EXTENSIONS = ['.ts', '.mts', '.cts', '.js', '.mjs', '.cjs'];
+
+// CommonJSにトランスパイルして評価する拡張子
+const TRANSPILED_EXTENSIONS = ['.ts', '.mts', '.cts', '.mjs'];
+
+export class PluginLoader {
+  // 解決済みファイルパス毎の読み込み結果（コンポーネント毎の抽出器生成で再評価しない）
+  private static cache = new Map<string, any>();
+
+  /**
+   * プラグインを読み込み、契約を満たす実装をインスタンス化
+   *
+   * エクスポートがクラスの場合は args で生成し、オブジェクトの場合はそのまま使用します。
+   *
+   * @param modulePath 設定ファイルに記述されたモジュールパス
+   * @param contract プラグインが満たすべき契約
+   * @param args クラスのコンストラクタ引数
+   * @param baseDir 相対パスの基準ディレクトリ（省略時は設定ファイルのディレクトリ）
+   * @returns 契約を満たすプラグインのインスタンス
+   * @throws {Error} 解決・読み込み・契約の検証・生成に失敗した場合
+   */
+  static instantiate<T>(modulePath: string, contract: PluginContract, args: unknown[] = [], baseDir?: string): T {
+    const resolvedBaseDir = baseDir || ConfigManager.getInstance().getConfigDir();
+    const exports = this.load(modulePath, contract, resolvedBaseDir);
+    const implementation = this.selectImplementation(exports, modulePath, contract);
+
+    let instance: any;
+    try {
+      instance = typeof implementation === 'function' ? new implementation(...args) : implementation;
+    } catch (error) {
+      throw new Error(`Failed to instantiate ${contract.name} plugin '${modulePath}': ${this.describeError(error)}`);
+    }
+
+    const missingProperties = (contract.properties || []).filter(property => instance[property] === undefined);
+    if (missingProperties.length > 0) {
+      throw new Error(
+        `${contract.name} plugin '${modulePath}' is missing required properties: ${missingProperties.join(', ')}. ` +
+        'Define them as class fields or assign them in the constructor.'
+      );
+    }
+
+    return instance as T;
+  }
+
+  /**
+   * モジュールパスを解決して読み込む
+   * @param modulePath 設定ファイルに記述されたモジュールパス
+   * @param contract エラーメッセージに使用する契約
+   * @param baseDir 相対パスの基準ディレクトリ
+   * @returns モジュールのエクスポート
+   */
+  private static load(modulePath: string, contract: PluginContract, baseDir: string): any {
+    let filePath: string;
+    try {
+      filePath = this.resolve(modulePath, baseDir);
+    } catch {
+      throw new Error(
+        `Cannot find ${contract.name} plugin '${modulePath}' (resolved from ${baseDir}). ` +
+        'Relative paths are resolved from the directory of the config file; package names must be installed.'
+      );
+    }
+
+    try {
+      return this.loadFile(filePath);
+    } catch (error) {
+      throw new Error(`Failed to load ${contract.name} plugin '${modulePath}' (${filePath}): ${this.describeError(error)}`);
+    }
+  }
+
+  /**
+   * モジュールパスをファイルパスに解決
+   *
+   * 相対パス・絶対パスは拡張子と index ファイルを補完し、
+   * それ以外はパッケージ名として baseDir から解決します。
+   *
+   * @param modulePath モジュールパス
+   * @param baseDir 基準ディレクトリ
+   * @returns 解決されたファイルの絶対パス
+   * @throws {Error} ファイルが見つからない場合
+   */
+  private static resolve(modulePath: string, baseDir: string): string {
+    if (!modulePath.startsWith('.') && !path.isAbsolute(modulePath)) {
+      return require.resolve(modulePath, { paths: [baseDir] });
+    }
+
+    const basePath = path.resolve(baseDir, modulePath);
+    const candidates = [
+      basePath,
+      ...MODULE_EXTENSIONS.map(extension => basePath + extension),
+      ...MODULE_EXTENSIONS.map(extension => path.join(basePath, `index${extension}`)),
+    ];
+    const filePath = candidates.find(candidate => fs.existsSync(candidate) && fs.statSync(candidate).isFile());
+    if (!filePath) {
+      throw new Error(`Cannot find module '${modulePath}'`);
+    }
+    return filePath;
+  }
+
+  /**
+   * ファイルを読み込む（TypeScript・ESMはトランスパイルして評価）
+   * @param filePath ファイルの絶対パス
+   * @returns モジュールのエクスポート
+   */
+  private static loadFile(filePath: string): any {
+    if (this.cache.has(filePath)) {
+      return this.cache.get(filePath);
+    }
+
+    let exports: any;
+    if (TRANSPILED_EXTENSIONS.includes(path.extname(filePath))) {
+      exports = this.compile(filePath);
+    } else {
+      try {
+        exports = require(filePath);
+      } catch (error) {
+        // "type": "module" のパッケージや import/export を含む .js はESMとして評価
+        if (!this.isESMError(error)) {
+          throw error;
+        }
+        exports = this.compile(filePath);
+      }
+    }
+
+    this.cache.set(filePath, exports);
+    return exports;
+  }
+
+  /**
+   * TypeScript・ESMのソースをCommonJSにトランスパイルして評価
+   *
+   * プラグイン内の相対importもこのローダーで読み込むため、
+   * TypeScriptのヘルパーファイル等を分割したプラグインにも対応します。
+   *
+   * @param filePath ファイルの絶対パス
+   * @returns モジュールのエクスポート
+   */
+  private static compile(filePath: string): any {
+    const source = fs.readFileSync(filePath, 'utf-8');
+    const { outputText } = ts.transpileModule(source, {
+      fileName: filePath,
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2020,
+        esModuleInterop: true,
+        jsx: ts.JsxEmit.React,
+      },
+    });
+
+    const pluginModule = new Module(filePath);
+    pluginModule.filename = filePath;
+    pluginModule.paths = (Module as any)._nodeModulePaths(path.dirname(filePath));
+    pluginModule.require = ((request: string) => {
+      if (request.startsWith('.') || path.isAbsolute(request)) {
+        return this.loadFile(this.resolve(request, path.dirname(filePath)));
+      }
+      return Module.prototype.require.call(pluginModule, request);
+    }) as NodeJS.Require;
+    (pluginModule as any)._compile(outputText, filePath);
+    return pluginModule.exports;
+  }
+
+  /**
+   * エクスポートから契約を満たす実装を選択
+   *
+   * module.exports → default export → 名前付きエクスポートの順に探索します。
+   *
+   * @param exports モジュールのエクスポート
+   * @param modulePath エラーメッセージに使用するモジュールパス
+   * @param contract プラグインが満たすべき契約
+   * @returns 契約を満たすクラスまたはオブジェクト
+   * @throws {Error} 契約を満たすエクスポートがない場合
+   */
+  private static selectImplementation(exports: any, modulePath: string, contract: PluginContract): any {
+    const candidates = [
+      exports,
+      exports?.default,
+      ...(exports && typeof exports === 'object' ? Object.values(exports) : []),
+    ].filter((candidate, index, all) => candidate && ['function', 'object'].includes(typeof candidate) && all.indexOf(candidate) === index);
+
+    const implementation = candidates.find(candidate => this.findMissingMethods(candidate, contract).length === 0);
+    if (implementation) {
+      return implementation;
+    }
+
+    // 最も契約に近い候補の不足メソッドを案内
+    const missingMethods = candidates
+      .map(candidate => this.findMissingMethods(candidate, contract))
+      .sort((a, b) => a.length - b.length)[0] || contract.methods;
+    throw new Error(
+      `${contract.name} plugin '${modulePath}' does not export a valid ${contract.name}: missing ${missingMethods.join(', ')}. ` +
+      `Export a class implementing ${contract.methods.join(', ')} as the default export or module.exports.`
+    );
+  }
+
+  /**
+   * 契約のメソッドのうち実装されていないものを取得
+   * @param candidate クラスまたはオブジェクト
+   * @param contract プラグインが満たすべき契約
+   * @returns 実装されていないメソッド名
+   */
+  private static findMissingMethods(candidate: any, contract: PluginContract): string[] {
+    const target = typeof candidate === 'function' ? candidate.prototype : candidate;
+    return contract.methods.filter(method => typeof target?.[method] !== 'function');
+  }
+
+  /**
+   * ESMをrequireした際のエラーかどうかを判定
+   * @param error requireで発生したエラー
+   * @returns ESMとして評価すべき場合true
+   */
+  private static isESMError(error: any): boolean {
+    return error?.code === 'ERR_REQUIRE_ESM' ||
+      (error?.name === 'SyntaxError' && /\b(import|export)\b/.test(error.message));
+  }
+
+  /**
+   * エラーを文字列化
+   * @param error 発生したエラー
+   * @returns エラーメッセージ
+   */
+  private static describeError(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
@@ -0,0 +1,170 @@
+import * as path from 'path';
+import { CompositionEdge, CompositionGraph, CompositionNode, ExtractedComponent, JSXElement } from '../types';
+
+/**
+ * CompositionGraphBuilder - コンポーネント構成グラフ構築クラス
+ *
+ * このクラスは、抽出済みのコンポーネント群から「どのコンポーネントがどのコンポーネントを
+ * 描画しているか」を表す構成グラフを構築します。コンポーネント本体に現れる要素名を、
+ * 解決済みのインポート（ExtractedComponent.imports）と同一ファイル内の定義に突き合わせて
+ * 実際の描画関係を特定します。
+ *
+ * 主な責務:
+ * - コンポーネント本体の全JSX要素からのコンポーネント要素名の収集（<Button>、<UI.Badge>、<Card.Header>）
+ * - インポートの定義元ファイルと抽出済みコンポーネントの対応付け
+ * - 同一ファイル内で定義されたコンポーネントの描画の検出
+ * - 描画する側・される側の取得（関連コンポーネントの算出用）
+ * - 別ファイルの同名コンポーネントを区別するノードID（filePath#componentName）の付与
+ *
+ * 対応付けの規則:
+ * - 名前付きインポート: 定義元ファイルの同名コンポーネント
+ * - デフォルトインポート: 定義元ファイルのローカル名と同名、または唯一のコンポーネント
+ * - 名前空間インポート（UI.Badge）: 定義元ファイル、なければ全体から同名のコンポーネント
+ * - インポートしていない要素名: 同一ファイル内の同名コンポーネント
+ *
+ * 使用例:
+ * const builder = new CompositionGraphBuilder();
+ * const graph = builder.build(components);
+ * // => { nodes: [{ id: 'src/ui/Badge.tsx#Badge', componentName: 'Badge', filePath: 'src/ui/Badge.tsx' }, ...],
+ * //      edges: [{ from: 'src/ProductCard.tsx#ProductCard', to: 'src/ui/Badge.tsx#Badge' }, ...] }
+ *
+ * 他クラスとの関係:
+ * - ImportResolver: コンポーネント抽出時にインポートを定義元まで解決
+ * - SnapshotCommand / AIDocumentGenerator: 構成グラフをスナップショット・ドキュメントに記録
+ * - ComponentDocumentGenerator: 構成グラフの辺から関連コンポーネントを算出
+ */
+export class CompositionGraphBuilder {
+  /**
+   * コンポーネント群から構成グラフを構築
+   *
+   * @param components 抽出済みのコンポーネント
+   * @returns ノード（filePath#componentName で識別）と描画関係の辺
+   */
+  build(components: ExtractedComponent[]): CompositionGraph {
+    const nodes = new Map<string, CompositionNode>();
+    const edges = new Map<string, CompositionEdge>();
+
+    for (const component of components) {
+      const id = this.getNodeId(component);
+      nodes.set(id, { id, componentName: component.componentName, filePath: component.filePath });
+
+      for (const elementName of this.collectElementNames(component)) {
+        const target = this.resolveElement(elementName, component, components);
+        if (target && target !== component) {
+          const edge = { from: id, to: this.getNodeId(target) };
+          edges.set(`${edge.from}->${edge.to}`, edge);
+        }
+      }
+    }
+
+    return {
+      nodes: Array.from(nodes.values()).sort((a, b) => a.id.localeCompare(b.id)),
+      edges: Array.from(edges.values()).sort((a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to)),
+    };
+  }
+
+  /**
+   * コンポーネントのノードIDを取得
+   *
+   * @param component コンポーネント
+   * @returns filePath#componentName
+   */
+  getNodeId(component: Pick<ExtractedComponent, 'filePath' | 'componentName'>): string {
+    return `${component.filePath}#${component.componentName}`;
+  }
+
+  /**
+   * 指定ノードのコンポーネントが描画しているコンポーネントを取得
+   *
+   * @param graph 構成グラフ
+   * @param nodeId ノードID（filePath#componentName）
+   * @returns 描画しているコンポーネント名
+   */
+  getRenders(graph: CompositionGraph, nodeId: string): string[] {
+    return this.getComponentNames(graph, graph.edges.filter(edge => edge.from === nodeId).map(edge => edge.to));
+  }
+
+  /**
+   * 指定ノードのコンポーネントを描画しているコンポーネントを取得
+   *
+   * @param graph 構成グラフ
+   * @param nodeId ノードID（filePath#componentName）
+   * @returns 描画しているコンポーネント名
+   */
+  getRenderedBy(graph: CompositionGraph, nodeId: string): string[] {
+    return this.getComponentNames(graph, graph.edges.filter(edge => edge.to === nodeId).map(edge => edge.from));
+  }
+
+  /**
+   * ノードIDをコンポーネント名に変換
+   *
+   * @param graph 構成グラフ
+   * @param nodeIds ノードID
+   * @returns コンポーネント名
+   */
+  private getComponentNames(graph: CompositionGraph, nodeIds: string[]): string[] {
+    return nodeIds.map(nodeId => graph.nodes.find(node => node.id === nodeId)?.componentName || nodeId);
+  }
+
+  /**
+   * コンポーネントが描画しているコンポーネント要素名（大文字始まり・メンバー式）を収集
+   *
+   * 抽出時に収集した本体の全JSX要素（renderedElements）と、JSX構造（テンプレート系のプラットフォーム）の要素を対象とします。
+   *
+   * @param component 対象コンポーネント
+   * @returns 要素名（重複なし）
+   */
+  private collectElementNames(component: ExtractedComponent): string[] {
+    const names = new Set<string>();
+    const add = (name: string) => {
+      if (/^[A-Z]/.test(name) && name !== 'Fragment') {
+        names.add(name);
+      }
+    };
+    const visit = (node: JSXElement | string) => {
+      if (typeof node !== 'object' || !node) return;
+      add(node.type);
+      node.children?.forEach(visit);
+    };
+
+    component.renderedElements?.forEach(add);
+    if (component.jsxStructure) visit(component.jsxStructure);
+    return Array.from(names);
+  }
+
+  /**
+   * JSX要素名を抽出済みのコンポーネントに解決
+   *
+   * @param elementName 要素名（Button、UI.Badge、Card.Header）
+   * @param component 要素を描画しているコンポーネント
+   * @param components 抽出済みの全コンポーネント
+   * @returns 描画されているコンポーネント（解決できない場合はundefined）
+   */
+  private resolveElement(
+    elementName: string,
+    component: ExtractedComponent,
+    components: ExtractedComponent[]
+  ): ExtractedComponent | undefined {
+    const [head, member] = elementName.split('.');
+    const inFile = (filePath: string) => components.filter(c => path.resolve(c.filePath) === path.resolve(filePath));
+    const imported = component.imports?.find(entry => entry.localName === head);
+
+    if (!imported) {
+      // <Card.Header> のような同一ファイル内の定義（または複合コンポーネントの親）
+      return inFile(component.filePath).find(c => c.componentName === head);
+    }
+
+    const candidates = inFile(imported.resolvedPath);
+    if (imported.importedName === '*') {
+      return member
+        ? candidates.find(c => c.componentName === member) || components.find(c => c.componentName === member)
+        : undefined;
+    }
+    if (imported.importedName === 'default') {
+      const baseName = path.basename(imported.resolvedPath).replace(/\.[^.]+$/, '');
+      return candidates.find(c => c.componentName === head) ||
+             (candidates.length === 1 ? candidates[0] : candidates.find(c => c.componentName === baseName));
+    }
+    return candidates.find(c => c.componentName === imported.importedName);
+  }
+}
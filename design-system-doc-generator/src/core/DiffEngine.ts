@@ -74,9 +74,9 @@ export class DiffEngine {
   constructor() {
     this.differ = jsondiffpatch.create({
       // オブジェクト同一性判定のハッシュ関数
-      // コンポーネントはfilePath、その他はJSONシリアライズで識別
+      // コンポーネントはfilePath+componentName、その他はJSONシリアライズで識別
       objectHash: (obj: any) => {
-        if (obj.filePath) return obj.filePath;        // コンポーネントはファイルパスで識別
+        if (obj.filePath) return DiffEngine.getComponentKey(obj); // コンポーネントはファイルパス+名前で識別
         if (obj.componentName) return obj.componentName; // コンポーネント名での識別
         return JSON.stringify(obj);                   // その他のオブジェクトはJSON化で識別
       },
@@ -121,7 +121,7 @@ export class DiffEngine {
    */
   async compareSnapshots(oldSnapshot: Snapshot, newSnapshot: Snapshot): Promise<DiffResult> {
     // フェーズ1: コンポーネントのインデックス化
-    // ファイルパスをキーとしたマップ構造で高速検索を可能にする
+    // ファイルパス+コンポーネント名をキーとしたマップ構造で高速検索を可能にする
     const oldComponents = this.indexComponents(oldSnapshot.components);
     const newComponents = this.indexComponents(newSnapshot.components);
     
@@ -152,21 +152,21 @@ export class DiffEngine {
     };
 
     // フェーズ3: コンポーネント変更の検出
-    // 全コンポーネントパスを統合して一括処理
-    const allPaths = new Set([...Object.keys(oldComponents), ...Object.keys(newComponents)]);
+    // 全コンポーネントキーを統合して一括処理
+    const allKeys = new Set([...Object.keys(oldComponents), ...Object.keys(newComponents)]);
     
-    for (const path of allPaths) {
-      if (!oldComponents[path] && newComponents[path]) {
+    for (const key of allKeys) {
+      if (!oldComponents[key] && newComponents[key]) {
         // 新規追加されたコンポーネント
-        result.changes.components.added.push(newComponents[path]);
+        result.changes.components.added.push(newComponents[key]);
         result.summary.componentsAdded++;
-      } else if (oldComponents[path] && !newComponents[path]) {
+      } else if (oldComponents[key] && !newComponents[key]) {
         // 削除されたコンポーネント
-        result.changes.components.removed.push(oldComponents[path]);
+        result.changes.components.removed.push(oldComponents[key]);
         result.summary.componentsRemoved++;
-      } else if (oldComponents[path] && newComponents[path]) {
+      } else if (oldComponents[key] && newComponents[key]) {
         // 既存コンポーネントの修正チェック
-        const modified = this.compareComponents(oldComponents[path], newComponents[path]);
+        const modified = this.compareComponents(oldComponents[key], newComponents[key]);
         if (modified) {
           result.changes.components.modified.push(modified);
           result.summary.componentsModified++;
@@ -198,25 +198,35 @@ export class DiffEngine {
   /**
    * コンポーネント配列を高速検索用のインデックスマップに変換
    * 
-   * コンポーネント配列をファイルパスをキーとした連想配列に変換し、
-   * O(1)での高速検索を可能にします。大量のコンポーネントを扱う
-   * プロジェクトでの比較性能を大幅に向上させます。
+   * コンポーネント配列をファイルパス+コンポーネント名をキーとした連想配列に変換し、
+   * O(1)での高速検索を可能にします。1ファイルに複数のコンポーネントが
+   * 定義されている場合も、それぞれを個別に比較できます。
    * 
    * @param components インデックス化対象のコンポーネント配列
-   * @returns ファイルパスをキーとしたコンポーネントマップ
+   * @returns ファイルパス+コンポーネント名をキーとしたコンポーネントマップ
    */
   private indexComponents(components: ExtractedComponent[]): Record<string, ExtractedComponent> {
     const index: Record<string, ExtractedComponent> = {};
     for (const component of components) {
-      index[component.filePath] = component;  // ファイルパスを一意キーとして使用
+      index[DiffEngine.getComponentKey(component)] = component;  // ファイルパス+名前を一意キーとして使用
     }
     return index;
   }
 
+  /**
+   * コンポーネントの一意キーを生成
+   * 
+   * @param component 対象コンポーネント
+   * @returns "ファイルパス#コンポーネント名" 形式のキー
+   */
+  private static getComponentKey(component: Pick<ExtractedComponent, 'filePath' | 'componentName'>): string {
+    return `${component.filePath}#${component.componentName}`;
+  }
+
   /**
    * 個別コンポーネント間の詳細な変更比較
    * 
-   * 同一ファイルパスのコンポーネント間で、Tailwindクラスの追加・削除、
+   * 同一ファイルパス・同名のコンポーネント間で、Tailwindクラスの追加・削除、
    * TypeScript Propsの変更を詳細に検出します。軽微な変更から
    * ブレイキングチェンジまで幅広い修正を正確に特定します。
    * 
@@ -250,6 +260,7 @@ export class DiffEngine {
     if (classesAdded.length > 0 || classesRemoved.length > 0 || propsChanged) {
       return {
         path: newComp.filePath,           // 変更されたファイルパス
+        componentName: newComp.componentName, // 変更されたコンポーネント名
         changes: {
           classesAdded,                   // 新規追加されたTailwindクラス
           classesRemoved,                 // 削除されたTailwindクラス
@@ -452,7 +463,7 @@ export class DiffEngine {
     if (result.changes.components.added.length > 0) {
       console.log(chalk.green.bold('+ 追加されたコンポーネント:'));
       result.changes.components.added.forEach(comp => {
-        console.log(chalk.green(`  + ${comp.filePath}`));
+        console.log(chalk.green(`  + ${comp.componentName} (${comp.filePath})`));
         console.log(chalk.gray(`    カテゴリ: ${comp.category}`));      // Atomic Designカテゴリ
         console.log(chalk.gray(`    クラス数: ${comp.tailwindClasses.length}`)); // 使用Tailwindクラス数
       });
@@ -463,7 +474,7 @@ export class DiffEngine {
     if (result.changes.components.removed.length > 0) {
       console.log(chalk.red.bold('- 削除されたコンポーネント:'));
       result.changes.components.removed.forEach(comp => {
-        console.log(chalk.red(`  - ${comp.filePath}`));
+        console.log(chalk.red(`  - ${comp.componentName} (${comp.filePath})`));
       });
       console.log();
     }
@@ -472,7 +483,7 @@ export class DiffEngine {
     if (result.changes.components.modified.length > 0) {
       console.log(chalk.yellow.bold('~ 変更されたコンポーネント:'));
       result.changes.components.modified.forEach(comp => {
-        console.log(chalk.yellow(`  ~ ${comp.path}`));
+        console.log(chalk.yellow(`  ~ ${comp.componentName} (${comp.path})`));
         
         // 追加されたTailwindクラスの表示
         if (comp.changes.classesAdded.length > 0) {
@@ -0,0 +1,533 @@
+import * as path from 'path';
+import { ComponentAnalyzer } from '../extractors/ast/ComponentAnalyzer';
+import { ImportResolver } from '../extractors/ast/ImportResolver';
+import { topLevelDeclarations } from '../extractors/ast/TopLevelDeclarations';
+import { ComponentStories, ExtractedComponent, StoryArgType, StoryInfo } from '../types';
+
+// 読み込んだストーリーファイルと紐付け先のコンポーネント参照
+interface StoryFile {
+  stories: ComponentStories;
+  componentRef: any;  // meta.component の式（Button / UI.Button / Card.Header）
+}
+
+/**
+ * StoryReader - Storybook CSF ストーリー読み込みクラス
+ *
+ * このクラスは、*.stories.tsx（Component Story Format）を解析し、各ストーリーの args・argTypes と
+ * 描画されるJSXを抽出して、default export の component に指定されたコンポーネントに紐付けます。
+ * 紐付けたストーリーは ComponentDocumentGenerator で合成のコード例の代わりに使用されます。
+ *
+ * 主な責務:
+ * - default export（meta）の title・component・args・argTypes・render の読み込み
+ * - 名前付きエクスポートのストーリーの列挙（CSF3 のオブジェクト・CSF2 の関数）
+ * - args を属性として展開した描画JSXの生成
+ * - meta.component のインポート元とスナップショットのコンポーネントの照合
+ *
+ * 対応パターン:
+ * - CSF3: export default { component: Button } satisfies Meta<typeof Button>; export const Primary: Story = { args: { ... } }
+ * - CSF3: const meta: Meta<typeof Button> = { ... }; export default meta; / render: (args) => <Button {...args} />
+ * - CSF2: const Template = (args) => <Button {...args} />; export const Primary = Template.bind({}); Primary.args = { ... }
+ * - CSF2: export const Small = () => <Button size="sm">Small</Button>; Small.storyName = '小サイズ'
+ *
+ * 照合の規則:
+ * - 相対パス・tsconfig の paths のインポート: 定義元ファイル（バレルの再エクスポートを追跡）のコンポーネント
+ * - 解決できないインポート（パッケージ名等）・名前空間インポート: 同名のコンポーネントが一つだけの場合
+ * - Card.Header: 親コンポーネントのサブコンポーネント
+ *
+ * 制限事項:
+ * - args の値はソース表記のまま保持し、評価しない（スプレッド・計算プロパティは無視）
+ * - render 内の {...args} 以外の args 参照（args.label 等）は展開しない
+ * - includeStories / excludeStories による絞り込みには対応しない
+ *
+ * 使用例:
+ * const reader = new StoryReader();
+ * const linked = await reader.attachStories(components, ['./src/Button.stories.tsx']);
+ * // => Button.stories = [{ filePath, title: 'Atoms/Button', args: {}, argTypes: { ... },
+ * //      stories: [{ name: 'Primary', exportName: 'Primary', args: { variant: "'primary'" }, code: '<Button variant="primary" />' }] }]
+ *
+ * 他クラスとの関係:
+ * - ComponentAnalyzer: ストーリーファイルのパース
+ * - ImportResolver: meta.component のインポートの定義元解決
+ * - SnapshotCommand / GenerateCommand: 抽出したコンポーネントにストーリーを付与
+ * - ComponentDocumentGenerator: ストーリーを ComponentDoc.examples として出力
+ */
+export class StoryReader {
+  private componentAnalyzer: ComponentAnalyzer;
+  private importResolver: ImportResolver;
+
+  /**
+   * @param componentAnalyzer ストーリーファイルのパーサー
+   * @param importResolver meta.component のインポートの解決
+   */
+  constructor(componentAnalyzer = new ComponentAnalyzer(), importResolver = new ImportResolver()) {
+    this.componentAnalyzer = componentAnalyzer;
+    this.importResolver = importResolver;
+  }
+
+  /**
+   * ストーリーファイル群を読み込み、対応するコンポーネントに付与
+   *
+   * @param components 抽出済みのコンポーネント
+   * @param files ストーリーファイル（*.stories.tsx 等）
+   * @returns ストーリーを付与したコンポーネント（紐付かなかったストーリーファイルは無視）
+   */
+  async attachStories(components: ExtractedComponent[], files: string[]): Promise<ExtractedComponent[]> {
+    const linked = new Map<ExtractedComponent, ComponentStories[]>();
+
+    for (const file of files) {
+      const { content, ast } = await this.componentAnalyzer.parseFile(file);
+      const storyFile = ast ? this.readStories(ast, content, file) : null;
+      if (!storyFile) continue;
+
+      const component = this.resolveComponent(storyFile.componentRef, ast, file, components);
+      if (!component) {
+        console.warn(`No documented component found for stories in ${file}`);
+        continue;
+      }
+      linked.set(component, [...(linked.get(component) || []), storyFile.stories]);
+    }
+
+    const withStories = (component: ExtractedComponent): ExtractedComponent => ({
+      ...component,
+      ...(linked.has(component) && { stories: linked.get(component) }),
+      ...(component.subcomponents && { subcomponents: component.subcomponents.map(withStories) }),
+    });
+    return components.map(withStories);
+  }
+
+  /**
+   * ストーリーファイルのASTからメタ情報とストーリーを読み込み
+   *
+   * @param ast ストーリーファイルのAST
+   * @param content ファイルの内容（args の値・JSXのソース表記の取得用）
+   * @param filePath ファイルのパス
+   * @returns ストーリー情報（meta.component がない場合はnull）
+   */
+  private readStories(ast: any, content: string, filePath: string): StoryFile | null {
+    const declarations = this.collectDeclarations(ast);
+    const defaultExport = ast.body.find((statement: any) => statement.type === 'ExportDefaultDeclaration');
+    const meta = this.resolveObject(defaultExport?.declaration, declarations);
+    const componentRef = meta && this.getProperty(meta, 'component');
+    if (!componentRef) {
+      return null;
+    }
+
+    const source = (node: any) => content.slice(node.range[0], node.range[1]);
+    const metaArgs = this.readArgs(this.getProperty(meta, 'args'), source);
+    const argTypes = this.readArgTypes(this.getProperty(meta, 'argTypes'));
+    const metaRender = this.getProperty(meta, 'render');
+    const assignments = this.collectAssignments(ast);
+
+    const stories: StoryInfo[] = [];
+    for (const { exportName, init } of this.collectNamedExports(ast)) {
+      const story = this.resolveObject(init, declarations);
+      const storyFunction = this.resolveStoryFunction(init, declarations);
+      if (!story && !storyFunction) continue;  // ストーリー以外のエクスポート（定数等）
+
+      const assigned = assignments.get(exportName) || {};
+      const args = {
+        ...this.readArgs(story && this.getProperty(story, 'args'), source),
+        ...this.readArgs(assigned.args, source),
+      };
+      Object.assign(argTypes, this.readArgTypes(story && this.getProperty(story, 'argTypes')));
+
+      const name = this.getString(story && (this.getProperty(story, 'name') || this.getProperty(story, 'storyName'))) ||
+        this.getString(assigned.storyName) ||
+        this.getString(assigned.name) ||
+        this.toStoryName(exportName);
+      const render = (story && this.getProperty(story, 'render')) || storyFunction || metaRender;
+
+      stories.push({
+        name,
+        exportName,
+        args,
+        code: this.renderStory(render, componentRef, { ...metaArgs, ...args }, source),
+      });
+    }
+
+    return {
+      componentRef,
+      stories: {
+        filePath,
+        ...(this.getString(this.getProperty(meta, 'title')) && { title: this.getString(this.getProperty(meta, 'title')) }),
+        args: metaArgs,
+        argTypes,
+        stories,
+      },
+    };
+  }
+
+  /**
+   * ストーリーの描画JSXを生成
+   *
+   * 描画関数がある場合はその戻り値のJSXの {...args} を args の属性に置き換え、
+   * ない場合（CSF3 の既定の描画）はコンポーネントに args を渡すJSXを組み立てます。
+   *
+   * @param render 描画関数（CSF3 の render・CSF2 のストーリー関数）
+   * @param componentRef meta.component の式
+   * @param args 共通 args とストーリー固有の args を合成した値
+   * @param source ノードのソース表記の取得
+   * @returns 描画されるJSX
+   */
+  private renderStory(render: any, componentRef: any, args: Record<string, string>, source: (node: any) => string): string {
+    if (!this.isFunction(render)) {
+      const { children, ...attributes } = args;
+      const name = source(componentRef);
+      const attributeCode = this.formatAttributes(attributes);
+      return children === undefined
+        ? `<${name}${attributeCode} />`
+        : `<${name}${attributeCode}>${this.formatChildren(children)}</${name}>`;
+    }
+
+    const returned = render.body.type === 'BlockStatement'
+      ? render.body.body.find((statement: any) => statement.type === 'ReturnStatement')?.argument
+      : render.body;
+    if (!returned) {
+      return source(render);
+    }
+
+    // {...args} を args の属性に置き換え（後ろから置き換えて位置をずらさない）
+    const argsName = render.params[0]?.type === 'Identifier' ? render.params[0].name : null;
+    const spreads: any[] = [];
+    const visit = (node: any) => {
+      if (!node || typeof node !== 'object') return;
+      if (node.type === 'JSXSpreadAttribute' && node.argument?.type === 'Identifier' && node.argument.name === argsName) {
+        spreads.push(node);
+      }
+      for (const key in node) {
+        if (key !== 'parent' && node[key] && typeof node[key] === 'object') {
+          visit(node[key]);
+        }
+      }
+    };
+    visit(returned);
+
+    const start = returned.range[0];
+    let code = source(returned);
+    spreads.sort((a, b) => b.range[0] - a.range[0]).forEach(spread => {
+      const replacement = this.formatAttributes(args).trimStart();
+      const spreadStart = spread.range[0] - start;
+      const before = code.slice(0, spreadStart);
+      // 置き換え後が空の場合は直前の空白も取り除く
+      code = replacement
+        ? before + replacement + code.slice(spread.range[1] - start)
+        : before.trimEnd() + code.slice(spread.range[1] - start);
+    });
+    return code;
+  }
+
+  /**
+   * args を JSX の属性表記に変換
+   *
+   * @param args Prop名 → 値のソース表記
+   * @returns 先頭に空白を付けた属性（size="sm" disabled onClick={fn()} 等）
+   */
+  private formatAttributes(args: Record<string, string>): string {
+    return Object.entries(args).map(([name, value]) => {
+      const text = this.toStringValue(value);
+      if (text !== null) return ` ${name}="${text}"`;
+      if (value === 'true') return ` ${name}`;
+      return ` ${name}={${value}}`;
+    }).join('');
+  }
+
+  /**
+   * children の args を JSX の子要素表記に変換
+   *
+   * @param value 値のソース表記
+   * @returns 子要素（文字列はテキスト、それ以外は式コンテナ）
+   */
+  private formatChildren(value: string): string {
+    const text = this.toStringValue(value);
+    return text !== null ? text : `{${value}}`;
+  }
+
+  /**
+   * 引用符・エスケープを含まない文字列リテラルの値を取得
+   *
+   * @param value 値のソース表記
+   * @returns 文字列の値（属性値として書けない場合はnull）
+   */
+  private toStringValue(value: string): string | null {
+    const match = value.match(/^'([^'"\\{}<>]*)'$/) || value.match(/^"([^'"\\{}<>]*)"$/);
+    return match ? match[1] : null;
+  }
+
+  /**
+   * args オブジェクトを Prop名 → 値のソース表記 に変換
+   *
+   * @param node args のオブジェクト式
+   * @param source ノードのソース表記の取得
+   * @returns args（オブジェクト式でない場合は空）
+   */
+  private readArgs(node: any, source: (node: any) => string): Record<string, string> {
+    const args: Record<string, string> = {};
+    if (node?.type !== 'ObjectExpression') {
+      return args;
+    }
+
+    node.properties.forEach((property: any) => {
+      const name = property.type === 'Property' && !property.computed ? this.getKeyName(property.key) : null;
+      if (name) {
+        args[name] = source(property.value);
+      }
+    });
+    return args;
+  }
+
+  /**
+   * argTypes オブジェクトを読み込み
+   *
+   * @param node argTypes のオブジェクト式
+   * @returns Prop名 → コントロール設定（オブジェクト式でない場合は空）
+   */
+  private readArgTypes(node: any): Record<string, StoryArgType> {
+    const argTypes: Record<string, StoryArgType> = {};
+    if (node?.type !== 'ObjectExpression') {
+      return argTypes;
+    }
+
+    node.properties.forEach((property: any) => {
+      const name = property.type === 'Property' && !property.computed ? this.getKeyName(property.key) : null;
+      if (!name || property.value.type !== 'ObjectExpression') return;
+
+      // control: 'select' / control: { type: 'select' }
+      const control = this.getProperty(property.value, 'control');
+      const controlType = this.getString(control) || this.getString(control?.type === 'ObjectExpression' ? this.getProperty(control, 'type') : null);
+      const options = this.getProperty(property.value, 'options');
+      const description = this.getString(this.getProperty(property.value, 'description'));
+      const table = this.getProperty(property.value, 'table');
+      const defaultValue = table?.type === 'ObjectExpression' ? this.getProperty(table, 'defaultValue') : null;
+      const summary = this.getString(defaultValue?.type === 'ObjectExpression' ? this.getProperty(defaultValue, 'summary') : null);
+
+      argTypes[name] = {
+        ...(controlType && { control: controlType }),
+        ...(options?.type === 'ArrayExpression' && {
+          options: options.elements.filter((element: any) => element?.type === 'Literal').map((element: any) => String(element.value)),
+        }),
+        ...(description && { description }),
+        ...(summary && { defaultValue: summary }),
+      };
+    });
+    return argTypes;
+  }
+
+  /**
+   * meta.component の参照をコンポーネントに解決
+   *
+   * @param ref meta.component の式
+   * @param ast ストーリーファイルのAST
+   * @param filePath ストーリーファイルのパス
+   * @param components 抽出済みのコンポーネント
+   * @returns 対応するコンポーネント（見つからない・特定できない場合はnull）
+   */
+  private resolveComponent(ref: any, ast: any, filePath: string, components: ExtractedComponent[]): ExtractedComponent | null {
+    const imports = this.importResolver.resolveImports(ast, filePath);
+    const findByName = (name: string) => {
+      const matches = components.filter(component => component.componentName === name);
+      return matches.length === 1 ? matches[0] : null;
+    };
+
+    if (ref.type === 'Identifier') {
+      const imported = imports.find(entry => entry.localName === ref.name);
+      if (!imported || imported.importedName === '*') {
+        return findByName(ref.name);
+      }
+
+      // 定義元ファイルのコンポーネントをエクスポート名 → ローカル名 → 唯一のコンポーネントの順で特定
+      const candidates = components.filter(component => path.resolve(component.filePath) === imported.resolvedPath);
+      return candidates.find(component => component.componentName === imported.importedName) ||
+             candidates.find(component => component.componentName === imported.localName) ||
+             (candidates.length === 1 ? candidates[0] : null);
+    }
+
+    if (ref.type === 'MemberExpression' && !ref.computed && ref.object.type === 'Identifier') {
+      const memberName = ref.property.name;
+      const namespace = imports.find(entry => entry.localName === ref.object.name && entry.importedName === '*');
+      if (namespace) {
+        return findByName(memberName);
+      }
+
+      // Card.Header: 親コンポーネントのサブコンポーネント
+      const parent = this.resolveComponent(ref.object, ast, filePath, components);
+      return parent?.subcomponents?.find(sub => sub.componentName === `${parent.componentName}.${memberName}`) || null;
+    }
+
+    return null;
+  }
+
+  /**
+   * トップレベルの変数宣言・関数宣言を収集
+   *
+   * @param ast ストーリーファイルのAST
+   * @returns 名前 → 初期化式（関数宣言は宣言ノード）
+   */
+  private collectDeclarations(ast: any): Map<string, any> {
+    const declarations = new Map<string, any>();
+    for (const { declaration } of topLevelDeclarations(ast)) {
+      if (declaration?.type === 'VariableDeclaration') {
+        declaration.declarations
+          .filter((declarator: any) => declarator.id.type === 'Identifier' && declarator.init)
+          .forEach((declarator: any) => declarations.set(declarator.id.name, declarator.init));
+      } else if (declaration?.type === 'FunctionDeclaration' && declaration.id) {
+        declarations.set(declaration.id.name, declaration);
+      }
+    }
+    return declarations;
+  }
+
+  /**
+   * 名前付きエクスポート（ストーリー候補）を列挙
+   *
+   * @param ast ストーリーファイルのAST
+   * @returns エクスポート名と初期化式（関数宣言は宣言ノード）
+   */
+  private collectNamedExports(ast: any): Array<{ exportName: string; init: any }> {
+    const exports: Array<{ exportName: string; init: any }> = [];
+    for (const statement of ast.body) {
+      if (statement.type !== 'ExportNamedDeclaration' || !statement.declaration) continue;
+
+      const declaration = statement.declaration;
+      if (declaration.type === 'VariableDeclaration') {
+        declaration.declarations
+          .filter((declarator: any) => declarator.id.type === 'Identifier' && declarator.init)
+          .forEach((declarator: any) => exports.push({ exportName: declarator.id.name, init: declarator.init }));
+      } else if (declaration.type === 'FunctionDeclaration' && declaration.id) {
+        exports.push({ exportName: declaration.id.name, init: declaration });
+      }
+    }
+    return exports;
+  }
+
+  /**
+   * CSF2 のプロパティ代入（Primary.args = { ... }、Primary.storyName = '...'）を収集
+   *
+   * @param ast ストーリーファイルのAST
+   * @returns ストーリー名 → プロパティ名 → 代入された式
+   */
+  private collectAssignments(ast: any): Map<string, Record<string, any>> {
+    const assignments = new Map<string, Record<string, any>>();
+    for (const statement of ast.body) {
+      const expression = statement.type === 'ExpressionStatement' ? statement.expression : null;
+      const target = expression?.type === 'AssignmentExpression' ? expression.left : null;
+      if (target?.type !== 'MemberExpression' || target.computed || target.object.type !== 'Identifier') continue;
+
+      const assigned = assignments.get(target.object.name) || {};
+      assigned[target.property.name] = expression.right;
+      assignments.set(target.object.name, assigned);
+    }
+    return assignments;
+  }
+
+  /**
+   * 式をオブジェクト式に解決（型アサーション・satisfies・変数参照を展開）
+   *
+   * @param node 式
+   * @param declarations トップレベルの宣言
+   * @returns オブジェクト式（解決できない場合はnull）
+   */
+  private resolveObject(node: any, declarations: Map<string, any>): any | null {
+    const expression = this.unwrapExpression(node);
+    if (expression?.type === 'ObjectExpression') return expression;
+    if (expression?.type === 'Identifier') {
+      const init = this.unwrapExpression(declarations.get(expression.name));
+      return init?.type === 'ObjectExpression' ? init : null;
+    }
+    return null;
+  }
+
+  /**
+   * CSF2 のストーリー関数を解決（関数そのもの、または Template.bind({}) の Template）
+   *
+   * @param node ストーリーの初期化式
+   * @param declarations トップレベルの宣言
+   * @returns 描画関数（ストーリー関数でない場合はnull）
+   */
+  private resolveStoryFunction(node: any, declarations: Map<string, any>): any | null {
+    const expression = this.unwrapExpression(node);
+    if (this.isFunction(expression)) return expression;
+
+    // Template.bind({})
+    const callee = expression?.type === 'CallExpression' ? expression.callee : null;
+    if (callee?.type === 'MemberExpression' && callee.property.name === 'bind' && callee.object.type === 'Identifier') {
+      const template = this.unwrapExpression(declarations.get(callee.object.name));
+      return this.isFunction(template) ? template : null;
+    }
+    return null;
+  }
+
+  /**
+   * 型アサーション（as / satisfies / 非nullアサーション）を取り除く
+   *
+   * @param node 式
+   * @returns 内側の式
+   */
+  private unwrapExpression(node: any): any {
+    let current = node;
+    while (current && (current.type === 'TSAsExpression' || current.type === 'TSSatisfiesExpression' || current.type === 'TSNonNullExpression')) {
+      current = current.expression;
+    }
+    return current;
+  }
+
+  /**
+   * 関数ノードかどうかの判定
+   *
+   * @param node ノード
+   * @returns 関数宣言・関数式・アロー関数の場合true
+   */
+  private isFunction(node: any): boolean {
+    return node?.type === 'ArrowFunctionExpression' || node?.type === 'FunctionExpression' || node?.type === 'FunctionDeclaration';
+  }
+
+  /**
+   * オブジェクト式のプロパティ値を取得
+   *
+   * @param object オブジェクト式
+   * @param name プロパティ名
+   * @returns 値の式（メソッド定義 render() {} は関数式。存在しない場合はnull）
+   */
+  private getProperty(object: any, name: string): any | null {
+    const property = object?.properties?.find((candidate: any) =>
+      candidate.type === 'Property' && !candidate.computed && this.getKeyName(candidate.key) === name);
+    return property ? property.value : null;
+  }
+
+  /**
+   * プロパティキーの名前を取得
+   *
+   * @param key Identifier / Literal ノード
+   * @returns キー名（'aria-label' 等の文字列キーを含む）
+   */
+  private getKeyName(key: any): string | null {
+    if (key?.type === 'Identifier') return key.name;
+    if (key?.type === 'Literal') return String(key.value);
+    return null;
+  }
+
+  /**
+   * 文字列リテラル・式を含まないテンプレートリテラルの値を取得
+   *
+   * @param node 式
+   * @returns 文字列の値（文字列でない場合はundefined）
+   */
+  private getString(node: any): string | undefined {
+    if (node?.type === 'Literal' && typeof node.value === 'string') return node.value;
+    if (node?.type === 'TemplateLiteral' && node.expressions.length === 0) return node.quasis[0].value.cooked;
+    return undefined;
+  }
+
+  /**
+   * エクスポート名をStorybookの既定の表示名に変換
+   *
+   * @param exportName ストーリーのエクスポート名
+   * @returns 単語区切りの表示名（PrimaryLarge → Primary Large、with_icon → With Icon）
+   */
+  private toStoryName(exportName: string): string {
+    return exportName
+      .replace(/[_-]+/g, ' ')
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/\b\w/g, char => char.toUpperCase())
+      .trim();
+  }
+}
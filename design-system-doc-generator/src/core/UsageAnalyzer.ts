@@ -0,0 +1,313 @@
+import * as path from 'path';
+import { ASTTraverser } from '../extractors/ast/ASTTraverser';
+import { ComponentAnalyzer } from '../extractors/ast/ComponentAnalyzer';
+import { ImportResolver } from '../extractors/ast/ImportResolver';
+import { ASTNode, ComponentImport, ComponentUsage, ExtractedComponent, Snapshot, UsageReport } from '../types';
+
+/**
+ * 利用状況解析のオプション
+ */
+export interface UsageAnalysisOptions {
+  /** 利用側のソースディレクトリ（ファイルパスの相対化に使用） */
+  sourceDir: string;
+  /** デザインシステムのパッケージ名（省略時はスナップショットのプロジェクト名） */
+  packages?: string[];
+}
+
+// ファイル内の名前が指すドキュメント化済みコンポーネント
+type UsageBinding =
+  | { component: ExtractedComponent }     // import { Button } / import Button
+  | { namespace: ExtractedComponent[] };  // import * as UI（UI.Button で参照）
+
+/**
+ * UsageAnalyzer - デザインシステム利用状況解析クラス
+ *
+ * このクラスは、デザインシステムを利用しているアプリケーションのソースを走査し、
+ * スナップショットに記録されたコンポーネントがどこで・どのように呼び出されているかを集計します。
+ * JSXの呼び出し箇所はインポート元で照合するため、同名のローカルコンポーネントとは区別されます。
+ *
+ * 主な責務:
+ * - インポート宣言とスナップショットのコンポーネントの照合
+ * - JSX呼び出し箇所の検出と呼び出し数・ファイルの集計
+ * - Propに渡されたリテラル値の分布の集計
+ * - 一度も渡されていないPropの検出
+ *
+ * 照合の規則:
+ * - パッケージ名（'@acme/ui'、'@acme/ui/Button'）からのインポート: 同名のコンポーネント
+ * - 相対パスのインポート: 定義元ファイル（バレルの再エクスポートを追跡）のコンポーネント
+ * - 名前空間インポート（UI.Button）: 名前空間内の同名のコンポーネント
+ * - 複合コンポーネント（Card.Header）: 親コンポーネントのサブコンポーネント
+ *
+ * 制限事項:
+ * - {...props} で渡されたPropは集計できないため、スプレッドを含む呼び出し数を別途記録
+ * - 変数・式で渡された値は「動的」として件数のみ記録
+ *
+ * 使用例:
+ * const analyzer = new UsageAnalyzer();
+ * const report = await analyzer.analyze(snapshot, files, { sourceDir: './app/src' });
+ * // => { components: [{ componentName: 'Button', instances: 12, props: { size: { count: 5, values: { sm: 3, lg: 2 }, dynamic: 0 } }, ... }] }
+ *
+ * 他クラスとの関係:
+ * - ComponentAnalyzer: 利用側ファイルのパース
+ * - ASTTraverser: JSX要素の走査
+ * - ImportResolver: 相対パスのインポートの定義元解決
+ * - UsageCommand: このクラスの結果をJSON・Markdownとして出力
+ */
+export class UsageAnalyzer {
+  private componentAnalyzer: ComponentAnalyzer;
+  private importResolver: ImportResolver;
+  private astTraverser = new ASTTraverser();
+
+  /**
+   * @param componentAnalyzer 利用側ファイルのパーサー
+   * @param importResolver 相対パスのインポートの解決
+   */
+  constructor(componentAnalyzer = new ComponentAnalyzer(), importResolver = new ImportResolver()) {
+    this.componentAnalyzer = componentAnalyzer;
+    this.importResolver = importResolver;
+  }
+
+  /**
+   * 利用側のファイル群を走査して利用状況を集計
+   *
+   * @param snapshot デザインシステムのスナップショット
+   * @param files 走査するファイル
+   * @param options 解析オプション
+   * @returns 利用状況レポート（利用数の多い順。呼び出しのないコンポーネントも含む）
+   */
+  async analyze(snapshot: Snapshot, files: string[], options: UsageAnalysisOptions): Promise<UsageReport> {
+    const packages = options.packages?.length
+      ? options.packages
+      : [snapshot.project?.name].filter(name => name && name !== 'unknown');
+
+    const usages = new Map<ExtractedComponent, ComponentUsage>();
+    for (const component of snapshot.components) {
+      for (const target of [component, ...(component.subcomponents || [])]) {
+        usages.set(target, {
+          componentName: target.componentName,
+          instances: 0,
+          files: [],
+          props: {},
+          unusedProps: [],
+          spreadInstances: 0,
+        });
+      }
+    }
+
+    for (const file of files) {
+      const { ast } = await this.componentAnalyzer.parseFile(file);
+      if (!ast) continue;
+
+      const bindings = this.collectBindings(ast, file, snapshot.components, packages);
+      if (bindings.size === 0) continue;
+
+      const relativePath = path.relative(options.sourceDir, file);
+      this.astTraverser.traverse(ast, {
+        onJSXElement: (node) => {
+          const component = this.resolveElement(node.openingElement.name, bindings);
+          if (component) {
+            this.recordInstance(usages.get(component)!, node, relativePath);
+          }
+        },
+      });
+    }
+
+    for (const [component, usage] of usages) {
+      usage.unusedProps = component.props.map(prop => prop.name).filter(name => !usage.props[name]);
+    }
+
+    return {
+      generated: new Date().toISOString(),
+      sourceDir: options.sourceDir,
+      packages,
+      filesScanned: files.length,
+      components: Array.from(usages.values())
+        .sort((a, b) => b.instances - a.instances || a.componentName.localeCompare(b.componentName)),
+    };
+  }
+
+  /**
+   * インポート宣言からドキュメント化済みコンポーネントを指す名前を収集
+   *
+   * @param ast ファイルのAST
+   * @param filePath ファイルのパス
+   * @param components スナップショットのコンポーネント
+   * @param packages デザインシステムのパッケージ名
+   * @returns ファイル内の名前 → 参照しているコンポーネント
+   */
+  private collectBindings(
+    ast: ASTNode,
+    filePath: string,
+    components: ExtractedComponent[],
+    packages: string[]
+  ): Map<string, UsageBinding> {
+    const bindings = new Map<string, UsageBinding>();
+    let resolvedImports: ComponentImport[] | undefined;  // 相対パスのインポートがある場合のみ解決
+
+    for (const statement of ast.body || []) {
+      if (statement.type !== 'ImportDeclaration' || statement.importKind === 'type') continue;
+
+      const source: string = statement.source.value;
+      const fromPackage = packages.some(name => source === name || source.startsWith(`${name}/`));
+      if (!fromPackage && !source.startsWith('.')) continue;
+
+      for (const specifier of statement.specifiers) {
+        if (specifier.importKind === 'type') continue;
+
+        const localName = specifier.local.name;
+        let pool = components;
+        if (!fromPackage) {
+          resolvedImports ??= this.importResolver.resolveImports(ast, filePath);
+          const resolved = resolvedImports.find(entry => entry.localName === localName);
+          if (!resolved) continue;
+          pool = specifier.type === 'ImportNamespaceSpecifier'
+            ? components.filter(c => this.isWithin(c.filePath, path.dirname(resolved.resolvedPath)))
+            : components.filter(c => path.resolve(c.filePath) === path.resolve(resolved.resolvedPath));
+        }
+
+        if (specifier.type === 'ImportNamespaceSpecifier') {
+          bindings.set(localName, { namespace: pool });
+          continue;
+        }
+
+        const component = specifier.type === 'ImportDefaultSpecifier'
+          ? pool.find(c => c.componentName === localName) ||
+            pool.find(c => c.componentName === path.basename(source)) ||
+            (!fromPackage && pool.length === 1 ? pool[0] : undefined)
+          : pool.find(c => c.componentName === (specifier.imported.name ?? specifier.imported.value));
+        if (component) {
+          bindings.set(localName, { component });
+        }
+      }
+    }
+
+    return bindings;
+  }
+
+  /**
+   * JSX要素名をドキュメント化済みコンポーネントに解決
+   *
+   * @param name JSX要素名ノード（JSXIdentifier / JSXMemberExpression）
+   * @param bindings ファイル内の名前 → 参照しているコンポーネント
+   * @returns コンポーネント（デザインシステムのものでない場合はundefined）
+   */
+  private resolveElement(name: ASTNode, bindings: Map<string, UsageBinding>): ExtractedComponent | undefined {
+    if (name.type === 'JSXIdentifier') {
+      const binding = bindings.get(name.name);
+      return binding && 'component' in binding ? binding.component : undefined;
+    }
+
+    // <UI.Button> / <Card.Header>（1段のメンバー式のみ）
+    if (name.type === 'JSXMemberExpression' && name.object.type === 'JSXIdentifier') {
+      const binding = bindings.get(name.object.name);
+      const member = name.property.name;
+      if (!binding) return undefined;
+      if ('namespace' in binding) {
+        return binding.namespace.find(c => c.componentName === member);
+      }
+      return binding.component.subcomponents?.find(
+        sub => sub.componentName === `${binding.component.componentName}.${member}`
+      );
+    }
+
+    return undefined;
+  }
+
+  /**
+   * 呼び出し箇所1件分の利用状況を記録
+   *
+   * @param usage 集計先
+   * @param node JSXElementノード
+   * @param filePath 呼び出しのあるファイル（相対パス）
+   */
+  private recordInstance(usage: ComponentUsage, node: ASTNode, filePath: string): void {
+    usage.instances++;
+    if (!usage.files.includes(filePath)) {
+      usage.files.push(filePath);
+    }
+
+    let hasSpread = false;
+    for (const attribute of node.openingElement.attributes) {
+      if (attribute.type === 'JSXSpreadAttribute') {
+        hasSpread = true;
+        continue;
+      }
+      const propName = attribute.name.type === 'JSXNamespacedName'
+        ? `${attribute.name.namespace.name}:${attribute.name.name.name}`
+        : attribute.name.name;
+      this.recordProp(usage, propName, this.getLiteralValue(attribute.value));
+    }
+
+    // <Button>保存</Button> は children を渡しているものとして扱う（値は集計しない）
+    const hasChildren = node.children.some((child: any) => child.type !== 'JSXText' || child.value.trim());
+    if (hasChildren) {
+      this.recordProp(usage, 'children', null);
+    }
+
+    if (hasSpread) {
+      usage.spreadInstances++;
+    }
+  }
+
+  /**
+   * Propの利用を記録
+   *
+   * @param usage 集計先
+   * @param propName Prop名
+   * @param value リテラル値（変数・式の場合はnull）
+   */
+  private recordProp(usage: ComponentUsage, propName: string, value: string | null): void {
+    const propUsage = usage.props[propName] ??= { count: 0, values: {}, dynamic: 0 };
+    propUsage.count++;
+    if (value === null) {
+      propUsage.dynamic++;
+    } else {
+      propUsage.values[value] = (propUsage.values[value] || 0) + 1;
+    }
+  }
+
+  /**
+   * JSX属性値からリテラル値を取得
+   *
+   * 対応パターン:
+   * - <Button disabled />（値なしは 'true'）
+   * - size="sm" / size={'sm'} / size={`sm`}
+   * - count={3} / offset={-1} / open={false} / value={null}
+   *
+   * @param value JSX属性値ノード
+   * @returns リテラル値の文字列（変数・式の場合はnull）
+   */
+  private getLiteralValue(value: ASTNode | null): string | null {
+    if (!value) return 'true';
+    if (value.type === 'Literal') return String(value.value);
+    if (value.type !== 'JSXExpressionContainer') return null;
+
+    const expression = value.expression;
+    if (expression.type === 'Literal' && !expression.regex) {
+      return String(expression.value);
+    }
+    if (expression.type === 'TemplateLiteral' && expression.expressions.length === 0) {
+      return expression.quasis[0].value.cooked;
+    }
+    if (expression.type === 'Identifier' && expression.name === 'undefined') {
+      return 'undefined';
+    }
+    if (expression.type === 'UnaryExpression' && expression.operator === '-' &&
+        expression.argument.type === 'Literal' && typeof expression.argument.value === 'number') {
+      return `-${expression.argument.value}`;
+    }
+    return null;
+  }
+
+  /**
+   * ファイルがディレクトリ配下にあるか判定
+   *
+   * @param filePath ファイルのパス
+   * @param dirPath ディレクトリのパス
+   * @returns 配下にある場合true
+   */
+  private isWithin(filePath: string, dirPath: string): boolean {
+    const relative = path.relative(path.resolve(dirPath), path.resolve(filePath));
+    return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+  }
+}
@@ -1,6 +1,20 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { DesignTokens, ColorToken, TypographyTokens, ExtractedComponent } from '../types';
+import { DesignTokens, ColorToken, TypographyTokens, ExtractedComponent, StyleInfo, StyleDeclaration } from '../types';
+
+// CSS宣言のプロパティ → トークンのカテゴリ（CSS-in-JS / CSS Modules）
+const DECLARATION_CATEGORIES: Record<string, string> = {
+  'color': 'colors', 'background-color': 'colors', 'border-color': 'colors', 'outline-color': 'colors',
+  'fill': 'colors', 'stroke': 'colors', 'caret-color': 'colors',
+  'margin': 'spacing', 'margin-top': 'spacing', 'margin-right': 'spacing', 'margin-bottom': 'spacing', 'margin-left': 'spacing',
+  'padding': 'spacing', 'padding-top': 'spacing', 'padding-right': 'spacing', 'padding-bottom': 'spacing', 'padding-left': 'spacing',
+  'gap': 'spacing', 'row-gap': 'spacing', 'column-gap': 'spacing',
+  'font-family': 'fontFamily', 'font-size': 'fontSize', 'font-weight': 'fontWeight', 'line-height': 'lineHeight',
+  'box-shadow': 'shadows', 'border-radius': 'borderRadius',
+};
+
+// トークンの参照（{colors.primary}）。補間（${...}）の波括弧は対象外
+const TOKEN_REFERENCE = /(?<!\$)\{([\w$.-]+)\}/;
 
 /**
  * DesignTokenExtractor - デザイントークン抽出エンジン
@@ -13,6 +27,7 @@ import { DesignTokens, ColorToken, TypographyTokens, ExtractedComponent } from '
  * 主な責務:
  * - TailwindCSS設定ファイル（tailwind.config.js）からのトークン抽出
  * - React NativeのStyleSheet.create()からのトークン抽出
+ * - CSS-in-JS・CSS Modulesの解析済みCSS宣言からのトークン抽出
  * - 抽出されたトークンの統一化・正規化
  * - デフォルトトークンの提供（設定ファイルが存在しない場合）
  * - 色値の形式変換（HEX → RGB）
@@ -468,6 +483,9 @@ export class DesignTokenExtractor {
    * - シャドウ: iOS (shadowColor) / Android (elevation)
    * - ボーダー: borderRadius、borderWidth
    * 
+   * CSS-in-JS（styled-components等）・CSS Modulesのコンポーネントは、
+   * styleInfo の解析済みCSS宣言から同じカテゴリのトークンを抽出します。
+   * 
    * @param components StyleSheet情報を含むコンポーネント配列
    * @returns 抽出・統合されたデザイントークン
    */
@@ -486,11 +504,142 @@ export class DesignTokenExtractor {
         this.extractShadowsFromStyleSheet(styleSheet, tokens.shadows);            // シャドウ効果抽出
         this.extractBorderRadiusFromStyleSheet(styleSheet, tokens.borderRadius);  // ボーダー半径抽出
       }
+
+      // CSS-in-JS・CSS Modulesの解析済みCSS宣言
+      if (component.styleInfo?.declarations) {
+        this.extractFromDeclarations(component.styleInfo, tokens);
+      }
     }
     
+    this.resolveReferences(tokens);
+    return tokens;
+  }
+
+  /**
+   * CSS-in-JS・CSS Modulesの宣言から抽出したトークンを既存のトークンにマージ
+   * 
+   * TailwindCSS設定等から抽出したトークンに、コンポーネントの解析済みCSS宣言の
+   * トークンを追加します。テーマを参照する値（${theme.colors.primary} / $primary）は
+   * 同じカテゴリのトークンの値で解決し、解決できない場合は参照（{colors.primary}）として記録します。
+   * 
+   * @param components CSS宣言を含むコンポーネント配列
+   * @param tokens マージ先のデザイントークン（変更される）
+   * @returns マージしたデザイントークン
+   */
+  mergeDeclarationTokens(components: ExtractedComponent[], tokens: DesignTokens): DesignTokens {
+    for (const component of components) {
+      if (component.styleInfo?.declarations) {
+        this.extractFromDeclarations(component.styleInfo, tokens);
+      }
+    }
+
+    this.resolveReferences(tokens);
     return tokens;
   }
 
+  /**
+   * 解析済みのCSS宣言からトークンを抽出
+   * 
+   * テーマ・変数を参照する宣言はトークンのパス（colors.primary / --color-primary / $primary）を、
+   * それ以外のトップレベルの宣言はプロパティとスタイル名（color-Button）をキーとして登録します。
+   * プロップ条件付きのスタイルの宣言も対象です。
+   * 
+   * 値の扱い:
+   * - テーマを参照する値（${theme.colors.primary} / $primary）は参照（{colors.primary}）に置き換え
+   * - 同じトークンに実際の値（#0066ff）と参照・補間がある場合は実際の値を優先
+   * - セレクタ・メディアクエリ付きの宣言はトークンを参照する場合のみ登録
+   * 
+   * @param styleInfo CSS宣言を含むスタイル情報
+   * @param tokens 抽出したトークンを格納するデザイントークン（変更される）
+   */
+  private extractFromDeclarations(styleInfo: StyleInfo, tokens: DesignTokens): void {
+    const groups: [string, StyleDeclaration[]][] = [
+      ...Object.entries(styleInfo.declarations || {}),
+      ...Object.entries(styleInfo.variants || {}).flatMap(([styleName, variants]) =>
+        Object.values(variants).flatMap(options => Object.values(options).map(declarations => [styleName, declarations] as [string, StyleDeclaration[]]))
+      ),
+    ];
+
+    for (const [styleName, declarations] of groups) {
+      for (const declaration of declarations) {
+        const category = DECLARATION_CATEGORIES[declaration.property];
+        if (!category || (declaration.selector && !declaration.token)) continue;
+
+        const key = declaration.token || `${declaration.property}-${styleName}`;
+        const declarationValue = declaration.token ? this.toReference(declaration.value, declaration.token) : declaration.value;
+        if (category === 'colors') {
+          const existing = tokens.colors[key];
+          const value = existing && !this.isReference(existing.value) ? existing.value : declarationValue;
+          tokens.colors[key] = {
+            value,
+            rgb: this.hexToRgb(value) || value,
+            usage: Array.from(new Set([...(existing?.usage || []), styleName]))
+          };
+          continue;
+        }
+
+        const target: Record<string, string> = category in tokens.typography
+          ? tokens.typography[category as keyof TypographyTokens]
+          : (tokens as any)[category];
+        if (!target[key] || this.isReference(target[key])) {
+          target[key] = declarationValue;
+        }
+      }
+    }
+  }
+
+  /**
+   * テーマを参照する宣言の値をトークンの参照に置き換え
+   * @param value 宣言の値
+   * @param token 宣言が参照するトークンのパス
+   * @returns 補間（${theme.colors.primary}）・$トークン（$primary）を {colors.primary} に置き換えた値
+   */
+  private toReference(value: string, token: string): string {
+    if (/^\$[\w$-]+$/.test(value)) return `{${token}}`;
+    return value.replace(/\$\{[^}]*\}/g, `{${token}}`);
+  }
+
+  /**
+   * 値が実際の値ではなく参照・補間かどうかを判定
+   * @param value トークンの値
+   * @returns 参照（{colors.primary}）または補間（${...}）を含む場合true
+   */
+  private isReference(value: string): boolean {
+    return value.includes('${') || TOKEN_REFERENCE.test(value);
+  }
+
+  /**
+   * トークンの参照を同じカテゴリのトークンの値で解決
+   * 
+   * 参照のパス（colors.primary）またはカテゴリを除いたTailwindCSS形式のキー（colors.blue.500 → blue-500）で
+   * 実際の値を持つトークンを探します。見つからない参照はそのまま残します。
+   * 
+   * @param tokens 参照を解決するデザイントークン（変更される）
+   */
+  private resolveReferences(tokens: DesignTokens): void {
+    const resolve = (value: string, values: Record<string, string>) => value.replace(new RegExp(TOKEN_REFERENCE.source, 'g'), (reference, tokenPath: string) => {
+      const candidates = [tokenPath, tokenPath.split('.').slice(1).join('-')];
+      const resolved = candidates.map(key => values[key]).find(candidate => candidate !== undefined && !this.isReference(candidate));
+      return resolved ?? reference;
+    });
+
+    const colorValues = Object.fromEntries(Object.entries(tokens.colors).map(([key, token]) => [key, token.value]));
+    for (const token of Object.values(tokens.colors)) {
+      const value = resolve(token.value, colorValues);
+      if (value !== token.value) {
+        token.value = value;
+        token.rgb = this.hexToRgb(value) || value;
+      }
+    }
+
+    const groups: Record<string, string>[] = [tokens.spacing, tokens.shadows, tokens.borderRadius, ...Object.values(tokens.typography)];
+    for (const values of groups) {
+      for (const [key, value] of Object.entries(values)) {
+        values[key] = resolve(value, values);
+      }
+    }
+  }
+
   /**
    * StyleSheetからカラートークンを抽出
    * 
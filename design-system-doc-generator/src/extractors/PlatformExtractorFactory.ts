@@ -1,5 +1,58 @@
+import * as fs from 'fs';
 import { Platform, ExtractorConfig, ExtractedComponent, ValidationResult } from '../types';
 import { ConfigManager } from '../config/ConfigManager';
+import { PluginContract, PluginLoader } from '../config/PluginLoader';
+import { TailwindExtractor } from './TailwindExtractor';
+import { VueSFCExtractor } from './ast/VueSFCExtractor';
+import { SvelteComponentExtractor } from './ast/SvelteComponentExtractor';
+import { AngularComponentExtractor } from './ast/AngularComponentExtractor';
+
+// プラットフォーム別拡張子（Metro / react-native-web の解決規則: Button.ios.tsx, Button.android.tsx, Button.web.tsx）
+export const NATIVE_FILE_SUFFIX = /\.(ios|android|native)\.[jt]sx?$/;
+export const WEB_FILE_SUFFIX = /\.web\.[jt]sx?$/;
+
+// JSX/TSXのコンポーネントを扱うプラットフォーム（設定のプラットフォームに関わらず解析対象）
+const JSX_PLATFORMS: Platform[] = ['web', 'react-native'];
+
+// 組み込みのプラットフォーム（スナップショットは全て記録）
+const BUILT_IN_PLATFORMS: Platform[] = ['web', 'react-native', 'vue', 'svelte', 'angular'];
+
+// JSX/TSXの抽出パイプライン（同じ設定のWeb・React Nativeの抽出器で共有し、型チェッカーのProgramを一度だけ構築）
+const jsxPipelines = new WeakMap<ExtractorConfig, TailwindExtractor>();
+
+/**
+ * ファイルのソースを読み込み
+ * 
+ * @param filePath ファイルパス
+ * @returns ソース（読み込めない場合はundefined）
+ */
+function readSource(filePath: string): string | undefined {
+  try {
+    return fs.readFileSync(filePath, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * コードがJSXを返すReactの関数コンポーネントを含むかを判定
+ * 
+ * テンプレート構文で記述するプラットフォーム（Vue / Svelte）のコード例の検証に使用します。
+ * 
+ * @param code 検証対象のコード
+ * @returns function Example() { return (<Button />); } / const Example = () => <Button /> 形式を含む場合true
+ */
+function containsReactComponent(code: string): boolean {
+  return /\bfunction\s+[A-Z][\w$]*\s*\([^)]*\)\s*\{[\s\S]*?\breturn\s*\(?\s*</.test(code) ||
+         /\b[A-Z][\w$]*\s*=\s*\([^)]*\)\s*=>\s*\(?\s*</.test(code);
+}
+
+// カスタムプラットフォームのプラグインが実装すべきPlatformExtractorの抽象メンバー
+export const PLATFORM_EXTRACTOR_CONTRACT: PluginContract = {
+  name: 'PlatformExtractor',
+  methods: ['detectPlatform', 'extractComponents', 'validateCode', 'generateExamples', 'isValidComponent'],
+  properties: ['platform', 'filePatterns'],
+};
 
 // 抽象基底クラス
 export abstract class PlatformExtractor {
@@ -9,40 +62,63 @@ export abstract class PlatformExtractor {
     this.config = config;
   }
 
-  abstract detectPlatform(filePath: string): Platform | null;
+  abstract readonly platform: Platform | string;   // 抽出したコンポーネントのプラットフォーム
+  abstract readonly filePatterns: string[];        // ソースディレクトリからの解析対象ファイルのパターン
+
+  abstract detectPlatform(filePath: string, content?: string): Platform | null;
   abstract extractComponents(filePath: string, ast: any): Promise<ExtractedComponent[]>;
   abstract validateCode(code: string): ValidationResult;
   abstract generateExamples(component: ExtractedComponent): string[];
   abstract isValidComponent(componentName: string): boolean;
 }
 
-// Web Platform Extractor (既存機能の移行)
-export class WebPlatformExtractor extends PlatformExtractor {
+// JSX/TSX Platform Extractor（Web / React Native共通のAST解析パイプライン）
+export abstract class JSXPlatformExtractor extends PlatformExtractor {
+  abstract readonly platform: Platform;
+  readonly filePatterns = ['**/*.tsx', '**/*.jsx'];
+
+  async extractComponents(filePath: string, _ast: any): Promise<ExtractedComponent[]> {
+    // AST解析のサブエクストラクターと設定のStyleExtractorを組み合わせたパイプラインで抽出
+    // 型チェッカーの初期化を伴うため初回の抽出時に生成（detectPlatform のみの利用では生成しない）
+    // プラットフォームはパイプラインがファイル毎に判定するため、Web・React Nativeの抽出器で同じパイプラインを使用
+    let pipeline = jsxPipelines.get(this.config);
+    if (!pipeline) {
+      pipeline = new TailwindExtractor(this.config);
+      jsxPipelines.set(this.config, pipeline);
+    }
+    return pipeline.extractFromFile(filePath);
+  }
+}
+
+// Web Platform Extractor
+export class WebPlatformExtractor extends JSXPlatformExtractor {
+  readonly platform = 'web';
   private webFileExtensions = ['.tsx', '.ts', '.jsx', '.js'];
   private webFrameworkIndicators = ['react', 'next', 'gatsby'];
+  private nativeDetector?: ReactNativePlatformExtractor;  // React Nativeファイルの除外判定用
 
-  detectPlatform(filePath: string): Platform | null {
+  detectPlatform(filePath: string, content?: string): Platform | null {
     // ファイル拡張子チェック
     if (!this.webFileExtensions.some(ext => filePath.endsWith(ext))) {
       return null;
     }
 
-    // React Nativeファイルでないことを確認
-    if (filePath.includes('.native.') || 
-        filePath.includes('/native/') ||
-        filePath.includes('react-native')) {
+    // Button.web.tsx はReact Nativeのプロジェクト内でもWeb向けの実装
+    if (WEB_FILE_SUFFIX.test(filePath)) {
+      return 'web';
+    }
+
+    // React Nativeファイルでないことを確認（パス・ファイル内容）
+    // 内容を一度だけ読み込み、React Nativeの判定と共有
+    const source = content ?? readSource(filePath);
+    this.nativeDetector = this.nativeDetector || new ReactNativePlatformExtractor(this.config);
+    if (this.nativeDetector.detectPlatform(filePath, source ?? '')) {
       return null;
     }
 
     return 'web';
   }
 
-  async extractComponents(filePath: string, ast: any): Promise<ExtractedComponent[]> {
-    // 既存のTailwindExtractorのロジックを使用
-    // ここでは簡略化した実装
-    return [];
-  }
-
   validateCode(code: string): ValidationResult {
     const result: ValidationResult = {
       isValid: true,
@@ -86,21 +162,34 @@ export class WebPlatformExtractor extends PlatformExtractor {
 }
 
 // React Native Platform Extractor
-export class ReactNativePlatformExtractor extends PlatformExtractor {
+export class ReactNativePlatformExtractor extends JSXPlatformExtractor {
+  readonly platform = 'react-native';
   private reactNativeFileExtensions = ['.tsx', '.ts', '.jsx', '.js'];
   private reactNativeComponents = [
     'View', 'Text', 'ScrollView', 'TouchableOpacity', 'TouchableHighlight',
     'Image', 'TextInput', 'FlatList', 'SectionList', 'Modal', 'SafeAreaView',
     'StatusBar', 'Switch', 'Slider', 'Picker', 'Alert'
   ];
+  // Web向けのコンポーネント名と衝突しにくいプリミティブ（Text・Image 等はWebのデザインシステムにも存在するため除外）
+  private nativeOnlyPrimitives = [
+    'View', 'ScrollView', 'TouchableOpacity', 'TouchableHighlight', 'TouchableWithoutFeedback',
+    'Pressable', 'TextInput', 'FlatList', 'SectionList', 'SafeAreaView', 'KeyboardAvoidingView',
+    'ActivityIndicator', 'StatusBar'
+  ];
   private reactNativeAPIs = [
     'Platform', 'Dimensions', 'AsyncStorage', 'NetInfo', 'Linking',
     'Clipboard', 'Vibration', 'BackHandler'
   ];
 
-  detectPlatform(filePath: string): Platform | null {
+  detectPlatform(filePath: string, content?: string): Platform | null {
+    // Button.web.tsx はWeb向けの実装
+    if (WEB_FILE_SUFFIX.test(filePath)) {
+      return null;
+    }
+
     // React Native固有のファイルパターン
-    if (filePath.includes('.native.') ||
+    if (NATIVE_FILE_SUFFIX.test(filePath) ||
+        filePath.includes('.native.') ||
         filePath.includes('/native/') ||
         filePath.includes('react-native') ||
         filePath.includes('/android/') ||
@@ -113,19 +202,31 @@ export class ReactNativePlatformExtractor extends PlatformExtractor {
       return null;
     }
 
-    // TODO: ファイル内容をチェックしてReact Nativeコンポーネントの使用を検出
-    return null;
+    // ファイル内容をチェックしてReact Nativeの使用を検出（未指定の場合はファイルを読み込む）
+    const source = content ?? readSource(filePath);
+    return source !== undefined && this.usesReactNative(source) ? 'react-native' : null;
   }
 
-  async extractComponents(filePath: string, ast: any): Promise<ExtractedComponent[]> {
-    const components: ExtractedComponent[] = [];
-    
-    // React Native固有の抽出ロジック
-    // StyleSheet.create()の検出
-    // React Nativeコンポーネントの使用検出
-    // Platform.OS分岐の検出
+  /**
+   * ソースがReact Nativeを使用しているかを判定
+   * 
+   * 以下のいずれかに該当する場合にReact Nativeと判定します。
+   * - react-native・expo 系パッケージ（react-native-svg, @react-native-community/slider, expo-router, @expo/vector-icons 等）からのインポート
+   *   （Web向けの react-native-web は除く）
+   * - Web向けと衝突しにくいプリミティブ（View, Pressable 等）のJSXでの使用（Expoの Themed 等の再エクスポート経由を含む）
+   * - StyleSheet.create() / Platform.OS / Platform.select() の使用
+   * 
+   * @param source ファイルのソース
+   * @returns React Nativeを使用している場合true
+   */
+  private usesReactNative(source: string): boolean {
+    const nativeModule = /(?:from\s*|require\(\s*|import\s*\(?\s*)['"](?:react-native(?!-web\b)(?:-[\w-]+)?|@react-native(?:-[\w-]+)?\/[\w-]+|expo(?:-[\w-]+)?|@expo\/[\w-]+)(?:\/[^'"]*)?['"]/;
+    if (nativeModule.test(source)) {
+      return true;
+    }
 
-    return components;
+    const primitiveElement = new RegExp(`<(?:${this.nativeOnlyPrimitives.join('|')})[\\s/>]`);
+    return primitiveElement.test(source) || /\b(?:StyleSheet\.create|Platform\.select)\s*\(|\bPlatform\.OS\b/.test(source);
   }
 
   validateCode(code: string): ValidationResult {
@@ -225,6 +326,259 @@ const styles = StyleSheet.create({
   }
 }
 
+// Vue Platform Extractor（単一ファイルコンポーネント *.vue）
+export class VuePlatformExtractor extends PlatformExtractor {
+  readonly platform = 'vue';
+  readonly filePatterns = ['**/*.vue'];
+  private sfcExtractor = new VueSFCExtractor();
+
+  detectPlatform(filePath: string): Platform | null {
+    return filePath.endsWith('.vue') ? 'vue' : null;
+  }
+
+  async extractComponents(filePath: string, _ast: any): Promise<ExtractedComponent[]> {
+    // SFCはESTreeでパースできないため、astは使用せずファイルを読み込んでブロック毎に解析
+    const source = await fs.promises.readFile(filePath, 'utf-8');
+    const component = this.sfcExtractor.extract(filePath, source, this.config.sourceDir);
+    return component ? [component] : [];
+  }
+
+  validateCode(code: string): ValidationResult {
+    const result: ValidationResult = {
+      isValid: true,
+      errors: [],
+      warnings: []
+    };
+
+    // Vueテンプレートでは className ではなく class を使用
+    if (/\bclassName=/.test(code)) {
+      result.errors.push({
+        line: 0,
+        column: 0,
+        message: 'className is React specific. Use class or :class in Vue templates.',
+        code: 'REACT_SPECIFIC_PROP'
+      });
+    }
+
+    // JSXの式（prop={value}）はVueテンプレートでは :prop="value" と記述する
+    if (/\s[\w.-]+=\{/.test(code)) {
+      result.errors.push({
+        line: 0,
+        column: 0,
+        message: 'JSX expression attributes are not supported. Use :prop="expression" bindings in Vue templates.',
+        code: 'JSX_EXPRESSION'
+      });
+    }
+
+    // Svelteのイベントディレクティブ（on:click）はVueでは @click と記述する
+    if (/\son:[\w-]+=/.test(code)) {
+      result.errors.push({
+        line: 0,
+        column: 0,
+        message: 'on: directives are Svelte specific. Use @event="handler" in Vue templates.',
+        code: 'INVALID_EVENT_SYNTAX'
+      });
+    }
+
+    if (containsReactComponent(code)) {
+      result.errors.push({
+        line: 0,
+        column: 0,
+        message: 'React function components returning JSX are not supported. Use a <template> block.',
+        code: 'REACT_COMPONENT_SYNTAX'
+      });
+    }
+
+    if (code.includes('StyleSheet.create')) {
+      result.warnings.push({
+        line: 0,
+        column: 0,
+        message: 'StyleSheet.create is React Native specific and may not work in Vue',
+        code: 'RN_SPECIFIC_API'
+      });
+    }
+
+    return result;
+  }
+
+  generateExamples(component: ExtractedComponent): string[] {
+    const examples: string[] = [];
+
+    if (component.tailwindClasses.length > 0) {
+      const classes = component.tailwindClasses.join(' ');
+      examples.push(`<${component.componentName} class="${classes}">
+  Example content
+</${component.componentName}>`);
+    }
+
+    return examples;
+  }
+
+  isValidComponent(componentName: string): boolean {
+    // PascalCase、またはケバブケース（base-button）のカスタムコンポーネント
+    return /^[A-Z]/.test(componentName) || componentName.includes('-');
+  }
+}
+
+// Svelte Platform Extractor（*.svelte）
+export class SveltePlatformExtractor extends PlatformExtractor {
+  readonly platform = 'svelte';
+  readonly filePatterns = ['**/*.svelte'];
+  private componentExtractor = new SvelteComponentExtractor();
+
+  detectPlatform(filePath: string): Platform | null {
+    return filePath.endsWith('.svelte') ? 'svelte' : null;
+  }
+
+  async extractComponents(filePath: string, _ast: any): Promise<ExtractedComponent[]> {
+    // *.svelte はESTreeでパースできないため、astは使用せずファイルを読み込んでスクリプト・マークアップ毎に解析
+    const source = await fs.promises.readFile(filePath, 'utf-8');
+    const component = this.componentExtractor.extract(filePath, source, this.config.sourceDir);
+    return component ? [component] : [];
+  }
+
+  validateCode(code: string): ValidationResult {
+    const result: ValidationResult = {
+      isValid: true,
+      errors: [],
+      warnings: []
+    };
+
+    // Svelteのマークアップでは className ではなく class を使用
+    if (/\bclassName=/.test(code)) {
+      result.errors.push({
+        line: 0,
+        column: 0,
+        message: 'className is React specific. Use class or class: directives in Svelte markup.',
+        code: 'REACT_SPECIFIC_PROP'
+      });
+    }
+
+    // Vueのバインディング（:prop / @event）はSvelteでは prop={value} / on:event={handler} と記述する
+    if (/\s:[\w.-]+=/.test(code)) {
+      result.errors.push({
+        line: 0,
+        column: 0,
+        message: ':prop bindings are Vue specific. Use prop={expression} in Svelte markup.',
+        code: 'VUE_SPECIFIC_SYNTAX'
+      });
+    }
+    if (/\s@[\w.:-]+=/.test(code)) {
+      result.errors.push({
+        line: 0,
+        column: 0,
+        message: '@event listeners are Vue specific. Use on:event={handler} in Svelte markup.',
+        code: 'INVALID_EVENT_SYNTAX'
+      });
+    }
+
+    if (containsReactComponent(code)) {
+      result.errors.push({
+        line: 0,
+        column: 0,
+        message: 'React function components returning JSX are not supported. Use Svelte markup.',
+        code: 'REACT_COMPONENT_SYNTAX'
+      });
+    }
+
+    if (code.includes('StyleSheet.create')) {
+      result.warnings.push({
+        line: 0,
+        column: 0,
+        message: 'StyleSheet.create is React Native specific and may not work in Svelte',
+        code: 'RN_SPECIFIC_API'
+      });
+    }
+
+    return result;
+  }
+
+  generateExamples(component: ExtractedComponent): string[] {
+    const examples: string[] = [];
+
+    if (component.tailwindClasses.length > 0) {
+      const classes = component.tailwindClasses.join(' ');
+      examples.push(`<${component.componentName} class="${classes}">
+  Example content
+</${component.componentName}>`);
+    }
+
+    return examples;
+  }
+
+  isValidComponent(componentName: string): boolean {
+    // Svelteのコンポーネントは大文字で始まる名前で記述する
+    return /^[A-Z]/.test(componentName);
+  }
+}
+
+// Angular Platform Extractor（@Component を含む *.component.ts）
+export class AngularPlatformExtractor extends PlatformExtractor {
+  readonly platform = 'angular';
+  readonly filePatterns = ['**/*.component.ts'];
+  private componentExtractor = new AngularComponentExtractor();
+
+  detectPlatform(filePath: string): Platform | null {
+    return filePath.endsWith('.component.ts') ? 'angular' : null;
+  }
+
+  async extractComponents(filePath: string, _ast: any): Promise<ExtractedComponent[]> {
+    // templateUrl のテンプレートも合わせて解析するため、astは使用せずファイルを読み込んで解析
+    const source = await fs.promises.readFile(filePath, 'utf-8');
+    const component = this.componentExtractor.extract(filePath, source, this.config.sourceDir);
+    return component ? [component] : [];
+  }
+
+  validateCode(code: string): ValidationResult {
+    const result: ValidationResult = {
+      isValid: true,
+      errors: [],
+      warnings: []
+    };
+
+    // Angularテンプレートでは className ではなく class / [ngClass] を使用
+    if (/\bclassName=/.test(code)) {
+      result.warnings.push({
+        line: 0,
+        column: 0,
+        message: 'className is React specific. Use class, [class] or [ngClass] in Angular templates.',
+        code: 'REACT_SPECIFIC_PROP'
+      });
+    }
+
+    // JSXの式（prop={value}）はAngularテンプレートでは [prop]="value" と記述する
+    if (/\s[\w.-]+=\{/.test(code)) {
+      result.warnings.push({
+        line: 0,
+        column: 0,
+        message: 'JSX expression attributes are not supported. Use [property]="expression" bindings in Angular templates.',
+        code: 'JSX_EXPRESSION'
+      });
+    }
+
+    return result;
+  }
+
+  generateExamples(component: ExtractedComponent): string[] {
+    const examples: string[] = [];
+    const tag = component.selector || component.componentName;
+
+    if (component.tailwindClasses.length > 0) {
+      const classes = component.tailwindClasses.join(' ');
+      examples.push(`<${tag} class="${classes}">
+  Example content
+</${tag}>`);
+    }
+
+    return examples;
+  }
+
+  isValidComponent(componentName: string): boolean {
+    // クラス名（ButtonComponent）、またはケバブケースのセレクタ（app-button）
+    return /^[A-Z]/.test(componentName) || componentName.includes('-');
+  }
+}
+
 // 型定義
 export interface PlatformSpecificCode {
   type: 'Platform.OS' | 'Platform.select' | 'conditional';
@@ -252,6 +606,12 @@ export class PlatformExtractorFactory {
         return new WebPlatformExtractor(config);
       case 'react-native':
         return new ReactNativePlatformExtractor(config);
+      case 'vue':
+        return new VuePlatformExtractor(config);
+      case 'svelte':
+        return new SveltePlatformExtractor(config);
+      case 'angular':
+        return new AngularPlatformExtractor(config);
       default:
         // カスタムプラットフォームの処理
         if (configManager.isCustomPlatform(platform)) {
@@ -269,25 +629,36 @@ export class PlatformExtractorFactory {
       throw new Error(`Custom platform not found: ${platform}`);
     }
 
-    // 動的にカスタムプラットフォームエクストラクターを読み込み
+    if (!customConfig.styleExtractor) {
+      throw new Error(`Custom platform '${platform}' has no extractor. Set extensions.customPlatforms.${platform}.styleExtractor to a module path.`);
+    }
+
+    // 動的にカスタムプラットフォームエクストラクターを読み込み（設定ファイルからの相対パス、PlatformExtractorの契約を検証）
     try {
-      const ExtractorClass = require(customConfig.styleExtractor);
-      return new ExtractorClass(config);
+      return PluginLoader.instantiate<PlatformExtractor>(customConfig.styleExtractor, PLATFORM_EXTRACTOR_CONTRACT, [config]);
     } catch (error) {
-      throw new Error(`Failed to load custom platform extractor: ${customConfig.styleExtractor}`);
+      throw new Error(`Failed to load custom platform extractor for '${platform}': ${error instanceof Error ? error.message : error}`);
     }
   }
 
   // プラットフォーム自動検出
-  static detectPlatform(filePath: string, config: ExtractorConfig): Platform | null {
+  // content を省略した場合はファイルの内容を読み込んで判定（React Native / Web）
+  static detectPlatform(filePath: string, config: ExtractorConfig, content?: string): Platform | null {
     const extractors = [
+      new VuePlatformExtractor(config),
+      new SveltePlatformExtractor(config),
+      new AngularPlatformExtractor(config),
       new ReactNativePlatformExtractor(config),
       new WebPlatformExtractor(config)
     ];
 
     for (const extractor of extractors) {
-      const platform = extractor.detectPlatform(filePath);
+      const platform = extractor.detectPlatform(filePath, content);
       if (platform) {
+        // React Nativeの兆候がないJSX/TSXは、設定のプラットフォームが react-native の場合はReact Native（.web.tsx は除く）
+        if (platform === 'web' && config.platform === 'react-native' && !WEB_FILE_SUFFIX.test(filePath)) {
+          return 'react-native';
+        }
         return platform;
       }
     }
@@ -299,4 +670,27 @@ export class PlatformExtractorFactory {
   static createMultiPlatformExtractor(platforms: (Platform | string)[], config: ExtractorConfig): PlatformExtractor[] {
     return platforms.map(platform => this.createExtractor(platform, config));
   }
+
+  // 設定のプラットフォームを先頭に、JSX/TSX（Web・React Native）のプラットフォームを補完（allBuiltIns の場合は全ての組み込みプラットフォーム）
+  static resolvePlatforms(platform: Platform | string, allBuiltIns = false): (Platform | string)[] {
+    const companions = allBuiltIns ? BUILT_IN_PLATFORMS : JSX_PLATFORMS;
+    return [platform, ...companions.filter(companion => companion !== platform)];
+  }
+
+  // ファイル毎に判定したプラットフォームの抽出器で抽出（該当がない場合はファイルを扱える抽出器）
+  static async extractComponents(extractors: PlatformExtractor[], filePaths: string[], config: ExtractorConfig): Promise<ExtractedComponent[]> {
+    const components: ExtractedComponent[] = [];
+    for (const filePath of filePaths) {
+      // ファイルの内容は一度だけ読み込み、各抽出器の判定で共有
+      const content = readSource(filePath);
+      const platform = this.detectPlatform(filePath, config, content);
+      const extractor = extractors.find(candidate => candidate.platform === platform) ||
+        extractors.find(candidate => candidate.detectPlatform(filePath, content) !== null);
+      if (extractor) {
+        // 1ファイルに複数のコンポーネントがエクスポートされている場合は全て追加
+        components.push(...await extractor.extractComponents(filePath, null));
+      }
+    }
+    return components;
+  }
 }
\ No newline at end of file
@@ -1,11 +1,17 @@
-import { Platform, StyleSystem, ExtractorConfig, StyleInfo as BaseStyleInfo } from '../types';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Platform, StyleSystem, ExtractorConfig, StyleInfo as BaseStyleInfo, StyleDeclaration } from '../types';
 import { ConfigManager } from '../config/ConfigManager';
+import { PluginContract, PluginLoader } from '../config/PluginLoader';
+import { CSSInJSParser } from './ast/CSSInJSParser';
+import { CSSModuleClass, CSSModuleParser } from './ast/CSSModuleParser';
+const { parse } = require('@typescript-eslint/typescript-estree');
 
 /**
  * StyleExtractorFactory - マルチプラットフォーム対応スタイル抽出ファクトリー
  * 
  * このファイルには、異なるスタイルシステム（Tailwind CSS、React Native StyleSheet、
- * Styled Components、CSS Modules）に対応した抽出器を統一的に管理するファクトリーパターンと、
+ * Styled Components、CSS Modules、Emotion、Stitches、vanilla-extract）に対応した抽出器を統一的に管理するファクトリーパターンと、
  * 各プラットフォーム固有のスタイル抽出・検証・例示機能を提供するクラス群が含まれています。
  * 
  * アーキテクチャパターン:
@@ -25,6 +31,7 @@ import { ConfigManager } from '../config/ConfigManager';
  * - React Native StyleSheet
  * - Styled Components
  * - CSS Modules
+ * - Emotion / Stitches / vanilla-extract（CSS-in-JS）
  * - カスタムスタイルシステム（プラグイン対応）
  */
 
@@ -53,16 +60,18 @@ export abstract class StyleExtractor {
   /**
    * ASTノードからスタイル情報を抽出（抽象メソッド）
    * @param node 解析対象のASTノード
+   * @param filePath ノードを含むファイルのパス（インポート先のスタイルファイルの解決に使用）
    * @returns 抽出されたスタイル情報の配列
    */
-  abstract extractStyles(node: any): ExtractedStyleInfo[];
+  abstract extractStyles(node: any, filePath?: string): ExtractedStyleInfo[];
   
   /**
    * 抽出されたスタイルの妥当性を検証（抽象メソッド）
    * @param styles 検証対象のスタイル配列
+   * @param styleInfo コンポーネントの統合スタイル情報（参照先のスタイルシートとの照合に使用）
    * @returns 検証結果（エラー・警告を含む）
    */
-  abstract validateStyles(styles: string[]): ValidationResult;
+  abstract validateStyles(styles: string[], styleInfo?: BaseStyleInfo): ValidationResult;
   
   /**
    * ドキュメント用のコード例を生成（抽象メソッド）
@@ -72,6 +81,12 @@ export abstract class StyleExtractor {
   abstract generateExamples(styles: ExtractedStyleInfo[]): string;
 }
 
+// カスタムスタイルシステムのプラグインが実装すべきStyleExtractorの抽象メソッド
+export const STYLE_EXTRACTOR_CONTRACT: PluginContract = {
+  name: 'StyleExtractor',
+  methods: ['extractStyles', 'validateStyles', 'generateExamples'],
+};
+
 /**
  * ExtractedStyleInfo - 抽出されたスタイル情報
  * 
@@ -83,6 +98,11 @@ export interface ExtractedStyleInfo {
   value: string | Record<string, any>;   // スタイルの値（文字列またはオブジェクト）
   source?: string;                       // ソースファイルパス（StyleSheetの場合）
   imports?: string[];                    // 必要なimport文（React Nativeなど）
+  name?: string;                         // スタイルを代入した変数名（const Button = styled(...) の Button）
+  declarations?: StyleDeclaration[];     // 解析したCSS宣言（CSS-in-JS）
+  variants?: Record<string, Record<string, StyleDeclaration[]>>;  // バリアント（プロップ名 → 値 → CSS宣言）
+  defaultVariants?: Record<string, string>;  // バリアントのデフォルト値
+  missing?: boolean;                     // 参照先のスタイルシートに定義がない（CSS Modules）
 }
 
 /**
@@ -524,28 +544,46 @@ export class StyleSheetExtractor extends StyleExtractor {
 }
 
 /**
- * StyledComponentsExtractor - Styled Components専用抽出器
+ * CSSModulesExtractor - CSS Modules専用抽出器
  * 
- * CSS-in-JSライブラリのStyled Componentsのテンプレートリテラルから
- * CSSスタイルを抽出する専門クラスです。
+ * CSS Modulesのスタイル参照（styles.className）を検出し、インポートした
+ * スタイルシート（*.module.css / *.module.scss）の実際のCSS宣言と対応付ける専門クラスです。
  * 
  * 主な機能:
- * - tagged template literalの解析
- * - CSS文字列の抽出
- * - Styled Componentsコード例の生成
+ * - スタイルシートのインポート（import styles from './Button.module.css'）の解決
+ * - styles.className / styles['class-name'] 参照の検出
+ * - composes で合成したクラス（同一ファイル・他ファイル）の宣言の展開
+ * - スタイルシートに定義がないクラスの参照の検出
+ * - CSS Modulesコード例の生成
+ * 
+ * クラス名の照合:
+ * - 参照と同名のクラスがない場合は kebab-case のクラス（styles.primaryButton → .primary-button）を使用
  */
-export class StyledComponentsExtractor extends StyleExtractor {
-  extractStyles(node: any): ExtractedStyleInfo[] {
+export class CSSModulesExtractor extends StyleExtractor {
+  private parser = new CSSModuleParser();
+  private stylesheets = new Map<string, Map<string, CSSModuleClass> | null>();  // スタイルシート毎の解析結果
+  private bindings = new Map<string, Map<string, { importPath: string; stylePath?: string }>>();  // ファイル毎のインポート名 → スタイルシート
+
+  extractStyles(node: any, filePath?: string): ExtractedStyleInfo[] {
     const styles: ExtractedStyleInfo[] = [];
 
-    // styled.div`...` の解析
-    if (this.isStyledComponent(node)) {
-      const styledCss = this.extractStyledCSS(node);
-      if (styledCss) {
+    // import styles from './Button.module.css' の解析
+    if (node?.type === 'ImportDeclaration') {
+      this.registerImport(node, filePath);
+      return styles;
+    }
+
+    // styles.className の解析
+    if (this.isCSSModuleReference(node, filePath)) {
+      const className = this.extractCSSModuleClass(node);
+      const binding = this.bindings.get(filePath || '')?.get(node.object.name);
+      if (className && binding?.stylePath) {
+        styles.push(this.resolveReference(className, binding.importPath, binding.stylePath));
+      } else if (className) {
         styles.push({
-          type: 'styled-component',
-          value: styledCss,
-          imports: ['styled-components']
+          type: 'className',
+          value: className,
+          imports: [binding?.importPath || './styles.module.css']
         });
       }
     }
@@ -553,89 +591,789 @@ export class StyledComponentsExtractor extends StyleExtractor {
     return styles;
   }
 
-  validateStyles(styles: string[]): ValidationResult {
+  validateStyles(styles: string[], styleInfo?: BaseStyleInfo): ValidationResult {
+    const errors: StyleError[] = (styleInfo?.missingClasses || []).map(className => ({
+      message: `CSS Modules class '${className}' is not defined in ${(styleInfo?.imports || []).join(', ')}`,
+      code: 'UNDEFINED_CSS_MODULE_CLASS'
+    }));
+
     return {
-      isValid: true,
-      errors: [],
+      isValid: errors.length === 0,
+      errors,
       warnings: []
     };
   }
 
   generateExamples(styles: ExtractedStyleInfo[]): string {
-    const styledComponent = styles.find(s => s.type === 'styled-component');
-    if (styledComponent) {
-      return `import styled from 'styled-components';\n\nconst StyledDiv = styled.div\`\n${styledComponent.value}\n\`;\n\n<StyledDiv>Example</StyledDiv>`;
+    const style = styles.find(candidate => candidate.source && !candidate.missing && typeof candidate.value === 'string');
+    if (!style) {
+      return `import styles from './Component.module.css';\n\n<div className={styles.container}>Example</div>`;
     }
-    return '';
+
+    const className = style.value as string;
+    const reference = /^[A-Za-z_$][\w$]*$/.test(className) ? `styles.${className}` : `styles['${className}']`;
+    return `import styles from '${style.imports?.[0]}';\n\n<div className={${reference}}>Example</div>`;
   }
 
-  private isStyledComponent(node: any): boolean {
-    return node.type === 'TaggedTemplateExpression' &&
-           node.tag?.type === 'MemberExpression' &&
-           node.tag?.object?.name === 'styled';
+  private isCSSModuleReference(node: any, filePath?: string): boolean {
+    return node.type === 'MemberExpression' &&
+           node.object?.type === 'Identifier' &&
+           (node.object.name === 'styles' || !!this.bindings.get(filePath || '')?.has(node.object.name));
   }
 
-  private extractStyledCSS(node: any): string | null {
-    if (node.quasi?.quasis) {
-      return node.quasi.quasis.map((quasi: any) => quasi.value.raw).join('${...}');
+  private extractCSSModuleClass(node: any): string | null {
+    if (!node.computed && node.property?.name) {
+      return node.property.name;
+    }
+    if (node.computed && node.property?.type === 'Literal' && typeof node.property.value === 'string') {
+      return node.property.value;
     }
     return null;
   }
+
+  /**
+   * スタイルシートのインポートを登録
+   * @param node ImportDeclarationノード
+   * @param filePath インポート元のファイルパス
+   */
+  private registerImport(node: any, filePath?: string): void {
+    const importPath = node.source?.value;
+    if (!filePath || typeof importPath !== 'string' || !/\.module\.s?css$/.test(importPath)) {
+      return;
+    }
+
+    const stylePath = importPath.startsWith('.') ? path.resolve(path.dirname(filePath), importPath) : undefined;
+    const bindings = this.bindings.get(filePath) || new Map();
+    node.specifiers
+      .filter((specifier: any) => specifier.type === 'ImportDefaultSpecifier' || specifier.type === 'ImportNamespaceSpecifier')
+      .forEach((specifier: any) => bindings.set(specifier.local.name, {
+        importPath,
+        stylePath: stylePath && fs.existsSync(stylePath) ? stylePath : undefined
+      }));
+    this.bindings.set(filePath, bindings);
+  }
+
+  /**
+   * クラスの参照をスタイルシートの宣言と対応付け
+   * @param className 参照しているクラス名
+   * @param importPath インポートのパス
+   * @param stylePath スタイルシートのパス
+   * @returns スタイル情報（定義がない場合は missing）
+   */
+  private resolveReference(className: string, importPath: string, stylePath: string): ExtractedStyleInfo {
+    const classes = this.loadStylesheet(stylePath);
+    const definedName = this.findClassName(classes, className);
+    const info: ExtractedStyleInfo = {
+      type: 'className',
+      value: definedName || className,
+      source: path.relative(this.config.sourceDir, stylePath),
+      imports: [importPath]
+    };
+
+    if (definedName) {
+      info.declarations = this.resolveDeclarations(stylePath, definedName, new Set());
+    } else if (classes) {
+      info.missing = true;
+    }
+    return info;
+  }
+
+  /**
+   * composes を展開したクラスのCSS宣言を取得（合成したクラスの宣言が先）
+   * @param stylePath スタイルシートのパス
+   * @param className クラス名
+   * @param visited 展開済みのクラス（循環参照の防止）
+   * @returns CSS宣言の配列
+   */
+  private resolveDeclarations(stylePath: string, className: string, visited: Set<string>): StyleDeclaration[] {
+    const key = `${stylePath}#${className}`;
+    const cssClass = this.loadStylesheet(stylePath)?.get(className);
+    if (!cssClass || visited.has(key)) {
+      return [];
+    }
+    visited.add(key);
+
+    const composed = cssClass.composes
+      .filter(composition => composition.from !== 'global')
+      .flatMap(composition => {
+        const composedPath = composition.from ? path.resolve(path.dirname(stylePath), composition.from) : stylePath;
+        return composition.classNames.flatMap(name => this.resolveDeclarations(composedPath, name, visited));
+      });
+    return [...composed, ...cssClass.declarations];
+  }
+
+  /**
+   * スタイルシートを読み込んで解析（結果はキャッシュ）
+   * @param stylePath スタイルシートのパス
+   * @returns クラスの定義（読み込みに失敗した場合はnull）
+   */
+  private loadStylesheet(stylePath: string): Map<string, CSSModuleClass> | null {
+    if (!this.stylesheets.has(stylePath)) {
+      try {
+        this.stylesheets.set(stylePath, this.parser.parse(fs.readFileSync(stylePath, 'utf-8')));
+      } catch {
+        this.stylesheets.set(stylePath, null);
+      }
+    }
+    return this.stylesheets.get(stylePath)!;
+  }
+
+  /**
+   * 参照に対応するスタイルシートのクラス名を取得
+   * @param classes スタイルシートのクラスの定義
+   * @param className 参照しているクラス名
+   * @returns 定義されたクラス名（同名・kebab-case のクラスがない場合はnull）
+   */
+  private findClassName(classes: Map<string, CSSModuleClass> | null, className: string): string | null {
+    if (!classes) return null;
+    const kebabCase = className.replace(/[A-Z]/g, char => `-${char.toLowerCase()}`);
+    return [className, kebabCase].find(name => classes.has(name)) || null;
+  }
 }
 
 /**
- * CSSModulesExtractor - CSS Modules専用抽出器
+ * CSSInJSExtractor - CSS-in-JS抽出器の基底クラス
  * 
- * CSS Modulesのスタイル参照（styles.className）を検出・抽出する
- * 専門クラスです。
+ * Emotion・Stitches・vanilla-extract の抽出器に共通する処理を提供します。
+ * 変数宣言（const Button = styled(...)）の変数名をスタイルの名前とし、
+ * テーマ定義（const theme = { colors: {...} }）をトークンの対応付けに登録します。
+ * ライブラリ固有の呼び出しの判定はサブクラスの extractStyleNode で行います。
  * 
  * 主な機能:
- * - styles.className参照の検出
- * - CSSモジュールクラス名の抽出
- * - CSS Modulesコード例の生成
+ * - 変数宣言の名前の付与と重複抽出の防止
+ * - バリアント定義（variants / defaultVariants）の解析
+ * - コード例用のスタイルオブジェクトの整形
  */
-export class CSSModulesExtractor extends StyleExtractor {
-  extractStyles(node: any): ExtractedStyleInfo[] {
-    const styles: ExtractedStyleInfo[] = [];
+export abstract class CSSInJSExtractor extends StyleExtractor {
+  protected parser = new CSSInJSParser();
+  protected handledNodes = new WeakSet<object>();  // 抽出済みのノード（走査時の重複抽出の防止）
 
-    // styles.className の解析
-    if (this.isCSSModuleReference(node)) {
-      const className = this.extractCSSModuleClass(node);
-      if (className) {
-        styles.push({
-          type: 'className',
-          value: className,
-          imports: ['./styles.module.css']
-        });
+  extractStyles(node: any, filePath?: string): ExtractedStyleInfo[] {
+    if (!node || typeof node !== 'object' || this.handledNodes.has(node)) {
+      return [];
+    }
+
+    if (node.type === 'VariableDeclarator' && node.init) {
+      const init = this.parser.unwrap(node.init);
+      const name = node.id?.type === 'Identifier' ? node.id.name : undefined;
+
+      // テーマ定義はトークンの対応付けに登録
+      if (name && /theme$/i.test(name) && init?.type === 'ObjectExpression') {
+        this.parser.registerTheme(init);
+        return [];
+      }
+
+      const styles = this.extractStyleNode(init, name, filePath);
+      if (styles.length > 0) {
+        this.handledNodes.add(init);
       }
+      return styles;
     }
 
-    return styles;
+    return this.extractStyleNode(node, undefined, filePath);
   }
 
-  validateStyles(styles: string[]): ValidationResult {
+  validateStyles(styles: string[], styleInfo?: BaseStyleInfo): ValidationResult {
+    const errors: StyleError[] = [];
+    const warnings: StyleWarning[] = [];
+
+    // スタイル毎のCSS宣言と、プロップ条件付きのスタイル（条件毎に独立して検証）
+    const groups: [string, StyleDeclaration[]][] = [
+      ...Object.entries(styleInfo?.declarations || {}),
+      ...Object.entries(styleInfo?.variants || {}).flatMap(([styleName, variants]) =>
+        Object.entries(variants).flatMap(([prop, options]) =>
+          Object.entries(options).map(([option, declarations]) => [`${styleName} (${prop}: ${option})`, declarations] as [string, StyleDeclaration[]])
+        )
+      ),
+    ];
+
+    groups.forEach(([styleName, declarations]) => {
+      const seen = new Set<string>();
+      declarations.forEach(declaration => {
+        const location = declaration.selector ? `${styleName} ${declaration.selector}` : styleName;
+        if (declaration.value.trim() === '') {
+          errors.push({ message: `Empty value for '${declaration.property}' in ${location}`, code: 'EMPTY_DECLARATION_VALUE' });
+        } else if (/(^|[^\w$.-])(undefined|null|NaN)(?![\w-])/.test(declaration.value)) {
+          errors.push({ message: `Invalid value '${declaration.value}' for '${declaration.property}' in ${location}`, code: 'INVALID_DECLARATION_VALUE' });
+        }
+
+        const key = `${declaration.selector || ''}|${declaration.property}`;
+        if (seen.has(key)) {
+          warnings.push({ message: `Duplicate declaration of '${declaration.property}' in ${location}`, code: 'DUPLICATE_DECLARATION' });
+        }
+        seen.add(key);
+      });
+    });
+
     return {
-      isValid: true,
-      errors: [],
-      warnings: []
+      isValid: errors.length === 0,
+      errors,
+      warnings
     };
   }
 
-  generateExamples(styles: ExtractedStyleInfo[]): string {
-    return `import styles from './Component.module.css';\n\n<div className={styles.container}>Example</div>`;
+  /**
+   * ライブラリ固有のスタイル定義からスタイル情報を抽出
+   * @param node 解析対象のASTノード（変数宣言の場合は初期化式）
+   * @param name スタイルを代入した変数名
+   * @param filePath ノードを含むファイルのパス
+   * @returns 抽出されたスタイル情報の配列
+   */
+  protected abstract extractStyleNode(node: any, name: string | undefined, filePath?: string): ExtractedStyleInfo[];
+
+  /**
+   * 解析したCSS宣言からスタイル情報を生成
+   * @param type スタイルの種類
+   * @param declarations CSS宣言
+   * @param details 値・名前・バリアント等の追加情報（value 省略時はトップレベルの宣言）
+   * @returns スタイル情報
+   */
+  protected createStyleInfo(
+    type: ExtractedStyleInfo['type'],
+    declarations: StyleDeclaration[],
+    details: Partial<ExtractedStyleInfo>
+  ): ExtractedStyleInfo {
+    const value = Object.fromEntries(
+      declarations.filter(declaration => !declaration.selector).map(declaration => [declaration.property, declaration.value])
+    );
+    const info: ExtractedStyleInfo = { type, value, declarations, ...details };
+    return Object.fromEntries(Object.entries(info).filter(([, field]) => field !== undefined)) as ExtractedStyleInfo;
   }
 
-  private isCSSModuleReference(node: any): boolean {
-    return node.type === 'MemberExpression' &&
-           node.object?.name === 'styles';
+  /**
+   * バリアントを含むスタイル定義を解析（Stitchesの styled / vanilla-extract の recipe）
+   * @param configs スタイル定義のオブジェクト
+   * @param baseKey 基本スタイルのキー（recipe の base。省略時はバリアント以外のプロパティ）
+   * @returns 基本スタイルのCSS宣言・バリアント・デフォルト値
+   */
+  protected parseVariantConfig(configs: any[], baseKey?: string): Pick<ExtractedStyleInfo, 'declarations' | 'variants' | 'defaultVariants'> {
+    const declarations: StyleDeclaration[] = [];
+    const variants: Record<string, Record<string, StyleDeclaration[]>> = {};
+    const defaultVariants: Record<string, string> = {};
+
+    configs.map(config => this.parser.unwrap(config)).forEach(config => {
+      if (config?.type !== 'ObjectExpression') {
+        declarations.push(...this.parser.parseObject(config));
+        return;
+      }
+
+      config.properties.forEach((property: any) => {
+        const key = this.parser.propertyKey(property);
+        const value = this.parser.unwrap(property.value);
+        if (key === 'variants' && value?.type === 'ObjectExpression') {
+          value.properties.forEach((variant: any) => {
+            const variantName = this.parser.propertyKey(variant);
+            const options = this.parser.unwrap(variant.value);
+            if (variantName === null || options?.type !== 'ObjectExpression') return;
+            variants[variantName] = {};
+            options.properties.forEach((option: any) => {
+              const optionName = this.parser.propertyKey(option);
+              if (optionName !== null) {
+                variants[variantName][optionName] = this.parser.parseObject(option.value);
+              }
+            });
+          });
+        } else if (key === 'defaultVariants' && value?.type === 'ObjectExpression') {
+          value.properties.forEach((option: any) => {
+            const variantName = this.parser.propertyKey(option);
+            if (variantName !== null) {
+              defaultVariants[variantName] = this.parser.valueText(option.value);
+            }
+          });
+        } else if (baseKey && key === baseKey) {
+          declarations.push(...this.parser.parseObject(value));
+        }
+      });
+
+      if (!baseKey) {
+        declarations.push(...this.parser.parseObject(config, { exclude: ['variants', 'compoundVariants', 'defaultVariants'] }));
+      }
+    });
+
+    return {
+      declarations,
+      variants: Object.keys(variants).length > 0 ? variants : undefined,
+      defaultVariants: Object.keys(defaultVariants).length > 0 ? defaultVariants : undefined,
+    };
   }
 
-  private extractCSSModuleClass(node: any): string | null {
-    if (node.property?.name) {
-      return node.property.name;
+  /**
+   * トップレベルのCSS宣言をスタイルオブジェクトの行に整形（コード例用）
+   * @param declarations CSS宣言
+   * @param indent インデント
+   * @returns スタイルオブジェクトの行（camelCase のプロパティ）
+   */
+  protected formatObjectLines(declarations: StyleDeclaration[] = [], indent: string): string[] {
+    return declarations
+      .filter(declaration => !declaration.selector)
+      .map(declaration => {
+        const key = declaration.property.startsWith('--')
+          ? `'${declaration.property}'`
+          : declaration.property.replace(/^-(webkit|moz|ms|o)-/, (_, prefix) => `${prefix[0].toUpperCase()}${prefix.slice(1)}-`)
+            .replace(/-([a-z])/g, (_, char) => char.toUpperCase());
+        return `${indent}${key}: '${declaration.value}',`;
+      });
+  }
+
+  /**
+   * 補間に含まれるタグ付きテンプレートを抽出済みとして記録
+   * @param node 補間の式（配列・子ノードを再帰的に走査）
+   */
+  protected markNestedTemplates(node: any): void {
+    if (!node || typeof node !== 'object') return;
+    if (node.type === 'TaggedTemplateExpression') {
+      this.handledNodes.add(node);
+    }
+    Object.entries(node).forEach(([key, value]) => {
+      if (key !== 'parent' && typeof value === 'object') {
+        this.markNestedTemplates(value);
+      }
+    });
+  }
+
+  /**
+   * 指定した名前の識別子かどうかを判定
+   * @param node ASTノード
+   * @param name 識別子名
+   * @returns 一致する場合true
+   */
+  protected isIdentifier(node: any, name: string): boolean {
+    return node?.type === 'Identifier' && node.name === name;
+  }
+
+  /**
+   * styled のタグを文字列化
+   * @param node タグ（styled.div / styled(Component) / styled('div') / styled.div.attrs(...)）
+   * @returns styled.div 等の文字列（styled でない場合はnull）
+   */
+  protected styledSource(node: any): string | null {
+    if (node?.type === 'CallExpression' && node.callee?.type === 'MemberExpression' &&
+        ['attrs', 'withConfig'].includes(node.callee.property?.name)) {
+      return this.styledSource(node.callee.object);
+    }
+    if (node?.type === 'MemberExpression' && this.isIdentifier(node.object, 'styled') && !node.computed) {
+      return `styled.${node.property.name}`;
+    }
+    if (node?.type === 'CallExpression' && this.isIdentifier(node.callee, 'styled') && node.arguments.length > 0) {
+      return `styled(${this.parser.expressionText(node.arguments[0])})`;
     }
     return null;
   }
+
+  /**
+   * バリアントの最初の値（コード例用）
+   * @param style バリアントを持つスタイル情報
+   * @returns [プロップ名, 値]（バリアントがない場合はnull）
+   */
+  protected firstVariant(style: ExtractedStyleInfo): [string, string] | null {
+    const [variantName, options] = Object.entries(style.variants || {})[0] || [];
+    const optionName = variantName ? Object.keys(options)[0] : undefined;
+    return variantName && optionName !== undefined ? [variantName, style.defaultVariants?.[variantName] || optionName] : null;
+  }
+}
+
+/**
+ * StyledComponentsExtractor - Styled Components専用抽出器
+ * 
+ * Styled Componentsのテンプレートリテラルを、CSS宣言・疑似セレクタ・メディアクエリに
+ * 分解する専門クラスです。テーマ参照（${({ theme }) => theme.colors.primary}）は
+ * デザイントークンに、プロップを条件とする補間はバリアント（プロップ名 → 値 → CSS宣言）に対応付けます。
+ * 
+ * 主な機能:
+ * - styled.div`...` / styled(Component)`...` / styled.div.attrs(...)`...` の解析
+ * - css`...`（ミックスイン）・createGlobalStyle`...` の解析
+ * - プロップ条件付きのスタイル（${({ primary }) => primary && css`...`}）の解析
+ * - Styled Componentsコード例の生成
+ */
+export class StyledComponentsExtractor extends CSSInJSExtractor {
+  protected extractStyleNode(node: any, name: string | undefined): ExtractedStyleInfo[] {
+    if (node?.type !== 'TaggedTemplateExpression') {
+      return [];
+    }
+
+    const source = this.styledSource(node.tag) || ['css', 'createGlobalStyle'].find(tag => this.isIdentifier(node.tag, tag));
+    if (!source) {
+      return [];
+    }
+
+    const variants: Record<string, Record<string, StyleDeclaration[]>> = {};
+    const declarations = this.parser.parseTemplate(node.quasi, variants);
+    // 補間内の css`...` はこのスタイルの一部として解析済み
+    this.markNestedTemplates(node.quasi.expressions);
+
+    return [this.createStyleInfo(source === 'createGlobalStyle' ? 'stylesheet' : 'styled-component', declarations, {
+      value: this.parser.templateText(node.quasi).trim(),
+      name,
+      source,
+      variants: Object.keys(variants).length > 0 ? variants : undefined,
+      imports: ['styled-components'],
+    })];
+  }
+
+  generateExamples(styles: ExtractedStyleInfo[]): string {
+    const styledComponent = styles.find(s => s.type === 'styled-component');
+    if (!styledComponent) {
+      return '';
+    }
+
+    const css = styledComponent.declarations
+      ? styledComponent.declarations
+        .filter(declaration => !declaration.selector)
+        .map(declaration => `  ${declaration.property}: ${declaration.value};`)
+        .join('\n')
+      : styledComponent.value;
+    const isStyled = styledComponent.source?.startsWith('styled');
+    const componentName = isStyled && styledComponent.name ? styledComponent.name : 'StyledDiv';
+    const variant = this.firstVariant(styledComponent);
+    const variantProp = !variant || ['false', 'default'].includes(variant[1]) ? ''
+      : variant[1] === 'true' ? ` ${variant[0]}` : ` ${variant[0]}="${variant[1]}"`;
+
+    return `import styled from 'styled-components';\n\nconst ${componentName} = ${isStyled ? styledComponent.source : 'styled.div'}\`\n${css}\n\`;\n\n<${componentName}${variantProp}>Example</${componentName}>`;
+  }
+}
+
+/**
+ * EmotionExtractor - Emotion専用抽出器
+ * 
+ * Emotionのスタイル定義をCSS宣言に分解する専門クラスです。
+ * テーマ参照（${({ theme }) => theme.colors.primary} / theme => ({ ... })）は
+ * デザイントークンに対応付けます。
+ * 
+ * 主な機能:
+ * - css`...` / styled.div`...` / styled(Component)`...` のテンプレートの解析
+ * - css({ ... }) / styled.div({ ... }) のオブジェクトスタイルの解析
+ * - css プロップ・sx プロップの解析
+ * - Emotionコード例の生成
+ */
+export class EmotionExtractor extends CSSInJSExtractor {
+  protected extractStyleNode(node: any, name: string | undefined): ExtractedStyleInfo[] {
+    switch (node?.type) {
+      case 'TaggedTemplateExpression': {
+        const source = this.styledSource(node.tag) || (this.isIdentifier(node.tag, 'css') ? 'css' : null);
+        if (!source) return [];
+
+        const variants: Record<string, Record<string, StyleDeclaration[]>> = {};
+        const declarations = this.parser.parseTemplate(node.quasi, variants);
+        // 補間内の css`...` はこのスタイルの一部として解析済み
+        this.markNestedTemplates(node.quasi.expressions);
+
+        return [this.createStyleInfo('styled-component', declarations, {
+          value: this.parser.templateText(node.quasi).trim(),
+          name,
+          source,
+          variants: Object.keys(variants).length > 0 ? variants : undefined,
+          imports: [source === 'css' ? '@emotion/react' : '@emotion/styled'],
+        })];
+      }
+
+      case 'CallExpression': {
+        const source = this.styledSource(node.callee) || (this.isIdentifier(node.callee, 'css') ? 'css' : null);
+        const declarations = source ? node.arguments.flatMap((argument: any) => this.parser.parseObject(argument)) : [];
+        if (declarations.length === 0) return [];
+        return [this.createStyleInfo('styled-component', declarations, {
+          name,
+          source,
+          imports: [source === 'css' ? '@emotion/react' : '@emotion/styled'],
+        })];
+      }
+
+      case 'JSXAttribute': {
+        // css プロップ（オブジェクト・配列・テーマ関数・css`...`）と sx プロップ
+        const attribute = node.name?.name;
+        const expression = node.value?.type === 'JSXExpressionContainer' ? this.parser.unwrap(node.value.expression) : null;
+        if (!['css', 'sx'].includes(attribute) || !expression) return [];
+
+        const isTemplate = expression.type === 'TaggedTemplateExpression' && this.isIdentifier(expression.tag, 'css');
+        const variants: Record<string, Record<string, StyleDeclaration[]>> = {};
+        const declarations = isTemplate ? this.parser.parseTemplate(expression.quasi, variants) : this.parser.parseObject(expression);
+        if (declarations.length === 0) return [];
+        if (isTemplate) {
+          this.handledNodes.add(expression);
+          this.markNestedTemplates(expression.quasi.expressions);
+        }
+        return [this.createStyleInfo('inline', declarations, {
+          source: `${attribute} prop`,
+          variants: Object.keys(variants).length > 0 ? variants : undefined,
+          imports: attribute === 'css' ? ['@emotion/react'] : undefined,
+        })];
+      }
+
+      default:
+        return [];
+    }
+  }
+
+  generateExamples(styles: ExtractedStyleInfo[]): string {
+    const style = styles.find(candidate => candidate.declarations?.length);
+    if (!style) return '';
+
+    const css = (style.declarations || [])
+      .filter(declaration => !declaration.selector)
+      .map(declaration => `  ${declaration.property}: ${declaration.value};`)
+      .join('\n');
+
+    if (style.source?.startsWith('styled')) {
+      const componentName = style.name || 'StyledDiv';
+      return `import styled from '@emotion/styled';\n\nconst ${componentName} = ${style.source}\`\n${css}\n\`;\n\n<${componentName}>Example</${componentName}>`;
+    }
+    return `/** @jsxImportSource @emotion/react */\nimport { css } from '@emotion/react';\n\nconst ${style.name || 'style'} = css\`\n${css}\n\`;\n\n<div css={${style.name || 'style'}}>Example</div>`;
+  }
+}
+
+/**
+ * StitchesExtractor - Stitches専用抽出器
+ * 
+ * Stitchesの styled / css のスタイルオブジェクトとバリアントを解析する専門クラスです。
+ * トークン（$primary / $colors$primary）はプロパティのスケールに基づいて
+ * デザイントークン（colors.primary）に対応付けます。
+ * 
+ * 主な機能:
+ * - styled('button', { ..., variants, defaultVariants }) の解析
+ * - css({ ... }) の解析
+ * - createStitches / createTheme のテーマ定義の登録
+ * - Stitchesコード例の生成
+ */
+export class StitchesExtractor extends CSSInJSExtractor {
+  protected extractStyleNode(node: any, name: string | undefined): ExtractedStyleInfo[] {
+    if (node?.type !== 'CallExpression' || node.callee?.type !== 'Identifier') {
+      return [];
+    }
+
+    switch (node.callee.name) {
+      case 'createStitches': {
+        // createStitches({ theme: { colors: {...} } })
+        const config = this.parser.unwrap(node.arguments[0]);
+        const theme = config?.type === 'ObjectExpression'
+          ? config.properties.find((property: any) => this.parser.propertyKey(property) === 'theme')
+          : null;
+        if (theme) {
+          this.parser.registerTheme(theme.value);
+        }
+        return [];
+      }
+
+      case 'createTheme':
+        // createTheme('dark', {...}) / createTheme({...})
+        this.parser.registerTheme(node.arguments[node.arguments.length - 1]);
+        return [];
+
+      case 'styled': {
+        const [tag, ...configs] = node.arguments;
+        if (!tag) return [];
+        return [this.createStyleInfo('styled-component', [], {
+          ...this.parseVariantConfig(configs),
+          name,
+          source: `styled(${this.parser.expressionText(tag)})`,
+          imports: ['@stitches/react'],
+        })];
+      }
+
+      case 'css': {
+        if (node.arguments.length === 0) return [];
+        const config = this.parseVariantConfig(node.arguments);
+        return [this.createStyleInfo('className', config.declarations || [], { ...config, name, source: 'css', imports: ['@stitches/react'] })];
+      }
+
+      default:
+        return [];
+    }
+  }
+
+  generateExamples(styles: ExtractedStyleInfo[]): string {
+    const style = styles.find(candidate => candidate.source?.startsWith('styled')) || styles[0];
+    if (!style) return '';
+
+    const componentName = style.name || 'Box';
+    const variantLines = Object.entries(style.variants || {}).flatMap(([variantName, options]) => [
+      `    ${variantName}: {`,
+      ...Object.entries(options).flatMap(([optionName, declarations]) => [
+        `      ${/^[A-Za-z_$][\w$]*$/.test(optionName) ? optionName : `'${optionName}'`}: {`,
+        ...this.formatObjectLines(declarations, '        '),
+        '      },',
+      ]),
+      '    },',
+    ]);
+    const lines = [
+      ...this.formatObjectLines(style.declarations, '  '),
+      ...(variantLines.length > 0 ? ['  variants: {', ...variantLines, '  },'] : []),
+    ];
+    const variant = this.firstVariant(style);
+    const variantProp = variant ? ` ${variant[0]}="${variant[1]}"` : '';
+    const tag = style.source?.match(/^styled\((.+)\)$/)?.[1] || `'div'`;
+
+    return `import { styled } from '@stitches/react';\n\nconst ${componentName} = styled(${tag}, {\n${lines.join('\n')}\n});\n\n<${componentName}${variantProp}>Example</${componentName}>`;
+  }
+}
+
+/**
+ * VanillaExtractExtractor - vanilla-extract専用抽出器
+ * 
+ * vanilla-extractのスタイル定義（.css.ts）を解析する専門クラスです。
+ * コンポーネントが import { button } from './button.css' で参照するスタイルファイルを
+ * 読み込み、参照されている style / recipe の宣言とバリアントを抽出します。
+ * テーマ（createTheme / createGlobalTheme / createThemeContract）の変数参照
+ * （vars.color.brand）はデザイントークンに対応付けます。
+ * 
+ * 主な機能:
+ * - style / styleVariants / recipe / globalStyle の解析
+ * - インポートした .css.ts ファイルの読み込み（ファイル毎にキャッシュ）
+ * - テーマ定義・テーマ変数の登録
+ * - vanilla-extractコード例の生成
+ */
+export class VanillaExtractExtractor extends CSSInJSExtractor {
+  private styleFiles = new Map<string, ExtractedStyleInfo[]>();  // .css.ts 毎の抽出結果
+  private themeFunctions = ['createTheme', 'createGlobalTheme', 'createThemeContract'];
+
+  extractStyles(node: any, filePath?: string): ExtractedStyleInfo[] {
+    if (node?.type === 'ImportDeclaration') {
+      return this.extractImportedStyles(node, filePath);
+    }
+
+    // テーマ変数（const vars = createThemeContract(...) / const [themeClass, vars] = createTheme(...)）
+    const init = node?.type === 'VariableDeclarator' ? this.parser.unwrap(node.init) : null;
+    if (init?.type === 'CallExpression' && this.themeFunctions.includes(init.callee?.name)) {
+      if (node.id?.type === 'ArrayPattern' && node.id.elements[1]?.type === 'Identifier') {
+        this.parser.registerThemeRoot(node.id.elements[1].name);
+      } else if (node.id?.type === 'Identifier' && init.callee.name !== 'createTheme') {
+        this.parser.registerThemeRoot(node.id.name);
+      }
+    }
+
+    return super.extractStyles(node, filePath);
+  }
+
+  protected extractStyleNode(node: any, name: string | undefined, filePath?: string): ExtractedStyleInfo[] {
+    if (node?.type !== 'CallExpression' || node.callee?.type !== 'Identifier') {
+      return [];
+    }
+
+    const [first, second] = node.arguments;
+    const source = filePath && /\.css\.[jt]s$/.test(filePath) ? path.relative(this.config.sourceDir, filePath) : node.callee.name;
+    switch (node.callee.name) {
+      case 'style':
+        return [this.createStyleInfo('className', this.parser.parseObject(first), { name, source, imports: ['@vanilla-extract/css'] })];
+
+      case 'styleVariants': {
+        // styleVariants({ primary: {...}, secondary: [base, {...}] }) は変数名をプロップ名とするバリアント
+        const options = this.parser.unwrap(first);
+        if (options?.type !== 'ObjectExpression') return [];
+        const variants = Object.fromEntries(
+          options.properties
+            .map((option: any) => [this.parser.propertyKey(option), this.parser.parseObject(option.value)])
+            .filter(([optionName]: [string | null]) => optionName !== null)
+        );
+        return [this.createStyleInfo('className', [], { name, source, variants: { [name || 'variant']: variants }, imports: ['@vanilla-extract/css'] })];
+      }
+
+      case 'recipe':
+        return [this.createStyleInfo('className', [], {
+          ...this.parseVariantConfig([first], 'base'),
+          name,
+          source,
+          imports: ['@vanilla-extract/recipes'],
+        })];
+
+      case 'globalStyle':
+        return [this.createStyleInfo('stylesheet', this.parser.parseObject(second, { selector: this.parser.valueText(first) }), {
+          source,
+          imports: ['@vanilla-extract/css'],
+        })];
+
+      default:
+        if (this.themeFunctions.includes(node.callee.name)) {
+          // テーマの値（createGlobalTheme(':root', vars, {...}) 等は最後のオブジェクト）
+          this.parser.registerTheme(node.arguments[node.arguments.length - 1]);
+        }
+        return [];
+    }
+  }
+
+  generateExamples(styles: ExtractedStyleInfo[]): string {
+    const style = styles.find(candidate => candidate.name);
+    if (!style) return '';
+
+    const variant = this.firstVariant(style);
+    const isRecipe = style.imports?.includes('@vanilla-extract/recipes');
+    const className = isRecipe
+      ? `${style.name}(${variant ? `{ ${variant[0]}: '${variant[1]}' }` : ''})`
+      : variant && style.variants?.[style.name!] ? `${style.name}.${variant[1]}` : style.name;
+    const modulePath = style.source?.endsWith('.ts')
+      ? `./${path.basename(style.source).replace(/\.ts$/, '')}`
+      : './styles.css';
+
+    return `import { ${style.name} } from '${modulePath}';\n\n<div className={${className}}>Example</div>`;
+  }
+
+  /**
+   * インポートした .css.ts ファイルのスタイルを抽出
+   * 
+   * 名前付きインポートの場合は参照しているスタイルのみ、名前空間・デフォルトの
+   * インポートの場合は全てのスタイルを返します。インポートしたテーマ変数も登録します。
+   * 
+   * @param node ImportDeclarationノード
+   * @param filePath インポート元のファイルパス
+   * @returns 参照しているスタイル情報の配列
+   */
+  private extractImportedStyles(node: any, filePath?: string): ExtractedStyleInfo[] {
+    const source = node.source?.value;
+    if (!filePath || typeof source !== 'string' || !source.startsWith('.') || !/\.css(\.[jt]s)?$/.test(source)) {
+      return [];
+    }
+
+    const basePath = path.resolve(path.dirname(filePath), source);
+    const stylePath = [basePath, `${basePath}.ts`, `${basePath}.js`]
+      .find(candidate => /\.[jt]s$/.test(candidate) && fs.existsSync(candidate));
+    if (!stylePath) {
+      return [];
+    }
+
+    const styles = this.loadStyleFile(stylePath);
+    const importedNames: (string | null)[] = node.specifiers.map((specifier: any) =>
+      specifier.type === 'ImportSpecifier' ? specifier.imported.name : null
+    );
+    node.specifiers.forEach((specifier: any) => {
+      if (specifier.type === 'ImportSpecifier' && this.parser.isThemeRoot(specifier.imported.name)) {
+        this.parser.registerThemeRoot(specifier.local.name);
+      }
+    });
+
+    return importedNames.includes(null)
+      ? styles
+      : styles.filter(style => style.name && importedNames.includes(style.name));
+  }
+
+  /**
+   * .css.ts ファイルを読み込んでスタイルを抽出（結果はキャッシュ）
+   * @param stylePath スタイルファイルのパス
+   * @returns ファイル内のスタイル情報の配列（読み込み・パースに失敗した場合は空）
+   */
+  private loadStyleFile(stylePath: string): ExtractedStyleInfo[] {
+    if (!this.styleFiles.has(stylePath)) {
+      // 循環インポートに備えて先に登録
+      const styles: ExtractedStyleInfo[] = [];
+      this.styleFiles.set(stylePath, styles);
+      try {
+        const ast = parse(fs.readFileSync(stylePath, 'utf-8'), { range: true });
+        const traverse = (node: any) => {
+          if (!node || typeof node !== 'object') return;
+          if (Array.isArray(node)) {
+            node.forEach(traverse);
+            return;
+          }
+          styles.push(...this.extractStyles(node, stylePath));
+          Object.values(node).forEach(value => {
+            if (typeof value === 'object') {
+              traverse(value);
+            }
+          });
+        };
+        traverse(ast);
+      } catch (error) {
+        console.warn(`Failed to extract vanilla-extract styles from ${stylePath}:`, error);
+      }
+    }
+    return this.styleFiles.get(stylePath)!;
+  }
 }
 
 /**
@@ -657,6 +1395,9 @@ export class CSSModulesExtractor extends StyleExtractor {
  * - stylesheet: StyleSheetExtractor
  * - styled-components: StyledComponentsExtractor
  * - css-modules: CSSModulesExtractor
+ * - emotion: EmotionExtractor
+ * - stitches: StitchesExtractor
+ * - vanilla-extract: VanillaExtractExtractor
  */
 export class StyleExtractorFactory {
   /**
@@ -674,6 +1415,11 @@ export class StyleExtractorFactory {
   static createExtractor(styleSystem: StyleSystem | string, config: ExtractorConfig): StyleExtractor {
     const configManager = ConfigManager.getInstance();
     
+    // 設定されたカスタムスタイルシステムは組み込みの抽出器より優先（emotion等を独自の抽出器で置き換え可能）
+    if (configManager.isCustomStyleSystem(styleSystem)) {
+      return this.createCustomExtractor(styleSystem, config);
+    }
+    
     // 標準スタイルシステムの選択と生成
     switch (styleSystem) {
       case 'tailwind':
@@ -684,11 +1430,13 @@ export class StyleExtractorFactory {
         return new StyledComponentsExtractor(config);
       case 'css-modules':
         return new CSSModulesExtractor(config);
+      case 'emotion':
+        return new EmotionExtractor(config);
+      case 'stitches':
+        return new StitchesExtractor(config);
+      case 'vanilla-extract':
+        return new VanillaExtractExtractor(config);
       default:
-        // カスタムスタイルシステムの動的読み込み
-        if (configManager.isCustomStyleSystem(styleSystem)) {
-          return this.createCustomExtractor(styleSystem, config);
-        }
         throw new Error(`Unsupported style system: ${styleSystem}`);
     }
   }
@@ -697,12 +1445,13 @@ export class StyleExtractorFactory {
    * カスタムスタイルシステム用抽出器の動的生成
    * 
    * ConfigManagerに登録されたカスタムスタイルシステム設定に基づいて、
-   * 外部モジュールから抽出器クラスを動的に読み込んで生成します。
+   * 外部モジュール（設定ファイルからの相対パス・パッケージ名）から抽出器クラスを
+   * PluginLoaderで読み込み、StyleExtractorの契約を検証して生成します。
    * 
    * @param styleSystem カスタムスタイルシステム名
    * @param config 抽出器設定
    * @returns 動的に読み込まれたStyleExtractorインスタンス
-   * @throws {Error} 設定が見つからない、またはモジュール読み込みに失敗した場合
+   * @throws {Error} 設定が見つからない、モジュール読み込みに失敗した、または契約を満たさない場合
    */
   private static createCustomExtractor(styleSystem: string, config: ExtractorConfig): StyleExtractor {
     const configManager = ConfigManager.getInstance();
@@ -711,13 +1460,15 @@ export class StyleExtractorFactory {
     if (!customConfig) {
       throw new Error(`Custom style system not found: ${styleSystem}`);
     }
+    if (!customConfig.extractor) {
+      throw new Error(`Custom style system '${styleSystem}' has no extractor. Set extensions.customStyleSystems.${styleSystem}.extractor to a module path.`);
+    }
 
     // 外部モジュールの動的読み込みと抽出器クラスのインスタンス化
     try {
-      const ExtractorClass = require(customConfig.extractor);
-      return new ExtractorClass(config);
+      return PluginLoader.instantiate<StyleExtractor>(customConfig.extractor, STYLE_EXTRACTOR_CONTRACT, [config]);
     } catch (error) {
-      throw new Error(`Failed to load custom style extractor: ${customConfig.extractor}`);
+      throw new Error(`Failed to load custom style extractor for '${styleSystem}': ${error instanceof Error ? error.message : error}`);
     }
   }
 
@@ -1,4 +1,4 @@
-import { ExtractedComponent, ExtractorConfig, PropInfo, JSXElement, StyleInfo } from '../types';
+import { ExtractedComponent, ExtractorConfig, Platform, PropInfo, JSXElement, StyleInfo, StyleDeclaration, CSSInJSStyleSystem, ComponentDefinition, VariantDefinition, ClassCondition, ConditionalClasses, ClassSource, ComponentImport } from '../types';
 import { generateHash } from '../utils/hash';
 import { ComponentAnalyzer } from './ast/ComponentAnalyzer';
 import { ASTTraverser } from './ast/ASTTraverser';
@@ -6,9 +6,27 @@ import { TailwindClassExtractor } from './ast/TailwindClassExtractor';
 import { PropExtractor } from './ast/PropExtractor';
 import { JSXStructureExtractor } from './ast/JSXStructureExtractor';
 import { ComponentCategorizer } from './ast/ComponentCategorizer';
+import { TypeResolver } from './ast/TypeResolver';
+import { DocCommentExtractor } from './ast/DocCommentExtractor';
+import { ClassComponentExtractor } from './ast/ClassComponentExtractor';
+import { ComponentUnwrapper } from './ast/ComponentUnwrapper';
+import { VariantExtractor } from './ast/VariantExtractor';
+import { ClassConstantResolver } from './ast/ClassConstantResolver';
+import { ImportResolver } from './ast/ImportResolver';
+import { BehaviorExtractor, CustomHookDefinition, HookCall } from './ast/BehaviorExtractor';
+import { topLevelDeclarations } from './ast/TopLevelDeclarations';
 import { StyleExtractorFactory } from './StyleExtractorFactory';
+import { PlatformExtractorFactory } from './PlatformExtractorFactory';
 import { ConfigManager } from '../config/ConfigManager';
 
+/**
+ * StyleOrigin - 抽出したスタイルと抽出元のノード（コンポーネント毎の絞り込みに使用）
+ */
+interface StyleOrigin {
+  node: any;   // スタイルを抽出したASTノード
+  style: any;  // 抽出されたスタイル情報
+}
+
 /**
  * TailwindExtractor - メインオーケストレーター
  * 
@@ -22,7 +40,7 @@ import { ConfigManager } from '../config/ConfigManager';
  * - TypeScript Props情報の解析
  * - JSX構造の抽出とドキュメント化
  * - Atomic Designによるコンポーネント分類
- * - マルチプラットフォーム対応（Web, React Native）
+ * - マルチプラットフォーム対応（Web, React Native。ファイルのパス・内容からコンポーネント毎に判定）
  * 
  * アーキテクチャパターン:
  * - Composite Pattern: 複数のエクストラクターを組み合わせ
@@ -31,14 +49,24 @@ import { ConfigManager } from '../config/ConfigManager';
  * 
  * 使用例:
  * const extractor = new TailwindExtractor(config);
- * const component = await extractor.extractFromFile('./Button.tsx');
+ * const components = await extractor.extractFromFile('./Form.tsx'); // Form, FormField, ...
  * 
  * 他クラスとの関係:
  * - ComponentAnalyzer: ファイル解析とAST生成
  * - StyleExtractorFactory: プラットフォーム固有スタイル抽出
+ * - PlatformExtractorFactory: ファイルのプラットフォーム判定（Web / React Native）
+ * - JSXPlatformExtractor: Web / React Nativeのプラットフォーム抽出器がこのクラスを抽出パイプラインとして使用
  * - ASTTraverser: AST走査とコールバック実行
  * - TailwindClassExtractor: Tailwindクラス抽出
  * - ComponentCategorizer: Atomic Design分類
+ * - TypeResolver: tsconfigに基づく型チェッカー連携（Props型の解決）
+ * - DocCommentExtractor: JSDoc/TSDocコメントの抽出
+ * - ClassComponentExtractor: クラスコンポーネントのProps・State・ライフサイクル抽出
+ * - VariantExtractor: cva/tvによるバリアント定義の抽出
+ * - ClassConstantResolver: 定数・スタイルモジュールからのクラス文字列の解決
+ * - ImportResolver: インポートの定義元解決（構成グラフの構築用）
+ * - BehaviorExtractor: フック・コンテキスト・副作用による振る舞いの抽出
+ * - ComponentUnwrapper: ラップされた描画関数の特定（複数コンポーネントのファイルの解析範囲）
  */
 
 export class TailwindExtractor {
@@ -49,7 +77,16 @@ export class TailwindExtractor {
   private propExtractor: PropExtractor;                  // Props抽出器
   private jsxExtractor: JSXStructureExtractor;           // JSX構造抽出器
   private categorizer: ComponentCategorizer;             // コンポーネント分類器
+  private docCommentExtractor: DocCommentExtractor;      // ドキュメントコメント抽出器
+  private classComponentExtractor: ClassComponentExtractor;  // クラスコンポーネント抽出器
+  private variantExtractor: VariantExtractor;            // cva/tvバリアント抽出器
+  private classConstantResolver: ClassConstantResolver;  // クラス文字列定数の解決器
+  private importResolver: ImportResolver;                // インポートの定義元解決器
+  private behaviorExtractor: BehaviorExtractor;          // フック・コンテキスト・副作用の抽出器
+  private componentUnwrapper: ComponentUnwrapper;        // forwardRef/memo/HOCの展開（解析範囲の特定用）
   private styleExtractor: any;                           // プラットフォーム固有スタイル抽出器
+  private defaultPlatform: Platform | string;            // 判定の手がかりがないファイルのプラットフォーム（設定値）
+  private cssInJSType: CSSInJSStyleSystem;               // CSS-in-JSのスタイル情報の種別（設定のスタイルシステム）
 
   /**
    * TailwindExtractorの初期化
@@ -63,18 +100,34 @@ export class TailwindExtractor {
   constructor(config: ExtractorConfig) {
     this.config = config;
     
+    // ConfigManagerから現在のスタイルシステム設定を取得
+    const configManager = ConfigManager.getInstance();
+    const appConfig = configManager.getConfig();
+
+    // 型チェッカー連携（ComponentAnalyzer・PropExtractor・ClassComponentExtractorでProgramを共有、ImportResolverはモジュール解決に使用）
+    const typeResolver = new TypeResolver(config.tsConfigPath || appConfig.source?.tsConfigPath);
+    
     // 各専門エクストラクターの初期化
-    this.componentAnalyzer = new ComponentAnalyzer();
+    this.componentAnalyzer = new ComponentAnalyzer(typeResolver);
     this.astTraverser = new ASTTraverser();
     this.tailwindExtractor = new TailwindClassExtractor();
-    this.propExtractor = new PropExtractor();
+    this.propExtractor = new PropExtractor(typeResolver);
     this.jsxExtractor = new JSXStructureExtractor();
     this.categorizer = new ComponentCategorizer();
+    this.docCommentExtractor = new DocCommentExtractor();
+    this.classComponentExtractor = new ClassComponentExtractor(typeResolver);
+    this.variantExtractor = new VariantExtractor();
+    this.classConstantResolver = new ClassConstantResolver(undefined, configManager.getConfigDir());
+    this.importResolver = new ImportResolver(typeResolver);
+    this.behaviorExtractor = new BehaviorExtractor();
+    this.componentUnwrapper = new ComponentUnwrapper();
     
-    // ConfigManagerから現在のスタイルシステム設定を取得
-    const configManager = ConfigManager.getInstance();
-    const appConfig = configManager.getConfig();
     const styleSystem = appConfig.styleSystem || 'tailwind';
+    this.defaultPlatform = config.platform || appConfig.platform || 'web';
+    // カスタムスタイルシステム等の解析済みCSS宣言は styled-components 互換として扱う
+    this.cssInJSType = ['emotion', 'stitches', 'vanilla-extract'].includes(styleSystem)
+      ? styleSystem as CSSInJSStyleSystem
+      : 'styled-components';
     
     // ファクトリーパターンでプラットフォーム固有のスタイル抽出器を生成
     this.styleExtractor = StyleExtractorFactory.createExtractor(styleSystem, config);
@@ -83,97 +136,310 @@ export class TailwindExtractor {
   /**
    * ファイルからコンポーネント情報を抽出するメインメソッド
    * 
-   * 指定されたファイルを解析し、包括的なコンポーネント情報を抽出します。
-   * 複数のエクストラクターを協調させ、Reactコンポーネントの全側面を
-   * 構造化されたデータとして返します。
+   * 指定されたファイルを解析し、エクスポートされた全てのコンポーネントについて
+   * 包括的なコンポーネント情報を抽出します。複数のエクストラクターを協調させ、
+   * Reactコンポーネントの全側面を構造化されたデータとして返します。
    * 
    * 処理フロー:
    * 1. ファイル解析とAST生成（ComponentAnalyzer）
-   * 2. AST走査による情報収集（ASTTraverser + 各エクストラクター）
-   * 3. コンポーネント分類（ComponentCategorizer）
-   * 4. スタイル情報統合（StyleExtractorFactory）
-   * 5. 結果の構造化とハッシュ生成
+   * 2. ファイル全体のスタイル・依存関係・プラットフォームの収集
+   * 3. コンポーネント毎の抽出（extractComponent）
+   * 4. 複合コンポーネントの子（Card.Header 等）の抽出と親への記録
+   * 
+   * 1ファイル1コンポーネントの場合はファイル全体を解析対象とし、
+   * 複数コンポーネントの場合は各コンポーネントの定義ノードに範囲を限定します。
+   * memo(CardBase) のように別の宣言の描画関数をラップしている場合は、その描画関数を解析範囲とします。
    * 
    * @param filePath 解析対象ファイルのパス
-   * @returns 抽出されたコンポーネント情報（コンポーネントでない場合はnull）
+   * @returns 抽出されたコンポーネント情報の配列（コンポーネントでない場合は空配列）
    */
-  async extractFromFile(filePath: string): Promise<ExtractedComponent | null> {
+  async extractFromFile(filePath: string): Promise<ExtractedComponent[]> {
     try {
       // 1. ファイル解析: コンポーネントファイルかどうかの判定とAST生成
-      const { content, ast, componentName, isComponentFile } = 
+      const { content, ast, components, isComponentFile, services } = 
         await this.componentAnalyzer.analyzeFile(filePath);
 
       // コンポーネントファイルでない場合は処理を中断
-      if (!isComponentFile || !componentName || !ast) {
-        return null;
+      if (!isComponentFile || !ast || components.length === 0) {
+        return [];
       }
 
-      // 2. データ収集用コンテナの初期化
-      const classes = new Set<string>();              // Tailwindクラス収集
-      const props: PropInfo[] = [];                   // Props情報収集
-      const dependencies = new Set<string>();         // 依存関係収集
-      let jsxStructure: JSXElement | undefined;       // JSX構造
-
-      // 3. AST走査による統合的な情報抽出
-      // コールバックベースのアーキテクチャで各エクストラクターを協調動作
-      this.astTraverser.traverse(ast, {
-        // Tailwindクラス発見時のコールバック
-        onClassName: (node) => {
-          const extractedClasses = this.tailwindExtractor.extractClasses(node);
-          extractedClasses.forEach(cls => classes.add(cls));
-        },
-        // Props発見時のコールバック  
-        onProp: (prop) => props.push(prop),
-        // インポート発見時のコールバック
-        onImport: (dep) => dependencies.add(dep),
-        // JSXリターン文発見時のコールバック
-        onJSXReturn: (element) => {
-          if (!jsxStructure) {
-            jsxStructure = element;
-          }
-        },
-      });
+      const isSingleComponent = components.length === 1;
 
-      // 4. JSX構造の補完抽出（AST走査で見つからなかった場合）
-      if (!jsxStructure) {
-        jsxStructure = this.jsxExtractor.extractJSXStructure(ast) || undefined;
+      // 2. ファイル全体で共有する情報の収集
+      // 依存関係（インポート）はファイル単位のため、複数コンポーネント時は先に収集
+      const dependencies = new Set<string>();
+      if (!isSingleComponent) {
+        this.astTraverser.traverse(ast, { onImport: (dep) => dependencies.add(dep) });
       }
 
-      // 5. Atomic Designパターンによるコンポーネント分類
-      // ファイルパスとコンポーネント名から自動的にカテゴリを判定
-      const category = this.categorizer.categorizeComponent(
-        filePath, 
-        componentName, 
-        this.config.sourceDir
-      );
-
-      // 6. プラットフォーム固有スタイル抽出
-      // StyleExtractorFactoryで生成された適切なエクストラクターを使用
-      const extractedStyles = this.extractStylesFromAST(ast);
-      console.log(`Component ${componentName} extractedStyles:`, extractedStyles.length, extractedStyles);
-      
-      // 7. 統合スタイル情報の構築
-      // Tailwindクラスとプラットフォーム固有スタイル（StyleSheet等）を統合
-      const styleInfo: StyleInfo = this.buildStyleInfo(extractedStyles, Array.from(classes));
-      console.log(`Component ${componentName} styleInfo:`, styleInfo);
+      // スタイルはファイル全体から抽出し、コンポーネント毎に定義ノード内のものと参照しているモジュールレベルの定義に絞り込む
+      const styleOrigins = this.extractStylesFromAST(ast, filePath);
+      const definitionNodes = components
+        .flatMap(definition => [definition.node, ...(definition.subcomponents || []).map(sub => sub.node)])
+        .filter(Boolean)
+        .flatMap(node => [node, this.resolveDefinitionScope(node, ast)]);
 
-      // 8. ExtractedComponentオブジェクトの構築と返却
-      return {
-        filePath,                                    // ファイルパス
-        componentName,                               // コンポーネント名
-        category,                                    // Atomic Designカテゴリ
-        tailwindClasses: Array.from(classes).sort(), // ソート済みTailwindクラス
-        props,                                       // Props情報
-        dependencies: Array.from(dependencies),     // 依存関係
-        hash: generateHash(content),                 // コンテンツハッシュ（変更検出用）
-        jsxStructure,                               // JSX構造
-        platform: 'web',                           // プラットフォーム（TODO: 動的設定対応）
-        styleInfo,                                  // 統合スタイル情報
-      };
+      // cva/tvのバリアント定義もモジュールレベルで共有し、使用しているコンポーネントに紐付け
+      const variantDefinitions = this.variantExtractor.extractVariants(ast);
+
+      // インポートは定義元まで解決し、構成グラフ（誰が誰を描画しているか）の構築に使用
+      const imports = this.importResolver.resolveImports(ast, filePath);
+
+      // ファイル内のカスタムフック（useTabsContext 等）はコンポーネントから参照するコンテキストの解決に使用
+      const customHooks = this.behaviorExtractor.collectCustomHooks(ast);
+
+      // プラットフォームはファイル単位で判定（Web・React Nativeが混在するモノレポに対応）
+      const platform = this.detectPlatform(filePath, content);
+
+      const extract = (definition: ComponentDefinition, scope: any) => this.extractComponent(filePath, definition, {
+        ast,
+        scope,
+        source: scope === ast ? content : content.slice(scope.range[0], scope.range[1]),
+        services,
+        dependencies,
+        extractedStyles: this.scopeStyles(styleOrigins, scope, ast, definitionNodes),
+        variantDefinitions,
+        imports,
+        customHooks,
+        platform,
+      });
+
+      // 3. コンポーネント毎の抽出
+      return components.map(definition => {
+        const component = extract(definition, isSingleComponent || !definition.node ? ast : this.resolveDefinitionScope(definition.node, ast));
+
+        // 複合コンポーネントの子は定義ノードに範囲を限定して抽出し、Card.Header 形式で親に記録
+        if (definition.subcomponents) {
+          component.subcomponents = definition.subcomponents.map(sub => ({
+            ...extract(sub, this.resolveDefinitionScope(sub.node, ast)),
+            componentName: `${definition.name}.${sub.memberName}`,
+          }));
+        }
+
+        return component;
+      });
     } catch (error) {
       console.error(`Failed to extract from ${filePath}:`, error);
-      return null;
+      return [];
+    }
+  }
+
+  /**
+   * 単一コンポーネントの情報を抽出
+   * 
+   * 解析範囲（scope）内のAST走査でクラス・Props・JSX構造を収集し、
+   * 型情報・ドキュメントコメント・分類・スタイル情報を統合します。
+   * 
+   * 処理フロー:
+   * 1. AST走査による情報収集（ASTTraverser + 各エクストラクター）
+   *    型情報が利用可能な場合はPropsを型チェッカーで解決（PropExtractor）
+   *    コールバックPropsのシグネチャと呼び出し方を付与（PropExtractor）
+   *    クラスコンポーネントはProps・State・render()を別途抽出（ClassComponentExtractor）
+   *    使用しているcva/tv定義のクラス・バリアントを紐付け（VariantExtractor）
+   *    条件付きクラスをPropの値毎に集約（TailwindClassExtractor）
+   *    定数・スタイルモジュールから参照しているクラスを解決（ClassConstantResolver）
+   *    フック呼び出しとコンテキストの提供から振る舞いを構築（BehaviorExtractor）
+   * 2. JSX構造の補完抽出
+   * 3. コンポーネント分類（ComponentCategorizer）
+   * 4. スタイル情報統合（StyleExtractorFactory）
+   * 5. 結果の構造化とハッシュ生成（解析範囲のソースから算出）
+   * 
+   * @param filePath ファイルパス
+   * @param definition コンポーネント定義（名前・ラッパー種別・displayName）
+   * @param context ファイル解析結果と解析範囲
+   * @returns 抽出されたコンポーネント情報
+   */
+  private extractComponent(
+    filePath: string,
+    definition: ComponentDefinition,
+    context: {
+      ast: any;                    // ファイル全体のAST（名前解決・コメント参照用）
+      scope: any;                  // 走査対象ノード（ファイル全体または定義ノード）
+      source: string;              // 解析範囲のソース（ハッシュ生成用）
+      services?: any;              // parserServices（型情報）
+      dependencies: Set<string>;   // ファイル単位の依存関係
+      extractedStyles: any[];      // 解析範囲のプラットフォーム固有スタイル（参照しているモジュールレベルの定義を含む）
+      variantDefinitions: VariantDefinition[];  // ファイル単位のcva/tvバリアント定義
+      imports: ComponentImport[];  // ファイル単位の解決済みインポート
+      customHooks: Map<string, CustomHookDefinition>;  // ファイル内で定義されたカスタムフック
+      platform: Platform;          // ファイルのプラットフォーム
     }
+  ): ExtractedComponent {
+    const { ast, scope, source, services, dependencies, extractedStyles, variantDefinitions, imports, customHooks, platform } = context;
+    const { name: componentName, wrappers, displayName } = definition;
+
+    // データ収集用コンテナの初期化
+    const classes = new Set<string>();              // Tailwindクラス収集
+    const classConditions: ClassCondition[] = [];   // Propの値による条件付きクラス
+    const classSources: ClassSource[] = [];         // 定数から解決したクラスの参照元
+    const hookCalls: HookCall[] = [];               // フック呼び出し
+    const elements: any[] = [];                     // JSX要素（コンテキストの提供検出・構成グラフ用）
+    let props: PropInfo[] = [];                     // Props情報収集
+    let jsxStructure: JSXElement | undefined;       // JSX構造
+
+    // 1. AST走査による統合的な情報抽出
+    // コールバックベースのアーキテクチャで各エクストラクターを協調動作
+    this.astTraverser.traverse(scope, {
+      // Tailwindクラス発見時のコールバック
+      onClassName: (node, bindings) => {
+        const extractedClasses = this.tailwindExtractor.extractClasses(node);
+        extractedClasses.forEach(cls => classes.add(cls));
+        classConditions.push(...this.tailwindExtractor.extractConditionalClasses(node, bindings));
+
+        // className={baseButton} のような定数参照をインポート元まで辿って解決
+        this.classConstantResolver.resolveClassNode(node, { ast, filePath, bindings }).forEach(source => {
+          const resolvedClasses = source.classes.filter(cls => this.tailwindExtractor.isTailwindClass(cls));
+          if (resolvedClasses.length > 0) {
+            resolvedClasses.forEach(cls => classes.add(cls));
+            classSources.push({ ...source, classes: resolvedClasses });
+          }
+        });
+      },
+      // switch文によるクラス切り替え発見時のコールバック
+      onSwitch: (node) => classConditions.push(...this.tailwindExtractor.extractSwitchClasses(node)),
+      // フック呼び出し発見時のコールバック
+      onHookCall: (node, parent) => hookCalls.push({ node, parent }),
+      // JSX要素発見時のコールバック
+      onJSXElement: (node) => elements.push(node),
+      // Props発見時のコールバック  
+      onProp: (prop) => props.push(prop),
+      // インポート発見時のコールバック
+      onImport: (dep) => dependencies.add(dep),
+      // JSXリターン文発見時のコールバック
+      onJSXReturn: (element) => {
+        if (!jsxStructure) {
+          jsxStructure = element;
+        }
+      },
+    });
+
+    // クラスコンポーネントは型引数・defaultProps・render()から抽出
+    const classComponent = this.classComponentExtractor.extract(ast, componentName, services);
+    if (classComponent) {
+      props = classComponent.props;
+      if (classComponent.renderMethod) {
+        jsxStructure = this.jsxExtractor.extractJSXStructure(classComponent.renderMethod) || jsxStructure;
+      }
+    } else {
+      // 型情報付きでパースできた場合は、型チェッカーで解決したPropsを採用
+      if (services?.program) {
+        props = this.propExtractor.extractTypedProps(ast, componentName, services, props);
+      }
+
+      // ドキュメントコメント（JSDoc/TSDoc）の付与
+      props = this.propExtractor.attachPropDocs(ast, componentName, props);
+
+      // コールバックProps（onChange等）のシグネチャと呼び出し方の付与
+      props = this.propExtractor.extractEvents(ast, componentName, props, services);
+    }
+
+    // 解析範囲内で呼び出しているcva/tv定義のクラスを収集し、同名のPropsに選択肢とデフォルト値を補完
+    const variants = this.variantExtractor.findUsedVariants(scope, variantDefinitions);
+    variants.forEach(variant => {
+      this.variantExtractor.getAllClasses(variant)
+        .filter(cls => this.tailwindExtractor.isTailwindClass(cls))
+        .forEach(cls => classes.add(cls));
+    });
+    props = this.variantExtractor.linkProps(props, variants);
+
+    // 条件付きクラスをPropの値毎に集約（ルックアップテーブル等で参照されたクラスも使用クラスに含める）
+    const conditionalClasses = this.buildConditionalClasses(classConditions, props);
+    conditionalClasses.forEach(mapping =>
+      Object.values(mapping.values).forEach(valueClasses => valueClasses.forEach(cls => classes.add(cls)))
+    );
+    // 残余Props（...rest）の転送先（ネイティブ属性・子コンポーネントへの委譲）
+    const forwardedProps = classComponent ? [] : this.propExtractor.extractForwardedProps(ast, componentName);
+    const docs = this.docCommentExtractor.extractComponentDoc(ast, componentName);
+    // 内部状態・参照/提供するコンテキスト・副作用（クラスコンポーネントはState・ライフサイクルで表現）
+    const behavior = classComponent ? undefined : this.behaviorExtractor.buildBehavior(hookCalls, elements, customHooks);
+
+    // 2. JSX構造の補完抽出（AST走査で見つからなかった場合）
+    if (!jsxStructure) {
+      jsxStructure = this.jsxExtractor.extractJSXStructure(scope) || undefined;
+    }
+
+    // 3. Atomic Designパターンによるコンポーネント分類
+    // ファイルパスとコンポーネント名から自動的にカテゴリを判定
+    const category = this.categorizer.categorizeComponent(
+      filePath, 
+      componentName, 
+      this.config.sourceDir
+    );
+
+    // 4. 統合スタイル情報の構築
+    // Tailwindクラスとプラットフォーム固有スタイル（StyleSheet等）を統合
+    console.log(`Component ${componentName} extractedStyles:`, extractedStyles.length, extractedStyles);
+    const styleInfo: StyleInfo = this.buildStyleInfo(extractedStyles, Array.from(classes));
+    console.log(`Component ${componentName} styleInfo:`, styleInfo);
+
+    // 5. ExtractedComponentオブジェクトの構築と返却
+    return {
+      filePath,                                    // ファイルパス
+      componentName,                               // コンポーネント名
+      category,                                    // Atomic Designカテゴリ
+      tailwindClasses: Array.from(classes).sort(), // ソート済みTailwindクラス
+      props,                                       // Props情報
+      dependencies: Array.from(dependencies),     // 依存関係
+      hash: generateHash(source),                  // コンテンツハッシュ（変更検出用）
+      jsxStructure,                               // JSX構造
+      platform,                                   // プラットフォーム（ファイルのパス・内容から判定）
+      styleInfo,                                  // 統合スタイル情報
+      ...(docs && { docs }),                      // ドキュメントコメント
+      ...(wrappers && { wrappers }),              // forwardRef/memo/HOCのラッパー種別
+      ...(displayName && { displayName }),        // displayName の明示指定
+      ...(classComponent?.state.length > 0 && { state: classComponent.state }),           // クラスのState
+      ...(classComponent?.lifecycleMethods.length > 0 && {                                 // ライフサイクル
+        lifecycleMethods: classComponent.lifecycleMethods,
+      }),
+      ...(forwardedProps.length > 0 && { forwardedProps }),                                // 残余Propsの転送先
+      ...(variants.length > 0 && { variants }),                                            // cva/tvのバリアント
+      ...(conditionalClasses.length > 0 && { conditionalClasses }),                        // Propの値毎のクラス
+      ...(classSources.length > 0 && { classSources }),                                    // 定数から解決したクラスの参照元
+      ...(imports.length > 0 && { imports }),                                              // 定義元まで解決したインポート
+      ...(elements.length > 0 && { renderedElements: this.jsxExtractor.extractElementNames(elements) }),  // 描画している全要素
+      ...(behavior && { behavior }),                                                       // フック・コンテキスト・副作用
+    };
+  }
+
+  /**
+   * ファイルのプラットフォームを判定
+   * 
+   * パス（Button.ios.tsx / Button.web.tsx 等）とファイル内容（react-native・expo からのインポート、
+   * View 等のプリミティブの使用）から判定します。React Nativeの兆候がないファイルは
+   * 設定のプラットフォームが react-native の場合のみReact Nativeとして扱います（.web.tsx は常にWeb）。
+   * 
+   * @param filePath ファイルパス
+   * @param content ファイルのソース
+   * @returns プラットフォーム（web または react-native）
+   */
+  private detectPlatform(filePath: string, content: string): Platform {
+    const config = { ...this.config, platform: this.defaultPlatform as Platform };
+    return PlatformExtractorFactory.detectPlatform(filePath, config, content) || 'web';
+  }
+
+  /**
+   * 条件付きクラスをProp毎の「値 → クラス」に集約
+   * 
+   * 条件の対象がコンポーネントのPropsに含まれるもののみを残し、
+   * 同じ値に対するクラスは重複を除いてソートします。
+   * 
+   * @param conditions 条件とクラスの組
+   * @param props コンポーネントのProps
+   * @returns Prop毎の対応（Props宣言順）
+   */
+  private buildConditionalClasses(conditions: ClassCondition[], props: PropInfo[]): ConditionalClasses[] {
+    return props
+      .map(prop => {
+        const values: Record<string, string[]> = {};
+        conditions
+          .filter(condition => condition.prop === prop.name)
+          .forEach(condition => {
+            values[condition.value] = Array.from(new Set([...(values[condition.value] || []), ...condition.classes])).sort();
+          });
+        return { prop: prop.name, values };
+      })
+      .filter(mapping => Object.keys(mapping.values).length > 0);
   }
 
   /**
@@ -183,18 +449,19 @@ export class TailwindExtractor {
    * プラットフォーム固有のスタイル情報（React Native StyleSheet等）を抽出します。
    * 
    * @param ast TypeScript ESTree AST
-   * @returns 抽出されたスタイル情報の配列
+   * @param filePath 解析対象ファイルのパス（インポートしたスタイルファイルの解決に使用）
+   * @returns 抽出されたスタイル情報と抽出元のノードの配列
    */
-  private extractStylesFromAST(ast: any): any[] {
-    const styles: any[] = [];
+  private extractStylesFromAST(ast: any, filePath: string): StyleOrigin[] {
+    const styles: StyleOrigin[] = [];
     
     // AST全体を再帰的に走査してスタイル情報を抽出
     const traverse = (node: any) => {
       if (!node || typeof node !== 'object') return;
       
       // 現在のノードからStyleExtractorを使用してスタイルを抽出
-      const extractedStyles = this.styleExtractor.extractStyles(node);
-      styles.push(...extractedStyles);
+      const extractedStyles = this.styleExtractor.extractStyles(node, filePath);
+      styles.push(...extractedStyles.map((style: any) => ({ node, style })));
       
       // 子ノードの再帰的走査
       if (Array.isArray(node)) {
@@ -212,6 +479,134 @@ export class TailwindExtractor {
     return styles;
   }
 
+  /**
+   * 定義ノードから解析範囲を特定
+   * 
+   * ComponentUnwrapperでラッパー（memo / forwardRef / HOC / Object.assign）を展開し、
+   * 描画関数・クラス定義が定義ノードの外（const Card = Object.assign(memo(CardBase), {...}) の CardBase 等）
+   * にある場合はその宣言を、それ以外は定義ノード自体を返します。
+   * 
+   * @param node コンポーネントの定義ノード
+   * @param ast ファイル全体のAST（識別子の解決用）
+   * @returns 解析範囲のノード
+   */
+  private resolveDefinitionScope(node: any, ast: any): any {
+    const { fn, classNode } = this.componentUnwrapper.unwrap(node, ast);
+    const renderNode = fn || classNode;
+    return renderNode && !this.containsNode(node, renderNode) ? renderNode : node;
+  }
+
+  /**
+   * 解析範囲のコンポーネントに属するスタイルを選択
+   * 
+   * ファイル全体を解析範囲とする場合は全てのスタイルを返します。
+   * 定義ノードに範囲を限定する場合は、範囲内で抽出したスタイル（css プロップ・styles.xxx の参照等）と、
+   * 範囲内で名前を参照しているモジュールレベルの定義（const Wrapper = styled.div / StyleSheet.create 等）のみを返します。
+   * 他のコンポーネントの定義ノード内で抽出したスタイルは共有しません。
+   * 
+   * @param origins ファイル全体から抽出したスタイルと抽出元のノード
+   * @param scope 解析範囲（ファイル全体または定義ノード）
+   * @param ast ファイル全体のAST
+   * @param definitionNodes ファイル内の全てのコンポーネントの定義ノード
+   * @returns 解析範囲のコンポーネントに属するスタイル情報の配列
+   */
+  private scopeStyles(origins: StyleOrigin[], scope: any, ast: any, definitionNodes: any[]): any[] {
+    if (scope === ast || origins.length === 0) {
+      return origins.map(origin => origin.style);
+    }
+
+    const referencedNames = new Set<string>();
+    const visit = (node: any) => {
+      if (!node || typeof node !== 'object') return;
+      if ((node.type === 'Identifier' || node.type === 'JSXIdentifier') && node.name) {
+        referencedNames.add(node.name);
+      }
+      for (const key in node) {
+        if (key !== 'parent' && node[key] && typeof node[key] === 'object') {
+          visit(node[key]);
+        }
+      }
+    };
+    visit(scope);
+
+    return origins
+      .filter(({ node, style }) => {
+        if (this.containsNode(scope, node)) return true;
+        if (definitionNodes.some(definitionNode => this.containsNode(definitionNode, node))) return false;
+        return this.moduleBindingNames(ast, node, style).some(name => referencedNames.has(name));
+      })
+      .map(origin => origin.style);
+  }
+
+  /**
+   * スタイルの抽出元を含むモジュールレベルの定義の名前を取得
+   * 
+   * 変数宣言は抽出元を含む宣言子の変数名、関数・クラス宣言はその名前、
+   * インポート（vanilla-extract の .css.ts 等）はスタイルに対応する指定子のローカル名を返します。
+   * 
+   * @param ast ファイル全体のAST
+   * @param node スタイルの抽出元のノード
+   * @param style 抽出されたスタイル情報
+   * @returns 定義の名前の配列（名前のない文の場合は空）
+   */
+  private moduleBindingNames(ast: any, node: any, style: any): string[] {
+    const declaration = topLevelDeclarations(ast).find(({ statement }) => this.containsNode(statement, node))?.declaration;
+    switch (declaration?.type) {
+      case 'VariableDeclaration':
+        return declaration.declarations
+          .filter((declarator: any) => declarator.id?.type === 'Identifier' && this.containsNode(declarator, node))
+          .map((declarator: any) => declarator.id.name);
+      case 'FunctionDeclaration':
+      case 'ClassDeclaration':
+        return declaration.id ? [declaration.id.name] : [];
+      case 'ImportDeclaration':
+        return declaration.specifiers
+          .filter((specifier: any) => specifier.type !== 'ImportSpecifier' || specifier.imported?.name === style.name)
+          .map((specifier: any) => specifier.local.name);
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * ノードが別のノードの範囲内にあるかを判定
+   * @param outer 外側のノード
+   * @param inner 判定対象のノード
+   * @returns inner が outer 自身または outer の範囲内にある場合true
+   */
+  private containsNode(outer: any, inner: any): boolean {
+    if (outer === inner) return true;
+    if (!outer?.range || !inner?.range) return false;
+    return outer.range[0] <= inner.range[0] && inner.range[1] <= outer.range[1];
+  }
+
+  /**
+   * CSS宣言からスタイル情報の共通項目を構築
+   * 
+   * CSS Modules・CSS-in-JSのクラス・スタイル毎のCSS宣言から、トップレベルの宣言の
+   * オブジェクトと、レスポンシブ・ダークモード・アニメーションの有無を求めます。
+   * 
+   * @param declarations クラス・スタイル名毎のCSS宣言
+   * @param allDeclarations 判定対象の全てのCSS宣言（プロップ条件付きのスタイルを含む）
+   * @returns styles（セレクタ・メディアクエリ付きの宣言を除く）・responsive・darkMode・animations
+   */
+  private summarizeDeclarations(
+    declarations: Record<string, StyleDeclaration[]>,
+    allDeclarations: StyleDeclaration[]
+  ): Pick<StyleInfo, 'styles' | 'responsive' | 'darkMode' | 'animations'> {
+    return {
+      styles: Object.fromEntries(Object.entries(declarations).map(([styleName, styleDeclarations]) => [
+        styleName,
+        Object.fromEntries(styleDeclarations.filter(declaration => !declaration.selector).map(declaration => [declaration.property, declaration.value]))
+      ])),
+      responsive: allDeclarations.some(declaration => declaration.selector?.includes('@media')),
+      darkMode: allDeclarations.some(declaration => /prefers-color-scheme:\s*dark|\.dark\b/.test(declaration.selector || '')),
+      animations: Array.from(new Set(allDeclarations
+        .filter(declaration => ['animation', 'animation-name'].includes(declaration.property))
+        .map(declaration => declaration.value.split(/\s+/)[0])))
+    };
+  }
+
   /**
    * レスポンシブクラスの検出
    * 
@@ -265,8 +660,10 @@ export class TailwindExtractor {
    * 
    * 優先順位:
    * 1. React Native StyleSheet (React Nativeプラットフォーム時)
-   * 2. Tailwind CSS classes (Webプラットフォーム時) 
-   * 3. デフォルト空スタイル
+   * 2. CSS Modules (スタイルシートを解決できたクラス参照がある場合)
+   * 3. CSS-in-JS (styled-components / Emotion / Stitches / vanilla-extract の解析済みCSS宣言がある場合。種別は設定のスタイルシステム)
+   * 4. Tailwind CSS classes (Webプラットフォーム時) 
+   * 5. デフォルト空スタイル
    * 
    * @param extractedStyles プラットフォーム固有エクストラクターで抽出されたスタイル
    * @param tailwindClasses TailwindClassExtractorで抽出されたクラス
@@ -275,7 +672,7 @@ export class TailwindExtractor {
   private buildStyleInfo(extractedStyles: any[], tailwindClasses: string[]): StyleInfo {
     // React Native StyleSheetスタイルの検出と処理
     const hasStyleSheet = extractedStyles.some(style => 
-      style.type === 'stylesheet' || style.source?.includes('StyleSheet')
+      (style.type === 'stylesheet' && !style.declarations) || style.source?.includes('StyleSheet')
     );
     
     if (hasStyleSheet) {
@@ -299,6 +696,55 @@ export class TailwindExtractor {
       };
     }
     
+    // CSS Modulesの処理（参照クラス毎にスタイルシートのCSS宣言を対応付け）
+    const cssModuleStyles = extractedStyles.filter(style =>
+      style.type === 'className' && /\.module\.s?css$/.test(style.source || '')
+    );
+    if (cssModuleStyles.length > 0) {
+      const declarations: Record<string, StyleDeclaration[]> = {};
+      cssModuleStyles
+        .filter(style => style.declarations)
+        .forEach(style => { declarations[style.value] = style.declarations; });
+
+      return {
+        type: 'css-modules',
+        classes: Array.from(new Set<string>(cssModuleStyles.map(style => style.value))).sort(),
+        tailwindClasses: tailwindClasses.sort(),
+        ...this.summarizeDeclarations(declarations, Object.values(declarations).flat()),
+        declarations,
+        missingClasses: Array.from(new Set<string>(cssModuleStyles.filter(style => style.missing).map(style => style.value))).sort(),
+        imports: Array.from(new Set<string>(cssModuleStyles.flatMap(style => style.imports || [])))
+      };
+    }
+    
+    // CSS-in-JSの処理（スタイル名毎にCSS宣言・プロップ条件付きのスタイルを対応付け）
+    const cssInJSStyles = extractedStyles.filter(style => style.declarations);
+    if (cssInJSStyles.length > 0) {
+      const declarations: Record<string, StyleDeclaration[]> = {};
+      const variants: NonNullable<StyleInfo['variants']> = {};
+      cssInJSStyles.forEach((style, index) => {
+        // 変数に代入していないスタイル（css プロップ等）は種類と出現順で命名
+        const baseName = style.name || style.source || style.type;
+        const styleName = declarations[baseName] ? `${baseName}-${index}` : baseName;
+        declarations[styleName] = style.declarations;
+        if (style.variants) {
+          variants[styleName] = style.variants;
+        }
+      });
+      const variantDeclarations = Object.values(variants)
+        .flatMap(styleVariants => Object.values(styleVariants))
+        .flatMap(options => Object.values(options).flat());
+
+      return {
+        type: this.cssInJSType,
+        tailwindClasses: tailwindClasses.sort(),
+        ...this.summarizeDeclarations(declarations, [...Object.values(declarations).flat(), ...variantDeclarations]),
+        declarations,
+        variants: Object.keys(variants).length > 0 ? variants : undefined,
+        imports: Array.from(new Set<string>(cssInJSStyles.flatMap(style => style.imports || [])))
+      };
+    }
+    
     // Tailwind CSSクラスの処理（Webプラットフォーム）
     if (tailwindClasses.length > 0) {
       return {
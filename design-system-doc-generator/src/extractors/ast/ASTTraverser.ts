@@ -2,23 +2,46 @@ import { ASTNode, TraversalCallbacks } from '../../types';
 
 export class ASTTraverser {
   private inComponentBody = false;
+  private bindings = new Map<string, ASTNode>();  // 走査済みの変数宣言（条件付きクラスの参照解決用）
 
   traverse(ast: ASTNode, callbacks: TraversalCallbacks): void {
+    this.bindings = new Map();
     this.visit(ast, callbacks);
   }
 
   private visit(node: any, callbacks: TraversalCallbacks, parent?: any): void {
     if (!node || typeof node !== 'object') return;
 
+    // Track variable declarations（const sizes = { sm: 'px-2' }[size] のような参照を解決するため）
+    if (node.type === 'VariableDeclarator' && node.id?.type === 'Identifier' && node.init) {
+      this.bindings.set(node.id.name, node.init);
+    }
+
     // Extract className props
     if (node.type === 'JSXAttribute' && node.name?.name === 'className') {
       if (node.value && callbacks.onClassName) {
-        callbacks.onClassName(node.value);
+        callbacks.onClassName(node.value, this.bindings);
       }
     }
 
+    // Extract JSX elements（<Button size="sm" /> のような呼び出し箇所）
+    if (node.type === 'JSXElement' && callbacks.onJSXElement) {
+      callbacks.onJSXElement(node);
+    }
+
+    // Extract hook calls（useState()、React.useEffect()、useDisclosure() 等）
+    if (node.type === 'CallExpression' && callbacks.onHookCall && this.isHookCall(node)) {
+      callbacks.onHookCall(node, parent);
+    }
+
+    // Extract switch statements（switch (variant) { case 'danger': return 'bg-red-500'; }）
+    if (node.type === 'SwitchStatement' && callbacks.onSwitch) {
+      callbacks.onSwitch(node);
+    }
+
     // Extract props from function components
-    if (node.type === 'FunctionDeclaration' || node.type === 'ArrowFunctionExpression') {
+    // memo(function Card(...)) のような関数式もforwardRef/memoの描画関数として扱う
+    if (this.isFunction(node)) {
       if (callbacks.onProp) {
         this.extractPropsFromFunction(node, callbacks.onProp);
       }
@@ -48,11 +71,22 @@ export class ASTTraverser {
     }
 
     // Reset component body flag when leaving function
-    if (node.type === 'FunctionDeclaration' || node.type === 'ArrowFunctionExpression') {
+    if (this.isFunction(node)) {
       this.inComponentBody = false;
     }
   }
 
+  private isFunction(node: any): boolean {
+    return node.type === 'FunctionDeclaration' ||
+           node.type === 'FunctionExpression' ||
+           node.type === 'ArrowFunctionExpression';
+  }
+
+  private isHookCall(node: any): boolean {
+    const callee = node.callee?.type === 'MemberExpression' ? node.callee.property : node.callee;
+    return callee?.type === 'Identifier' && /^use[A-Z0-9]/.test(callee.name);
+  }
+
   private extractPropsFromFunction(node: any, onProp: (prop: any) => void): void {
     const params = node.params[0];
     if (params && params.type === 'ObjectPattern') {
@@ -0,0 +1,576 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ASTNode, ClassCondition, EventParameter, ExtractedComponent, JSXElement, PropInfo } from '../../types';
+import { TemplateComponentExtractor } from './TemplateComponentExtractor';
+import { MarkupNode } from './MarkupParser';
+import { topLevelDeclarations } from './TopLevelDeclarations';
+
+// テンプレートの解析結果
+interface AngularTemplateInfo {
+  roots: JSXElement[];
+  classes: Set<string>;
+  conditions: ClassCondition[];
+  contents: string[];  // <ng-content> の select（デフォルトは空文字列）
+  handlers: any[];     // イベントバインディング式のAST（emit の呼び出し検出用）
+}
+
+// Output の宣言
+interface OutputDeclaration {
+  name: string;         // バインディング名（エイリアスがある場合はエイリアス）
+  member: string;       // クラスメンバー名（emit の呼び出し検出用）
+  type: string;         // イベントの値の型
+  docs?: PropInfo['docs'];
+}
+
+// 組み込みの制御フローブロック（@if (...) { ... } 等）
+const CONTROL_FLOW_BLOCK = /@(?:else\s+if|if|else|for|switch|case|default|defer|placeholder|loading|error|empty)\b/y;
+
+/**
+ * AngularComponentExtractor - Angularコンポーネント（@Component）抽出クラス
+ *
+ * このクラスは、@Component デコレーターを付けたクラスから、メタデータ（selector・
+ * template / templateUrl）、Input・Output、テンプレートのクラスバインディングを抽出し、
+ * React向けの抽出結果と同じ ExtractedComponent を構築します。selector はテンプレートでの
+ * 使用タグとして記録し、ドキュメントのコード例の生成に使用します。
+ *
+ * 主な責務:
+ * - @Input() / input() / input.required() / model() からのProps抽出
+ * - @Output() / output() からのイベント抽出（(changed) 形式のProp）と emit() の呼び出しの収集
+ * - class・[class]・[ngClass]・[class.xxx] からのTailwindクラス・条件付きクラスの抽出
+ * - <ng-content> の子要素としての記録（デフォルトは children、select 付きは ng-content:[icon]）
+ * - インラインテンプレートと templateUrl のテンプレートファイルの読み込み
+ *
+ * 対応パターン:
+ * - @Input() size: 'sm' | 'md' = 'md' / @Input({ required: true, alias: 'label' }) text!: string
+ * - size = input<'sm' | 'md'>('md') / label = input.required<string>() / checked = model(false)
+ * - @Output() changed = new EventEmitter<string>() / changed = output<string>()
+ * - [ngClass]="{ 'opacity-50': disabled }" / [class]="sizes[size()]" / [class.bg-blue-600]="checked"
+ * - classes = computed(() => [...]) / get classes() { return ... }（クラスの組み立てをメンバーに分離した記述）
+ *
+ * 制限事項:
+ * - 1ファイルにつき最初の @Component クラスのみを対象とする
+ * - 型の解決は同一ファイル内の型宣言のみ（インポートした型のメンバーは取得しない）
+ * - パイプ（value | async）を含むバインディング式は解析対象外
+ * - 制御フローブロック（@if / @for）は要素構造に含めない（ブロック内の要素は親要素の子として記録）
+ *
+ * 使用例:
+ * const extractor = new AngularComponentExtractor();
+ * const component = extractor.extract('/src/app/button.component.ts', source, '/src');
+ * // => { componentName: 'ButtonComponent', selector: 'app-button', platform: 'angular', props: [...] }
+ *
+ * 他クラスとの関係:
+ * - TemplateComponentExtractor: スクリプトのパース・クラス抽出・抽出結果の組み立てを継承
+ * - AngularPlatformExtractor: ファイルを読み込んでこのクラスを呼び出す
+ * - ComponentDocumentGenerator: selector を使ってAngularテンプレートのコード例を生成
+ */
+export class AngularComponentExtractor extends TemplateComponentExtractor {
+  /**
+   * コンポーネントファイルのソースからコンポーネント情報を抽出
+   *
+   * @param filePath *.component.ts ファイルのパス
+   * @param source ファイルの内容
+   * @param sourceDir ソースディレクトリ（カテゴリ分類用）
+   * @returns 抽出結果（@Component クラスがない場合はnull）
+   */
+  extract(filePath: string, source: string, sourceDir: string): ExtractedComponent | null {
+    const ast = this.parseScript({ content: source, attrs: { lang: 'ts' } });
+    const definition = this.findComponentClass(ast);
+    if (!definition) {
+      return null;
+    }
+
+    const { statement, classNode, metadata, previousEnd } = definition;
+    const selectorNode = this.getProperty(metadata, 'selector');
+    const selector = selectorNode?.type === 'Literal' ? String(selectorNode.value) : undefined;
+    const members = classNode.body.body;
+
+    const inputs = this.extractInputs(ast, classNode.body);
+    const outputs = this.extractOutputs(ast, classNode.body);
+    const signalNames = new Set<string>(members
+      .filter((member: any) => member.type === 'PropertyDefinition' && member.value?.type === 'CallExpression')
+      .map((member: any) => this.getKeyName(member.key)));
+    const bindings = this.collectMemberBindings(members, signalNames);
+    const template = this.parseTemplate(this.readTemplate(filePath, metadata), bindings, signalNames);
+
+    const props = [
+      ...inputs,
+      ...this.outputsToProps(outputs, [classNode, ...template.handlers]),
+      ...this.contentsToProps(template.contents),
+    ];
+
+    const start = Math.min(statement.range[0], ...(classNode.decorators || []).map((decorator: any) => decorator.range[0]));
+    const component = this.buildComponent({
+      filePath,
+      source,
+      sourceDir,
+      componentName: classNode.id?.name || this.componentNameFromFile(filePath, '.ts'),
+      platform: 'angular',
+      props,
+      classes: template.classes,
+      conditions: template.conditions,
+      roots: template.roots,
+      fragmentType: 'ng-container',
+      scriptAsts: [ast],
+      docs: this.findLeadingDoc(ast, { range: [start] }, previousEnd),
+    });
+    return selector ? { ...component, selector } : component;
+  }
+
+  /**
+   * @Component デコレーターを付けたクラスを検索
+   *
+   * @param ast ファイルのAST
+   * @returns クラス宣言の文・クラスノード・メタデータ・直前の文の終端（ない場合はnull）
+   */
+  private findComponentClass(ast: any): { statement: any; classNode: any; metadata: any; previousEnd: number } | null {
+    let previousEnd = 0;
+    for (const { statement, declaration: classNode } of topLevelDeclarations(ast)) {
+      const decorator = classNode?.type === 'ClassDeclaration' && (classNode.decorators || []).find((candidate: any) =>
+        candidate.expression.type === 'CallExpression' && candidate.expression.callee.name === 'Component'
+      );
+      if (decorator) {
+        return { statement, classNode, metadata: decorator.expression.arguments[0], previousEnd };
+      }
+      previousEnd = statement.range[1];
+    }
+    return null;
+  }
+
+  /**
+   * インラインテンプレート、または templateUrl のファイルを読み込み
+   *
+   * @param filePath コンポーネントファイルのパス
+   * @param metadata @Component の引数
+   * @returns テンプレートの文字列（ない場合は空文字列）
+   */
+  private readTemplate(filePath: string, metadata: any): string {
+    const template = this.getProperty(metadata, 'template');
+    if (template?.type === 'Literal' && typeof template.value === 'string') {
+      return template.value;
+    }
+    if (template?.type === 'TemplateLiteral') {
+      return template.quasis.map((quasi: any) => quasi.value.cooked ?? quasi.value.raw).join('');
+    }
+
+    const templateUrl = this.getProperty(metadata, 'templateUrl');
+    if (templateUrl?.type === 'Literal' && typeof templateUrl.value === 'string') {
+      const templatePath = path.resolve(path.dirname(filePath), templateUrl.value);
+      if (fs.existsSync(templatePath)) {
+        return fs.readFileSync(templatePath, 'utf-8');
+      }
+      console.warn(`Template file not found: ${templatePath}`);
+    }
+    return '';
+  }
+
+  /**
+   * Inputを抽出
+   *
+   * @param ast ファイルのAST（型宣言・ドキュメントコメントの参照用）
+   * @param body クラス本体
+   * @returns Props情報（宣言順。model() は双方向バインディングのInputとして含める）
+   */
+  private extractInputs(ast: any, body: any): PropInfo[] {
+    const props: PropInfo[] = [];
+    let previousEnd = body.range[0];
+
+    body.body.forEach((member: any) => {
+      const doc = this.findLeadingDoc(ast, member, previousEnd);
+      previousEnd = member.range[1];
+      const name = this.getKeyName(member.key);
+
+      // @Input() size: Size = 'md' / @Input({ required: true, alias: 'label' }) text!: string / @Input() set value(v: string)
+      const decorator = this.findDecorator(member, 'Input');
+      if (decorator) {
+        const options = decorator.arguments[0];
+        const alias = options?.type === 'Literal' ? options.value : this.getLiteralProperty(options, 'alias');
+        const required = this.getProperty(options, 'required');
+        const isSetter = member.type === 'MethodDefinition' && member.kind === 'set';
+        const typeAnnotation = isSetter ? member.value.params[0]?.typeAnnotation : member.typeAnnotation;
+        const init = isSetter ? null : member.value;
+
+        props.push({
+          name: alias || name,
+          type: typeAnnotation
+            ? this.eventExtractor.typeToString(typeAnnotation.typeAnnotation)
+            : init ? this.inferLiteralType(init) : 'any',
+          required: required?.type === 'Literal' && required.value === true,
+          ...(init && { defaultValue: this.describeDefault(init) }),
+          ...(doc && { docs: doc }),
+        });
+        return;
+      }
+
+      // size = input<Size>('md') / label = input.required<string>() / checked = model(false)
+      const signal = this.getSignalCall(member.value);
+      if (member.type === 'PropertyDefinition' && signal && (signal.kind === 'input' || signal.kind === 'model')) {
+        const call = member.value;
+        const typeArgument = this.getTypeArgument(call);
+        const init = signal.required ? null : call.arguments[0];
+        const options = signal.required ? call.arguments[0] : call.arguments[1];
+        const modelDoc = signal.kind === 'model'
+          ? { ...doc, description: [doc?.description, `[(${name})] で双方向バインディング可能`].filter(Boolean).join('\n') }
+          : doc;
+
+        props.push({
+          name: this.getLiteralProperty(options, 'alias') || name,
+          type: typeArgument ? this.eventExtractor.typeToString(typeArgument) : init ? this.inferLiteralType(init) : 'any',
+          required: signal.required,
+          ...(init && { defaultValue: this.describeDefault(init) }),
+          ...(modelDoc && { docs: modelDoc }),
+        });
+      }
+    });
+
+    return props;
+  }
+
+  /**
+   * Outputを抽出
+   *
+   * @param ast ファイルのAST（ドキュメントコメントの参照用）
+   * @param body クラス本体
+   * @returns Output の宣言（宣言順。model() は「名前 + Change」のOutputを含める）
+   */
+  private extractOutputs(ast: any, body: any): OutputDeclaration[] {
+    const outputs: OutputDeclaration[] = [];
+    let previousEnd = body.range[0];
+
+    body.body.forEach((member: any) => {
+      const doc = this.findLeadingDoc(ast, member, previousEnd);
+      previousEnd = member.range[1];
+      if (member.type !== 'PropertyDefinition') return;
+      const name = this.getKeyName(member.key);
+
+      // @Output() changed = new EventEmitter<string>()
+      const decorator = this.findDecorator(member, 'Output');
+      if (decorator) {
+        const alias = decorator.arguments[0]?.type === 'Literal' ? decorator.arguments[0].value : null;
+        const typeArgument = member.value?.type === 'NewExpression' ? this.getTypeArgument(member.value) : null;
+        outputs.push({
+          name: alias || name,
+          member: name,
+          type: typeArgument ? this.eventExtractor.typeToString(typeArgument) : 'void',
+          ...(doc && { docs: doc }),
+        });
+        return;
+      }
+
+      // changed = output<string>() / checked = model(false) → checkedChange
+      const signal = this.getSignalCall(member.value);
+      if (signal?.kind === 'output') {
+        const typeArgument = this.getTypeArgument(member.value);
+        outputs.push({
+          name: this.getLiteralProperty(member.value.arguments[0], 'alias') || name,
+          member: name,
+          type: typeArgument ? this.eventExtractor.typeToString(typeArgument) : 'void',
+          ...(doc && { docs: doc }),
+        });
+      } else if (signal?.kind === 'model') {
+        const typeArgument = this.getTypeArgument(member.value);
+        const init = signal.required ? null : member.value.arguments[0];
+        outputs.push({
+          name: `${name}Change`,
+          member: name,
+          type: typeArgument ? this.eventExtractor.typeToString(typeArgument) : init ? this.inferLiteralType(init) : 'any',
+        });
+      }
+    });
+
+    return outputs;
+  }
+
+  /**
+   * Outputをイベントのプロパティとして表現
+   *
+   * @param outputs Output の宣言
+   * @param roots emit() の呼び出しを検索するノード（クラス本体・テンプレートのイベントバインディング）
+   * @returns (changed) 形式のProp情報
+   */
+  private outputsToProps(outputs: OutputDeclaration[], roots: any[]): PropInfo[] {
+    // this.changed.emit(value) / changed.emit(value)（テンプレート内）
+    const invocations = new Map<string, string[][]>();
+    roots.forEach(root => this.walk(root, (node: any) => {
+      const callee = node.type === 'CallExpression' ? node.callee : null;
+      if (callee?.type !== 'MemberExpression' || callee.computed || callee.property.name !== 'emit') return;
+      const target = callee.object.type === 'MemberExpression' && callee.object.object.type === 'ThisExpression'
+        ? callee.object.property.name
+        : callee.object.type === 'Identifier' ? callee.object.name : null;
+      if (!target) return;
+      if (!invocations.has(target)) invocations.set(target, []);
+      invocations.get(target)!.push(node.arguments.map((arg: any) => this.eventExtractor.describeExpression(arg)));
+    }));
+
+    return outputs.map(output => {
+      const parameters: EventParameter[] = output.type === 'void' ? [] : [{ name: '$event', type: output.type, optional: false }];
+      return {
+        name: `(${output.name})`,
+        type: `(${parameters.map(param => `${param.name}: ${param.type}`).join(', ')}) => void`,
+        required: false,
+        ...(output.docs && { docs: output.docs }),
+        event: {
+          parameters,
+          returnType: 'void',
+          invocations: invocations.get(output.member) || [],
+          forwardedTo: [],
+        },
+      };
+    });
+  }
+
+  /**
+   * コンテンツ投影（<ng-content>）を子要素のPropとして表現
+   *
+   * @param contents <ng-content> の select
+   * @returns デフォルトは children、select 付きは ng-content:[icon] のProp情報
+   */
+  private contentsToProps(contents: string[]): PropInfo[] {
+    return contents.map(select => ({
+      name: select ? `ng-content:${select}` : 'children',
+      type: 'Slot',
+      required: false,
+      docs: { description: select ? `コンテンツ投影（select="${select}"）` : 'デフォルトのコンテンツ投影' },
+    }));
+  }
+
+  /**
+   * クラスメンバーの初期化式・getter を、テンプレートのバインディング解決用に収集
+   *
+   * @param members クラスのメンバー
+   * @param signalNames シグナル（input() / computed() 等）のメンバー名
+   * @returns メンバー名 → 値の式（computed() は関数の戻り値、getter は return の式）
+   */
+  private collectMemberBindings(members: any[], signalNames: Set<string>): Map<string, ASTNode> {
+    const bindings = new Map<string, ASTNode>();
+    members.forEach((member: any) => {
+      let value: any = null;
+      if (member.type === 'PropertyDefinition' && member.value) {
+        value = member.value;
+        // computed(() => [...]) → [...]
+        if (value.type === 'CallExpression' && value.callee.name === 'computed' && /Function/.test(value.arguments[0]?.type)) {
+          value = value.arguments[0];
+        }
+      } else if (member.type === 'MethodDefinition' && member.kind === 'get') {
+        value = member.value;
+      }
+
+      if (value && /Function/.test(value.type)) {
+        const body = value.body.type === 'BlockStatement'
+          ? value.body.body.find((statement: any) => statement.type === 'ReturnStatement')?.argument
+          : value.body;
+        value = body ?? null;
+      }
+      if (value) {
+        bindings.set(this.getKeyName(member.key), this.normalizeMemberReads(value, signalNames));
+      }
+    });
+    return bindings;
+  }
+
+  /**
+   * テンプレートを要素ツリーに変換し、クラス・コンテンツ投影・イベントバインディングを収集
+   *
+   * @param template テンプレートの文字列
+   * @param bindings クラスメンバーの値
+   * @param signalNames シグナルのメンバー名
+   * @returns 要素ツリーと収集結果
+   */
+  private parseTemplate(template: string, bindings: Map<string, ASTNode>, signalNames: Set<string>): AngularTemplateInfo {
+    const info: AngularTemplateInfo = { roots: [], classes: new Set(), conditions: [], contents: [], handlers: [] };
+    const nodes = this.markupParser.parse(this.stripControlFlow(template));
+    info.roots = this.toElements(nodes, node => this.createElement(node, info, bindings, signalNames));
+    return info;
+  }
+
+  /**
+   * 制御フローブロックの構文（@if (cond) { と対応する }）を取り除く
+   *
+   * ブロック内の要素をマークアップとして解析できるように、ブロックの開始と終了の
+   * 波括弧だけを除きます。{{ }} の補間や [ngClass]="{ ... }" の波括弧はそのまま残します。
+   *
+   * @param template テンプレートの文字列
+   * @returns 制御フローブロックの構文を除いたテンプレート
+   */
+  private stripControlFlow(template: string): string {
+    const braces: boolean[] = [];  // 開いている波括弧が制御フローブロックのものか
+    let result = '';
+    let index = 0;
+
+    while (index < template.length) {
+      CONTROL_FLOW_BLOCK.lastIndex = index;
+      const block = template[index] === '@' ? CONTROL_FLOW_BLOCK.exec(template) : null;
+      if (block) {
+        // @for (item of items(); track item.id) のように括弧の中に括弧を含む条件を読み飛ばす
+        let end = index + block[0].length;
+        while (/\s/.test(template[end] || '')) end++;
+        if (template[end] === '(') {
+          let depth = 0;
+          for (; end < template.length; end++) {
+            if (template[end] === '(') depth++;
+            if (template[end] === ')' && --depth === 0) break;
+          }
+          end++;
+        }
+        while (/\s/.test(template[end] || '')) end++;
+        if (template[end] === '{') {
+          braces.push(true);
+          result += ' ';
+          index = end + 1;
+          continue;
+        }
+      }
+
+      const char = template[index];
+      if (char === '{') {
+        braces.push(false);
+      } else if (char === '}' && braces.pop()) {
+        result += ' ';
+        index++;
+        continue;
+      }
+      result += char;
+      index++;
+    }
+
+    return result;
+  }
+
+  /**
+   * テンプレートの要素を JSXElement に変換
+   *
+   * @param node マークアップの要素
+   * @param info 収集結果（参照渡し）
+   * @param bindings クラスメンバーの値
+   * @param signalNames シグナルのメンバー名
+   * @returns 要素（className には静的な class 属性の値を保持）
+   */
+  private createElement(node: MarkupNode, info: AngularTemplateInfo, bindings: Map<string, ASTNode>, signalNames: Set<string>): JSXElement {
+    const element: JSXElement = { type: node.tag, props: {} };
+    const elementClasses = new Set<string>();
+    const addBound = (expression: any) => {
+      if (!expression) return;
+      const bound = this.extractBoundClasses(this.normalizeMemberReads(expression, signalNames), bindings);
+      bound.classes.forEach(cls => elementClasses.add(cls));
+      info.conditions.push(...bound.conditions);
+    };
+
+    node.attributes.forEach(({ name, value }) => {
+      if (name === 'class' && value) {
+        element.className = value;
+        this.tailwindExtractor.extractClasses({ type: 'Literal', value }).forEach(cls => elementClasses.add(cls));
+        return;
+      }
+
+      // [class]="classes()" / [ngClass]="{ 'opacity-50': disabled }"
+      if ((name === '[class]' || name === '[ngClass]') && value) {
+        addBound(this.parseExpression(value));
+        return;
+      }
+
+      // [class.bg-blue-600]="checked"
+      const classBinding = /^\[class\.(.+)\]$/.exec(name);
+      if (classBinding && value) {
+        const condition = this.parseExpression(value);
+        if (condition) {
+          addBound({ type: 'LogicalExpression', operator: '&&', left: condition, right: { type: 'Literal', value: classBinding[1] } });
+        }
+        return;
+      }
+
+      // (click)="changed.emit($event)"
+      if (/^\(.+\)$/.test(name) && value) {
+        const handler = this.parseStatements(value);
+        if (handler) info.handlers.push(handler);
+      }
+      element.props[name] = value ?? true;
+    });
+
+    if (elementClasses.size > 0) {
+      element.tailwindClasses = Array.from(elementClasses).sort();
+      elementClasses.forEach(cls => info.classes.add(cls));
+    }
+
+    // <ng-content select="[icon]" />
+    if (node.tag === 'ng-content') {
+      const select = node.attributes.find(attribute => attribute.name === 'select')?.value || '';
+      if (!info.contents.includes(select)) info.contents.push(select);
+    }
+
+    return element;
+  }
+
+  /**
+   * メンバー・シグナルの読み取りを識別子に置き換え
+   *
+   * テンプレートの size()・クラス内の this.size() を size として扱い、
+   * 条件付きクラスの判定（Prop名の特定）とルックアップテーブルの解決ができるようにします。
+   *
+   * @param node 式ノード
+   * @param signalNames シグナルのメンバー名
+   * @returns 置き換えた式（元のノードは変更しない）
+   */
+  private normalizeMemberReads(node: any, signalNames: Set<string>): any {
+    if (!node || typeof node !== 'object') return node;
+    if (Array.isArray(node)) return node.map(child => this.normalizeMemberReads(child, signalNames));
+
+    // this.size → size
+    if (node.type === 'MemberExpression' && !node.computed && node.object.type === 'ThisExpression') {
+      return this.normalizeMemberReads({ type: 'Identifier', name: node.property.name }, signalNames);
+    }
+    const copy: any = {};
+    Object.keys(node).forEach(key => {
+      copy[key] = key === 'parent' || key === 'range' || key === 'loc' ? node[key] : this.normalizeMemberReads(node[key], signalNames);
+    });
+    // size() → size
+    if (copy.type === 'CallExpression' && copy.arguments.length === 0 &&
+        copy.callee.type === 'Identifier' && signalNames.has(copy.callee.name)) {
+      return copy.callee;
+    }
+    return copy;
+  }
+
+  /**
+   * メンバーに付けられたデコレーターの呼び出しを取得
+   *
+   * @param member クラスのメンバー
+   * @param name デコレーター名（Input / Output）
+   * @returns デコレーターの呼び出し式（ない場合はnull）
+   */
+  private findDecorator(member: any, name: string): any | null {
+    const decorator = (member.decorators || []).find((candidate: any) =>
+      candidate.expression.type === 'CallExpression' && candidate.expression.callee.name === name
+    );
+    return decorator?.expression ?? null;
+  }
+
+  /**
+   * シグナルAPI（input / model / output）の呼び出しを判定
+   *
+   * @param node メンバーの初期化式
+   * @returns 種別と必須かどうか（input.required() 等）。該当しない場合はnull
+   */
+  private getSignalCall(node: any): { kind: string; required: boolean } | null {
+    if (node?.type !== 'CallExpression') return null;
+    const callee = node.callee;
+    if (callee.type === 'Identifier' && ['input', 'model', 'output'].includes(callee.name)) {
+      return { kind: callee.name, required: false };
+    }
+    if (callee.type === 'MemberExpression' && !callee.computed && callee.property.name === 'required' &&
+        callee.object.type === 'Identifier' && ['input', 'model'].includes(callee.object.name)) {
+      return { kind: callee.object.name, required: true };
+    }
+    return null;
+  }
+
+  /**
+   * オプションのオブジェクトから文字列リテラルの値を取得
+   *
+   * @param object オプションのオブジェクト式（{ alias: 'label' }）
+   * @param key キー名
+   * @returns 文字列の値（ない場合はnull）
+   */
+  private getLiteralProperty(object: any, key: string): string | null {
+    const value = this.getProperty(object, key);
+    return value?.type === 'Literal' && typeof value.value === 'string' ? value.value : null;
+  }
+}
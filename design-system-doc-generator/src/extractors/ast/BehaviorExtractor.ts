@@ -0,0 +1,345 @@
+import { ASTNode, ComponentBehavior, EffectUsage, LocalState } from '../../types';
+import { topLevelDeclarations } from './TopLevelDeclarations';
+
+// React組み込みのフック（これ以外の useX はカスタムフックとして扱う）
+const REACT_HOOKS = new Set([
+  'useState', 'useReducer', 'useContext', 'useEffect', 'useLayoutEffect', 'useInsertionEffect',
+  'useMemo', 'useCallback', 'useRef', 'useImperativeHandle', 'useId', 'useTransition',
+  'useDeferredValue', 'useSyncExternalStore', 'useDebugValue', 'useOptimistic', 'useActionState',
+]);
+
+const EFFECT_HOOKS = new Set(['useEffect', 'useLayoutEffect', 'useInsertionEffect']);
+
+// 同一ファイル内で定義されたカスタムフック
+export interface CustomHookDefinition {
+  range: [number, number];  // 定義ノードの範囲（コンポーネントの走査から除外するため）
+  contexts: string[];       // フック内で参照しているコンテキスト
+}
+
+// 走査中に見つかったフック呼び出し
+export interface HookCall {
+  node: ASTNode;     // CallExpressionノード
+  parent?: ASTNode;  // 親ノード（const [open, setOpen] = useState() の宣言子等）
+}
+
+/**
+ * BehaviorExtractor - コンポーネントの振る舞い抽出クラス
+ *
+ * このクラスは、関数コンポーネント内のフック呼び出しとJSXから、
+ * スタイルやPropsでは表現されない振る舞い（内部状態・コンテキスト・副作用）を抽出します。
+ * 「Tabs は TabsProvider の内側に置く必要がある」「Dropdown は開閉状態を自身で管理する」
+ * といった情報をドキュメント・LLMに伝えるために使用されます。
+ *
+ * 主な責務:
+ * - フック呼び出しの収集（React組み込み・カスタムフックの区別）
+ * - useState / useReducer による内部状態の抽出（変数名・更新関数・初期値）
+ * - useContext によるコンテキストの参照、<XContext.Provider> による提供の検出
+ * - useEffect / useLayoutEffect の依存配列とクリーンアップの有無の抽出
+ * - 同一ファイル内のカスタムフック（useTabsContext 等）が参照するコンテキストの解決
+ *
+ * 対応パターン:
+ * - const [open, setOpen] = useState(false) / React.useState(false)
+ * - const [state, dispatch] = useReducer(reducer, initialState)
+ * - const tabs = useContext(TabsContext)
+ * - function useTabsContext() { return useContext(TabsContext); } を経由した参照
+ * - <TabsContext.Provider value={...}> / <TabsContext value={...}>（React 19）
+ * - useEffect(() => { ...; return () => cleanup(); }, [open])
+ *
+ * 制限事項:
+ * - 他ファイルで定義されたカスタムフックの内部（参照しているコンテキスト等）は解析しない
+ * - 初期値はリテラル・識別子の場合のみ記録
+ *
+ * 使用例:
+ * const customHooks = extractor.collectCustomHooks(ast);
+ * const behavior = extractor.buildBehavior(hookCalls, providerElements, customHooks);
+ * // => { hooks: [{ name: 'useState', custom: false }], state: [{ name: 'open', setter: 'setOpen', hook: 'useState', initialValue: 'false' }], ... }
+ *
+ * 他クラスとの関係:
+ * - ASTTraverser: フック呼び出し（onHookCall）とJSX要素（onJSXElement）の検出
+ * - TailwindExtractor: コンポーネント毎の走査結果から振る舞いを構築
+ * - ComponentDocumentGenerator: 参照しているコンテキストの提供元コンポーネントを算出
+ */
+export class BehaviorExtractor {
+  /**
+   * ファイル内で定義されたカスタムフックを収集
+   *
+   * トップレベルの function useX() / const useX = () => {} を対象とし、
+   * フック内で参照しているコンテキスト（他のカスタムフック経由を含む）を解決します。
+   *
+   * @param ast ファイルのAST
+   * @returns フック名 → 定義
+   */
+  collectCustomHooks(ast: ASTNode): Map<string, CustomHookDefinition> {
+    const definitions = new Map<string, { node: ASTNode; calls: ASTNode[] }>();
+
+    for (const { declaration } of topLevelDeclarations(ast)) {
+      if (!declaration) continue;
+
+      if (declaration.type === 'FunctionDeclaration' && this.isHookName(declaration.id?.name)) {
+        definitions.set(declaration.id.name, { node: declaration, calls: this.findHookCalls(declaration.body) });
+      }
+      if (declaration.type === 'VariableDeclaration') {
+        declaration.declarations
+          .filter((d: any) => d.id?.type === 'Identifier' && this.isHookName(d.id.name) && this.isFunction(d.init))
+          .forEach((d: any) => definitions.set(d.id.name, { node: d, calls: this.findHookCalls(d.init.body) }));
+      }
+    }
+
+    // カスタムフックから呼び出している別のカスタムフックのコンテキストも辿る
+    const resolveContexts = (name: string, visited: Set<string>): string[] => {
+      const definition = definitions.get(name);
+      if (!definition || visited.has(name)) return [];
+      visited.add(name);
+
+      return definition.calls.flatMap(call => {
+        const hookName = this.getHookName(call);
+        if (hookName === 'useContext') {
+          const context = this.getExpressionName(call.arguments[0]);
+          return context ? [context] : [];
+        }
+        return resolveContexts(hookName, visited);
+      });
+    };
+
+    const hooks = new Map<string, CustomHookDefinition>();
+    definitions.forEach((definition, name) => {
+      hooks.set(name, {
+        range: definition.node.range,
+        contexts: Array.from(new Set(resolveContexts(name, new Set()))),
+      });
+    });
+    return hooks;
+  }
+
+  /**
+   * フック呼び出しとJSX要素から振る舞いを構築
+   *
+   * @param hookCalls コンポーネントの走査で見つかったフック呼び出し
+   * @param elements コンポーネントの走査で見つかったJSX要素
+   * @param customHooks ファイル内のカスタムフック（定義内の呼び出しは除外）
+   * @returns 振る舞い（フック呼び出しもコンテキストの提供もない場合はundefined）
+   */
+  buildBehavior(
+    hookCalls: HookCall[],
+    elements: ASTNode[],
+    customHooks: Map<string, CustomHookDefinition>
+  ): ComponentBehavior | undefined {
+    const hooks = new Map<string, boolean>();    // フック名 → カスタムフックかどうか
+    const state: LocalState[] = [];
+    const consumedContexts = new Set<string>();
+    const effects: EffectUsage[] = [];
+
+    const ownCalls = hookCalls.filter(call => !this.isWithinCustomHook(call.node, customHooks));
+    for (const { node, parent } of ownCalls) {
+      const name = this.getHookName(node);
+      hooks.set(name, !REACT_HOOKS.has(name));
+
+      if (name === 'useState' || name === 'useReducer') {
+        const localState = this.extractState(name, node, parent);
+        if (localState) state.push(localState);
+      } else if (name === 'useContext') {
+        const context = this.getExpressionName(node.arguments[0]);
+        if (context) consumedContexts.add(context);
+      } else if (EFFECT_HOOKS.has(name)) {
+        effects.push(this.extractEffect(name, node));
+      } else {
+        customHooks.get(name)?.contexts.forEach(context => consumedContexts.add(context));
+      }
+    }
+
+    const providedContexts = Array.from(new Set(
+      elements.map(element => this.getProvidedContext(element)).filter((context): context is string => !!context)
+    ));
+
+    if (hooks.size === 0 && providedContexts.length === 0) {
+      return undefined;
+    }
+
+    return {
+      hooks: Array.from(hooks.entries()).map(([name, custom]) => ({ name, custom })),
+      state,
+      consumedContexts: Array.from(consumedContexts),
+      providedContexts,
+      effects,
+    };
+  }
+
+  /**
+   * useState / useReducer の呼び出しから内部状態を抽出
+   *
+   * @param hook フック名
+   * @param node CallExpressionノード
+   * @param parent 親ノード（VariableDeclarator）
+   * @returns 内部状態（変数に代入していない場合はnull）
+   */
+  private extractState(hook: 'useState' | 'useReducer', node: ASTNode, parent?: ASTNode): LocalState | null {
+    if (parent?.type !== 'VariableDeclarator') return null;
+
+    // const [open, setOpen] = useState(false) / const state = useState(false)
+    const [value, setter] = parent.id.type === 'ArrayPattern' ? parent.id.elements : [parent.id];
+    if (value?.type !== 'Identifier') return null;
+
+    const initialValue = this.getLiteralValue(node.arguments[hook === 'useReducer' ? 1 : 0]);
+    return {
+      name: value.name,
+      ...(setter?.type === 'Identifier' && { setter: setter.name }),
+      hook,
+      ...(initialValue !== undefined && { initialValue }),
+    };
+  }
+
+  /**
+   * useEffect 系の呼び出しから依存配列とクリーンアップの有無を抽出
+   *
+   * @param hook フック名
+   * @param node CallExpressionノード
+   * @returns 副作用の情報
+   */
+  private extractEffect(hook: string, node: ASTNode): EffectUsage {
+    const [callback, deps] = node.arguments;
+    const dependencies = deps?.type === 'ArrayExpression'
+      ? deps.elements.map((element: any) => this.getExpressionName(element)).filter((name: any): name is string => !!name)
+      : null;
+
+    return { hook, dependencies, cleanup: this.returnsCleanup(callback) };
+  }
+
+  /**
+   * 副作用の関数がクリーンアップ関数を返すか判定
+   *
+   * @param callback 副作用の関数ノード
+   * @returns 値を返す return 文（入れ子の関数内を除く）がある場合true
+   */
+  private returnsCleanup(callback: ASTNode | undefined): boolean {
+    if (!this.isFunction(callback)) return false;
+    if (callback!.body.type !== 'BlockStatement') {
+      return this.isFunction(callback!.body);  // useEffect(() => () => unsubscribe())
+    }
+
+    const visit = (node: any): boolean => {
+      if (!node || typeof node !== 'object') return false;
+      if (node.type === 'ReturnStatement') return !!node.argument;
+      if (this.isFunction(node) || node.type === 'FunctionDeclaration') return false;
+      return Object.keys(node).some(key => key !== 'parent' && (
+        Array.isArray(node[key]) ? node[key].some(visit) : typeof node[key] === 'object' && visit(node[key])
+      ));
+    };
+    return callback!.body.body.some(visit);
+  }
+
+  /**
+   * JSX要素が提供しているコンテキストを取得
+   *
+   * @param element JSXElementノード
+   * @returns コンテキスト名（<TabsContext.Provider> / <TabsContext value>。提供していない場合はnull）
+   */
+  private getProvidedContext(element: ASTNode): string | null {
+    const name = element.openingElement?.name;
+    if (name?.type === 'JSXMemberExpression' && name.property.name === 'Provider') {
+      return this.getJSXName(name.object);
+    }
+    // React 19 ではコンテキスト自体をプロバイダーとして描画できる
+    if (name?.type === 'JSXIdentifier' && /Context$/.test(name.name) &&
+        element.openingElement.attributes.some((attribute: any) => attribute.name?.name === 'value')) {
+      return name.name;
+    }
+    return null;
+  }
+
+  /**
+   * 関数本体のフック呼び出しを収集（入れ子の関数も含む）
+   *
+   * @param body 関数本体
+   * @returns フック呼び出しのCallExpressionノード
+   */
+  private findHookCalls(body: ASTNode): ASTNode[] {
+    const calls: ASTNode[] = [];
+    const visit = (node: any) => {
+      if (!node || typeof node !== 'object') return;
+      if (node.type === 'CallExpression' && this.isHookName(this.getHookName(node))) {
+        calls.push(node);
+      }
+      Object.keys(node).forEach(key => {
+        if (key === 'parent') return;
+        if (Array.isArray(node[key])) node[key].forEach(visit);
+        else if (typeof node[key] === 'object') visit(node[key]);
+      });
+    };
+    visit(body);
+    return calls;
+  }
+
+  /**
+   * フック呼び出しがカスタムフックの定義内にあるか判定
+   *
+   * @param node CallExpressionノード
+   * @param customHooks ファイル内のカスタムフック
+   * @returns 定義内の場合true
+   */
+  private isWithinCustomHook(node: ASTNode, customHooks: Map<string, CustomHookDefinition>): boolean {
+    if (!node.range) return false;
+    return Array.from(customHooks.values()).some(hook =>
+      hook.range && node.range[0] >= hook.range[0] && node.range[1] <= hook.range[1]
+    );
+  }
+
+  /**
+   * 呼び出し式のフック名を取得（React.useState は useState）
+   *
+   * @param node CallExpressionノード
+   * @returns フック名
+   */
+  private getHookName(node: ASTNode): string {
+    const callee = node.callee?.type === 'MemberExpression' ? node.callee.property : node.callee;
+    return callee?.type === 'Identifier' ? callee.name : '';
+  }
+
+  /**
+   * 識別子・メンバー式の名前を取得
+   *
+   * @param node 式ノード
+   * @returns 名前（open、props.value、Tabs.Context。それ以外の式はnull）
+   */
+  private getExpressionName(node: ASTNode | undefined): string | null {
+    if (node?.type === 'Identifier') return node.name;
+    if (node?.type === 'MemberExpression' && !node.computed && node.property.type === 'Identifier') {
+      const object = this.getExpressionName(node.object);
+      return object ? `${object}.${node.property.name}` : null;
+    }
+    return null;
+  }
+
+  /**
+   * JSX要素名の文字列表現を取得
+   *
+   * @param node JSXIdentifier / JSXMemberExpression
+   * @returns 要素名（Tabs.Context 等）
+   */
+  private getJSXName(node: ASTNode): string {
+    return node.type === 'JSXMemberExpression'
+      ? `${this.getJSXName(node.object)}.${node.property.name}`
+      : node.name;
+  }
+
+  /**
+   * 初期値のリテラル・識別子を文字列として取得
+   *
+   * @param node 初期値の式ノード
+   * @returns 値の文字列（それ以外の式はundefined）
+   */
+  private getLiteralValue(node: ASTNode | undefined): string | undefined {
+    if (node?.type === 'Literal') return typeof node.value === 'string' ? `'${node.value}'` : String(node.value);
+    if (node?.type === 'Identifier') return node.name;
+    if (node?.type === 'ArrayExpression' && node.elements.length === 0) return '[]';
+    if (node?.type === 'ObjectExpression' && node.properties.length === 0) return '{}';
+    return undefined;
+  }
+
+  private isHookName(name: string | undefined): boolean {
+    return !!name && /^use[A-Z0-9]/.test(name);
+  }
+
+  private isFunction(node: ASTNode | undefined): boolean {
+    return node?.type === 'ArrowFunctionExpression' || node?.type === 'FunctionExpression';
+  }
+}
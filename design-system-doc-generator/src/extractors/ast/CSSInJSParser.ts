@@ -0,0 +1,564 @@
+import { StyleDeclaration } from '../../types';
+
+// Stitchesのトークン（$primary）のスケール（themeMap: CSSプロパティ → テーマのスケール）
+const TOKEN_SCALES: Record<string, string> = {
+  'color': 'colors', 'background-color': 'colors', 'background': 'colors', 'border-color': 'colors',
+  'fill': 'colors', 'stroke': 'colors', 'outline-color': 'colors', 'caret-color': 'colors',
+  'margin': 'space', 'margin-top': 'space', 'margin-right': 'space', 'margin-bottom': 'space', 'margin-left': 'space',
+  'padding': 'space', 'padding-top': 'space', 'padding-right': 'space', 'padding-bottom': 'space', 'padding-left': 'space',
+  'gap': 'space', 'row-gap': 'space', 'column-gap': 'space', 'top': 'space', 'right': 'space', 'bottom': 'space', 'left': 'space',
+  'width': 'sizes', 'height': 'sizes', 'min-width': 'sizes', 'max-width': 'sizes', 'min-height': 'sizes', 'max-height': 'sizes',
+  'font-size': 'fontSizes', 'font-family': 'fonts', 'font-weight': 'fontWeights', 'line-height': 'lineHeights',
+  'letter-spacing': 'letterSpacings', 'border-radius': 'radii', 'box-shadow': 'shadows', 'z-index': 'zIndices',
+  'transition': 'transitions', 'border-width': 'borderWidths', 'border-style': 'borderStyles',
+};
+
+// プロップ条件付きのスタイル（プロップ名 → 値 → CSS宣言）
+type StyleVariants = Record<string, Record<string, StyleDeclaration[]>>;
+
+// ネストしたセレクタ・アットルールをキーに持つ特殊なオブジェクト（vanilla-extract）
+const NESTED_RULE_KEYS = ['selectors', '@media', '@supports', '@container'];
+
+/**
+ * CSSInJSParser - CSS-in-JS（styled-components / Emotion / Stitches / vanilla-extract）のスタイル解析クラス
+ *
+ * このクラスは、タグ付きテンプレート（css`...`）とスタイルオブジェクト（{ color: 'red' }）を
+ * CSS宣言の配列に変換し、値をデザイントークンに対応付けます。ライブラリ固有の呼び出し
+ * （styled / recipe 等）の判定は各StyleExtractorで行い、このクラスは共通の解析を担います。
+ *
+ * 主な責務:
+ * - テンプレートのCSS（ネストしたセレクタ・メディアクエリを含む）の宣言への分解
+ * - プロップを条件とする補間（styled-components / Emotion の styled）の条件毎のスタイルへの分解
+ * - スタイルオブジェクトのネストしたセレクタ・selectors・@media の展開
+ * - プロパティ名の kebab-case への正規化（WebkitX → -webkit-x）
+ * - テーマ参照（theme.colors.primary / vars.color.brand）・Stitchesのトークン（$primary）・
+ *   テーマ定義の値と一致するリテラルのデザイントークンへの対応付け
+ *
+ * トークンの対応付け:
+ * - registerTheme で登録したテーマ定義の値と一致するリテラルはそのトークン
+ * - registerThemeRoot で登録した識別子（theme / vars 等）からのメンバー参照はそのパス
+ * - $ で始まる値はStitchesのトークン（$colors$primary / プロパティのスケールの $primary）
+ *
+ * 制限事項:
+ * - テーマ定義は同一ファイル内（または読み込み済みのファイル）のもののみ参照可能
+ * - 補間（${...}）は式の文字列表現で値に残し、評価は行わない
+ *
+ * 他クラスとの関係:
+ * - StyledComponentsExtractor / EmotionExtractor / StitchesExtractor / VanillaExtractExtractor: スタイルの解析に使用
+ */
+export class CSSInJSParser {
+  private tokenValues = new Map<string, string>();  // テーマ定義の値 → トークンのパス
+  private themeRoots = new Set<string>(['theme']);  // テーマを参照する識別子
+
+  /**
+   * テーマ定義のオブジェクトを登録（値からトークンへの対応付けに使用）
+   *
+   * @param node テーマ定義のオブジェクト（ObjectExpression）
+   * @param prefix トークンのパスの接頭辞
+   */
+  registerTheme(node: any, prefix = ''): void {
+    const object = this.unwrap(node);
+    if (object?.type !== 'ObjectExpression') return;
+
+    object.properties.forEach((property: any) => {
+      const key = this.propertyKey(property);
+      if (key === null) return;
+
+      const tokenPath = prefix ? `${prefix}.${key}` : key;
+      const value = this.unwrap(property.value);
+      if (value?.type === 'ObjectExpression') {
+        this.registerTheme(value, tokenPath);
+      } else if (value?.type === 'Literal' && value.value !== null && !this.tokenValues.has(String(value.value))) {
+        this.tokenValues.set(String(value.value), tokenPath);
+      }
+    });
+  }
+
+  /**
+   * テーマを参照する識別子を登録
+   *
+   * @param name 識別子（createThemeContract の戻り値の変数名等）
+   */
+  registerThemeRoot(name: string): void {
+    this.themeRoots.add(name);
+  }
+
+  /**
+   * テーマを参照する識別子かどうかを判定
+   *
+   * @param name 識別子
+   * @returns 登録済みの場合true
+   */
+  isThemeRoot(name: string): boolean {
+    return this.themeRoots.has(name);
+  }
+
+  /**
+   * タグ付きテンプレートのCSSを宣言に分解
+   *
+   * variants を指定すると、プロップを条件とする補間（${({ primary }) => primary && css`...`} /
+   * color: ${p => p.size === 'sm' ? '12px' : '14px'}）をプロップ名 → 値 → CSS宣言として収集します。
+   *
+   * @param quasi テンプレートリテラル（TemplateLiteral）
+   * @param variants プロップ条件付きのスタイルの収集先
+   * @returns CSS宣言の配列（プロップ条件付きのスタイルは含まない）
+   */
+  parseTemplate(quasi: any, variants?: StyleVariants): StyleDeclaration[] {
+    const expressions: any[] = quasi?.expressions || [];
+    const placeholder = (index: number) => `__EXPRESSION_${index}__`;
+    const text = (quasi?.quasis || [])
+      .map((element: any, index: number) => element.value.raw + (index < expressions.length ? placeholder(index) : ''))
+      .join('')
+      .replace(/\/\*[\s\S]*?\*\//g, '');
+
+    const declarations: StyleDeclaration[] = [];
+    const selectors: string[] = [];
+    let buffer = '';
+
+    // 補間のみの行（; のないミックスイン ${mixin}）を取り除き、プロップ条件付きのスタイルとして収集
+    const takeMixins = (statement: string) => statement
+      .split('\n')
+      .filter(line => {
+        const mixin = /^\s*__EXPRESSION_(\d+)__\s*$/.exec(line);
+        if (mixin && variants) {
+          this.collectConditionalStyles(expressions[Number(mixin[1])], selectors.join(' '), variants, branch => this.parseStyleNode(branch, variants));
+        }
+        return !mixin;
+      })
+      .join('\n');
+
+    const flush = () => {
+      const statement = takeMixins(buffer).trim();
+      buffer = '';
+      const separator = statement.indexOf(':');
+      if (separator <= 0) return;
+
+      const property = statement.slice(0, separator).trim();
+      if (!/^-{0,2}[a-zA-Z][\w-]*$/.test(property)) return;
+
+      // 値全体がプロップを条件とする関数の補間は、条件毎の値として収集
+      const rawValue = statement.slice(separator + 1).trim();
+      const wholeExpression = /^__EXPRESSION_(\d+)__$/.exec(rawValue);
+      if (wholeExpression && variants && this.collectConditionalStyles(
+        expressions[Number(wholeExpression[1])],
+        selectors.join(' '),
+        variants,
+        branch => [this.createDeclaration(property, this.valueText(branch), '', this.resolveToken(branch, property))]
+      )) {
+        return;
+      }
+
+      // 補間は式の文字列表現に置き換え、トークンを参照していればその値に対応付け
+      let token: string | undefined;
+      const value = rawValue.replace(/__EXPRESSION_(\d+)__/g, (_, index) => {
+        const expression = expressions[Number(index)];
+        token = token || this.resolveToken(expression, property);
+        return `\${${this.expressionText(expression)}}`;
+      });
+      declarations.push(this.createDeclaration(property, value, selectors.join(' '), token || this.resolveTokenValue(value, property)));
+    };
+
+    for (const char of text) {
+      if (char === '{') {
+        const selector = takeMixins(buffer)
+          .replace(/__EXPRESSION_(\d+)__/g, (_, index) => `\${${this.expressionText(expressions[Number(index)])}}`);
+        selectors.push(selector.trim().replace(/\s+/g, ' '));
+        buffer = '';
+      } else if (char === '}') {
+        flush();
+        selectors.pop();
+      } else if (char === ';') {
+        flush();
+      } else {
+        buffer += char;
+      }
+    }
+    flush();
+
+    return declarations;
+  }
+
+  /**
+   * プロップを条件とする関数の補間を、条件毎のCSS宣言として収集
+   *
+   * 対応する条件:
+   * - props.primary / primary（分割代入）→ true / false
+   * - !props.disabled → false / true
+   * - props.size === 'sm' → sm / default（else のネストした条件は再帰的に解析）
+   *
+   * @param node 補間の式（props => ... / ({ primary }) => ...）
+   * @param selector 補間を含むブロックのセレクタ
+   * @param variants 収集先
+   * @param toDeclarations 分岐の値をCSS宣言に変換する関数
+   * @returns プロップ条件付きのスタイルとして収集した場合true
+   */
+  private collectConditionalStyles(
+    node: any,
+    selector: string,
+    variants: StyleVariants,
+    toDeclarations: (branch: any) => StyleDeclaration[]
+  ): boolean {
+    const target = this.unwrap(node);
+    if (!['ArrowFunctionExpression', 'FunctionExpression'].includes(target?.type) || target.body?.type === 'BlockStatement') {
+      return false;
+    }
+
+    // props => props.primary の props（分割代入の場合は識別子がそのままプロップ）
+    const propsName = target.params[0]?.type === 'Identifier' ? target.params[0].name : undefined;
+    let collected = false;
+    const addBranch = (prop: string, value: string, branch: any) => {
+      const declarations = toDeclarations(branch).map(declaration =>
+        this.createDeclaration(declaration.property, declaration.value, this.joinSelectors(selector, declaration.selector || ''), declaration.token)
+      );
+      if (declarations.length === 0) return;
+      variants[prop] = variants[prop] || {};
+      variants[prop][value] = [...(variants[prop][value] || []), ...declarations];
+      collected = true;
+    };
+    const visit = (expression: any) => {
+      const branch = this.unwrap(expression);
+      if (branch?.type === 'ConditionalExpression') {
+        const condition = this.parseCondition(branch.test, propsName);
+        if (!condition) return;
+        addBranch(condition.prop, condition.value, branch.consequent);
+        if (this.unwrap(branch.alternate)?.type === 'ConditionalExpression') {
+          visit(branch.alternate);
+        } else {
+          addBranch(condition.prop, condition.elseValue, branch.alternate);
+        }
+      } else if (branch?.type === 'LogicalExpression' && branch.operator === '&&') {
+        const condition = this.parseCondition(branch.left, propsName);
+        if (condition) addBranch(condition.prop, condition.value, branch.right);
+      }
+    };
+
+    visit(target.body);
+    return collected;
+  }
+
+  /**
+   * 条件式をプロップと値に変換
+   *
+   * @param node 条件式
+   * @param propsName プロップを受け取る引数名（分割代入の場合はundefined）
+   * @returns プロップ名・条件を満たす値・満たさない値（プロップの条件でない場合はnull）
+   */
+  private parseCondition(node: any, propsName?: string): { prop: string; value: string; elseValue: string } | null {
+    const target = this.unwrap(node);
+    if (target?.type === 'UnaryExpression' && target.operator === '!') {
+      const condition = this.parseCondition(target.argument, propsName);
+      return condition && condition.value === 'true' ? { ...condition, value: 'false', elseValue: 'true' } : null;
+    }
+    if (target?.type === 'BinaryExpression' && ['===', '=='].includes(target.operator)) {
+      const [reference, literal] = target.right?.type === 'Literal' ? [target.left, target.right] : [target.right, target.left];
+      const prop = this.propName(reference, propsName);
+      return prop && literal?.type === 'Literal' ? { prop, value: String(literal.value), elseValue: 'default' } : null;
+    }
+
+    const prop = this.propName(target, propsName);
+    return prop ? { prop, value: 'true', elseValue: 'false' } : null;
+  }
+
+  /**
+   * プロップの参照からプロップ名を取得
+   *
+   * @param node 参照の式（props.primary / primary）
+   * @param propsName プロップを受け取る引数名
+   * @returns プロップ名（プロップの参照でない場合はnull）
+   */
+  private propName(node: any, propsName?: string): string | null {
+    const target = this.unwrap(node);
+    if (target?.type === 'Identifier') {
+      return propsName === undefined && !this.isThemeRoot(target.name) ? target.name : null;
+    }
+    const chain = target?.type === 'MemberExpression' ? this.memberChain(target) : null;
+    return chain?.length === 2 && chain[0] === propsName && chain[1] !== 'theme' ? chain[1] : null;
+  }
+
+  /**
+   * 分岐のスタイル（css`...` / 'color: red;' / { color: 'red' }）をCSS宣言に変換
+   *
+   * @param node 分岐の式
+   * @param variants ネストしたプロップ条件付きのスタイルの収集先
+   * @returns CSS宣言の配列
+   */
+  private parseStyleNode(node: any, variants: StyleVariants): StyleDeclaration[] {
+    const target = this.unwrap(node);
+    switch (target?.type) {
+      case 'TaggedTemplateExpression':
+        return this.parseTemplate(target.quasi, variants);
+      case 'TemplateLiteral':
+        return this.parseTemplate(target, variants);
+      case 'Literal':
+        return typeof target.value === 'string'
+          ? this.parseTemplate({ quasis: [{ value: { raw: target.value } }], expressions: [] })
+          : [];
+      case 'ObjectExpression':
+        return this.parseObject(target);
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * スタイルオブジェクトを宣言に分解
+   *
+   * 配列（スタイルの合成）と、テーマを受け取る関数（theme => ({ ... })）にも対応します。
+   *
+   * @param node スタイルオブジェクト
+   * @param options selector: 親のセレクタ、exclude: 宣言として扱わないキー（variants 等）
+   * @returns CSS宣言の配列
+   */
+  parseObject(node: any, options: { selector?: string; exclude?: string[] } = {}): StyleDeclaration[] {
+    const target = this.unwrap(node);
+    const selector = options.selector || '';
+
+    if (target?.type === 'ArrayExpression') {
+      return target.elements.flatMap((element: any) => this.parseObject(element, { selector }));
+    }
+    if (target?.type === 'ArrowFunctionExpression' || target?.type === 'FunctionExpression') {
+      // theme => ({ ... }) の引数名はテーマへの参照
+      const [param] = target.params;
+      if (param?.type === 'Identifier') {
+        this.registerThemeRoot(param.name);
+      }
+      return target.body?.type === 'BlockStatement' ? [] : this.parseObject(target.body, { selector });
+    }
+    if (target?.type !== 'ObjectExpression') {
+      return [];
+    }
+
+    const declarations: StyleDeclaration[] = [];
+    target.properties.forEach((property: any) => {
+      if (property.type === 'SpreadElement') {
+        declarations.push(...this.parseObject(property.argument, { selector }));
+        return;
+      }
+
+      const key = this.propertyKey(property);
+      if (key === null || options.exclude?.includes(key)) return;
+
+      const value = this.unwrap(property.value);
+      if (value?.type === 'ObjectExpression') {
+        if (NESTED_RULE_KEYS.includes(key)) {
+          // selectors: { '&:hover': {...} } / '@media': { 'screen and (...)': {...} }
+          value.properties.forEach((rule: any) => {
+            const condition = this.propertyKey(rule);
+            if (condition === null) return;
+            const nestedSelector = key === 'selectors' ? condition : `${key} ${condition}`;
+            declarations.push(...this.parseObject(rule.value, { selector: this.joinSelectors(selector, nestedSelector) }));
+          });
+        } else {
+          declarations.push(...this.parseObject(value, { selector: this.joinSelectors(selector, key) }));
+        }
+        return;
+      }
+
+      const cssProperty = this.toKebabCase(key);
+      declarations.push(this.createDeclaration(cssProperty, this.valueText(value), selector, this.resolveToken(value, cssProperty)));
+    });
+
+    return declarations;
+  }
+
+  /**
+   * 値のノードをデザイントークンに対応付け
+   *
+   * @param node 値のノード（テーマ参照・リテラル・テーマを参照する関数）
+   * @param property CSSプロパティ（Stitchesのトークンのスケールの判定に使用）
+   * @returns トークンのパス（対応するトークンがない場合はundefined）
+   */
+  resolveToken(node: any, property?: string): string | undefined {
+    const target = this.unwrap(node);
+    if (!target) return undefined;
+
+    if (target.type === 'ArrowFunctionExpression' || target.type === 'FunctionExpression') {
+      return target.body?.type === 'BlockStatement' ? undefined : this.resolveToken(target.body, property);
+    }
+    if (target.type === 'MemberExpression') {
+      const chain = this.memberChain(target);
+      if (!chain) return undefined;
+      // props.theme.colors.primary の props は読み飛ばす
+      const rootIndex = chain[0] !== 'theme' && chain[1] === 'theme' ? 1 : 0;
+      return this.isThemeRoot(chain[rootIndex]) && chain.length > rootIndex + 1
+        ? chain.slice(rootIndex + 1).join('.')
+        : undefined;
+    }
+    if (target.type === 'Literal' && target.value !== null) {
+      return this.resolveTokenValue(String(target.value), property);
+    }
+    return undefined;
+  }
+
+  /**
+   * リテラルの値をデザイントークンに対応付け
+   *
+   * @param value 値
+   * @param property CSSプロパティ
+   * @returns トークンのパス（対応するトークンがない場合はundefined）
+   */
+  resolveTokenValue(value: string, property?: string): string | undefined {
+    // Stitchesのトークン: $colors$primary（スケール指定）/ $primary（プロパティのスケール）
+    const stitchesToken = /^-?\$([\w-]+(?:\$[\w-]+)?)$/.exec(value.trim());
+    if (stitchesToken) {
+      const [scale, name] = stitchesToken[1].includes('$') ? stitchesToken[1].split('$') : [TOKEN_SCALES[property || ''], stitchesToken[1]];
+      return scale ? `${scale}.${name}` : name;
+    }
+    return this.tokenValues.get(value.trim());
+  }
+
+  /**
+   * 式の文字列表現を生成（補間・関数の値の表示用）
+   *
+   * @param node 式のノード
+   * @returns 式の文字列表現（表現できない式は …）
+   */
+  expressionText(node: any): string {
+    const target = this.unwrap(node);
+    switch (target?.type) {
+      case 'Identifier':
+        return target.name;
+      case 'Literal':
+        return typeof target.value === 'string' ? `'${target.value}'` : String(target.value);
+      case 'MemberExpression':
+        return target.computed
+          ? `${this.expressionText(target.object)}[${this.expressionText(target.property)}]`
+          : `${this.expressionText(target.object)}.${this.expressionText(target.property)}`;
+      case 'ArrowFunctionExpression':
+        return target.body?.type === 'BlockStatement' ? '…' : this.expressionText(target.body);
+      case 'CallExpression':
+        return `${this.expressionText(target.callee)}(…)`;
+      case 'ConditionalExpression':
+        return `${this.expressionText(target.test)} ? ${this.expressionText(target.consequent)} : ${this.expressionText(target.alternate)}`;
+      case 'LogicalExpression':
+      case 'BinaryExpression':
+        return `${this.expressionText(target.left)} ${target.operator} ${this.expressionText(target.right)}`;
+      case 'UnaryExpression':
+        return `${target.operator}${this.expressionText(target.argument)}`;
+      case 'TemplateLiteral':
+        return `\`${this.templateText(target)}\``;
+      default:
+        return '…';
+    }
+  }
+
+  /**
+   * 値のノードをCSSの値の文字列に変換
+   *
+   * @param node 値のノード
+   * @returns 値の文字列（リテラル以外は ${式} 形式）
+   */
+  valueText(node: any): string {
+    const target = this.unwrap(node);
+    if (target?.type === 'Literal') {
+      return String(target.value);
+    }
+    if (target?.type === 'TemplateLiteral') {
+      return this.templateText(target);
+    }
+    if (target?.type === 'UnaryExpression' && target.argument?.type === 'Literal') {
+      return `${target.operator}${target.argument.value}`;
+    }
+    return `\${${this.expressionText(target)}}`;
+  }
+
+  /**
+   * テンプレートリテラルを ${式} 形式の文字列に変換
+   *
+   * @param node TemplateLiteralノード
+   * @returns テンプレートの文字列
+   */
+  templateText(node: any): string {
+    return (node?.quasis || [])
+      .map((element: any, index: number) =>
+        element.value.raw + (index < node.expressions.length ? `\${${this.expressionText(node.expressions[index])}}` : ''))
+      .join('');
+  }
+
+  /**
+   * オブジェクトのプロパティのキーを取得
+   *
+   * @param property Propertyノード
+   * @returns キー（計算プロパティ等で静的に決まらない場合はnull）
+   */
+  propertyKey(property: any): string | null {
+    if (property?.type !== 'Property') return null;
+    if (!property.computed && property.key?.type === 'Identifier') return property.key.name;
+    if (property.key?.type === 'Literal') return String(property.key.value);
+    return null;
+  }
+
+  /**
+   * 型アサーション等のラッパーを外す
+   *
+   * @param node 式のノード
+   * @returns 内側の式（{ ... } as const の { ... }）
+   */
+  unwrap(node: any): any {
+    let target = node;
+    while (target && ['TSAsExpression', 'TSSatisfiesExpression', 'TSNonNullExpression'].includes(target.type)) {
+      target = target.expression;
+    }
+    return target;
+  }
+
+  /**
+   * camelCaseのプロパティ名をkebab-caseに正規化
+   *
+   * @param property プロパティ名（backgroundColor / WebkitLineClamp / --custom）
+   * @returns CSSのプロパティ名
+   */
+  private toKebabCase(property: string): string {
+    if (property.startsWith('--') || property.includes('-')) return property;
+    return property
+      .replace(/^(Webkit|Moz|ms|O)(?=[A-Z])/, prefix => `-${prefix.toLowerCase()}`)
+      .replace(/[A-Z]/g, char => `-${char.toLowerCase()}`);
+  }
+
+
+  /**
+   * メンバー参照を識別子の配列に変換
+   *
+   * @param node MemberExpressionノード
+   * @returns theme.colors.primary → ['theme', 'colors', 'primary']（静的に決まらない場合はnull）
+   */
+  private memberChain(node: any): string[] | null {
+    if (node.type === 'Identifier') return [node.name];
+    if (node.type !== 'MemberExpression') return null;
+
+    const object = this.memberChain(node.object);
+    const property = node.computed
+      ? (node.property.type === 'Literal' ? String(node.property.value) : null)
+      : node.property.name;
+    return object && property !== null ? [...object, property] : null;
+  }
+
+  /**
+   * 親子のセレクタを連結
+   *
+   * @param parent 親のセレクタ
+   * @param child 子のセレクタ
+   * @returns 連結したセレクタ
+   */
+  private joinSelectors(parent: string, child: string): string {
+    return [parent, child].filter(Boolean).join(' ');
+  }
+
+  /**
+   * CSS宣言を生成（セレクタ・トークンがない場合は省略）
+   *
+   * @param property CSSプロパティ
+   * @param value 値
+   * @param selector セレクタ
+   * @param token デザイントークン
+   * @returns CSS宣言
+   */
+  private createDeclaration(property: string, value: string, selector: string, token?: string): StyleDeclaration {
+    return {
+      property,
+      value,
+      ...(selector ? { selector } : {}),
+      ...(token ? { token } : {}),
+    };
+  }
+}
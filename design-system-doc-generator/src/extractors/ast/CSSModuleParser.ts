@@ -0,0 +1,293 @@
+import { StyleDeclaration } from '../../types';
+
+// 条件としてセレクタに付与するアットルール（中の宣言は通常のルールとして解析）
+const CONDITIONAL_AT_RULES = ['@media', '@supports', '@container', '@layer'];
+
+/**
+ * CSSModuleClass - スタイルシートで定義されたクラス
+ */
+export interface CSSModuleClass {
+  declarations: StyleDeclaration[];       // クラスを対象とするCSS宣言（composes で合成したクラスは含まない）
+  composes: CSSModuleComposition[];       // composes で合成するクラス
+}
+
+/**
+ * CSSModuleComposition - composes による合成
+ */
+export interface CSSModuleComposition {
+  classNames: string[];  // 合成するクラス名
+  from?: string;         // 合成元のファイル（'./shared.module.css' / 'global'。省略時は同一ファイル）
+}
+
+// 波括弧で区切ったブロック（宣言の文字列とネストしたブロック）
+interface CSSBlock {
+  prelude: string;
+  children: (CSSBlock | string)[];
+}
+
+/**
+ * CSSModuleParser - CSS Modules（*.module.css / *.module.scss）のスタイルシート解析クラス
+ *
+ * このクラスは、スタイルシートのルールをクラス毎のCSS宣言に分解します。
+ * ファイルの読み込みと composes の合成元の解決はCSSModulesExtractorで行い、
+ * このクラスはスタイルシートのテキストの解析を担います。
+ *
+ * 主な責務:
+ * - ルールのセレクタに含まれるクラスの収集（:global(...) 内のクラスは除外）
+ * - SCSSのネスト（&:hover / &--primary / 子孫セレクタ）の展開
+ * - @media / @supports / @container 内の宣言へのセレクタの付与
+ * - composes の解析
+ * - SCSS変数（$primary）の展開と、変数・カスタムプロパティ（var(--x)）のトークンへの対応付け
+ *
+ * 宣言の対応付け:
+ * - セレクタの最後の複合セレクタ（.card .title の .title）のクラスを対象とする
+ * - 最後の複合セレクタにクラスがない場合（.card > div）はセレクタ内の最後のクラスを対象とする
+ * - 対象クラス以外の部分は & で置き換えてセレクタとして記録（.button:hover → &:hover）
+ *
+ * 制限事項:
+ * - @mixin / @include / @extend・@keyframes 等のブロックは解析しない
+ * - SCSS変数は宣言の前に定義されたもののみ展開
+ *
+ * 他クラスとの関係:
+ * - CSSModulesExtractor: インポートしたスタイルシートの解析に使用
+ */
+export class CSSModuleParser {
+  /**
+   * スタイルシートをクラス毎の定義に分解
+   *
+   * @param source スタイルシートのテキスト
+   * @returns クラス名 → クラスの定義（宣言のないクラスも含む）
+   */
+  parse(source: string): Map<string, CSSModuleClass> {
+    const classes = new Map<string, CSSModuleClass>();
+    const variables = new Map<string, string>();
+    const text = source
+      .replace(/\/\*[\s\S]*?\*\//g, '')
+      .replace(/(^|[^:"'\\])\/\/[^\n]*/g, '$1');
+
+    this.collect(this.parseBlocks(text), [''], [], classes, variables);
+    return classes;
+  }
+
+  /**
+   * ブロックを走査してクラス毎の宣言を収集
+   * @param block 走査対象のブロック
+   * @param selectors 展開済みのセレクタ（カンマ区切りの各セレクタ）
+   * @param conditions 適用されるアットルール（@media (...) 等）
+   * @param classes 収集先のクラスの定義
+   * @param variables SCSS変数
+   */
+  private collect(
+    block: CSSBlock,
+    selectors: string[],
+    conditions: string[],
+    classes: Map<string, CSSModuleClass>,
+    variables: Map<string, string>
+  ): void {
+    selectors.forEach(selector => this.findClasses(selector).forEach(className => this.ensureClass(classes, className)));
+
+    block.children.forEach(child => {
+      if (typeof child !== 'string') {
+        const prelude = child.prelude.replace(/\s+/g, ' ');
+        if (prelude.startsWith('@')) {
+          // 条件付きのアットルールのみ展開（@keyframes / @font-face / @mixin 等は対象外）
+          if (CONDITIONAL_AT_RULES.some(rule => prelude.startsWith(rule))) {
+            this.collect(child, selectors, [...conditions, prelude], classes, variables);
+          }
+        } else {
+          this.collect(child, this.nestSelectors(selectors, prelude), conditions, classes, variables);
+        }
+        return;
+      }
+
+      const separator = child.indexOf(':');
+      if (separator <= 0 || child.startsWith('@')) return;
+      const property = child.slice(0, separator).trim();
+      const rawValue = child.slice(separator + 1).trim();
+
+      if (/^\$[\w-]+$/.test(property)) {
+        variables.set(property, this.expandVariables(rawValue.replace(/\s*!default$/, ''), variables).value);
+        return;
+      }
+      if (!/^-{0,2}[a-zA-Z][\w-]*$/.test(property)) return;
+
+      selectors.forEach(selector => {
+        const target = this.findTargetClass(selector);
+        if (!target) return;
+        const cssClass = this.ensureClass(classes, target.className);
+
+        if (property === 'composes') {
+          // composes: a b from './shared.module.css' / composes: a from global
+          const [, names, from] = rawValue.match(/^(.*?)(?:\s+from\s+(.+))?$/) || [];
+          cssClass.composes.push({
+            classNames: (names || '').split(/\s+/).filter(Boolean),
+            from: from ? from.trim().replace(/^['"]|['"]$/g, '') : undefined,
+          });
+          return;
+        }
+
+        const { value, token } = this.expandVariables(rawValue, variables);
+        const declaration: StyleDeclaration = { property: property.toLowerCase(), value };
+        const nestedSelector = [target.selector, ...conditions].filter(Boolean).join(' ');
+        if (nestedSelector) declaration.selector = nestedSelector;
+        const resolvedToken = token || value.match(/var\(\s*(--[\w-]+)/)?.[1];
+        if (resolvedToken) declaration.token = resolvedToken;
+        cssClass.declarations.push(declaration);
+      });
+    });
+  }
+
+  /**
+   * テキストを波括弧のブロックと宣言に分割
+   *
+   * 文字列・括弧内（url(...) 等）の区切り文字と、SCSSの補間（#{...}）は無視します。
+   *
+   * @param text コメントを除いたスタイルシートのテキスト
+   * @returns ルートのブロック
+   */
+  private parseBlocks(text: string): CSSBlock {
+    const root: CSSBlock = { prelude: '', children: [] };
+    const stack: CSSBlock[] = [root];
+    let buffer = '';
+    let quote: string | null = null;
+    let depth = 0;  // 括弧・補間のネスト
+
+    const flush = () => {
+      const statement = buffer.trim();
+      buffer = '';
+      if (statement) stack[stack.length - 1].children.push(statement);
+    };
+
+    for (let index = 0; index < text.length; index++) {
+      const char = text[index];
+      if (quote) {
+        if (char === quote && text[index - 1] !== '\\') quote = null;
+        buffer += char;
+      } else if (char === '"' || char === '\'') {
+        quote = char;
+        buffer += char;
+      } else if (char === '(' || (char === '{' && text[index - 1] === '#')) {
+        depth++;
+        buffer += char;
+      } else if (depth > 0 && (char === ')' || char === '}')) {
+        depth--;
+        buffer += char;
+      } else if (char === '{') {
+        const block: CSSBlock = { prelude: buffer.trim(), children: [] };
+        buffer = '';
+        stack[stack.length - 1].children.push(block);
+        stack.push(block);
+      } else if (char === '}') {
+        flush();
+        if (stack.length > 1) stack.pop();
+      } else if (char === ';') {
+        flush();
+      } else {
+        buffer += char;
+      }
+    }
+    flush();
+
+    return root;
+  }
+
+  /**
+   * ネストしたルールのセレクタを親のセレクタと結合
+   * @param parents 親のセレクタ
+   * @param prelude ネストしたルールのセレクタ（カンマ区切り）
+   * @returns 展開したセレクタ（&--primary は .button--primary）
+   */
+  private nestSelectors(parents: string[], prelude: string): string[] {
+    const selectors = this.splitTopLevel(prelude, ',').map(selector => selector.trim()).filter(Boolean);
+    return parents.flatMap(parent => selectors.map(selector => {
+      if (selector.includes('&')) return selector.replace(/&/g, parent);
+      return parent ? `${parent} ${selector}` : selector;
+    }));
+  }
+
+  /**
+   * セレクタに含まれるクラスを取得（:global(...) 内のクラスは除く）
+   * @param selector セレクタ
+   * @returns クラス名の配列
+   */
+  private findClasses(selector: string): string[] {
+    const local = selector.replace(/:global\((?:[^()]|\([^()]*\))*\)/g, '').replace(/:local\(([^()]*)\)/g, '$1');
+    return Array.from(local.matchAll(/\.(-?[_a-zA-Z][\w-]*)/g), match => match[1]);
+  }
+
+  /**
+   * セレクタの宣言の対象となるクラスと、クラスからの相対セレクタを取得
+   * @param selector セレクタ
+   * @returns 対象クラスと相対セレクタ（.button のみの場合は空文字。クラスがない場合はnull）
+   */
+  private findTargetClass(selector: string): { className: string; selector: string } | null {
+    const compounds = this.splitTopLevel(selector.replace(/\s*([>+~])\s*/g, ' $1 '), ' ').filter(part => part && !/^[>+~]$/.test(part));
+    const subject = compounds[compounds.length - 1] || '';
+    const subjectClasses = this.findClasses(subject.replace(/\((?:[^()]|\([^()]*\))*\)/g, ''));
+    const allClasses = this.findClasses(selector);
+    const className = subjectClasses[0] || allClasses[allClasses.length - 1];
+    if (!className) return null;
+
+    // 対象クラスの最後の出現を & に置き換え
+    const pattern = new RegExp(`\\.${className.replace(/[-]/g, '\\-')}(?![\\w-])`, 'g');
+    const matches = Array.from(selector.matchAll(pattern));
+    const last = matches[matches.length - 1];
+    const relative = last?.index === undefined
+      ? selector
+      : `${selector.slice(0, last.index)}&${selector.slice(last.index + last[0].length)}`;
+    return { className, selector: relative.trim() === '&' ? '' : relative.trim() };
+  }
+
+  /**
+   * 括弧・属性セレクタの外側の区切り文字で分割
+   * @param text 分割対象の文字列
+   * @param separator 区切り文字
+   * @returns 分割した文字列
+   */
+  private splitTopLevel(text: string, separator: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of text) {
+      if (char === '(' || char === '[') depth++;
+      if (char === ')' || char === ']') depth--;
+      if (char === separator && depth === 0) {
+        parts.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    parts.push(current);
+    return parts;
+  }
+
+  /**
+   * 値に含まれるSCSS変数を展開
+   * @param value 宣言の値
+   * @param variables 定義済みのSCSS変数
+   * @returns 展開した値と、参照した変数（トークン）
+   */
+  private expandVariables(value: string, variables: Map<string, string>): { value: string; token?: string } {
+    let token: string | undefined;
+    const expanded = value.replace(/\$[\w-]+/g, name => {
+      if (!variables.has(name)) return name;
+      token = token || name;
+      return variables.get(name)!;
+    });
+    return { value: expanded, token };
+  }
+
+  /**
+   * クラスの定義を取得（未登録の場合は作成）
+   * @param classes クラスの定義
+   * @param className クラス名
+   * @returns クラスの定義
+   */
+  private ensureClass(classes: Map<string, CSSModuleClass>, className: string): CSSModuleClass {
+    if (!classes.has(className)) {
+      classes.set(className, { declarations: [], composes: [] });
+    }
+    return classes.get(className)!;
+  }
+}
@@ -0,0 +1,421 @@
+import { PropInfo } from '../../types';
+import { TypeResolver } from './TypeResolver';
+import { DocCommentExtractor } from './DocCommentExtractor';
+import { ComponentUnwrapper } from './ComponentUnwrapper';
+import { topLevelDeclarations } from './TopLevelDeclarations';
+
+/**
+ * Reactクラスコンポーネントのライフサイクルメソッド一覧
+ * render() は必須メソッドのため含めない
+ */
+const LIFECYCLE_METHODS = [
+  'getDerivedStateFromProps',
+  'getDerivedStateFromError',
+  'componentDidMount',
+  'shouldComponentUpdate',
+  'getSnapshotBeforeUpdate',
+  'componentDidUpdate',
+  'componentWillUnmount',
+  'componentDidCatch',
+  'componentWillMount',
+  'componentWillReceiveProps',
+  'componentWillUpdate',
+  'UNSAFE_componentWillMount',
+  'UNSAFE_componentWillReceiveProps',
+  'UNSAFE_componentWillUpdate',
+];
+
+/**
+ * ClassComponentExtractor - クラスコンポーネント解析クラス
+ *
+ * このクラスは、`class X extends React.Component<Props, State>` 形式の
+ * クラスコンポーネントから、Props・State・ライフサイクルメソッド・
+ * render() メソッドを抽出する専門エクストラクターです。
+ *
+ * 主な責務:
+ * - React.Component / React.PureComponent を継承するクラスの特定
+ * - 型引数（Props, State）からの型情報付きProps・Stateの解決（TypeResolver経由）
+ * - static defaultProps / X.defaultProps = {...} からのデフォルト値の取得
+ * - state = {...} / this.state = {...} からのState初期値の取得
+ * - 型情報がない場合の this.props 参照からのProps推論
+ * - 使用しているライフサイクルメソッドの列挙
+ * - JSX構造抽出用の render() メソッドの特定
+ *
+ * 対応パターン:
+ * - class Modal extends React.Component<ModalProps, ModalState> { ... }
+ * - class DataTable extends PureComponent<DataTableProps> { static defaultProps = { ... } }
+ * - export default withRouter(DataTable)
+ *
+ * 使用例:
+ * const extractor = new ClassComponentExtractor(typeResolver);
+ * const info = extractor.extract(ast, 'Modal', services);
+ * if (info) {
+ *   console.log(info.props, info.state, info.lifecycleMethods);
+ * }
+ *
+ * 他クラスとの関係:
+ * - TailwindExtractor: クラスコンポーネントの場合に関数コンポーネント向けの抽出を置き換える
+ * - TypeResolver: 型引数からProps・Stateを解決
+ * - DocCommentExtractor: 型情報がない場合のメンバーコメント取得
+ * - ComponentUnwrapper: HOCでラップされたクラス定義の特定
+ */
+export class ClassComponentExtractor {
+  private typeResolver: TypeResolver;                // 型チェッカー連携
+  private docCommentExtractor: DocCommentExtractor;  // ドキュメントコメント抽出
+  private componentUnwrapper: ComponentUnwrapper;    // HOCの展開
+
+  /**
+   * @param typeResolver Props型の解決に使用するTypeResolver（省略時は新規生成）
+   */
+  constructor(typeResolver?: TypeResolver) {
+    this.typeResolver = typeResolver || new TypeResolver();
+    this.docCommentExtractor = new DocCommentExtractor();
+    this.componentUnwrapper = new ComponentUnwrapper();
+  }
+
+  /**
+   * クラスコンポーネント情報の抽出メイン処理
+   *
+   * 処理フロー:
+   * 1. コンポーネント名に対応するクラス定義の特定
+   * 2. defaultProps・State初期値の収集
+   * 3. 型引数からProps・Stateを解決（型情報がない場合はAST推論）
+   * 4. ドキュメントコメントの付与
+   * 5. ライフサイクルメソッドと render() の特定
+   *
+   * @param ast TypeScript ESTree AST
+   * @param componentName 対象コンポーネント名
+   * @param services parserServices（型情報付きパース時のみprogramを含む）
+   * @returns クラスコンポーネント情報（クラスコンポーネントでない場合はnull）
+   */
+  extract(ast: any, componentName: string, services?: any): {
+    props: PropInfo[];             // Props情報
+    state: PropInfo[];             // State情報（defaultValueは初期値）
+    lifecycleMethods: string[];    // 使用しているライフサイクルメソッド
+    renderMethod: any | null;      // render() メソッドの関数ノード
+  } | null {
+    const classNode = this.findClassComponent(ast, componentName);
+    if (!classNode) {
+      return null;
+    }
+
+    const [propsTypeNode, stateTypeNode] = classNode.superTypeArguments?.params || [];
+    const defaultProps = this.extractDefaultProps(ast, classNode);
+    const initialState = this.extractInitialState(classNode);
+
+    // 型引数から解決できない場合は this.props の参照・State初期値から推論
+    const inferredProps = this.inferPropsFromUsage(classNode, defaultProps);
+    const inferredState = this.toUntypedMembers(initialState.keys());
+    const props = this.resolveMembers(ast, propsTypeNode, services, inferredProps, defaultProps);
+    const state = this.resolveMembers(ast, stateTypeNode, services, inferredState, initialState);
+
+    return {
+      props,
+      state,
+      lifecycleMethods: this.extractLifecycleMethods(classNode),
+      renderMethod: this.findMethod(classNode, 'render')?.value || null,
+    };
+  }
+
+  /**
+   * コンポーネント名に対応するクラスコンポーネント定義を検索
+   *
+   * @param ast TypeScript ESTree AST
+   * @param componentName 対象コンポーネント名
+   * @returns クラス定義ノード（見つからない、またはReact.Componentを継承しない場合はnull）
+   */
+  findClassComponent(ast: any, componentName: string): any | null {
+    for (const { statement, declaration } of topLevelDeclarations(ast)) {
+      if (!declaration) continue;
+
+      let classNode: any = null;
+      if (declaration.type === 'ClassDeclaration') {
+        // 名前なしのデフォルトエクスポートはファイル名由来の名前と対応付ける
+        if (declaration.id?.name === componentName ||
+            (!declaration.id && statement.type === 'ExportDefaultDeclaration')) {
+          classNode = declaration;
+        }
+      } else if (declaration.type === 'VariableDeclaration') {
+        const declarator = declaration.declarations.find(
+          (d: any) => d.id?.type === 'Identifier' && d.id.name === componentName
+        );
+        classNode = declarator ? this.componentUnwrapper.unwrap(declarator, ast).classNode : null;
+      } else if (statement.type === 'ExportDefaultDeclaration') {
+        // export default withRouter(DataTable) 形式
+        classNode = this.componentUnwrapper.unwrap(declaration, ast).classNode;
+      }
+
+      if (classNode && this.isReactComponentClass(classNode)) {
+        return classNode;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * クラスがReact.Component/PureComponentを継承しているか判定
+   *
+   * @param classNode クラス定義ノード
+   * @returns 継承している場合true
+   */
+  private isReactComponentClass(classNode: any): boolean {
+    const superClass = classNode.superClass;
+    const name = superClass?.type === 'Identifier' ? superClass.name :
+                 superClass?.type === 'MemberExpression' ? superClass.property?.name :
+                 null;
+    return name === 'Component' || name === 'PureComponent';
+  }
+
+  /**
+   * 型ノードのメンバーをProps情報として解決
+   *
+   * 型情報付きパースの場合は型チェッカーで解決し、それ以外はAST推論の結果に
+   * 同一ファイル内の型宣言からメンバーのドキュメントコメントを付与します。
+   * いずれの場合も、defaultProps・State初期値をデフォルト値として統合します。
+   *
+   * マージ規則（PropExtractor.extractTypedPropsと同様）:
+   * - デフォルト値を持つメンバーは型上必須でも任意として扱う
+   * - デフォルト値がない場合は@defaultタグの値を使用
+   *
+   * @param ast TypeScript ESTree AST
+   * @param typeNode 型引数ノード（Props型またはState型）
+   * @param services parserServices
+   * @param fallback 型解決できない場合に使用するAST推論結果
+   * @param values メンバー名からデフォルト値（初期値）へのマップ
+   * @returns Props情報の配列
+   */
+  private resolveMembers(
+    ast: any,
+    typeNode: any,
+    services: any,
+    fallback: PropInfo[],
+    values: Map<string, string | undefined>
+  ): PropInfo[] {
+    let members = typeNode && services?.program
+      ? this.typeResolver.resolveTypeNodeProps(typeNode, services)
+      : null;
+
+    if (!members) {
+      const memberDocs = typeNode ? this.docCommentExtractor.extractMemberDocs(ast, typeNode) : new Map();
+      members = fallback.map(member => {
+        const docs = memberDocs.get(member.name);
+        return docs ? { ...member, docs } : member;
+      });
+    }
+
+    return members.map(member => {
+      const value = values.get(member.name);
+      return {
+        ...member,
+        required: member.required && !values.has(member.name),
+        defaultValue: value ?? member.docs?.defaultValue,
+      };
+    });
+  }
+
+  /**
+   * this.props の参照からProps一覧を推論
+   *
+   * 対応する参照パターン:
+   * - this.props.title
+   * - const { title, onClose } = this.props;
+   *
+   * @param classNode クラス定義ノード
+   * @param defaultProps defaultPropsで宣言されたデフォルト値（参照がなくてもPropsとして扱う）
+   * @returns 型情報なしのProps情報（型は 'any'）
+   */
+  private inferPropsFromUsage(classNode: any, defaultProps: Map<string, string | undefined>): PropInfo[] {
+    const names = new Set<string>();
+
+    const visit = (node: any) => {
+      if (!node || typeof node !== 'object') return;
+
+      // this.props.xxx
+      if (node.type === 'MemberExpression' && this.isThisProps(node.object) &&
+          node.property?.type === 'Identifier' && !node.computed) {
+        names.add(node.property.name);
+      }
+
+      // const { a, b } = this.props;
+      if (node.type === 'VariableDeclarator' && this.isThisProps(node.init) && node.id?.type === 'ObjectPattern') {
+        node.id.properties
+          .filter((property: any) => property.type === 'Property' && property.key?.type === 'Identifier')
+          .forEach((property: any) => names.add(property.key.name));
+      }
+
+      for (const key in node) {
+        if (key !== 'parent' && node[key] && typeof node[key] === 'object') {
+          visit(node[key]);
+        }
+      }
+    };
+    visit(classNode.body);
+
+    defaultProps.forEach((_value, name) => names.add(name));
+    return this.toUntypedMembers(names);
+  }
+
+  /**
+   * 名前一覧を型情報なしのメンバー情報に変換
+   *
+   * @param names メンバー名
+   * @returns 型 'any' の必須メンバー（デフォルト値の統合はresolveMembersで行う）
+   */
+  private toUntypedMembers(names: Iterable<string>): PropInfo[] {
+    return Array.from(names).map(name => ({ name, type: 'any', required: true }));
+  }
+
+  /**
+   * ノードが this.props を指しているか判定
+   *
+   * @param node 判定対象ノード
+   * @returns this.props の場合true
+   */
+  private isThisProps(node: any): boolean {
+    return node?.type === 'MemberExpression' &&
+           node.object?.type === 'ThisExpression' &&
+           node.property?.name === 'props';
+  }
+
+  /**
+   * defaultPropsの収集
+   *
+   * 対応する宣言パターン:
+   * - static defaultProps = { size: 'md' }（クラス内の静的プロパティ）
+   * - DataTable.defaultProps = { size: 'md' }（クラス外での代入）
+   *
+   * @param ast TypeScript ESTree AST
+   * @param classNode クラス定義ノード
+   * @returns Props名からデフォルト値へのマップ
+   */
+  private extractDefaultProps(ast: any, classNode: any): Map<string, string | undefined> {
+    const staticProperty = classNode.body.body.find(
+      (member: any) => member.type === 'PropertyDefinition' && member.static && member.key?.name === 'defaultProps'
+    );
+    if (staticProperty) {
+      return this.extractObjectValues(staticProperty.value);
+    }
+
+    const className = classNode.id?.name;
+    for (const statement of ast?.body || []) {
+      const expression = statement.type === 'ExpressionStatement' ? statement.expression : null;
+      if (className &&
+          expression?.type === 'AssignmentExpression' &&
+          expression.left?.type === 'MemberExpression' &&
+          expression.left.object?.name === className &&
+          expression.left.property?.name === 'defaultProps') {
+        return this.extractObjectValues(expression.right);
+      }
+    }
+
+    return new Map();
+  }
+
+  /**
+   * State初期値の収集
+   *
+   * 対応する宣言パターン:
+   * - state = { open: false }（クラスプロパティ）
+   * - constructor() { this.state = { open: false }; }
+   *
+   * @param classNode クラス定義ノード
+   * @returns State名から初期値へのマップ
+   */
+  private extractInitialState(classNode: any): Map<string, string | undefined> {
+    const stateProperty = classNode.body.body.find(
+      (member: any) => member.type === 'PropertyDefinition' && !member.static && member.key?.name === 'state'
+    );
+    if (stateProperty) {
+      return this.extractObjectValues(stateProperty.value);
+    }
+
+    const constructor = classNode.body.body.find(
+      (member: any) => member.type === 'MethodDefinition' && member.kind === 'constructor'
+    );
+    for (const statement of constructor?.value?.body?.body || []) {
+      const expression = statement.type === 'ExpressionStatement' ? statement.expression : null;
+      if (expression?.type === 'AssignmentExpression' &&
+          expression.left?.type === 'MemberExpression' &&
+          expression.left.object?.type === 'ThisExpression' &&
+          expression.left.property?.name === 'state') {
+        return this.extractObjectValues(expression.right);
+      }
+    }
+
+    return new Map();
+  }
+
+  /**
+   * オブジェクトリテラルのキーと値の文字列表現を取得
+   *
+   * @param node ObjectExpressionノード
+   * @returns キーから値の文字列表現へのマップ（複雑な式の値はundefined）
+   */
+  private extractObjectValues(node: any): Map<string, string | undefined> {
+    const values = new Map<string, string | undefined>();
+    if (node?.type !== 'ObjectExpression') {
+      return values;
+    }
+
+    for (const property of node.properties) {
+      if (property.type !== 'Property') continue;
+      const key = property.key?.type === 'Identifier' ? property.key.name : property.key?.value;
+      if (typeof key === 'string') {
+        values.set(key, this.getDefaultValue(property.value));
+      }
+    }
+
+    return values;
+  }
+
+  /**
+   * 値ノードの文字列表現を取得
+   *
+   * PropExtractorのデフォルト値表現に合わせ、配列・オブジェクトは簡略表記とします。
+   *
+   * @param node 値ノード
+   * @returns 文字列表現（複雑な式の場合はundefined）
+   */
+  private getDefaultValue(node: any): string | undefined {
+    switch (node?.type) {
+      case 'Literal':
+        return String(node.value);
+      case 'Identifier':
+        return node.name;
+      case 'ArrayExpression':
+        return '[]';
+      case 'ObjectExpression':
+        return '{}';
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * 使用しているライフサイクルメソッドの列挙
+   *
+   * @param classNode クラス定義ノード
+   * @returns 宣言順のライフサイクルメソッド名
+   */
+  private extractLifecycleMethods(classNode: any): string[] {
+    return classNode.body.body
+      .filter((member: any) =>
+        (member.type === 'MethodDefinition' || member.type === 'PropertyDefinition') &&
+        LIFECYCLE_METHODS.includes(member.key?.name))
+      .map((member: any) => member.key.name);
+  }
+
+  /**
+   * クラスのメソッド定義を名前で検索
+   *
+   * @param classNode クラス定義ノード
+   * @param name メソッド名
+   * @returns メソッド定義ノード（見つからない場合はundefined）
+   */
+  private findMethod(classNode: any, name: string): any | undefined {
+    return classNode.body.body.find(
+      (member: any) => member.type === 'MethodDefinition' && !member.static && member.key?.name === name
+    );
+  }
+}
@@ -0,0 +1,411 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ASTNode, ClassSource } from '../../types';
+import { CLASS_UTILITIES } from './TailwindClassExtractor';
+import { topLevelDeclarations } from './TopLevelDeclarations';
+const { parse } = require('@typescript-eslint/typescript-estree');
+
+// 解決対象のモジュールと、その中の変数宣言
+type ResolveContext = {
+  ast: any;                         // モジュールのAST
+  filePath: string;                 // モジュールのファイルパス
+  bindings?: Map<string, ASTNode>;  // コンポーネント内のローカル変数（解析対象ファイルのみ）
+};
+
+// 式の参照先（値のノード、または import * as styles の名前空間）
+type Resolved = { node: any; context: ResolveContext } | { namespace: string };
+
+/**
+ * ClassConstantResolver - クラス文字列定数の解決クラス
+ *
+ * このクラスは、className に識別子で指定されたクラス文字列を、同一ファイル内の
+ * 定数宣言やインポート元のスタイルモジュール（styles.ts 等）まで辿って解決する
+ * 専門リゾルバーです。
+ *
+ * 主な責務:
+ * - className 式から定数参照（識別子・メンバー式）の収集
+ * - ローカル変数・モジュールレベル定数・インポートの解決
+ * - 再エクスポート（export { x } from './y'、export * from './y'）の追跡
+ * - 解決したクラスの参照元（識別子・定義ファイル）の記録
+ *
+ * 対応パターン:
+ * - className={baseButton}（import { baseButton } from './styles'）
+ * - className={cn(styles.primary, isActive && activeClass)}（import * as styles from './styles'）
+ * - className={buttonStyles.base}（const buttonStyles = { base: 'px-4 py-2' }）
+ * - export const baseButton = `${focusRing} px-4 py-2`（定数同士の結合）
+ *
+ * 制限事項:
+ * - 相対パスのインポートのみ解決（パスエイリアス・パッケージは対象外）
+ * - 参照の追跡は maxDepth 段まで（循環参照・深い再エクスポートの打ち切り）
+ * - Propsの値による分岐（{ sm: '...' }[size]）は TailwindClassExtractor の条件付きクラスで扱う
+ *
+ * 使用例:
+ * const resolver = new ClassConstantResolver();
+ * const sources = resolver.resolveClassNode(attributeValue, { ast, filePath, bindings });
+ * // => [{ binding: 'baseButton', filePath: 'src/styles.ts', classes: ['px-4', 'py-2', 'rounded'] }]
+ *
+ * 他クラスとの関係:
+ * - TailwindExtractor: onClassName コールバックで呼び出し、解決したクラスを使用クラスに統合
+ * - ASTTraverser: コンポーネント内のローカル変数（bindings）を提供
+ */
+export class ClassConstantResolver {
+  private maxDepth: number;                          // 参照を辿る最大段数
+  private rootDir: string;                           // 参照元のパスの基準となるプロジェクトルート
+  private moduleCache = new Map<string, any | null>();  // ファイルパス → AST（パース失敗時はnull）
+
+  /**
+   * ClassConstantResolverの初期化
+   *
+   * @param maxDepth 識別子・モジュールを辿る最大段数
+   * @param rootDir プロジェクトルート（参照元のファイルパスはここからの相対パスで記録）
+   */
+  constructor(maxDepth = 5, rootDir = process.cwd()) {
+    this.maxDepth = maxDepth;
+    this.rootDir = rootDir;
+  }
+
+  /**
+   * className属性の値から定数参照を解決
+   *
+   * @param node className属性の値ノード
+   * @param context 解析対象ファイルのAST・パス・ローカル変数
+   * @returns 解決できた参照毎のクラスと定義元（プロジェクトルートからの相対パス）
+   */
+  resolveClassNode(node: any, context: ResolveContext): ClassSource[] {
+    const sources: ClassSource[] = [];
+
+    for (const reference of this.collectReferences(node)) {
+      const resolved = this.resolveExpression(reference, context, 0);
+      if (!resolved || 'namespace' in resolved) continue;
+
+      const classes = this.evaluateClasses(resolved.node, resolved.context, 1);
+      if (classes.length > 0) {
+        sources.push({
+          binding: this.getReferenceName(reference),
+          filePath: path.relative(this.rootDir, resolved.context.filePath),
+          classes: Array.from(new Set(classes)),
+        });
+      }
+    }
+
+    return sources;
+  }
+
+  /**
+   * className 式のうちクラスとして使われる識別子・メンバー式を収集
+   *
+   * @param node className属性の値ノード
+   * @returns 定数参照のノード
+   */
+  private collectReferences(node: any): any[] {
+    if (!node) return [];
+
+    switch (node.type) {
+      case 'JSXExpressionContainer':
+        return this.collectReferences(node.expression);
+      case 'Identifier':
+        return [node];
+      case 'MemberExpression':
+        // { sm: '...' }[size] のような計算されたアクセスは条件付きクラスとして別途扱う
+        return node.computed ? [] : [node];
+      case 'TemplateLiteral':
+        return node.expressions.flatMap((expression: any) => this.collectReferences(expression));
+      case 'ConditionalExpression':
+        return [...this.collectReferences(node.consequent), ...this.collectReferences(node.alternate)];
+      case 'LogicalExpression':
+        return node.operator === '&&'
+          ? this.collectReferences(node.right)
+          : [...this.collectReferences(node.left), ...this.collectReferences(node.right)];
+      case 'ArrayExpression':
+        return node.elements.flatMap((element: any) => this.collectReferences(element));
+      case 'CallExpression':
+        return this.isClassUtility(node)
+          ? node.arguments.flatMap((arg: any) => this.collectReferences(arg))
+          : [];
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * 式の参照先を解決
+   *
+   * @param node 識別子・メンバー式（その他の式はそのまま返す）
+   * @param context 式が属するモジュール
+   * @param depth 現在の段数
+   * @returns 参照先の値ノードまたは名前空間（解決できない場合はnull）
+   */
+  private resolveExpression(node: any, context: ResolveContext, depth: number): Resolved | null {
+    if (!node || depth > this.maxDepth) return null;
+
+    if (node.type === 'TSAsExpression' || node.type === 'TSSatisfiesExpression') {
+      return this.resolveExpression(node.expression, context, depth);
+    }
+
+    if (node.type === 'Identifier') {
+      return this.resolveIdentifier(node.name, context, depth);
+    }
+
+    if (node.type === 'MemberExpression') {
+      const key = !node.computed && node.property.type === 'Identifier' ? node.property.name :
+                  node.property.type === 'Literal' ? String(node.property.value) :
+                  null;
+      const object = key !== null ? this.resolveExpression(node.object, context, depth + 1) : null;
+      if (!object) return null;
+
+      if ('namespace' in object) {
+        return this.resolveExport(object.namespace, key, depth + 1);
+      }
+
+      const target = this.unwrapExpression(object.node);
+      const property = target?.type === 'ObjectExpression'
+        ? target.properties.find((prop: any) => prop.type === 'Property' && !prop.computed && this.getKeyName(prop.key) === key)
+        : null;
+      return property ? { node: property.value, context: object.context } : null;
+    }
+
+    return { node, context };
+  }
+
+  /**
+   * 識別子をローカル変数・モジュールレベルの宣言・インポートの順に解決
+   *
+   * @param name 識別子名
+   * @param context 識別子が属するモジュール
+   * @param depth 現在の段数
+   * @returns 参照先（解決できない場合はnull）
+   */
+  private resolveIdentifier(name: string, context: ResolveContext, depth: number): Resolved | null {
+    if (context.bindings?.has(name)) {
+      return { node: context.bindings.get(name), context };
+    }
+
+    for (const { statement, declaration } of topLevelDeclarations(context.ast)) {
+      if (declaration?.type === 'VariableDeclaration') {
+        const declarator = declaration.declarations.find((d: any) => d.id?.type === 'Identifier' && d.id.name === name);
+        if (declarator?.init) {
+          return { node: declarator.init, context };
+        }
+      }
+
+      if (statement.type === 'ImportDeclaration') {
+        const specifier = statement.specifiers.find((s: any) => s.local.name === name);
+        const modulePath = specifier && this.resolveModulePath(context.filePath, statement.source.value);
+        if (!modulePath) continue;
+
+        if (specifier.type === 'ImportNamespaceSpecifier') {
+          return { namespace: modulePath };
+        }
+        const exportName = specifier.type === 'ImportDefaultSpecifier' ? 'default' : specifier.imported.name;
+        return this.resolveExport(modulePath, exportName, depth + 1);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * モジュールのエクスポートを解決
+   *
+   * @param filePath モジュールのファイルパス
+   * @param exportName エクスポート名（デフォルトエクスポートは 'default'）
+   * @param depth 現在の段数
+   * @returns 参照先（解決できない場合はnull）
+   */
+  private resolveExport(filePath: string, exportName: string, depth: number): Resolved | null {
+    const ast = depth <= this.maxDepth ? this.loadModule(filePath) : null;
+    if (!ast) return null;
+
+    const context: ResolveContext = { ast, filePath };
+    for (const statement of ast.body) {
+      // export default 'px-4 py-2'
+      if (statement.type === 'ExportDefaultDeclaration' && exportName === 'default') {
+        return this.resolveExpression(statement.declaration, context, depth);
+      }
+
+      if (statement.type === 'ExportNamedDeclaration') {
+        // export const baseButton = '...'
+        const declarator = statement.declaration?.type === 'VariableDeclaration'
+          ? statement.declaration.declarations.find((d: any) => d.id?.type === 'Identifier' && d.id.name === exportName)
+          : null;
+        if (declarator?.init) {
+          return { node: declarator.init, context };
+        }
+
+        // export { base as baseButton } / export { baseButton } from './base'
+        const specifier = statement.specifiers?.find((s: any) => this.getKeyName(s.exported) === exportName);
+        if (specifier) {
+          const localName = this.getKeyName(specifier.local);
+          if (!statement.source) {
+            return this.resolveIdentifier(localName, context, depth);
+          }
+          const modulePath = this.resolveModulePath(filePath, statement.source.value);
+          return modulePath ? this.resolveExport(modulePath, localName, depth + 1) : null;
+        }
+      }
+
+      // export * from './tokens'
+      if (statement.type === 'ExportAllDeclaration' && !statement.exported && exportName !== 'default') {
+        const modulePath = this.resolveModulePath(filePath, statement.source.value);
+        const resolved = modulePath && this.resolveExport(modulePath, exportName, depth + 1);
+        if (resolved) return resolved;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 値ノードからクラス一覧を評価
+   *
+   * @param node 値ノード（文字列・テンプレートリテラル・結合・配列・クラスユーティリティ呼び出し・参照）
+   * @param context 値ノードが属するモジュール
+   * @param depth 現在の段数
+   * @returns クラス名の配列（記述順）
+   */
+  private evaluateClasses(node: any, context: ResolveContext, depth: number): string[] {
+    if (!node || depth > this.maxDepth) return [];
+
+    switch (node.type) {
+      case 'Literal':
+        return typeof node.value === 'string' ? this.splitClasses(node.value) : [];
+
+      case 'TemplateLiteral':
+        return [
+          ...node.quasis.flatMap((quasi: any) => this.splitClasses(quasi.value.cooked || '')),
+          ...node.expressions.flatMap((expression: any) => this.evaluateClasses(expression, context, depth)),
+        ];
+
+      case 'BinaryExpression':
+        return node.operator === '+'
+          ? [...this.evaluateClasses(node.left, context, depth), ...this.evaluateClasses(node.right, context, depth)]
+          : [];
+
+      case 'ArrayExpression':
+        return node.elements.flatMap((element: any) => this.evaluateClasses(element, context, depth));
+
+      case 'ConditionalExpression':
+        return [...this.evaluateClasses(node.consequent, context, depth), ...this.evaluateClasses(node.alternate, context, depth)];
+
+      case 'TSAsExpression':
+      case 'TSSatisfiesExpression':
+        return this.evaluateClasses(node.expression, context, depth);
+
+      case 'CallExpression':
+        // ['px-4', 'py-2'].join(' ')
+        if (node.callee.type === 'MemberExpression' && node.callee.property.name === 'join') {
+          return this.evaluateClasses(node.callee.object, context, depth);
+        }
+        return this.isClassUtility(node)
+          ? node.arguments.flatMap((arg: any) => this.evaluateClasses(arg, context, depth))
+          : [];
+
+      case 'Identifier':
+      case 'MemberExpression': {
+        const resolved = this.resolveExpression(node, context, depth + 1);
+        return resolved && !('namespace' in resolved) && resolved.node !== node
+          ? this.evaluateClasses(resolved.node, resolved.context, depth + 1)
+          : [];
+      }
+
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * インポート元のモジュールパスをファイルパスに解決
+   *
+   * @param fromFile インポートしているファイル
+   * @param source インポート元の指定（'./styles' 等）
+   * @returns スクリプトファイルのパス（相対パス以外・見つからない場合はnull）
+   */
+  private resolveModulePath(fromFile: string, source: string): string | null {
+    if (typeof source !== 'string' || !source.startsWith('.')) {
+      return null;
+    }
+
+    const basePath = path.resolve(path.dirname(fromFile), source);
+    const candidates = /\.(tsx?|jsx?)$/.test(basePath)
+      ? [basePath]
+      : ['.ts', '.tsx', '.js', '.jsx', '/index.ts', '/index.tsx', '/index.js'].map(ext => basePath + ext);
+
+    return candidates.find(candidate => fs.existsSync(candidate)) || null;
+  }
+
+  /**
+   * モジュールを読み込んでパース（結果はキャッシュ）
+   *
+   * @param filePath モジュールのファイルパス
+   * @returns AST（読み込み・パースに失敗した場合はnull）
+   */
+  private loadModule(filePath: string): any | null {
+    if (!this.moduleCache.has(filePath)) {
+      try {
+        const content = fs.readFileSync(filePath, 'utf-8');
+        this.moduleCache.set(filePath, parse(content, { jsx: /\.[jt]sx$/.test(filePath), range: true }));
+      } catch (error) {
+        console.warn(`Failed to resolve class constants from ${filePath}:`, error);
+        this.moduleCache.set(filePath, null);
+      }
+    }
+    return this.moduleCache.get(filePath);
+  }
+
+  /**
+   * 呼び出し式がクラスユーティリティ（clsx, cn 等）か判定
+   *
+   * @param node CallExpressionノード
+   * @returns クラスユーティリティの場合true
+   */
+  private isClassUtility(node: any): boolean {
+    const name = node.callee.type === 'Identifier' ? node.callee.name :
+                 node.callee.type === 'MemberExpression' ? node.callee.property.name :
+                 '';
+    return CLASS_UTILITIES.includes(name);
+  }
+
+  /**
+   * 参照式を表示用の名前に変換
+   *
+   * @param node 識別子・メンバー式
+   * @returns baseButton / styles.primary 形式の名前
+   */
+  private getReferenceName(node: any): string {
+    return node.type === 'MemberExpression'
+      ? `${this.getReferenceName(node.object)}.${this.getKeyName(node.property)}`
+      : node.name;
+  }
+
+  /**
+   * プロパティキー・エクスポート名の文字列を取得
+   *
+   * @param node 識別子または文字列リテラル
+   * @returns キー名
+   */
+  private getKeyName(node: any): string {
+    return node?.type === 'Identifier' ? node.name : String(node?.value);
+  }
+
+  /**
+   * 型アサーションを取り除いた式を取得
+   *
+   * @param node 式ノード
+   * @returns as / satisfies を外した式
+   */
+  private unwrapExpression(node: any): any {
+    return node?.type === 'TSAsExpression' || node?.type === 'TSSatisfiesExpression'
+      ? this.unwrapExpression(node.expression)
+      : node;
+  }
+
+  /**
+   * 空白区切りのクラス文字列を分割
+   *
+   * @param value クラス文字列
+   * @returns クラス名の配列
+   */
+  private splitClasses(value: string): string[] {
+    return value.split(/\s+/).filter(Boolean);
+  }
+}
@@ -1,5 +1,9 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { TypeResolver } from './TypeResolver';
+import { ComponentUnwrapper } from './ComponentUnwrapper';
+import { topLevelDeclarations } from './TopLevelDeclarations';
+import { ComponentDefinition, SubcomponentDefinition } from '../../types';
 const tsEslint = require('@typescript-eslint/typescript-estree');
 const { parseAndGenerateServices } = tsEslint;
 
@@ -13,32 +17,47 @@ const { parseAndGenerateServices } = tsEslint;
  * - ファイル形式の検証（.tsx, .jsx, .ts, .js）
  * - Reactコンポーネントパターンの検出
  * - TypeScript ESTreeを使用したAST生成
- * - エクスポートされたコンポーネント名の抽出
+ * - エクスポートされた全コンポーネントの名前と定義ノードの抽出
  * - 複数のエクスポート形式への対応
+ * - forwardRef/memo/HOCのラッパー種別と displayName の記録
+ * - 複合コンポーネント（Card.Header, Object.assign(Tabs, { Panel })）の子の検出
  * 
  * 検出パターン:
- * - JSX記法の使用: /<[a-zA-Z][a-zA-Z0-9]*/
+ * - JSX記法の使用: <[a-zA-Z][a-zA-Z0-9]* にマッチするタグ
  * - Reactインポート: import ... from 'react'
  * - エクスポート宣言: export default/export const/export function
  * 
  * AST生成:
  * - @typescript-eslint/typescript-estreeを使用
- * - JSX対応、位置情報付きでパース
+ * - JSX対応、位置情報・コメント付きでパース
  * - TypeScript固有の構文もサポート
+ * - TypeResolverが渡された場合はtsconfigに基づくProgramと共にパースし、
+ *   型チェッカーを利用可能なparserServicesを返す
  * 
  * 使用例:
  * const analyzer = new ComponentAnalyzer();
  * const result = await analyzer.analyzeFile('./Button.tsx');
  * if (result.isComponentFile) {
- *   console.log('Component:', result.componentName);
+ *   result.components.forEach(c => console.log('Component:', c.name));
  * }
  * 
  * 他クラスとの関係:
  * - TailwindExtractor: メインオーケストレーターがこのクラスでファイル解析を開始
  * - ASTTraverser: 生成されたASTを走査するために使用される
+ * - TypeResolver: 型情報付きパースのためのTypeScriptプログラムを提供
  */
 
 export class ComponentAnalyzer {
+  private typeResolver?: TypeResolver;  // 型情報付きパース用（省略時は構文のみ解析）
+  private componentUnwrapper = new ComponentUnwrapper();  // forwardRef/memo/HOCの展開
+
+  /**
+   * @param typeResolver TypeScriptプログラム提供元（省略時は型情報なしでパース）
+   */
+  constructor(typeResolver?: TypeResolver) {
+    this.typeResolver = typeResolver;
+  }
+
   /**
    * ファイルを解析してコンポーネント情報を取得
    * 
@@ -48,8 +67,8 @@ export class ComponentAnalyzer {
    * 処理フロー:
    * 1. ファイル内容の読み込み
    * 2. Reactコンポーネントファイルかどうかの判定
-   * 3. TypeScript ESTreeによるAST生成
-   * 4. エクスポート宣言からのコンポーネント名抽出
+   * 3. TypeScript ESTreeによるAST生成（可能であれば型情報付き）
+   * 4. エクスポート宣言からの全コンポーネント定義の抽出
    * 
    * @param filePath 解析対象ファイルのパス
    * @returns 解析結果オブジェクト
@@ -57,8 +76,10 @@ export class ComponentAnalyzer {
   async analyzeFile(filePath: string): Promise<{
     content: string;           // ファイルの生内容
     ast: any;                 // 生成されたAST（コンポーネントでない場合はnull）
-    componentName: string | null;  // 抽出されたコンポーネント名
+    componentName: string | null;  // 最初のコンポーネント名（components[0]）
+    components: ComponentDefinition[];  // エクスポートされた全コンポーネント
     isComponentFile: boolean;      // Reactコンポーネントファイルかどうか
+    services?: any;                // parserServices（型情報付きパース時のみprogramを含む）
   }> {
     // 1. ファイル内容の読み込み
     const content = await fs.promises.readFile(filePath, 'utf-8');
@@ -68,22 +89,77 @@ export class ComponentAnalyzer {
     const isComponentFile = this.isComponentFile(content, filePath);
     if (!isComponentFile) {
       // コンポーネントでない場合は早期リターン（AST生成コストを避ける）
-      return { content, ast: null, componentName: null, isComponentFile: false };
+      return { content, ast: null, componentName: null, components: [], isComponentFile: false };
     }
 
     // 3. TypeScript ESTreeによるAST生成
     // JSX、位置情報、範囲情報を含む完全なASTを生成
-    const { ast } = parseAndGenerateServices(content, {
+    const { ast, services } = this.parse(content, filePath);
+
+    // 4. ASTからエクスポートされた全コンポーネントを抽出
+    const components = this.extractComponents(ast, filePath);
+    const componentName = components[0]?.name ?? null;
+
+    return { content, ast, componentName, components, isComponentFile, services };
+  }
+
+  /**
+   * コンポーネント判定を行わずにファイルをパース
+   *
+   * 利用側のコード（ページやアプリケーションのコンポーネント）は、
+   * 新しいJSXトランスフォームでReactをインポートしない場合やエクスポートを持たない場合があるため、
+   * isComponentFile による事前スクリーニングを行わずにASTを生成します。
+   *
+   * @param filePath 解析対象ファイルのパス
+   * @returns ファイルの内容とAST（パースに失敗した場合はnull）
+   */
+  async parseFile(filePath: string): Promise<{ content: string; ast: any | null }> {
+    const content = await fs.promises.readFile(filePath, 'utf-8');
+
+    try {
+      return { content, ast: this.parse(content, filePath).ast };
+    } catch (error) {
+      console.warn(`Failed to parse ${filePath}:`, error);
+      return { content, ast: null };
+    }
+  }
+
+  /**
+   * ファイル内容をパースしてASTとparserServicesを生成
+   * 
+   * TypeResolverからProgramが取得できた場合は、ESTreeノードとTypeScriptノードの
+   * 対応表を保持したままパースし、型チェッカーを利用可能にします。
+   * Programの構築やパースに失敗した場合は、型情報なしの通常パースにフォールバックします。
+   * 
+   * @param content ファイルの内容
+   * @param filePath ファイルパス
+   * @returns ASTとparserServices
+   */
+  private parse(content: string, filePath: string): { ast: any; services?: any } {
+    const baseOptions = {
       filePath,        // TypeScript設定の解決に使用
       jsx: true,       // JSX構文の解析を有効化
       loc: true,       // 行・列位置情報を含める
       range: true,     // 文字位置範囲情報を含める
-    });
+      comment: true,   // JSDoc/TSDocコメントをast.commentsに含める
+    };
 
-    // 4. ASTからコンポーネント名を抽出
-    const componentName = this.extractComponentName(ast, filePath);
+    if (this.typeResolver) {
+      try {
+        const program = this.typeResolver.getProgram(filePath);
+        if (program) {
+          return parseAndGenerateServices(content, {
+            ...baseOptions,
+            programs: [program],     // 既存Programを再利用して型情報を取得
+            preserveNodeMaps: true,  // ESTree ⇔ TypeScriptノードの対応表を保持
+          });
+        }
+      } catch (error) {
+        console.warn(`Type information unavailable for ${filePath}:`, error);
+      }
+    }
 
-    return { content, ast, componentName, isComponentFile };
+    return parseAndGenerateServices(content, baseOptions);
   }
 
   /**
@@ -120,98 +196,389 @@ export class ComponentAnalyzer {
   }
 
   /**
-   * ASTからコンポーネント名を抽出
+   * ASTからエクスポートされた全コンポーネントを抽出
    * 
-   * TypeScript ASTを解析して、エクスポートされたコンポーネント名を抽出します。
-   * 複数のエクスポート形式に対応し、適切な名前解決を行います。
+   * TypeScript ASTを解析して、ファイル内でエクスポートされている全ての
+   * コンポーネントを出現順に抽出します。1ファイルに複数のコンポーネント
+   * （Form, FormField, FormLabel等）が定義されている場合も全て返します。
    * 
    * 対応するエクスポート形式:
    * - export default function ComponentName() {}
    * - export default ComponentName
    * - export const ComponentName = () => {}
+   * - export function ComponentName() {} / export class ComponentName {}
+   * - export { ComponentA, ComponentB }
    * - const ComponentName = () => {}; export default ComponentName;
+   * - export default memo(function ComponentName() {})（ラップしている関数の名前）
+   * 
+   * コンポーネントとして扱う条件:
+   * - 名前がPascalCase（大文字始まり）
+   * - 定義が関数・クラス・ラッパー（memo/forwardRef/HOC/Object.assign）で包んだコンポーネント・styled の定義
    * 
    * 処理フロー:
-   * 1. 変数宣言の収集（名前解決のため）
-   * 2. エクスポート宣言の走査と名前抽出
+   * 1. トップレベル宣言の収集（名前解決のため）
+   * 2. エクスポート宣言の走査と定義ノードの特定（ラッパー種別・displayName・サブコンポーネントも記録）
    * 3. フォールバック：ファイル名からの推定
    * 
    * @param ast TypeScript ESTree AST
    * @param filePath ファイルパス（フォールバック用）
-   * @returns 抽出されたコンポーネント名（見つからない場合はファイル名ベース）
-   */
-  private extractComponentName(ast: any, filePath: string): string | null {
-    let componentName: string | null = null;
-    const variableDeclarations = new Map<string, string>();
-
-    // 第1パス: 変数宣言の収集
-    // export default VariableName のような参照型エクスポートの名前解決に使用
-    for (const node of ast.body) {
-      if (node.type === 'VariableDeclaration') {
-        for (const declaration of node.declarations) {
-          if (declaration.id?.type === 'Identifier') {
-            variableDeclarations.set(declaration.id.name, declaration.id.name);
+   * @returns コンポーネント定義の配列（見つからない場合はファイル名ベースの1件）
+   */
+  private extractComponents(ast: any, filePath: string): ComponentDefinition[] {
+    const components: ComponentDefinition[] = [];
+    const declarations = new Map<string, any>();
+
+    // 第1パス: トップレベル宣言の収集
+    // export default VariableName / export { Name } のような参照型エクスポートの名前解決に使用
+    for (const { declaration } of topLevelDeclarations(ast)) {
+      this.getDeclaredNodes(declaration).forEach(({ name, node }) => declarations.set(name, node));
+    }
+
+    const displayNames = this.collectDisplayNames(ast);
+    const assignedMembers = this.collectAssignedMembers(ast);
+
+    const addComponent = (name: string | null, node: any, localName: string | null = name) => {
+      if (name && this.isComponentDefinition(name, node, ast) && !components.some(c => c.name === name)) {
+        // forwardRef/memo/HOCのラッパー種別と displayName を記録
+        const { wrappers } = this.componentUnwrapper.unwrap(node, ast);
+        const displayName = localName ? displayNames.get(localName) : undefined;
+
+        // 複合コンポーネント: Object.assign / static プロパティ / Card.Header = ... 代入
+        const subcomponents = this.resolveSubcomponents(
+          name,
+          [...this.getInlineMembers(node), ...((localName && assignedMembers.get(localName)) || [])],
+          declarations,
+          ast
+        );
+
+        components.push({
+          name,
+          node,
+          ...(wrappers.length > 0 && { wrappers }),
+          ...(displayName && { displayName }),
+          ...(subcomponents.length > 0 && { subcomponents }),
+        });
+      }
+    };
+
+    // 第2パス: エクスポート宣言の検索（出現順）
+    for (const statement of ast.body) {
+      if (statement.type === 'ExportDefaultDeclaration') {
+        // export default ... 形式
+        const declaration = statement.declaration;
+        if (declaration.type === 'Identifier') {
+          addComponent(declaration.name, declarations.get(declaration.name));
+        } else if (declaration.id?.name) {
+          addComponent(declaration.id.name, declaration);
+        } else if (this.isComponentNode(declaration, ast)) {
+          // 名前なしのデフォルトエクスポート: ラップしている関数・クラスの名前、displayName、ファイル名の順に命名
+          const localName = this.getWrappedIdentifier(declaration);
+          const { fn, classNode } = this.componentUnwrapper.unwrap(declaration, ast);
+          const name = (fn || classNode)?.id?.name ||
+            (localName && displayNames.get(localName)) ||
+            localName ||
+            this.getNameFromFilePath(filePath);
+          addComponent(name, declaration, localName);
+        }
+      } else if (statement.type === 'ExportNamedDeclaration') {
+        if (statement.declaration) {
+          // export const/function/class ... 形式
+          this.getDeclaredNodes(statement.declaration).forEach(({ name, node }) => addComponent(name, node));
+        } else if (!statement.source) {
+          // export { A, B as C } 形式（他モジュールからの再エクスポートは対象外）
+          for (const specifier of statement.specifiers || []) {
+            const exportedName = specifier.exported?.name;
+            addComponent(exportedName, declarations.get(specifier.local?.name), specifier.local?.name);
           }
         }
       }
     }
 
-    // 第2パス: エクスポート宣言の検索
-    for (const node of ast.body) {
-      if (node.type === 'ExportDefaultDeclaration') {
-        // export default ... 形式
-        componentName = this.getNameFromDeclaration(node.declaration, variableDeclarations);
-      } else if (node.type === 'ExportNamedDeclaration' && node.declaration) {
-        // export const/function ... 形式
-        componentName = this.getNameFromDeclaration(node.declaration, variableDeclarations);
+    // フォールバック: ファイル名からコンポーネント名を推定
+    if (components.length === 0) {
+      components.push({ name: this.getNameFromFilePath(filePath), node: null });
+    }
+
+    return components;
+  }
+
+  /**
+   * Component.displayName = '...' 形式の代入を収集
+   * 
+   * forwardRef/memoでラップされた匿名関数は表示名を持たないため、
+   * 多くのコードベースでは displayName を明示的に代入します。
+   * 
+   * @param ast TypeScript ESTree AST
+   * @returns ローカル名から displayName へのマップ
+   */
+  private collectDisplayNames(ast: any): Map<string, string> {
+    const displayNames = new Map<string, string>();
+
+    for (const statement of ast.body) {
+      const expression = statement.type === 'ExpressionStatement' ? statement.expression : null;
+      if (expression?.type !== 'AssignmentExpression') continue;
+
+      const { left, right } = expression;
+      if (left?.type === 'MemberExpression' &&
+          left.object?.type === 'Identifier' &&
+          left.property?.name === 'displayName' &&
+          right?.type === 'Literal' &&
+          typeof right.value === 'string') {
+        displayNames.set(left.object.name, right.value);
       }
-      
-      // 最初に見つかったコンポーネント名を使用
-      if (componentName) break;
     }
 
-    // フォールバック: ファイル名からコンポーネント名を推定
-    if (!componentName) {
-      const basename = path.basename(filePath, path.extname(filePath));
-      componentName = basename.replace(/\..*$/, ''); // index.tsx → index
+    return displayNames;
+  }
+
+  /**
+   * Card.Header = CardHeader 形式の代入による複合コンポーネントのメンバーを収集
+   * 
+   * @param ast TypeScript ESTree AST
+   * @returns 親コンポーネントのローカル名からメンバー一覧へのマップ
+   */
+  private collectAssignedMembers(ast: any): Map<string, Array<{ memberName: string; value: any }>> {
+    const members = new Map<string, Array<{ memberName: string; value: any }>>();
+
+    for (const statement of ast.body) {
+      const expression = statement.type === 'ExpressionStatement' ? statement.expression : null;
+      if (expression?.type !== 'AssignmentExpression') continue;
+
+      const { left, right } = expression;
+      if (left?.type === 'MemberExpression' &&
+          !left.computed &&
+          left.object?.type === 'Identifier' &&
+          /^[A-Z]/.test(left.property?.name || '')) {
+        const parentMembers = members.get(left.object.name) || [];
+        parentMembers.push({ memberName: left.property.name, value: right });
+        members.set(left.object.name, parentMembers);
+      }
     }
 
-    return componentName;
+    return members;
   }
 
   /**
-   * 宣言ノードから名前を抽出
+   * 定義ノード自体に含まれる複合コンポーネントのメンバーを取得
    * 
-   * TypeScript ASTの宣言ノードから、実際のコンポーネント名を抽出します。
-   * 複数の宣言形式を統一的に処理し、参照型の名前解決も行います。
+   * 対応パターン:
+   * - const Tabs = Object.assign(TabsRoot, { List: TabsList, Panel })
+   * - class Card extends React.Component { static Header = CardHeader; }
+   * 
+   * @param node 定義ノード（変数宣言子・クラス宣言等）
+   * @returns メンバー名と値ノードの配列
+   */
+  private getInlineMembers(node: any): Array<{ memberName: string; value: any }> {
+    const definition = node?.type === 'VariableDeclarator' ? node.init : node;
+    const members: Array<{ memberName: string; value: any }> = [];
+
+    if (definition?.type === 'CallExpression' && this.componentUnwrapper.isObjectAssign(definition.callee)) {
+      for (const source of definition.arguments.slice(1)) {
+        if (source.type !== 'ObjectExpression') continue;
+        source.properties
+          .filter((property: any) => property.type === 'Property' && /^[A-Z]/.test(property.key?.name || ''))
+          .forEach((property: any) => members.push({ memberName: property.key.name, value: property.value }));
+      }
+    }
+
+    if (definition?.type === 'ClassDeclaration' || definition?.type === 'ClassExpression') {
+      definition.body.body
+        .filter((member: any) =>
+          member.type === 'PropertyDefinition' && member.static && member.value && /^[A-Z]/.test(member.key?.name || ''))
+        .forEach((member: any) => members.push({ memberName: member.key.name, value: member.value }));
+    }
+
+    return members;
+  }
+
+  /**
+   * 複合コンポーネントのメンバーをサブコンポーネント定義に解決
+   * 
+   * 識別子の場合は同一ファイル内の宣言へ解決し、その名前で扱います。
+   * インラインで定義された関数は「親.メンバー」形式の名前で扱います。
+   * 同一ファイル内で定義が見つからないメンバー（インポート等）は対象外です。
+   * 
+   * @param parentName 親コンポーネント名
+   * @param members メンバー名と値ノードの配列
+   * @param declarations トップレベル宣言のマップ
+   * @param ast 識別子解決用のAST全体
+   * @returns サブコンポーネント定義の配列（メンバー名で重複排除）
+   */
+  private resolveSubcomponents(
+    parentName: string,
+    members: Array<{ memberName: string; value: any }>,
+    declarations: Map<string, any>,
+    ast: any
+  ): SubcomponentDefinition[] {
+    const subcomponents: SubcomponentDefinition[] = [];
+
+    for (const { memberName, value } of members) {
+      if (subcomponents.some(sub => sub.memberName === memberName)) continue;
+
+      const isReference = value?.type === 'Identifier';
+      const node = isReference ? declarations.get(value.name) : value;
+      if (!node || !this.isComponentNode(node.type === 'VariableDeclarator' ? node.init : node, ast)) continue;
+
+      subcomponents.push({
+        name: isReference ? value.name : `${parentName}.${memberName}`,
+        memberName,
+        node,
+      });
+    }
+
+    return subcomponents;
+  }
+
+  /**
+   * 宣言ノードから名前と定義ノードを抽出
    * 
    * 対応する宣言形式:
    * - FunctionDeclaration: function ComponentName() {}
-   * - Identifier: ComponentName（変数参照）
-   * - VariableDeclaration: const ComponentName = ...
+   * - ClassDeclaration: class ComponentName {}
+   * - VariableDeclaration: const ComponentName = ...（宣言子ごと）
    * 
    * @param declaration AST宣言ノード
-   * @param variableDeclarations 変数宣言のマップ（参照解決用）
-   * @returns 抽出された名前
-   */
-  private getNameFromDeclaration(declaration: any, variableDeclarations?: Map<string, string>): string | null {
-    if (declaration.type === 'FunctionDeclaration' && declaration.id) {
-      // 関数宣言: function ComponentName() {}
-      return declaration.id.name;
-    } else if (declaration.type === 'Identifier') {
-      // 識別子参照: export default ComponentName
-      // 変数宣言として定義されているかチェック
-      if (variableDeclarations && variableDeclarations.has(declaration.name)) {
-        return declaration.name;
-      }
-      return declaration.name;
-    } else if (declaration.type === 'VariableDeclaration') {
-      // 変数宣言: const/let/var ComponentName = ...
-      const firstDeclarator = declaration.declarations[0];
-      if (firstDeclarator && firstDeclarator.id.type === 'Identifier') {
-        return firstDeclarator.id.name;
+   * @returns 名前と定義ノードの配列
+   */
+  private getDeclaredNodes(declaration: any): Array<{ name: string; node: any }> {
+    if (!declaration) return [];
+
+    if ((declaration.type === 'FunctionDeclaration' || declaration.type === 'ClassDeclaration') && declaration.id) {
+      return [{ name: declaration.id.name, node: declaration }];
+    }
+
+    if (declaration.type === 'VariableDeclaration') {
+      return declaration.declarations
+        .filter((declarator: any) => declarator.id?.type === 'Identifier')
+        .map((declarator: any) => ({ name: declarator.id.name, node: declarator }));
+    }
+
+    return [];
+  }
+
+  /**
+   * 名前と定義ノードがコンポーネントとして妥当か判定
+   * 
+   * @param name エクスポート名
+   * @param node 定義ノード（関数宣言・変数宣言子・クラス宣言等）
+   * @param ast 識別子解決用のAST全体
+   * @returns コンポーネントとして扱う場合true
+   */
+  private isComponentDefinition(name: string, node: any, ast: any): boolean {
+    if (!/^[A-Z]/.test(name) || !node) {
+      return false;
+    }
+    return this.isComponentNode(node.type === 'VariableDeclarator' ? node.init : node, ast);
+  }
+
+  /**
+   * ノードがコンポーネント定義になり得る式・宣言か判定
+   * 
+   * 呼び出し式は ComponentUnwrapper が展開できるラッパー（memo / forwardRef / HOC / Object.assign）で
+   * 関数・クラス・既知のコンポーネントを包んでいるもの、または styled の呼び出しのみを対象とし、
+   * createContext(...) / Object.freeze({...}) のような値は除外します。
+   * タグ付きテンプレートはタグが styled.xxx / styled(...) のもののみを対象とします。
+   * 
+   * @param node 判定対象ノード
+   * @param ast 識別子解決用のAST全体
+   * @param visited 解決済みの識別子（循環参照の防止）
+   * @returns コンポーネント定義になり得る場合true
+   */
+  private isComponentNode(node: any, ast: any, visited: Set<string> = new Set()): boolean {
+    switch (node?.type) {
+      case 'FunctionDeclaration':
+      case 'FunctionExpression':
+      case 'ArrowFunctionExpression':
+      case 'ClassDeclaration':
+      case 'ClassExpression':
+        return true;
+
+      case 'TaggedTemplateExpression':
+        return this.isStyledCallee(node.tag);
+
+      case 'CallExpression': {
+        // styled.div({...}) / styled(Button)({...}) / styled('button', {...})
+        if (this.isStyledCallee(node.callee) || (node.callee?.type === 'Identifier' && node.callee.name === 'styled')) {
+          return true;
+        }
+
+        const { fn, classNode, wrappers } = this.componentUnwrapper.unwrap(node, ast);
+        if (fn || classNode) return true;
+        if (wrappers.length === 0 && !this.componentUnwrapper.isObjectAssign(node.callee)) return false;
+
+        // 描画関数まで展開できない場合は、包んでいる識別子が既知のコンポーネントか判定
+        const wrappedName = this.getWrappedIdentifier(node);
+        if (!wrappedName || !/^[A-Z]/.test(wrappedName) || visited.has(wrappedName)) return false;
+        visited.add(wrappedName);
+
+        const declared = topLevelDeclarations(ast)
+          .flatMap(({ declaration }) => this.getDeclaredNodes(declaration))
+          .find(({ name }) => name === wrappedName)?.node;
+        if (declared) {
+          return this.isComponentNode(declared.type === 'VariableDeclarator' ? declared.init : declared, ast, visited);
+        }
+        // インポートしたコンポーネント（withTheme(Button) 等）
+        return this.isImported(ast, wrappedName);
       }
+
+      default:
+        return false;
     }
-    return null;
+  }
+
+  /**
+   * styled.xxx / styled(...) / styled.xxx.attrs(...) 形式の呼び出し先・タグか判定
+   * 
+   * @param node 呼び出し先・タグのノード
+   * @returns 起点が styled で、styled 自体ではない場合true
+   */
+  private isStyledCallee(node: any): boolean {
+    let current = node;
+    while (current?.type === 'MemberExpression' || current?.type === 'CallExpression') {
+      current = current.type === 'MemberExpression' ? current.object : current.callee;
+    }
+    return current !== node && current?.type === 'Identifier' && current.name === 'styled';
+  }
+
+  /**
+   * 識別子がインポートで束縛されているか判定
+   * 
+   * @param ast AST全体
+   * @param name 識別子名
+   * @returns インポートした名前の場合true
+   */
+  private isImported(ast: any, name: string): boolean {
+    return ast.body.some((statement: any) =>
+      statement.type === 'ImportDeclaration' &&
+      (statement.specifiers || []).some((specifier: any) => specifier.local?.name === name)
+    );
+  }
+
+  /**
+   * ラッパーの呼び出しが参照している識別子を取得
+   * 
+   * export default memo(Avatar) / withTheme(forwardRef(Avatar)) の Avatar のように、
+   * ラッパーの第一引数を内側へ辿って識別子を探します。
+   * 
+   * @param node デフォルトエクスポートの式
+   * @returns 識別子名（関数式等を直接ラップしている場合はnull）
+   */
+  private getWrappedIdentifier(node: any): string | null {
+    let current = node;
+    while (current?.type === 'CallExpression' || current?.type === 'TSAsExpression' || current?.type === 'TSSatisfiesExpression') {
+      current = current.type === 'CallExpression' ? current.arguments[0] : current.expression;
+    }
+    return current?.type === 'Identifier' ? current.name : null;
+  }
+
+  /**
+   * ファイル名からコンポーネント名を推定
+   * 
+   * @param filePath ファイルパス
+   * @returns 拡張子を除いたファイル名（index.tsx → index）
+   */
+  private getNameFromFilePath(filePath: string): string {
+    const basename = path.basename(filePath, path.extname(filePath));
+    return basename.replace(/\..*$/, '');
   }
 }
\ No newline at end of file
@@ -0,0 +1,164 @@
+import { ComponentWrapper } from '../../types';
+import { topLevelDeclarations } from './TopLevelDeclarations';
+
+/**
+ * ComponentUnwrapper - ラッパー関数の展開クラス
+ *
+ * このクラスは、forwardRef・memo・高階コンポーネント（HOC）でラップされた
+ * コンポーネント定義から、実際の描画関数（render function）とProps型を
+ * 取り出す役割を担います。
+ *
+ * 主な責務:
+ * - forwardRef / React.forwardRef / memo / React.memo の展開
+ * - withXxx(Component) / observer(Component) / connect(...)(Component) 等のHOCの展開
+ * - 識別子参照（memo(Card) 等）の同一ファイル内の宣言への解決
+ * - ラッパー種別の記録（外側から順）
+ * - forwardRef<Ref, Props> の型引数からのProps型ノードの取得
+ *
+ * 対応パターン:
+ * - const Input = React.forwardRef<HTMLInputElement, InputProps>((props, ref) => ...)
+ * - export default memo(function Card({ title }: CardProps) { ... })
+ * - const Card = memo(forwardRef(CardInner))
+ * - export default withTheme(Button)
+ * - export default withRouter(DataTable)（DataTableはクラスコンポーネント）
+ * - const Tabs = Object.assign(TabsRoot, { List, Panel })（複合コンポーネント。ラッパーとしては記録しない）
+ *
+ * 使用例:
+ * const unwrapper = new ComponentUnwrapper();
+ * const { fn, wrappers, propsTypeNode } = unwrapper.unwrap(declaratorNode, ast);
+ * // wrappers: ['memo', 'forwardRef']
+ *
+ * 他クラスとの関係:
+ * - ComponentAnalyzer: コンポーネント定義のラッパー種別を記録
+ * - PropExtractor: 描画関数の引数からProps型を解決する際に使用
+ * - TailwindExtractor: 別の宣言の描画関数をラップしたコンポーネントの解析範囲の特定に使用
+ */
+export class ComponentUnwrapper {
+  /**
+   * コンポーネント定義をラッパーごとに展開
+   *
+   * @param node 定義ノード（関数宣言・変数宣言子・式）
+   * @param ast 識別子解決用のAST全体
+   * @returns 描画関数（見つからない場合はnull）、クラス定義、ラッパー種別、Props型ノード
+   */
+  unwrap(node: any, ast: any): { fn: any | null; classNode?: any; wrappers: ComponentWrapper[]; propsTypeNode?: any } {
+    const wrappers: ComponentWrapper[] = [];
+    const visited = new Set<string>();
+    let propsTypeNode: any;
+    let current = node?.type === 'VariableDeclarator' ? node.init : node;
+
+    while (current) {
+      switch (current.type) {
+        case 'FunctionDeclaration':
+        case 'FunctionExpression':
+        case 'ArrowFunctionExpression':
+          return { fn: current, wrappers, propsTypeNode };
+
+        // クラスコンポーネントは描画関数の代わりにクラス定義を返す
+        case 'ClassDeclaration':
+        case 'ClassExpression':
+          return { fn: null, classNode: current, wrappers, propsTypeNode };
+
+        // 型アサーション（as / satisfies）は透過的に扱う
+        case 'TSAsExpression':
+        case 'TSSatisfiesExpression':
+          current = current.expression;
+          break;
+
+        case 'CallExpression': {
+          // Object.assign(Root, { Item }) は複合コンポーネントの定義なので第一引数をそのまま辿る
+          if (this.isObjectAssign(current.callee)) {
+            current = current.arguments[0];
+            break;
+          }
+
+          const kind = this.getWrapperKind(current.callee);
+          if (!kind) {
+            return { fn: null, wrappers, propsTypeNode };
+          }
+          wrappers.push(kind);
+
+          // forwardRef<Ref, Props> の第二型引数がProps型
+          if (kind === 'forwardRef' && !propsTypeNode && current.typeArguments?.params?.length >= 2) {
+            propsTypeNode = current.typeArguments.params[1];
+          }
+          current = current.arguments[0];
+          break;
+        }
+
+        case 'Identifier': {
+          // memo(Card) のような参照は同一ファイル内の宣言へ解決
+          if (visited.has(current.name)) {
+            return { fn: null, wrappers, propsTypeNode };
+          }
+          visited.add(current.name);
+          current = this.findLocalDefinition(ast, current.name);
+          break;
+        }
+
+        default:
+          return { fn: null, wrappers, propsTypeNode };
+      }
+    }
+
+    return { fn: null, wrappers, propsTypeNode };
+  }
+
+  /**
+   * 呼び出し式の呼び出し先からラッパー種別を判定
+   *
+   * @param callee 呼び出し先ノード
+   * @returns ラッパー種別（ラッパーでない場合はnull）
+   */
+  private getWrapperKind(callee: any): ComponentWrapper | null {
+    // connect(mapState)(Component) のようなカリー化されたHOC
+    if (callee?.type === 'CallExpression') {
+      return 'hoc';
+    }
+
+    const name = callee?.type === 'Identifier' ? callee.name :
+                 callee?.type === 'MemberExpression' && callee.property?.type === 'Identifier' ? callee.property.name :
+                 null;
+    if (!name) return null;
+
+    if (name === 'forwardRef') return 'forwardRef';
+    if (name === 'memo') return 'memo';
+    if (/^with[A-Z]/.test(name) || name === 'observer') return 'hoc';
+    return null;
+  }
+
+  /**
+   * 呼び出し先が Object.assign か判定
+   *
+   * @param callee 呼び出し先ノード
+   * @returns Object.assign の場合true
+   */
+  isObjectAssign(callee: any): boolean {
+    return callee?.type === 'MemberExpression' &&
+           callee.object?.type === 'Identifier' && callee.object.name === 'Object' &&
+           callee.property?.type === 'Identifier' && callee.property.name === 'assign';
+  }
+
+  /**
+   * 同一ファイル内の関数宣言・クラス宣言・変数宣言から定義を検索
+   *
+   * @param ast AST全体
+   * @param name 識別子名
+   * @returns 関数・クラス宣言ノードまたは変数の初期化式（見つからない場合はnull）
+   */
+  private findLocalDefinition(ast: any, name: string): any | null {
+    for (const { declaration } of topLevelDeclarations(ast)) {
+      if ((declaration?.type === 'FunctionDeclaration' || declaration?.type === 'ClassDeclaration') &&
+          declaration.id?.name === name) {
+        return declaration;
+      }
+      if (declaration?.type === 'VariableDeclaration') {
+        const declarator = declaration.declarations.find(
+          (d: any) => d.id?.type === 'Identifier' && d.id.name === name
+        );
+        if (declarator) return declarator.init;
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,315 @@
+import { DocComment } from '../../types';
+import { topLevelDeclarations } from './TopLevelDeclarations';
+
+/**
+ * DocCommentExtractor - JSDoc/TSDocコメント抽出クラス
+ *
+ * このクラスは、コンポーネント宣言やProps型のメンバーに付与された
+ * JSDoc/TSDocコメント（/** ... *\/）を抽出し、説明文とタグを
+ * 構造化されたDocCommentに変換する役割を担います。
+ *
+ * 主な責務:
+ * - コンポーネント宣言直前のドキュメントコメントの特定
+ * - Props型（interface / type alias / 型リテラル）の各メンバーのコメント抽出
+ * - コメント本文の説明文とタグへの分解
+ *
+ * 対応するタグ:
+ * - @default / @defaultValue: デフォルト値
+ * - @example: 使用例（複数可、コードフェンスは除去）
+ * - @deprecated: 非推奨（理由は任意）
+ * - @since: 導入バージョン
+ * - @see: 参照先（複数可）
+ *
+ * 使用例:
+ * const extractor = new DocCommentExtractor();
+ * const componentDoc = extractor.extractComponentDoc(ast, 'Button');
+ * const propDocs = extractor.extractMemberDocs(ast, typeAnnotationNode);
+ *
+ * 他クラスとの関係:
+ * - ComponentAnalyzer: コメント付きASTを生成（ast.comments）
+ * - TypeResolver: 型チェッカーから得たコメントとタグをfromTagsで変換
+ * - PropExtractor: 型情報がない場合のPropsコメント抽出に使用
+ */
+export class DocCommentExtractor {
+  /**
+   * コンポーネント宣言のドキュメントコメントを抽出
+   *
+   * トップレベルの宣言（エクスポート宣言を含む）から指定された
+   * コンポーネントを探し、その直前に記述されたドキュメントコメントを解析します。
+   *
+   * @param ast コメント情報（ast.comments）を含むTypeScript ESTree AST
+   * @param componentName 対象コンポーネント名
+   * @returns 解析されたドキュメント情報（コメントがない場合はundefined）
+   */
+  extractComponentDoc(ast: any, componentName: string): DocComment | undefined {
+    const body: any[] = ast?.body || [];
+
+    for (let i = 0; i < body.length; i++) {
+      if (this.declaresComponent(body[i], componentName)) {
+        const previousEnd = i > 0 ? body[i - 1].range?.[1] ?? 0 : 0;
+        return this.getLeadingDocComment(ast, body[i], previousEnd);
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Props型の各メンバーのドキュメントコメントを抽出
+   *
+   * 型注釈を辿り、同一ファイル内で宣言されたinterface・type alias・型リテラルの
+   * メンバーに付与されたコメントを収集します。交差型やinterfaceの継承
+   * （同一ファイル内の宣言に限る）も再帰的に辿ります。
+   *
+   * @param ast コメント情報を含むTypeScript ESTree AST
+   * @param typeNode Props型を表す型ノード（TSTypeReference / TSTypeLiteral等）
+   * @returns プロパティ名とドキュメント情報のマップ
+   */
+  extractMemberDocs(ast: any, typeNode: any): Map<string, DocComment> {
+    const docs = new Map<string, DocComment>();
+    this.collectMemberDocs(ast, typeNode, docs, new Set());
+    return docs;
+  }
+
+  /**
+   * 説明文とタグ一覧からDocCommentを構築
+   *
+   * ESTreeのコメント解析結果と、型チェッカーから取得したJSDoc情報の
+   * 両方を同じ形式に揃えるための共通処理です。
+   *
+   * @param description 説明文
+   * @param tags タグ名とテキストの一覧
+   * @returns ドキュメント情報（内容がない場合はundefined）
+   */
+  fromTags(description: string, tags: Array<{ name: string; text?: string }>): DocComment | undefined {
+    const doc: DocComment = {};
+
+    const normalizedDescription = this.normalizeText(description);
+    if (normalizedDescription) {
+      doc.description = normalizedDescription;
+    }
+
+    for (const tag of tags) {
+      const text = (tag.text || '').trim();
+
+      switch (tag.name) {
+        case 'default':
+        case 'defaultValue':
+          if (text) doc.defaultValue = text.replace(/^`(.*)`$/s, '$1');
+          break;
+        case 'example':
+          if (text) (doc.examples = doc.examples || []).push(this.stripCodeFence(text));
+          break;
+        case 'deprecated':
+          doc.deprecated = this.normalizeText(text) || true;
+          break;
+        case 'since':
+          if (text) doc.since = text;
+          break;
+        case 'see':
+          if (text) (doc.see = doc.see || []).push(this.normalizeText(text));
+          break;
+      }
+    }
+
+    return Object.keys(doc).length > 0 ? doc : undefined;
+  }
+
+  /**
+   * ドキュメントコメント本文を解析
+   *
+   * 行頭のアスタリスクを除去し、最初のタグまでを説明文、
+   * 以降を各タグの本文として分解します。@exampleの本文は改行とインデントを保持します。
+   *
+   * @param value コメント本文（ESTreeのBlockコメントのvalue）
+   * @returns ドキュメント情報（内容がない場合はundefined）
+   */
+  parseComment(value: string): DocComment | undefined {
+    const lines = value
+      .replace(/^\*/, '')
+      .split('\n')
+      .map(line => line.replace(/^\s*\* ?/, '').replace(/\s+$/, ''));
+
+    const descriptionLines: string[] = [];
+    const tags: Array<{ name: string; text: string }> = [];
+
+    for (const line of lines) {
+      const tagMatch = line.match(/^\s*@(\w+)\s?(.*)$/);
+      if (tagMatch) {
+        tags.push({ name: tagMatch[1], text: tagMatch[2] });
+      } else if (tags.length > 0) {
+        // 直前のタグの続き行
+        tags[tags.length - 1].text += `\n${line}`;
+      } else {
+        descriptionLines.push(line);
+      }
+    }
+
+    return this.fromTags(descriptionLines.join('\n'), tags);
+  }
+
+  /**
+   * ノード直前のドキュメントコメントを取得
+   *
+   * 直前の兄弟ノードの終端から対象ノードの先頭までの範囲にある
+   * 「/**」で始まるブロックコメントのうち、最も対象ノードに近いものを採用します。
+   *
+   * @param ast コメント情報を含むAST
+   * @param node 対象ノード
+   * @param previousEnd 直前の兄弟ノードの終端位置
+   * @returns ドキュメント情報（該当コメントがない場合はundefined）
+   */
+  private getLeadingDocComment(ast: any, node: any, previousEnd: number): DocComment | undefined {
+    if (!node?.range || !Array.isArray(ast?.comments)) {
+      return undefined;
+    }
+
+    const candidates = ast.comments.filter((comment: any) =>
+      comment.type === 'Block' &&
+      comment.value.startsWith('*') &&
+      comment.range[0] >= previousEnd &&
+      comment.range[1] <= node.range[0]
+    );
+
+    const nearest = candidates[candidates.length - 1];
+    return nearest ? this.parseComment(nearest.value) : undefined;
+  }
+
+  /**
+   * トップレベル文が指定コンポーネントを宣言しているか判定
+   *
+   * @param statement トップレベル文
+   * @param componentName 対象コンポーネント名
+   * @returns 宣言している場合true
+   */
+  private declaresComponent(statement: any, componentName: string): boolean {
+    const isExport = statement.type === 'ExportNamedDeclaration' || statement.type === 'ExportDefaultDeclaration';
+    const declaration = isExport ? statement.declaration : statement;
+    if (!declaration) return false;
+
+    switch (declaration.type) {
+      case 'FunctionDeclaration':
+      case 'ClassDeclaration':
+        // 名前なしのデフォルトエクスポートはファイル名由来の名前として扱う
+        return declaration.id ? declaration.id.name === componentName : statement.type === 'ExportDefaultDeclaration';
+      case 'VariableDeclaration':
+        return declaration.declarations.some(
+          (declarator: any) => declarator.id?.type === 'Identifier' && declarator.id.name === componentName
+        );
+      case 'ArrowFunctionExpression':
+      case 'FunctionExpression':
+      case 'CallExpression':  // export default memo(...) 等のラップされた匿名コンポーネント
+        return statement.type === 'ExportDefaultDeclaration';
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * 型ノードを再帰的に辿ってメンバーのコメントを収集
+   *
+   * @param ast AST全体（ローカル型宣言の検索用）
+   * @param typeNode 現在の型ノード
+   * @param docs 収集結果（参照渡し）
+   * @param visited 循環参照防止用の訪問済み型名
+   */
+  private collectMemberDocs(ast: any, typeNode: any, docs: Map<string, DocComment>, visited: Set<string>): void {
+    if (!typeNode) return;
+
+    switch (typeNode.type) {
+      case 'TSTypeAnnotation':
+        this.collectMemberDocs(ast, typeNode.typeAnnotation, docs, visited);
+        break;
+      case 'TSTypeLiteral':
+        this.collectFromMembers(ast, typeNode.members, typeNode.range?.[0] ?? 0, docs);
+        break;
+      case 'TSIntersectionType':
+      case 'TSUnionType':
+        typeNode.types.forEach((type: any) => this.collectMemberDocs(ast, type, docs, visited));
+        break;
+      case 'TSTypeReference': {
+        const typeName = typeNode.typeName?.type === 'Identifier' ? typeNode.typeName.name : null;
+        if (!typeName || visited.has(typeName)) break;
+        visited.add(typeName);
+
+        const declaration = this.findLocalTypeDeclaration(ast, typeName);
+        if (declaration?.type === 'TSInterfaceDeclaration') {
+          // 継承元のinterfaceを先に処理し、自身の宣言で上書きする
+          (declaration.extends || []).forEach((heritage: any) => {
+            if (heritage.expression?.type === 'Identifier') {
+              this.collectMemberDocs(ast, { type: 'TSTypeReference', typeName: heritage.expression }, docs, visited);
+            }
+          });
+          this.collectFromMembers(ast, declaration.body.body, declaration.body.range?.[0] ?? 0, docs);
+        } else if (declaration?.type === 'TSTypeAliasDeclaration') {
+          this.collectMemberDocs(ast, declaration.typeAnnotation, docs, visited);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * 型メンバー一覧から各メンバーのコメントを収集
+   *
+   * @param ast コメント情報を含むAST
+   * @param members TSPropertySignature等のメンバーノード一覧
+   * @param containerStart メンバーを囲む型本体の開始位置
+   * @param docs 収集結果（参照渡し）
+   */
+  private collectFromMembers(ast: any, members: any[], containerStart: number, docs: Map<string, DocComment>): void {
+    members.forEach((member: any, index: number) => {
+      const name = member.key?.type === 'Identifier' ? member.key.name :
+                   member.key?.type === 'Literal' ? String(member.key.value) : null;
+      if (!name) return;
+
+      const previousEnd = index > 0 ? members[index - 1].range?.[1] ?? containerStart : containerStart;
+      const doc = this.getLeadingDocComment(ast, member, previousEnd);
+      if (doc) {
+        docs.set(name, doc);
+      }
+    });
+  }
+
+  /**
+   * 同一ファイル内のinterface/type alias宣言を検索
+   *
+   * @param ast AST全体
+   * @param typeName 型名
+   * @returns 宣言ノード（見つからない場合はnull）
+   */
+  private findLocalTypeDeclaration(ast: any, typeName: string): any | null {
+    for (const { declaration } of topLevelDeclarations(ast)) {
+      if ((declaration?.type === 'TSInterfaceDeclaration' || declaration?.type === 'TSTypeAliasDeclaration') &&
+          declaration.id?.name === typeName) {
+        return declaration;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 説明文の正規化
+   *
+   * 前後の空白を除去し、インラインの{@link Target label}を表示テキストに置き換えます。
+   *
+   * @param text 元のテキスト
+   * @returns 正規化されたテキスト
+   */
+  private normalizeText(text: string): string {
+    return text
+      .replace(/\{@link(?:code|plain)?\s+([^}\s|]+)(?:[\s|]+([^}]+))?\}/g, (_match, target, label) => label || target)
+      .trim();
+  }
+
+  /**
+   * @example本文からMarkdownのコードフェンスを除去
+   *
+   * @param text @exampleの本文
+   * @returns コード部分のみのテキスト
+   */
+  private stripCodeFence(text: string): string {
+    const fenced = text.match(/```[\w-]*\n([\s\S]*?)\n?```/);
+    return (fenced ? fenced[1] : text).replace(/\s+$/, '');
+  }
+}
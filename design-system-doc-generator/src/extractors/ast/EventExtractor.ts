@@ -0,0 +1,393 @@
+import { EventParameter } from '../../types';
+import { topLevelDeclarations } from './TopLevelDeclarations';
+
+// 型から解決したコールバックのシグネチャ
+export interface CallbackSignature {
+  parameters: EventParameter[];
+  returnType?: string;
+}
+
+// コンポーネント内でのコールバックPropの使われ方
+export interface CallbackUsage {
+  invocations: string[][];  // 呼び出しの実引数
+  forwardedTo: string[];    // そのまま渡している要素
+}
+
+// 型キーワードノード → 表示名
+const KEYWORD_TYPES: Record<string, string> = {
+  TSStringKeyword: 'string',
+  TSNumberKeyword: 'number',
+  TSBooleanKeyword: 'boolean',
+  TSVoidKeyword: 'void',
+  TSAnyKeyword: 'any',
+  TSUnknownKeyword: 'unknown',
+  TSNeverKeyword: 'never',
+  TSNullKeyword: 'null',
+  TSUndefinedKeyword: 'undefined',
+  TSObjectKeyword: 'object',
+  TSSymbolKeyword: 'symbol',
+  TSBigIntKeyword: 'bigint',
+};
+
+/**
+ * EventExtractor - コールバックProp（イベントハンドラ）抽出クラス
+ *
+ * このクラスは、onChange・onSelect のようなコールバックPropについて、
+ * Props型に宣言されたシグネチャ（引数・戻り値の型）と、コンポーネント内で実際に
+ * どのような引数で呼び出しているかを抽出します。型チェッカーを利用できない場合に、
+ * 同一ファイル内の型宣言から構文的にシグネチャを解決する役割も担います。
+ *
+ * 主な責務:
+ * - Props型（型リテラル・interface・type alias・交差型）の関数型メンバーの抽出
+ * - 型ノードのドキュメント表示用文字列への変換
+ * - コンポーネント内のコールバック呼び出し（onChange?.(value, event)）の実引数の収集
+ * - コールバックをそのまま渡している要素（<input onChange={onChange} />）の検出
+ *
+ * 対応パターン:
+ * - onChange?: (value: string, event: React.ChangeEvent<HTMLInputElement>) => void
+ * - onSelect(item: Item): void（メソッドシグネチャ）
+ * - ({ onChange }) => onChange?.(value) / ({ onChange: handleChange }) => handleChange(value)
+ * - (props) => props.onChange(value) / const { onChange } = props
+ *
+ * 制限事項:
+ * - 構文的な解決は同一ファイル内の型宣言のみ（インポートした型・ライブラリの型は型チェッカー経由）
+ * - 実引数は識別子・メンバー式・リテラル以外を省略記号で表記
+ *
+ * 使用例:
+ * const signatures = extractor.collectSignatures(ast, propsTypeNode);
+ * // => Map { 'onChange' => { parameters: [{ name: 'value', type: 'string', optional: false }], returnType: 'void' } }
+ * const usages = extractor.collectUsages(componentFunction, ['onChange']);
+ * // => Map { 'onChange' => { invocations: [['event.target.value', 'event']], forwardedTo: [] } }
+ *
+ * 他クラスとの関係:
+ * - PropExtractor: コンポーネント定義を特定してこのクラスを呼び出し、PropInfo.event を構築
+ * - TypeResolver: 型情報付きパース時は型チェッカーでシグネチャを解決（このクラスより優先）
+ */
+export class EventExtractor {
+  /**
+   * Props型の関数型メンバーのシグネチャを収集
+   *
+   * @param ast AST全体（ローカル型宣言の検索用）
+   * @param typeNode Props型を表す型ノード
+   * @returns Prop名 → シグネチャ
+   */
+  collectSignatures(ast: any, typeNode: any): Map<string, CallbackSignature> {
+    const signatures = new Map<string, CallbackSignature>();
+    this.collectFromType(ast, typeNode, signatures, new Set());
+    return signatures;
+  }
+
+  /**
+   * コンポーネント関数内でのコールバックPropの使われ方を収集
+   *
+   * @param fn コンポーネントの描画関数ノード
+   * @param propNames 対象のProp名
+   * @returns Prop名 → 使われ方（呼び出しも受け渡しもないPropは含まない）
+   */
+  collectUsages(fn: any, propNames: string[]): Map<string, CallbackUsage> {
+    const usages = new Map<string, CallbackUsage>();
+    const aliases = new Map<string, string>();  // ローカル変数名 → Prop名
+    const propsObjects = new Set<string>();     // props全体を受け取っている変数名
+
+    const collectAliases = (pattern: any) => {
+      pattern.properties.forEach((property: any) => {
+        if (property.type !== 'Property' || property.key.type !== 'Identifier') return;
+        const value = property.value?.type === 'AssignmentPattern' ? property.value.left : property.value;
+        if (value?.type === 'Identifier' && propNames.includes(property.key.name)) {
+          aliases.set(value.name, property.key.name);
+        }
+      });
+    };
+
+    const param = fn?.params?.[0]?.type === 'AssignmentPattern' ? fn.params[0].left : fn?.params?.[0];
+    if (param?.type === 'ObjectPattern') collectAliases(param);
+    if (param?.type === 'Identifier') propsObjects.add(param.name);
+
+    // onChange / handleChange（別名）/ props.onChange の参照をProp名に解決
+    const resolveProp = (node: any): string | null => {
+      if (node?.type === 'Identifier') return aliases.get(node.name) ?? null;
+      if (node?.type === 'MemberExpression' && !node.computed && node.object.type === 'Identifier' &&
+          propsObjects.has(node.object.name) && propNames.includes(node.property.name)) {
+        return node.property.name;
+      }
+      return null;
+    };
+    const usageOf = (propName: string) => {
+      if (!usages.has(propName)) usages.set(propName, { invocations: [], forwardedTo: [] });
+      return usages.get(propName)!;
+    };
+
+    const visit = (node: any) => {
+      if (!node || typeof node !== 'object') return;
+
+      // const { onChange } = props;
+      if (node.type === 'VariableDeclarator' && node.id?.type === 'ObjectPattern' &&
+          node.init?.type === 'Identifier' && propsObjects.has(node.init.name)) {
+        collectAliases(node.id);
+      }
+
+      // onChange(value) / onChange?.(value) / props.onChange(value)
+      if (node.type === 'CallExpression') {
+        const propName = resolveProp(node.callee);
+        if (propName) {
+          const args = node.arguments.map((arg: any) => this.describeExpression(arg));
+          const usage = usageOf(propName);
+          if (!usage.invocations.some(existing => existing.join(',') === args.join(','))) {
+            usage.invocations.push(args);
+          }
+        }
+      }
+
+      // <input onChange={onChange} />
+      if (node.type === 'JSXOpeningElement') {
+        const target = this.getJSXName(node.name);
+        node.attributes.forEach((attribute: any) => {
+          const propName = attribute.type === 'JSXAttribute' && attribute.value?.type === 'JSXExpressionContainer'
+            ? resolveProp(attribute.value.expression)
+            : null;
+          if (propName && target && !usageOf(propName).forwardedTo.includes(target)) {
+            usageOf(propName).forwardedTo.push(target);
+          }
+        });
+      }
+
+      for (const key in node) {
+        if (key !== 'parent' && node[key] && typeof node[key] === 'object') {
+          visit(node[key]);
+        }
+      }
+    };
+    visit(fn?.body);
+
+    return usages;
+  }
+
+  /**
+   * 型ノードを再帰的に辿って関数型メンバーを収集
+   *
+   * @param ast AST全体
+   * @param typeNode 現在の型ノード
+   * @param signatures 収集結果（参照渡し）
+   * @param visited 循環参照防止用の訪問済み型名
+   */
+  private collectFromType(ast: any, typeNode: any, signatures: Map<string, CallbackSignature>, visited: Set<string>): void {
+    if (!typeNode) return;
+
+    switch (typeNode.type) {
+      case 'TSTypeAnnotation':
+        this.collectFromType(ast, typeNode.typeAnnotation, signatures, visited);
+        break;
+      case 'TSTypeLiteral':
+        this.collectFromMembers(typeNode.members, signatures);
+        break;
+      case 'TSIntersectionType':
+        typeNode.types.forEach((type: any) => this.collectFromType(ast, type, signatures, visited));
+        break;
+      case 'TSTypeReference': {
+        const typeName = typeNode.typeName?.type === 'Identifier' ? typeNode.typeName.name : null;
+        if (!typeName || visited.has(typeName)) break;
+        visited.add(typeName);
+
+        const declaration = this.findLocalTypeDeclaration(ast, typeName);
+        if (declaration?.type === 'TSInterfaceDeclaration') {
+          // 継承元のinterfaceを先に処理し、自身の宣言で上書きする
+          (declaration.extends || []).forEach((heritage: any) => {
+            if (heritage.expression?.type === 'Identifier') {
+              this.collectFromType(ast, { type: 'TSTypeReference', typeName: heritage.expression }, signatures, visited);
+            }
+          });
+          this.collectFromMembers(declaration.body.body, signatures);
+        } else if (declaration?.type === 'TSTypeAliasDeclaration') {
+          this.collectFromType(ast, declaration.typeAnnotation, signatures, visited);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * 型メンバーから関数型のプロパティ・メソッドシグネチャを収集
+   *
+   * @param members 型メンバーノード一覧
+   * @param signatures 収集結果（参照渡し）
+   */
+  private collectFromMembers(members: any[], signatures: Map<string, CallbackSignature>): void {
+    members.forEach((member: any) => {
+      const name = member.key?.type === 'Identifier' ? member.key.name :
+                   member.key?.type === 'Literal' ? String(member.key.value) : null;
+      if (!name) return;
+
+      if (member.type === 'TSMethodSignature') {
+        signatures.set(name, this.toSignature(member));
+        return;
+      }
+
+      // onChange?: (value: string) => void / onChange: ((value: string) => void) | undefined
+      const type = member.typeAnnotation?.typeAnnotation;
+      const functionType = type?.type === 'TSFunctionType' ? type :
+                           type?.type === 'TSUnionType' ? type.types.find((t: any) => t.type === 'TSFunctionType') : null;
+      if (member.type === 'TSPropertySignature' && functionType) {
+        signatures.set(name, this.toSignature(functionType));
+      }
+    });
+  }
+
+  /**
+   * 関数型・メソッドシグネチャノードをシグネチャに変換
+   *
+   * @param node TSFunctionType / TSMethodSignature
+   * @returns 引数と戻り値の型
+   */
+  private toSignature(node: any): CallbackSignature {
+    const params = node.params || node.parameters || [];
+    const returnType = (node.returnType || node.typeAnnotation)?.typeAnnotation;
+
+    return {
+      parameters: params.map((param: any) => {
+        const target = param.type === 'RestElement' ? param.argument : param;
+        return {
+          name: `${param.type === 'RestElement' ? '...' : ''}${target.name ?? 'arg'}`,
+          type: this.typeToString((param.typeAnnotation || target.typeAnnotation)?.typeAnnotation),
+          optional: !!target.optional,
+        };
+      }),
+      ...(returnType && { returnType: this.typeToString(returnType) }),
+    };
+  }
+
+  /**
+   * 型ノードをドキュメント表示用の文字列に変換
+   *
+   * @param node 型ノード
+   * @returns 型文字列（型注釈がない場合・未対応の型は 'any'）
+   */
+  typeToString(node: any): string {
+    if (!node) return 'any';
+    if (KEYWORD_TYPES[node.type]) return KEYWORD_TYPES[node.type];
+
+    switch (node.type) {
+      case 'TSTypeReference': {
+        // 旧バージョンのパーサーは typeParameters に型引数を保持する
+        const typeArguments = ('typeArguments' in node ? node.typeArguments : node.typeParameters)?.params;
+        const name = this.getEntityName(node.typeName);
+        return typeArguments?.length ? `${name}<${typeArguments.map((arg: any) => this.typeToString(arg)).join(', ')}>` : name;
+      }
+      case 'TSLiteralType':
+        return node.literal.type === 'Literal' ? node.literal.raw : this.typeToString(node.literal);
+      case 'TSUnionType':
+        return node.types.map((type: any) => this.typeToString(type)).join(' | ');
+      case 'TSIntersectionType':
+        return node.types.map((type: any) => this.typeToString(type)).join(' & ');
+      case 'TSArrayType':
+        return `${this.typeToString(node.elementType)}[]`;
+      case 'TSTupleType':
+        return `[${node.elementTypes.map((type: any) => this.typeToString(type)).join(', ')}]`;
+      case 'TSFunctionType': {
+        const signature = this.toSignature(node);
+        const params = signature.parameters.map(param => `${param.name}${param.optional ? '?' : ''}: ${param.type}`);
+        return `(${params.join(', ')}) => ${signature.returnType ?? 'void'}`;
+      }
+      case 'TSTypeLiteral':
+        return `{ ${node.members.map((member: any) => {
+          const name = member.key?.name ?? member.key?.value;
+          return `${name}${member.optional ? '?' : ''}: ${this.typeToString(member.typeAnnotation?.typeAnnotation)}`;
+        }).join('; ')} }`;
+      case 'TSTypeOperator':
+        return `${node.operator} ${this.typeToString(node.typeAnnotation)}`;
+      case 'TSIndexedAccessType':
+        return `${this.typeToString(node.objectType)}[${this.typeToString(node.indexType)}]`;
+      case 'TSTypeQuery':
+        return `typeof ${this.getEntityName(node.exprName)}`;
+      default:
+        return 'any';
+    }
+  }
+
+  /**
+   * 実引数の式を表示用の文字列に変換
+   *
+   * @param node 式ノード
+   * @returns 式の文字列（value、event.target.value、'open' 等。複雑な式は省略記号）
+   */
+  describeExpression(node: any): string {
+    switch (node?.type) {
+      case 'Identifier':
+        return node.name;
+      case 'ThisExpression':
+        return 'this';
+      case 'Literal':
+        return node.raw ?? String(node.value);
+      case 'MemberExpression': {
+        const object = this.describeExpression(node.object);
+        return node.computed
+          ? `${object}[${this.describeExpression(node.property)}]`
+          : `${object}.${node.property.name}`;
+      }
+      case 'SpreadElement':
+        return `...${this.describeExpression(node.argument)}`;
+      case 'UnaryExpression':
+        return `${node.operator}${this.describeExpression(node.argument)}`;
+      case 'ObjectExpression':
+        return `{ ${node.properties.map((property: any) =>
+          property.type === 'SpreadElement' ? this.describeExpression(property) : property.key?.name ?? '…'
+        ).join(', ')} }`;
+      case 'ArrayExpression':
+        return '[…]';
+      case 'ArrowFunctionExpression':
+      case 'FunctionExpression':
+        return '() => …';
+      case 'CallExpression':
+        return `${this.describeExpression(node.callee)}(…)`;
+      case 'TSAsExpression':
+      case 'TSNonNullExpression':
+        return this.describeExpression(node.expression);
+      default:
+        return '…';
+    }
+  }
+
+  /**
+   * 型名（Identifier / TSQualifiedName）の文字列化
+   *
+   * @param node 型名ノード
+   * @returns 型名（React.ChangeEvent 等）
+   */
+  private getEntityName(node: any): string {
+    if (node?.type === 'TSQualifiedName') {
+      return `${this.getEntityName(node.left)}.${node.right.name}`;
+    }
+    return node?.name ?? 'any';
+  }
+
+  /**
+   * JSX要素名の文字列化
+   *
+   * @param name JSXIdentifier / JSXMemberExpression ノード
+   * @returns 要素名（input、Menu.Item 等。解決できない場合はnull）
+   */
+  private getJSXName(name: any): string | null {
+    if (name?.type === 'JSXIdentifier') return name.name;
+    if (name?.type === 'JSXMemberExpression') {
+      const object = this.getJSXName(name.object);
+      return object ? `${object}.${name.property.name}` : null;
+    }
+    return null;
+  }
+
+  /**
+   * 同一ファイル内のinterface/type alias宣言を検索
+   *
+   * @param ast AST全体
+   * @param typeName 型名
+   * @returns 宣言ノード（見つからない場合はnull）
+   */
+  private findLocalTypeDeclaration(ast: any, typeName: string): any | null {
+    for (const { declaration } of topLevelDeclarations(ast)) {
+      if ((declaration?.type === 'TSInterfaceDeclaration' || declaration?.type === 'TSTypeAliasDeclaration') &&
+          declaration.id?.name === typeName) {
+        return declaration;
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,223 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ComponentImport } from '../../types';
+import { TypeResolver } from './TypeResolver';
+const { parse } = require('@typescript-eslint/typescript-estree');
+
+/**
+ * ImportResolver - インポートの定義元解決クラス
+ *
+ * このクラスは、コンポーネントファイルのインポート宣言をプロジェクト内のファイルに解決し、
+ * バレルファイル（index.ts）の再エクスポートを辿って実際の定義元を特定する役割を担います。
+ * 解決結果はコンポーネントの構成グラフ（CompositionGraphBuilder）の構築に使用されます。
+ *
+ * 主な責務:
+ * - 相対パス・tsconfig の paths エイリアスによるインポートの解決（TypeResolver経由）
+ * - バレルファイルの再エクスポート（export { X } from './X'、export * from './X'）の追跡
+ * - 外部ライブラリ（react 等）のインポートの除外
+ *
+ * 対応パターン:
+ * - import { Button } from './Button'
+ * - import { Button, Badge } from '@/components/ui'（ui/index.ts が再エクスポート）
+ * - import Card from '../Card'
+ * - import * as UI from './ui'（名前空間インポート。importedName は '*'）
+ *
+ * 使用例:
+ * const resolver = new ImportResolver(typeResolver);
+ * const imports = resolver.resolveImports(ast, './src/ProductCard.tsx');
+ * // => [{ localName: 'Button', importedName: 'Button', source: '@/components/ui', resolvedPath: '/src/ui/Button.tsx' }]
+ *
+ * 他クラスとの関係:
+ * - TypeResolver: tsconfig に基づくモジュール解決（省略時は相対パスのみ解決）
+ * - TailwindExtractor: ファイル毎にインポートを解決してコンポーネントに記録
+ * - CompositionGraphBuilder: JSX要素名とインポートを突き合わせて構成グラフを構築
+ */
+export class ImportResolver {
+  private typeResolver?: TypeResolver;                 // tsconfig に基づくモジュール解決
+  private maxDepth: number;                            // 再エクスポートを辿る最大段数
+  private moduleCache = new Map<string, any | null>();  // ファイルパス → AST（パース失敗時はnull）
+
+  /**
+   * @param typeResolver tsconfig に基づくモジュール解決（省略時は相対パスのみ）
+   * @param maxDepth 再エクスポートを辿る最大段数
+   */
+  constructor(typeResolver?: TypeResolver, maxDepth = 5) {
+    this.typeResolver = typeResolver;
+    this.maxDepth = maxDepth;
+  }
+
+  /**
+   * ファイル内のインポートをプロジェクト内の定義元に解決
+   *
+   * @param ast ファイルのAST
+   * @param filePath ファイルのパス
+   * @returns 解決できたインポート（外部ライブラリ・型のみのインポートは除外）
+   */
+  resolveImports(ast: any, filePath: string): ComponentImport[] {
+    const imports: ComponentImport[] = [];
+
+    for (const statement of ast?.body || []) {
+      if (statement.type !== 'ImportDeclaration' || statement.importKind === 'type') continue;
+
+      const modulePath = this.resolveModulePath(statement.source.value, filePath);
+      if (!modulePath) continue;
+
+      for (const specifier of statement.specifiers) {
+        if (specifier.importKind === 'type') continue;
+
+        const importedName = specifier.type === 'ImportNamespaceSpecifier' ? '*' :
+                             specifier.type === 'ImportDefaultSpecifier' ? 'default' :
+                             this.getName(specifier.imported);
+        imports.push({
+          localName: specifier.local.name,
+          importedName,
+          source: statement.source.value,
+          resolvedPath: importedName === '*'
+            ? modulePath
+            : this.findDefinition(modulePath, importedName, 0) || modulePath,
+        });
+      }
+    }
+
+    return imports;
+  }
+
+  /**
+   * エクスポート名の定義元ファイルを再エクスポートを辿って検索
+   *
+   * @param filePath 検索するファイル
+   * @param exportName エクスポート名
+   * @param depth 現在の段数
+   * @returns 定義元のファイルパス（このファイルからエクスポートされていない場合はnull）
+   */
+  private findDefinition(filePath: string, exportName: string, depth: number): string | null {
+    const ast = depth <= this.maxDepth ? this.loadModule(filePath) : null;
+    if (!ast) return null;
+
+    for (const statement of ast.body) {
+      if (statement.type === 'ExportDefaultDeclaration' && exportName === 'default') {
+        // export default Button（インポートした識別子の再エクスポート）
+        return statement.declaration.type === 'Identifier'
+          ? this.findImportedDefinition(ast, filePath, statement.declaration.name, depth) || filePath
+          : filePath;
+      }
+
+      if (statement.type === 'ExportNamedDeclaration') {
+        if (this.declaresName(statement.declaration, exportName)) {
+          return filePath;
+        }
+
+        const specifier = statement.specifiers?.find((s: any) => this.getName(s.exported) === exportName);
+        if (specifier) {
+          const localName = this.getName(specifier.local);
+          // export { Button } from './Button' / export { default as Button } from './Button'
+          if (statement.source) {
+            const modulePath = this.resolveModulePath(statement.source.value, filePath);
+            return modulePath ? this.findDefinition(modulePath, localName, depth + 1) || modulePath : null;
+          }
+          // import { Button } from './Button'; export { Button };
+          return this.findImportedDefinition(ast, filePath, localName, depth) || filePath;
+        }
+      }
+
+      // export * from './Button'
+      if (statement.type === 'ExportAllDeclaration' && !statement.exported && exportName !== 'default') {
+        const modulePath = this.resolveModulePath(statement.source.value, filePath);
+        const definition = modulePath && this.findDefinition(modulePath, exportName, depth + 1);
+        if (definition) return definition;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * ファイル内でインポートした識別子の定義元を検索
+   *
+   * @param ast ファイルのAST
+   * @param filePath ファイルのパス
+   * @param localName ファイル内での名前
+   * @param depth 現在の段数
+   * @returns 定義元のファイルパス（インポートでない場合はnull）
+   */
+  private findImportedDefinition(ast: any, filePath: string, localName: string, depth: number): string | null {
+    for (const statement of ast.body) {
+      if (statement.type !== 'ImportDeclaration') continue;
+
+      const specifier = statement.specifiers.find((s: any) => s.local.name === localName);
+      if (!specifier || specifier.type === 'ImportNamespaceSpecifier') continue;
+
+      const modulePath = this.resolveModulePath(statement.source.value, filePath);
+      if (!modulePath) return null;
+
+      const importedName = specifier.type === 'ImportDefaultSpecifier' ? 'default' : this.getName(specifier.imported);
+      return this.findDefinition(modulePath, importedName, depth + 1) || modulePath;
+    }
+    return null;
+  }
+
+  /**
+   * 宣言が指定名を定義しているか判定
+   *
+   * @param declaration export に続く宣言ノード
+   * @param name 名前
+   * @returns 関数・クラス・変数として定義している場合true
+   */
+  private declaresName(declaration: any, name: string): boolean {
+    if (!declaration) return false;
+    if (declaration.type === 'VariableDeclaration') {
+      return declaration.declarations.some((d: any) => d.id?.type === 'Identifier' && d.id.name === name);
+    }
+    return declaration.id?.name === name;
+  }
+
+  /**
+   * インポート指定子をファイルパスに解決
+   *
+   * @param specifier インポート指定子
+   * @param fromFile インポートしているファイル
+   * @returns ファイルパス（外部ライブラリ・見つからない場合はnull）
+   */
+  private resolveModulePath(specifier: string, fromFile: string): string | null {
+    if (this.typeResolver) {
+      return this.typeResolver.resolveModulePath(specifier, fromFile);
+    }
+    if (!specifier.startsWith('.')) {
+      return null;
+    }
+
+    const basePath = path.resolve(path.dirname(fromFile), specifier);
+    const candidates = ['', '.tsx', '.ts', '.jsx', '.js', '/index.tsx', '/index.ts', '/index.js']
+      .map(ext => basePath + ext);
+    return candidates.find(candidate => fs.existsSync(candidate) && fs.statSync(candidate).isFile()) || null;
+  }
+
+  /**
+   * モジュールを読み込んでパース（結果はキャッシュ）
+   *
+   * @param filePath モジュールのファイルパス
+   * @returns AST（読み込み・パースに失敗した場合はnull）
+   */
+  private loadModule(filePath: string): any | null {
+    if (!this.moduleCache.has(filePath)) {
+      try {
+        const content = fs.readFileSync(filePath, 'utf-8');
+        this.moduleCache.set(filePath, parse(content, { jsx: /\.[jt]sx$/.test(filePath) }));
+      } catch (error) {
+        console.warn(`Failed to resolve re-exports from ${filePath}:`, error);
+        this.moduleCache.set(filePath, null);
+      }
+    }
+    return this.moduleCache.get(filePath);
+  }
+
+  /**
+   * 識別子・文字列リテラル（export { x as 'y' }）の名前を取得
+   *
+   * @param node 識別子または文字列リテラル
+   * @returns 名前
+   */
+  private getName(node: any): string {
+    return node?.type === 'Identifier' ? node.name : String(node?.value);
+  }
+}
@@ -72,6 +72,19 @@ export class JSXStructureExtractor {
     return this.processJSXNode(returnStatement.argument);
   }
 
+  /**
+   * JSX要素ノードから要素名を収集
+   * 
+   * 最初のJSXリターンのみを対象とする extractJSXStructure と異なり、
+   * 条件分岐・早期リターン・変数に代入したJSXを含む全ての要素を対象とします。
+   * 
+   * @param elements - JSXElementノード（ASTTraverser の onJSXElement で収集したもの）
+   * @returns 要素名（出現順・重複なし）
+   */
+  extractElementNames(elements: any[]): string[] {
+    return Array.from(new Set(elements.map(element => this.getJSXElementType(element.openingElement))));
+  }
+
   /**
    * AST内のreturn文検索処理
    * 
@@ -0,0 +1,244 @@
+// マークアップの属性
+export interface MarkupAttribute {
+  name: string;           // class、:class、on:click、{...rest}（Svelteの省略記法は波括弧の中身）
+  value: string | null;   // 値（値のない属性はnull、{...} 形式は波括弧の中身）
+  expression: boolean;    // {...} 形式の値（Svelte）の場合true
+}
+
+// マークアップの要素
+export interface MarkupNode {
+  tag: string;
+  attributes: MarkupAttribute[];
+  children: Array<MarkupNode | string>;  // 文字列はテキスト（{{ }} / {#if} 等の波括弧ブロックを含む）
+}
+
+// 終了タグを持たないHTML要素
+const VOID_ELEMENTS = ['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'];
+
+// 内容をマークアップとして解析しない要素
+const RAW_TEXT_ELEMENTS = ['script', 'style'];
+
+/**
+ * MarkupParser - テンプレート構文（Vue / Svelte）のマークアップ解析クラス
+ *
+ * このクラスは、HTMLベースのテンプレートを要素ツリーに分解します。属性値の
+ * 引用符と波括弧（Svelte の onclick={() => open = !open}）の対応を追跡するため、
+ * 属性値に「>」を含む記述も正しく扱えます。式の解釈は呼び出し側で行います。
+ *
+ * 主な責務:
+ * - 開始・終了・自己終了タグと空要素（<input> 等）の要素ツリーへの変換
+ * - 引用符付き・波括弧・引用符なしの属性値の読み取り
+ * - テキストと波括弧ブロック（{{ title }} / {#if open}）のテキストノード化
+ * - コメント（<!-- -->）と <script> / <style> の内容の除外
+ *
+ * 制限事項:
+ * - 対応する開始タグのない終了タグは無視し、閉じられていない要素は末尾で閉じたものとみなす
+ * - 省略可能な終了タグ（</li> / </p> 等）の暗黙の補完は行わない
+ *
+ * 使用例:
+ * const nodes = new MarkupParser().parse('<button class="px-4" @click="open = !open">Open</button>');
+ * // => [{ tag: 'button', attributes: [{ name: 'class', value: 'px-4', ... }, ...], children: ['Open'] }]
+ *
+ * 他クラスとの関係:
+ * - TemplateComponentExtractor: Vue / Svelte 抽出クラスの共通処理からこのクラスを使用
+ */
+export class MarkupParser {
+  /**
+   * マークアップを要素ツリーに変換
+   *
+   * @param source テンプレートの文字列
+   * @returns ルートの要素（トップレベルのテキストは含まない）
+   */
+  parse(source: string): MarkupNode[] {
+    const roots: MarkupNode[] = [];
+    const stack: MarkupNode[] = [];
+    let text = '';
+    let index = 0;
+
+    const flushText = () => {
+      const normalized = text.replace(/\s+/g, ' ').trim();
+      if (normalized && stack.length > 0) {
+        stack[stack.length - 1].children.push(normalized);
+      }
+      text = '';
+    };
+
+    while (index < source.length) {
+      // コメント
+      if (source.startsWith('<!--', index)) {
+        const end = source.indexOf('-->', index + 4);
+        index = end < 0 ? source.length : end + 3;
+        continue;
+      }
+
+      // 終了タグ: 対応する開始タグまで閉じる
+      const closing = /^<\/([A-Za-z][\w.:-]*)\s*>/.exec(source.slice(index, index + 200));
+      if (closing) {
+        flushText();
+        const position = stack.map(node => node.tag).lastIndexOf(closing[1]);
+        if (position >= 0) stack.length = position;
+        index += closing[0].length;
+        continue;
+      }
+
+      // 開始タグ
+      if (source[index] === '<' && /[A-Za-z]/.test(source[index + 1] || '')) {
+        flushText();
+        const { node, selfClosing, end } = this.readStartTag(source, index);
+        const parent = stack[stack.length - 1];
+        if (parent) {
+          parent.children.push(node);
+        } else {
+          roots.push(node);
+        }
+        index = end;
+
+        if (RAW_TEXT_ELEMENTS.includes(node.tag.toLowerCase()) && !selfClosing) {
+          const close = source.indexOf(`</${node.tag}`, index);
+          index = close < 0 ? source.length : source.indexOf('>', close) + 1;
+        } else if (!selfClosing && !VOID_ELEMENTS.includes(node.tag.toLowerCase())) {
+          stack.push(node);
+        }
+        continue;
+      }
+
+      // 波括弧ブロック（中の「<」をタグとして扱わない）
+      if (source[index] === '{') {
+        const end = this.findClosingBrace(source, index);
+        text += source.slice(index, end);
+        index = end;
+        continue;
+      }
+
+      text += source[index];
+      index++;
+    }
+    flushText();
+
+    return roots;
+  }
+
+  /**
+   * 開始タグを読み取り
+   *
+   * @param source テンプレートの文字列
+   * @param start 「<」の位置
+   * @returns 要素・自己終了かどうか・タグ末尾の次の位置
+   */
+  private readStartTag(source: string, start: number): { node: MarkupNode; selfClosing: boolean; end: number } {
+    const tagMatch = /^<([A-Za-z][\w.:-]*)/.exec(source.slice(start, start + 200))!;
+    const node: MarkupNode = { tag: tagMatch[1], attributes: [], children: [] };
+    let index = start + tagMatch[0].length;
+
+    while (index < source.length) {
+      while (/\s/.test(source[index])) index++;
+
+      if (source[index] === '>') {
+        return { node, selfClosing: false, end: index + 1 };
+      }
+      if (source.startsWith('/>', index)) {
+        return { node, selfClosing: true, end: index + 2 };
+      }
+
+      // Svelte の省略記法（{disabled}）・スプレッド（{...rest}）
+      if (source[index] === '{') {
+        const end = this.findClosingBrace(source, index);
+        const content = source.slice(index + 1, end - 1).trim();
+        node.attributes.push({ name: content, value: content, expression: true });
+        index = end;
+        continue;
+      }
+
+      const nameMatch = /^[^\s"'>/=]+/.exec(source.slice(index, index + 200));
+      if (!nameMatch) {
+        index++;  // 不正な文字は読み飛ばす
+        continue;
+      }
+      const name = nameMatch[0];
+      index += name.length;
+
+      let lookahead = index;
+      while (/\s/.test(source[lookahead])) lookahead++;
+      if (source[lookahead] !== '=') {
+        node.attributes.push({ name, value: null, expression: false });
+        continue;
+      }
+
+      index = lookahead + 1;
+      while (/\s/.test(source[index])) index++;
+      const quote = source[index];
+
+      if (quote === '"' || quote === '\'') {
+        const end = this.findClosingQuote(source, index);
+        node.attributes.push({ name, value: source.slice(index + 1, end - 1), expression: false });
+        index = end;
+      } else if (quote === '{') {
+        const end = this.findClosingBrace(source, index);
+        node.attributes.push({ name, value: source.slice(index + 1, end - 1).trim(), expression: true });
+        index = end;
+      } else {
+        const valueMatch = /^[^\s>]+/.exec(source.slice(index)) || [''];
+        const value = valueMatch[0].endsWith('/') && source[index + valueMatch[0].length] === '>'
+          ? valueMatch[0].slice(0, -1)
+          : valueMatch[0];
+        node.attributes.push({ name, value, expression: false });
+        index += value.length;
+      }
+    }
+
+    return { node, selfClosing: false, end: source.length };
+  }
+
+  /**
+   * 引用符付きの属性値の終端を検索
+   *
+   * Svelte の class="px-4 {active ? 'a' : "b"}" のように、値の中の波括弧内の
+   * 引用符は終端として扱いません。
+   *
+   * @param source テンプレートの文字列
+   * @param start 開始引用符の位置
+   * @returns 終了引用符の次の位置
+   */
+  private findClosingQuote(source: string, start: number): number {
+    const quote = source[start];
+    let index = start + 1;
+    while (index < source.length) {
+      if (source[index] === '{') {
+        index = this.findClosingBrace(source, index);
+        continue;
+      }
+      if (source[index] === quote) return index + 1;
+      index++;
+    }
+    return source.length;
+  }
+
+  /**
+   * 対応する閉じ波括弧を検索（文字列・テンプレートリテラル内の括弧は無視）
+   *
+   * @param source テンプレートの文字列
+   * @param start 「{」の位置
+   * @returns 閉じ波括弧の次の位置
+   */
+  private findClosingBrace(source: string, start: number): number {
+    let depth = 0;
+    let index = start;
+    while (index < source.length) {
+      const char = source[index];
+      if (char === '"' || char === '\'' || char === '`') {
+        index++;
+        while (index < source.length && source[index] !== char) {
+          if (source[index] === '\\') index++;
+          index++;
+        }
+      } else if (char === '{') {
+        depth++;
+      } else if (char === '}') {
+        depth--;
+        if (depth === 0) return index + 1;
+      }
+      index++;
+    }
+    return source.length;
+  }
+}
@@ -1,4 +1,9 @@
-import { PropInfo } from '../../types';
+import { PropForwarding, PropInfo } from '../../types';
+import { TypeResolver } from './TypeResolver';
+import { DocCommentExtractor } from './DocCommentExtractor';
+import { ComponentUnwrapper } from './ComponentUnwrapper';
+import { EventExtractor } from './EventExtractor';
+import { topLevelDeclarations } from './TopLevelDeclarations';
 
 /**
  * PropExtractor - TypeScript Props抽出専用クラス
@@ -12,6 +17,7 @@ import { PropInfo } from '../../types';
  * 3. Props の型推論（基本的な型情報）
  * 4. デフォルト値の検出と抽出
  * 5. 必須・オプションProps の判定
+ * 6. 残余Props（...rest）の転送先（HTML要素・子コンポーネント）の特定
  * 
  * 対応するReactコンポーネントパターン：
  * - 関数コンポーネント: function Component(props) {}
@@ -19,17 +25,47 @@ import { PropInfo } from '../../types';
  * - デストラクチャリング: const Component = ({ prop1, prop2 }) => {}
  * - デフォルト値: const Component = ({ prop = 'default' }) => {}
  * - TypeScript型注釈: const Component = ({ prop }: { prop: string }) => {}
+ * - 残余Propsの転送: const Component = ({ prop, ...rest }) => <button {...rest} />
+ * - ラップされたコンポーネント: forwardRef((props, ref) => ...) / memo(function Card() {})
  * 
  * アーキテクチャ上の位置：
  * このクラスはASTTraverserによって呼び出され、ComponentAnalyzerと
  * 連携してコンポーネントの完全な情報（構造+Props）を構築します。
  * 
+ * TypeScript型システムとの統合：
+ * - parserServices（型情報付きAST）が利用可能な場合、extractTypedPropsにより
+ *   TypeResolver経由で型チェッカーからProps型を解決する
+ * - interface/type alias、交差型、継承、ジェネリクス、React.FC<Props>に対応
+ * - 型解決の結果を正とし、デフォルト値のみデストラクチャリングから補完する
+ * 
+ * ドキュメントコメント：
+ * - Props型の各メンバーに付与されたJSDoc/TSDocコメントをPropInfo.docsとして保持
+ * - 型情報がない場合もattachPropDocsにより同一ファイル内の型宣言から取得
+ * 
+ * コールバックProps（イベント）：
+ * - extractEventsにより関数型のPropsにシグネチャと呼び出し方（PropInfo.event）を付与
+ * - シグネチャは型チェッカーを優先し、利用できない場合は同一ファイル内の型宣言から解決
+ * 
  * 制限事項：
- * - 現在はJavaScript レベルの基本的な型推論のみサポート
- * - TypeScript型システムとの完全統合は将来の拡張ポイント
- * - 複雑な型（Union型、Generic型等）は 'any' として扱う
+ * - 型情報が得られない場合はJavaScriptレベルの基本的な型推論にフォールバック
+ * - フォールバック時、複雑な型（Union型、Generic型等）は 'any' として扱う
  */
 export class PropExtractor {
+  private typeResolver: TypeResolver;                // 型チェッカー連携
+  private docCommentExtractor: DocCommentExtractor;  // ドキュメントコメント抽出
+  private componentUnwrapper: ComponentUnwrapper;    // forwardRef/memo/HOCの展開
+  private eventExtractor: EventExtractor;            // コールバックPropのシグネチャ・呼び出し抽出
+
+  /**
+   * @param typeResolver Props型の解決に使用するTypeResolver（省略時は新規生成）
+   */
+  constructor(typeResolver?: TypeResolver) {
+    this.typeResolver = typeResolver || new TypeResolver();
+    this.docCommentExtractor = new DocCommentExtractor();
+    this.componentUnwrapper = new ComponentUnwrapper();
+    this.eventExtractor = new EventExtractor();
+  }
+
   /**
    * Props抽出のメイン処理
    * 
@@ -65,6 +101,306 @@ export class PropExtractor {
     return props;
   }
 
+  /**
+   * 型チェッカーを利用したProps抽出処理
+   * 
+   * 指定されたコンポーネントの関数定義を特定し、第一引数の型を
+   * TypeScript型チェッカーで解決します。AST走査で得られたProps情報
+   * （デフォルト値）とマージし、型情報を正とした一覧を返します。
+   * 
+   * マージ規則：
+   * - 型・必須判定は型チェッカーの結果を採用
+   * - デフォルト値はデストラクチャリングから補完（ない場合は@defaultタグ）
+   * - デフォルト値を持つPropsは型上必須でも任意として扱う
+   * 
+   * @param ast - TypeScript ASTのルートノード
+   * @param componentName - 対象コンポーネント名
+   * @param services - parseAndGenerateServicesが返すparserServices
+   * @param fallbackProps - AST走査で得られたProps情報（型解決できない場合にそのまま返す）
+   * @returns 型情報付きのProps情報の配列
+   * 
+   * 例：
+   * ```tsx
+   * interface ButtonProps { variant?: 'primary' | 'secondary'; onClick: () => void; }
+   * const Button = ({ variant = 'primary', onClick }: ButtonProps) => { ... }
+   * ```
+   * → [
+   *   { name: 'variant', type: '"primary" | "secondary"', required: false, defaultValue: 'primary' },
+   *   { name: 'onClick', type: '() => void', required: true }
+   * ]
+   */
+  extractTypedProps(ast: any, componentName: string, services: any, fallbackProps: PropInfo[]): PropInfo[] {
+    const definition = this.findComponentDefinition(ast, componentName);
+    if (!definition || definition.fn.params.length === 0) {
+      return fallbackProps;
+    }
+
+    const componentFunction = definition.fn;
+    const param = componentFunction.params[0];
+    const typedProps = this.typeResolver.resolveParameterProps(param, services, definition.propsTypeNode);
+    if (!typedProps) {
+      return fallbackProps;
+    }
+
+    // デストラクチャリングからデフォルト値を収集
+    const destructured: PropInfo[] = [];
+    this.extractPropsFromFunction(componentFunction, destructured);
+    const defaults = new Map(destructured.map(prop => [prop.name, prop.defaultValue]));
+
+    return typedProps.map(prop => {
+      const defaultValue = defaults.get(prop.name);
+      return {
+        ...prop,
+        required: prop.required && defaultValue === undefined,
+        defaultValue: defaultValue ?? prop.docs?.defaultValue,
+      };
+    });
+  }
+
+  /**
+   * Props情報へのドキュメントコメント付与
+   * 
+   * 型チェッカーを利用できない場合に、コンポーネント引数の型注釈
+   * （または React.FC<Props> の型引数）から同一ファイル内の型宣言を辿り、
+   * 各メンバーのJSDoc/TSDocコメントをPropsに付与します。
+   * 既にdocsを持つProps（型チェッカー経由で取得済み）はそのまま維持します。
+   * 
+   * @param ast - コメント情報を含むTypeScript ASTのルートノード
+   * @param componentName - 対象コンポーネント名
+   * @param props - ドキュメントを付与するProps情報
+   * @returns ドキュメントコメントを付与したProps情報の配列
+   */
+  attachPropDocs(ast: any, componentName: string, props: PropInfo[]): PropInfo[] {
+    if (props.length === 0 || props.every(prop => prop.docs)) {
+      return props;
+    }
+
+    const definition = this.findComponentDefinition(ast, componentName);
+    const typeNode = definition?.fn.params[0]?.typeAnnotation || definition?.propsTypeNode;
+    if (!typeNode) {
+      return props;
+    }
+
+    const memberDocs = this.docCommentExtractor.extractMemberDocs(ast, typeNode);
+    return props.map(prop => {
+      const docs = prop.docs || memberDocs.get(prop.name);
+      if (!docs) return prop;
+      return {
+        ...prop,
+        defaultValue: prop.defaultValue ?? docs.defaultValue,
+        docs,
+      };
+    });
+  }
+
+  /**
+   * コールバックProps（イベントハンドラ）のシグネチャと呼び出し方の付与
+   * 
+   * Props型で関数型として宣言されたProps、または on から始まりコンポーネント内で
+   * 呼び出し・受け渡しされているPropsに、PropInfo.event を付与します。
+   * 型情報がないため 'any' として抽出されていたPropsは、シグネチャから型文字列を補完します。
+   * 
+   * @param ast - TypeScript ASTのルートノード
+   * @param componentName - 対象コンポーネント名
+   * @param props - イベント情報を付与するProps情報
+   * @param services - parseAndGenerateServicesが返すparserServices（省略時は構文的に解決）
+   * @returns イベント情報を付与したProps情報の配列
+   * 
+   * 例：
+   * ```tsx
+   * interface SearchProps { onSearch?: (query: string) => void; }
+   * const Search = ({ onSearch }: SearchProps) => (
+   *   <input onKeyDown={(e) => onSearch?.(e.currentTarget.value)} />
+   * );
+   * ```
+   * → onSearch.event = {
+   *   parameters: [{ name: 'query', type: 'string', optional: false }],
+   *   returnType: 'void',
+   *   invocations: [['e.currentTarget.value']],
+   *   forwardedTo: []
+   * }
+   */
+  extractEvents(ast: any, componentName: string, props: PropInfo[], services?: any): PropInfo[] {
+    const definition = this.findComponentDefinition(ast, componentName);
+    const param = definition?.fn.params[0];
+    if (props.length === 0 || !param) {
+      return props;
+    }
+
+    const typeNode = (param.type === 'AssignmentPattern' ? param.left : param).typeAnnotation || definition.propsTypeNode;
+    const signatures = (services && this.typeResolver.resolveCallSignatures(param, services, definition.propsTypeNode)) ||
+      this.eventExtractor.collectSignatures(ast, typeNode);
+    const usages = this.eventExtractor.collectUsages(definition.fn, props.map(prop => prop.name));
+
+    return props.map(prop => {
+      const signature = signatures.get(prop.name);
+      const usage = usages.get(prop.name);
+      if (!signature && !(usage && /^on[A-Z]/.test(prop.name))) {
+        return prop;
+      }
+
+      const event = {
+        parameters: signature?.parameters || [],
+        ...(signature?.returnType && { returnType: signature.returnType }),
+        invocations: usage?.invocations || [],
+        forwardedTo: usage?.forwardedTo || [],
+      };
+      const type = prop.type === 'any' && signature
+        ? `(${event.parameters.map(p => `${p.name}${p.optional ? '?' : ''}: ${p.type}`).join(', ')}) => ${event.returnType ?? 'void'}`
+        : prop.type;
+
+      return { ...prop, type, event };
+    });
+  }
+
+  /**
+   * 残余Props（...rest）の転送先の抽出
+   * 
+   * コンポーネント引数の残余要素（またはprops全体）がJSX要素へスプレッドされている
+   * 箇所を探し、どのHTML要素・子コンポーネントがPropsを受け取るかを特定します。
+   * 
+   * 対応パターン：
+   * - ({ variant, ...rest }) => <button {...rest} />
+   * - (props) => { const { variant, ...rest } = props; return <Icon {...rest} />; }
+   * - (props) => <input {...props} />
+   * 
+   * @param ast - TypeScript ASTのルートノード
+   * @param componentName - 対象コンポーネント名
+   * @returns 転送先の一覧（出現順・転送先で重複排除）
+   * 
+   * 例：
+   * ```tsx
+   * const Button = ({ variant, ...rest }) => <button {...rest} />;
+   * ```
+   * → [{ source: 'rest', target: 'button', intrinsic: true }]
+   */
+  extractForwardedProps(ast: any, componentName: string): PropForwarding[] {
+    const definition = this.findComponentDefinition(ast, componentName);
+    const param = definition?.fn.params[0];
+    if (!param) {
+      return [];
+    }
+
+    // スプレッド元になり得る変数名（残余要素・props全体）を収集
+    const sources = new Set<string>();
+    const collectRest = (pattern: any) => {
+      pattern.properties
+        .filter((property: any) => property.type === 'RestElement' && property.argument?.type === 'Identifier')
+        .forEach((property: any) => sources.add(property.argument.name));
+    };
+
+    const paramPattern = param.type === 'AssignmentPattern' ? param.left : param;
+    if (paramPattern.type === 'ObjectPattern') {
+      collectRest(paramPattern);
+    } else if (paramPattern.type === 'Identifier') {
+      sources.add(paramPattern.name);
+    }
+
+    const forwardings: PropForwarding[] = [];
+    const visit = (node: any) => {
+      if (!node || typeof node !== 'object') return;
+
+      // const { variant, ...rest } = props;
+      if (node.type === 'VariableDeclarator' && node.id?.type === 'ObjectPattern' &&
+          node.init?.type === 'Identifier' && sources.has(node.init.name)) {
+        collectRest(node.id);
+      }
+
+      // <button {...rest} />
+      if (node.type === 'JSXOpeningElement') {
+        const target = this.getJSXElementName(node.name);
+        node.attributes
+          .filter((attribute: any) =>
+            attribute.type === 'JSXSpreadAttribute' &&
+            attribute.argument?.type === 'Identifier' &&
+            sources.has(attribute.argument.name))
+          .forEach((attribute: any) => {
+            if (target && !forwardings.some(f => f.target === target)) {
+              forwardings.push({ source: attribute.argument.name, target, intrinsic: /^[a-z]/.test(target) });
+            }
+          });
+      }
+
+      for (const key in node) {
+        if (key !== 'parent' && node[key] && typeof node[key] === 'object') {
+          visit(node[key]);
+        }
+      }
+    };
+    visit(definition.fn.body);
+
+    return forwardings;
+  }
+
+  /**
+   * JSX要素名の文字列化
+   * 
+   * @param name - JSXIdentifier / JSXMemberExpression ノード
+   * @returns 要素名（button, Icon, Menu.Item 等。解決できない場合はnull）
+   */
+  private getJSXElementName(name: any): string | null {
+    if (name?.type === 'JSXIdentifier') {
+      return name.name;
+    }
+    if (name?.type === 'JSXMemberExpression') {
+      const object = this.getJSXElementName(name.object);
+      return object ? `${object}.${name.property.name}` : null;
+    }
+    return null;
+  }
+
+  /**
+   * コンポーネント名に対応する関数定義の検索
+   * 
+   * トップレベルの宣言およびエクスポート宣言から、指定された名前の
+   * 関数コンポーネント定義を探します。変数宣言の場合は、変数側の
+   * 型注釈（React.FC<Props>等）の第一型引数も併せて返します。
+   * 
+   * 対応する定義パターン：
+   * - function Button() {} / export function Button() {}
+   * - const Button = () => {} / const Button = function() {}
+   * - const Button: React.FC<ButtonProps> = () => {}
+   * - const Input = forwardRef<HTMLInputElement, InputProps>((props, ref) => {})
+   * - export default memo(function Card() {}) / export default withTheme(Card)
+   * - export default function() {}（名前なしのデフォルトエクスポート）
+   * 
+   * @param ast - TypeScript ASTのルートノード
+   * @param componentName - 対象コンポーネント名
+   * @returns 描画関数ノードと変数側・ラッパー側のProps型ノード（見つからない場合はnull）
+   */
+  private findComponentDefinition(ast: any, componentName: string): { fn: any; propsTypeNode?: any } | null {
+    for (const { statement, declaration } of topLevelDeclarations(ast)) {
+      if (!declaration) continue;
+
+      if (declaration.type === 'FunctionDeclaration') {
+        // 名前なしのデフォルトエクスポートはファイル名由来の名前と対応付ける
+        if (declaration.id?.name === componentName ||
+            (!declaration.id && statement.type === 'ExportDefaultDeclaration')) {
+          return { fn: declaration };
+        }
+      } else if (declaration.type === 'VariableDeclaration') {
+        for (const declarator of declaration.declarations) {
+          if (declarator.id?.type === 'Identifier' && declarator.id.name === componentName) {
+            // forwardRef/memo/HOCでラップされている場合は内側の描画関数まで展開
+            const { fn, propsTypeNode } = this.componentUnwrapper.unwrap(declarator, ast);
+            if (!fn) continue;
+
+            // 変数の型注釈（React.FC<Props>）を優先し、次にforwardRef<Ref, Props>の型引数
+            const variableType = declarator.id.typeAnnotation?.typeAnnotation;
+            const typeArguments = variableType?.typeArguments || variableType?.typeParameters;
+            return { fn, propsTypeNode: typeArguments?.params?.[0] || propsTypeNode };
+          }
+        }
+      } else if (statement.type === 'ExportDefaultDeclaration') {
+        // export default memo(function ...) / export default () => ... 形式
+        const { fn, propsTypeNode } = this.componentUnwrapper.unwrap(declaration, ast);
+        if (fn) return { fn, propsTypeNode };
+      }
+    }
+
+    return null;
+  }
+
   /**
    * AST再帰走査処理
    * 
@@ -84,6 +420,7 @@ export class PropExtractor {
    * 対象となる関数タイプ：
    * - FunctionDeclaration: function Component() {}
    * - ArrowFunctionExpression: const Component = () => {}
+   * - FunctionExpression: memo(function Component() {})
    * - 変数宣言内のアロー関数
    * - ネストした関数定義
    */
@@ -92,7 +429,9 @@ export class PropExtractor {
 
     // 関数コンポーネントからのProps抽出
     // React関数コンポーネントの典型的な定義パターンを検出
-    if (node.type === 'FunctionDeclaration' || node.type === 'ArrowFunctionExpression') {
+    if (node.type === 'FunctionDeclaration' ||
+        node.type === 'FunctionExpression' ||
+        node.type === 'ArrowFunctionExpression') {
       this.extractPropsFromFunction(node, props);
     }
 
@@ -122,7 +461,7 @@ export class PropExtractor {
    * 3. ネストしたデストラクチャリング: ({ user: { name } }) => {}
    * 4. レストパラメータ: ({ prop, ...rest }) => {}
    * 
-   * @param node - 関数ノード（FunctionDeclaration | ArrowFunctionExpression）
+   * @param node - 関数ノード（FunctionDeclaration | FunctionExpression | ArrowFunctionExpression）
    * @param props - Props情報を蓄積する配列（参照渡し）
    * 
    * 抽出される情報：
@@ -0,0 +1,564 @@
+import { ASTNode, ClassCondition, DocComment, EventParameter, ExtractedComponent, JSXElement, PropInfo } from '../../types';
+import { CallbackSignature } from './EventExtractor';
+import { ScriptBlock, TemplateComponentExtractor } from './TemplateComponentExtractor';
+import { MarkupNode } from './MarkupParser';
+import { topLevelDeclarations } from './TopLevelDeclarations';
+
+// マークアップの解析結果
+interface MarkupInfo {
+  roots: JSXElement[];
+  classes: Set<string>;
+  conditions: ClassCondition[];
+  slots: Array<{ name: string; bindings: string[] }>;
+  handlers: any[];                                   // イベントハンドラ式のAST（dispatch・コールバックの呼び出し検出用）
+  forwardedEvents: Map<string, string[]>;            // on:click（値なし）→ 転送元の要素
+  references: Array<{ name: string; target: string }>; // onclick={onclick} のように識別子をそのまま渡している属性
+}
+
+// 転送されたDOMイベントの型（記載のないイベントは Event）
+const DOM_EVENT_TYPES: Record<string, string> = {
+  click: 'MouseEvent',
+  dblclick: 'MouseEvent',
+  mousedown: 'MouseEvent',
+  mouseup: 'MouseEvent',
+  mouseenter: 'MouseEvent',
+  mouseleave: 'MouseEvent',
+  keydown: 'KeyboardEvent',
+  keyup: 'KeyboardEvent',
+  focus: 'FocusEvent',
+  blur: 'FocusEvent',
+  submit: 'SubmitEvent',
+};
+
+// 値を包むだけのルーン（バインディング解決時に中身を参照する）
+const WRAPPER_RUNES = ['$state', '$derived', '$bindable'];
+
+/**
+ * SvelteComponentExtractor - Svelteコンポーネント（*.svelte）抽出クラス
+ *
+ * このクラスは、Svelteコンポーネントをインスタンススクリプト・モジュールスクリプト・
+ * マークアップに分割し、React向けの抽出結果と同じ ExtractedComponent を構築します。
+ * Svelte 4 の export let / createEventDispatcher / <slot> と、Svelte 5 のルーン
+ * （$props）・コールバックProp・スニペットの両方に対応します。
+ *
+ * 主な責務:
+ * - class 属性（{...} の埋め込みを含む）・class={...}・class: ディレクティブからのTailwindクラス・条件付きクラスの抽出
+ * - export let（Svelte 4）・$props()（Svelte 5）からのProps抽出
+ * - dispatch() で送出するイベントと、値のない on:click によるイベント転送の抽出（on:change 形式のProp）
+ * - コールバックProp（onclick 等）のシグネチャと呼び出し方の付与
+ * - <slot> と {@render} の子要素としての記録（デフォルトは children、名前付きスロットは slot:header）
+ *
+ * 対応パターン:
+ * - export let size: 'sm' | 'md' = 'md' / let klass = ''; export { klass as class }
+ * - let { size = 'md', open = $bindable(false), children, ...rest }: Props = $props()
+ * - const dispatch = createEventDispatcher<{ change: boolean }>(); dispatch('change', checked)
+ * - class="px-4 {sizes[size]}" / class={cn('px-4', disabled && 'opacity-50')} / class:bg-blue-600={checked}
+ * - $: classes = ... / let classes = $derived(...)（クラスの組み立てを変数に分離した記述）
+ * - <!-- @component 説明 --> によるコンポーネントの説明
+ *
+ * 制限事項:
+ * - 型の解決は同一ファイル内の型宣言のみ（インポートした型のメンバーは取得しない）
+ * - {#each} / {#if} 等のブロックは要素構造に含めない（ブロック内の要素は親要素の子として記録）
+ * - <style> ブロックは解析対象外
+ *
+ * 使用例:
+ * const extractor = new SvelteComponentExtractor();
+ * const component = extractor.extract('/src/components/Toggle.svelte', source, '/src');
+ * // => { componentName: 'Toggle', platform: 'svelte', props: [...], tailwindClasses: [...] }
+ *
+ * 他クラスとの関係:
+ * - TemplateComponentExtractor: スクリプトのパース・クラス抽出・抽出結果の組み立てを継承
+ * - SveltePlatformExtractor: ファイルを読み込んでこのクラスを呼び出す
+ */
+export class SvelteComponentExtractor extends TemplateComponentExtractor {
+  /**
+   * Svelteコンポーネントのソースからコンポーネント情報を抽出
+   *
+   * @param filePath *.svelte ファイルのパス
+   * @param source ファイルの内容
+   * @param sourceDir ソースディレクトリ（カテゴリ分類用）
+   * @returns 抽出結果（スクリプト・マークアップのいずれもない場合はnull）
+   */
+  extract(filePath: string, source: string, sourceDir: string): ExtractedComponent | null {
+    const { scripts, markup } = this.splitScripts(source);
+    const instance = scripts.find(block => !this.isModuleScript(block));
+    const module = scripts.find(block => this.isModuleScript(block));
+    if (!instance && !module && markup.trim() === '') {
+      return null;
+    }
+
+    const instanceAst = this.parseScript(instance);
+    const moduleAst = this.parseScript(module);
+    // 型宣言はモジュールスクリプトに置かれることもあるため、両方の文を参照する
+    const typeScope = { body: [...(moduleAst?.body || []), ...(instanceAst?.body || [])], comments: instanceAst?.comments || [] };
+
+    const bindings = this.collectSvelteBindings(instanceAst);
+    const info = this.parseMarkup(markup, bindings);
+
+    const declared = this.extractProps(instanceAst, typeScope);
+    const props = [
+      ...this.attachCallbackEvents(declared.props, declared.signatures, instanceAst, info),
+      ...this.extractEvents(instanceAst, info),
+      ...this.slotsToProps(info.slots),
+    ];
+    this.addRenderedSnippets(markup, props);
+
+    return this.buildComponent({
+      filePath,
+      source,
+      sourceDir,
+      componentName: this.componentNameFromFile(filePath, '.svelte'),
+      platform: 'svelte',
+      props,
+      classes: info.classes,
+      conditions: info.conditions,
+      roots: info.roots,
+      fragmentType: 'Fragment',
+      scriptAsts: [moduleAst, instanceAst],
+      docs: this.extractMarkupDoc(source) || this.extractComponentDoc(instanceAst),
+    });
+  }
+
+  /**
+   * モジュールスクリプト（コンポーネントのインスタンス間で共有されるスクリプト）か判定
+   *
+   * @param block スクリプトブロック
+   * @returns <script context="module">（Svelte 4）・<script module>（Svelte 5）の場合true
+   */
+  private isModuleScript(block: ScriptBlock): boolean {
+    return block.attrs.context === 'module' || 'module' in block.attrs;
+  }
+
+  /**
+   * インスタンススクリプトのトップレベル変数を収集
+   *
+   * $state / $derived で包んだ値は中身を、$: によるリアクティブ宣言は代入した式を登録し、
+   * クラスの組み立てを変数に分離した記述でもクラスを辿れるようにします。
+   *
+   * @param ast インスタンススクリプトのAST
+   * @returns 変数名 → 初期化式
+   */
+  private collectSvelteBindings(ast: any): Map<string, ASTNode> {
+    const bindings = this.collectBindings(ast);
+    (ast?.body || []).forEach((statement: any) => {
+      // $: classes = [...]
+      const expression = statement.type === 'LabeledStatement' && statement.label.name === '$' ? statement.body.expression : null;
+      if (expression?.type === 'AssignmentExpression' && expression.left.type === 'Identifier') {
+        bindings.set(expression.left.name, expression.right);
+      }
+    });
+
+    bindings.forEach((init: any, name) => {
+      if (init.type === 'CallExpression' && init.callee.type === 'Identifier' && WRAPPER_RUNES.includes(init.callee.name) && init.arguments[0]) {
+        bindings.set(name, init.arguments[0]);
+      }
+    });
+    return bindings;
+  }
+
+  /**
+   * マークアップを要素ツリーに変換し、クラス・スロット・イベントを収集
+   *
+   * @param markup スクリプト・スタイルを除いたマークアップ
+   * @param bindings インスタンススクリプトのトップレベル変数
+   * @returns 要素ツリーと収集結果
+   */
+  private parseMarkup(markup: string, bindings: Map<string, ASTNode>): MarkupInfo {
+    const info: MarkupInfo = {
+      roots: [],
+      classes: new Set(),
+      conditions: [],
+      slots: [],
+      handlers: [],
+      forwardedEvents: new Map(),
+      references: [],
+    };
+    info.roots = this.toElements(this.markupParser.parse(markup), node => this.createElement(node, info, bindings));
+    return info;
+  }
+
+  /**
+   * マークアップの要素を JSXElement に変換
+   *
+   * @param node マークアップの要素
+   * @param info 収集結果（参照渡し）
+   * @param bindings インスタンススクリプトのトップレベル変数
+   * @returns 要素（className には class 属性の静的な部分を保持）
+   */
+  private createElement(node: MarkupNode, info: MarkupInfo, bindings: Map<string, ASTNode>): JSXElement {
+    // Svelte のコンポーネントはPascalCaseのタグで記述するため、タグ名をそのまま種別とする
+    const element: JSXElement = { type: node.tag, props: {} };
+    const elementClasses = new Set<string>();
+    const addBound = (expression: any) => {
+      if (!expression) return;
+      const bound = this.extractBoundClasses(expression, bindings);
+      bound.classes.forEach(cls => elementClasses.add(cls));
+      info.conditions.push(...bound.conditions);
+    };
+
+    node.attributes.forEach(({ name, value, expression }) => {
+      // class="px-4 {sizes[size]}"
+      if (name === 'class' && value !== null && !expression) {
+        const { text, expressions } = this.splitInterpolations(value);
+        if (text) element.className = text;
+        this.tailwindExtractor.extractClasses({ type: 'Literal', value: text }).forEach(cls => elementClasses.add(cls));
+        expressions.forEach(code => addBound(this.parseExpression(code)));
+        return;
+      }
+
+      // class={cn('px-4', disabled && 'opacity-50')}
+      if (name === 'class' && expression && value) {
+        addBound(this.parseExpression(value));
+        return;
+      }
+
+      // class:bg-blue-600={checked} / class:active（省略記法は同名の変数が条件）
+      if (name.startsWith('class:')) {
+        const className = name.slice('class:'.length);
+        const condition = value === null ? { type: 'Identifier', name: className } : this.parseExpression(value);
+        if (condition) {
+          addBound({ type: 'LogicalExpression', operator: '&&', left: condition, right: { type: 'Literal', value: className } });
+        }
+        return;
+      }
+
+      // on:click（値なしはイベントの転送）/ on:click={handler} / onclick={handler}
+      if (name.startsWith('on:') && value === null) {
+        const event = name.slice('on:'.length).split('|')[0];
+        const targets = info.forwardedEvents.get(event) || [];
+        if (!targets.includes(element.type)) targets.push(element.type);
+        info.forwardedEvents.set(event, targets);
+      } else if (/^on:?[a-z]/.test(name) && expression && value) {
+        const handler = this.parseExpression(value);
+        if (handler) info.handlers.push(handler);
+      }
+
+      if (expression && value && /^[A-Za-z_$][\w$]*$/.test(value)) {
+        info.references.push({ name: value, target: element.type });
+      }
+      element.props[name] = value ?? true;
+    });
+
+    if (elementClasses.size > 0) {
+      element.tailwindClasses = Array.from(elementClasses).sort();
+      elementClasses.forEach(cls => info.classes.add(cls));
+    }
+
+    // <slot name="header" {item} /> → スロット名とスロットProps
+    if (node.tag === 'slot') {
+      const slotName = node.attributes.find(attribute => attribute.name === 'name')?.value || 'default';
+      if (!info.slots.some(slot => slot.name === slotName)) {
+        info.slots.push({
+          name: slotName,
+          bindings: node.attributes.map(attribute => attribute.name).filter(name => name !== 'name' && !name.startsWith('...')),
+        });
+      }
+    }
+
+    return element;
+  }
+
+  /**
+   * 属性値を静的な文字列と {...} の埋め込み式に分割
+   *
+   * @param value 引用符付きの属性値（px-4 {active ? 'ring-2' : ''}）
+   * @returns 埋め込みを除いた文字列と、埋め込み式のコード
+   */
+  private splitInterpolations(value: string): { text: string; expressions: string[] } {
+    const expressions: string[] = [];
+    let text = '';
+    let index = 0;
+
+    while (index < value.length) {
+      if (value[index] !== '{') {
+        text += value[index++];
+        continue;
+      }
+      let depth = 0;
+      let end = index;
+      for (; end < value.length; end++) {
+        if (value[end] === '{') depth++;
+        if (value[end] === '}' && --depth === 0) break;
+      }
+      expressions.push(value.slice(index + 1, end).trim());
+      text += ' ';
+      index = end + 1;
+    }
+
+    return { text: text.replace(/\s+/g, ' ').trim(), expressions };
+  }
+
+  /**
+   * Propsを抽出
+   *
+   * - Svelte 5: let { size = 'md' }: Props = $props()（型注釈のメンバー、なければ分割代入の要素）
+   * - Svelte 4: export let size: Size = 'md' / export { klass as class }
+   *
+   * @param ast インスタンススクリプトのAST
+   * @param typeScope 型宣言の検索範囲（モジュールスクリプトとインスタンススクリプトの文）
+   * @returns Props情報と、関数型のPropのシグネチャ
+   */
+  private extractProps(ast: any, typeScope: any): { props: PropInfo[]; signatures: Map<string, CallbackSignature> } {
+    let declarator: any = null;
+    this.walk(ast, (node: any) => {
+      if (!declarator && node.type === 'VariableDeclarator' && node.init?.type === 'CallExpression' &&
+          node.init.callee.type === 'Identifier' && node.init.callee.name === '$props') {
+        declarator = node;
+      }
+    });
+
+    return declarator ? this.propsFromRunes(declarator, typeScope) : this.propsFromExports(ast, typeScope);
+  }
+
+  /**
+   * $props() の分割代入からPropsを抽出（Svelte 5）
+   *
+   * @param declarator $props() を初期化式とする変数宣言
+   * @param typeScope 型宣言の検索範囲
+   * @returns Props情報と、関数型のPropのシグネチャ
+   */
+  private propsFromRunes(declarator: any, typeScope: any): { props: PropInfo[]; signatures: Map<string, CallbackSignature> } {
+    const typeNode = declarator.id.typeAnnotation || this.getTypeArgument(declarator.init);
+    const props = typeNode ? this.propsFromType(typeScope, typeNode) : [];
+    if (declarator.id.type !== 'ObjectPattern') {
+      return { props, signatures: this.eventExtractor.collectSignatures(typeScope, typeNode) };
+    }
+
+    declarator.id.properties
+      .filter((property: any) => property.type === 'Property' && !property.computed)
+      .forEach((property: any) => {
+        const name = this.getKeyName(property.key);
+        let prop = props.find(candidate => candidate.name === name);
+        if (!prop) {
+          prop = { name, type: 'any', required: property.value.type !== 'AssignmentPattern' && !typeNode };
+          props.push(prop);
+        }
+
+        // open = $bindable(false) → 双方向バインディング可能なProp
+        if (property.value.type === 'AssignmentPattern') {
+          let defaultNode = property.value.right;
+          if (defaultNode.type === 'CallExpression' && defaultNode.callee.name === '$bindable') {
+            prop.docs = { ...prop.docs, description: [prop.docs?.description, 'bind: で双方向バインディング可能'].filter(Boolean).join('\n') };
+            defaultNode = defaultNode.arguments[0];
+          }
+          if (defaultNode) {
+            prop.defaultValue = this.describeDefault(defaultNode);
+            if (prop.type === 'any') prop.type = this.inferLiteralType(defaultNode);
+          }
+        }
+      });
+
+    return { props, signatures: this.eventExtractor.collectSignatures(typeScope, typeNode) };
+  }
+
+  /**
+   * export let 宣言からPropsを抽出（Svelte 4）
+   *
+   * @param ast インスタンススクリプトのAST
+   * @param typeScope 型宣言の検索範囲
+   * @returns Props情報と、関数型のPropのシグネチャ
+   */
+  private propsFromExports(ast: any, typeScope: any): { props: PropInfo[]; signatures: Map<string, CallbackSignature> } {
+    const props: PropInfo[] = [];
+    const members: any[] = [];  // シグネチャ解決用に型注釈を型メンバーの形に揃えたもの
+    const locals = new Map<string, { declarator: any; statement: any; previousEnd: number }>();
+    let previousEnd = 0;
+
+    const addProp = (name: string, declarator: any, statement: any, end: number) => {
+      const typeAnnotation = declarator.id.typeAnnotation;
+      const doc = this.findLeadingDoc(ast, statement, end);
+      props.push({
+        name,
+        type: typeAnnotation
+          ? this.eventExtractor.typeToString(typeAnnotation.typeAnnotation)
+          : declarator.init ? this.inferLiteralType(declarator.init) : 'any',
+        required: !declarator.init,
+        ...(declarator.init && { defaultValue: this.describeDefault(declarator.init) }),
+        ...(doc && { docs: doc }),
+      });
+      members.push({ type: 'TSPropertySignature', key: { type: 'Identifier', name }, typeAnnotation });
+    };
+
+    topLevelDeclarations(ast).forEach(({ statement, declaration }) => {
+      if (declaration?.type === 'VariableDeclaration') {
+        declaration.declarations
+          .filter((declarator: any) => declarator.id.type === 'Identifier')
+          .forEach((declarator: any) => {
+            // export const / export function は外部から参照する値であり、Propではない
+            if (statement.type === 'ExportNamedDeclaration' && declaration.kind === 'let') {
+              addProp(declarator.id.name, declarator, statement, previousEnd);
+            } else {
+              locals.set(declarator.id.name, { declarator, statement, previousEnd });
+            }
+          });
+      }
+
+      // let klass = ''; export { klass as class }
+      if (statement.type === 'ExportNamedDeclaration' && !statement.declaration && !statement.source) {
+        statement.specifiers.forEach((specifier: any) => {
+          const local = locals.get(specifier.local.name);
+          if (local && local.statement.kind === 'let') {
+            addProp(specifier.exported.name, local.declarator, local.statement, local.previousEnd);
+          }
+        });
+      }
+
+      previousEnd = statement.range[1];
+    });
+
+    return { props, signatures: this.eventExtractor.collectSignatures(typeScope, { type: 'TSTypeLiteral', members }) };
+  }
+
+  /**
+   * 関数型のProp（Svelte 5 のコールバックProp等）にシグネチャと呼び出し方を付与
+   *
+   * @param props Props情報
+   * @param signatures Prop名 → 型から解決したシグネチャ
+   * @param ast インスタンススクリプトのAST
+   * @param info マークアップの解析結果（ハンドラ式・識別子の受け渡し）
+   * @returns イベント情報を付与したProps情報
+   */
+  private attachCallbackEvents(props: PropInfo[], signatures: Map<string, CallbackSignature>, ast: any, info: MarkupInfo): PropInfo[] {
+    // Propを同名の変数として受け取るため、全Propの分割代入を持つ関数として呼び出し箇所を収集する
+    const names = props.map(prop => prop.name);
+    const usages = this.eventExtractor.collectUsages({
+      params: [{
+        type: 'ObjectPattern',
+        properties: names.map(name => ({ type: 'Property', key: { type: 'Identifier', name }, value: { type: 'Identifier', name } })),
+      }],
+      body: [ast, ...info.handlers],
+    }, names);
+
+    return props.map(prop => {
+      const signature = signatures.get(prop.name);
+      const usage = usages.get(prop.name);
+      const forwardedTo = Array.from(new Set(info.references.filter(reference => reference.name === prop.name).map(reference => reference.target)));
+      if (!signature && !(/^on[a-zA-Z]/.test(prop.name) && (usage || forwardedTo.length > 0))) {
+        return prop;
+      }
+
+      const event = {
+        parameters: signature?.parameters || [],
+        ...(signature?.returnType && { returnType: signature.returnType }),
+        invocations: usage?.invocations || [],
+        forwardedTo,
+      };
+      const type = prop.type === 'any' && signature
+        ? `(${event.parameters.map(p => `${p.name}${p.optional ? '?' : ''}: ${p.type}`).join(', ')}) => ${event.returnType ?? 'void'}`
+        : prop.type;
+      return { ...prop, type, event };
+    });
+  }
+
+  /**
+   * createEventDispatcher で送出するイベントと、転送するDOMイベントを抽出（Svelte 4）
+   *
+   * @param ast インスタンススクリプトのAST
+   * @param info マークアップの解析結果
+   * @returns on:change 形式のProp情報（送出するイベント → 転送するイベントの順）
+   */
+  private extractEvents(ast: any, info: MarkupInfo): PropInfo[] {
+    const details = new Map<string, string>();  // イベント名 → detail の型
+    const dispatchers = new Set<string>();
+
+    this.walk(ast, (node: any) => {
+      if (node.type !== 'VariableDeclarator' || node.id.type !== 'Identifier' || node.init?.type !== 'CallExpression' ||
+          node.init.callee.type !== 'Identifier' || node.init.callee.name !== 'createEventDispatcher') {
+        return;
+      }
+      dispatchers.add(node.id.name);
+      // createEventDispatcher<{ change: boolean; close: null }>()
+      const typeArgument = this.getTypeArgument(node.init);
+      if (typeArgument?.type === 'TSTypeLiteral') {
+        typeArgument.members
+          .filter((member: any) => member.type === 'TSPropertySignature')
+          .forEach((member: any) => details.set(this.getKeyName(member.key), this.eventExtractor.typeToString(member.typeAnnotation?.typeAnnotation)));
+      }
+    });
+
+    // dispatch('change', checked)
+    const invocations = new Map<string, string[][]>();
+    [ast, ...info.handlers].forEach(root => this.walk(root, (node: any) => {
+      if (node.type !== 'CallExpression' || node.callee.type !== 'Identifier' || !dispatchers.has(node.callee.name)) return;
+      const [event, ...args] = node.arguments;
+      if (event?.type !== 'Literal' || typeof event.value !== 'string') return;
+      if (!invocations.has(event.value)) invocations.set(event.value, []);
+      invocations.get(event.value)!.push(args.map((arg: any) => this.eventExtractor.describeExpression(arg)));
+    }));
+
+    const toProp = (eventName: string, eventType: string, eventInvocations: string[][], forwardedTo: string[]): PropInfo => {
+      const parameters: EventParameter[] = [{ name: 'event', type: eventType, optional: false }];
+      return {
+        name: `on:${eventName}`,
+        type: `(event: ${eventType}) => void`,
+        required: false,
+        event: { parameters, returnType: 'void', invocations: eventInvocations, forwardedTo },
+      };
+    };
+
+    const dispatched = Array.from(new Set([...details.keys(), ...invocations.keys()])).map(eventName =>
+      toProp(eventName, `CustomEvent<${details.get(eventName) || 'any'}>`, invocations.get(eventName) || [], info.forwardedEvents.get(eventName) || [])
+    );
+    const forwarded = Array.from(info.forwardedEvents.entries())
+      .filter(([eventName]) => !dispatched.some(prop => prop.name === `on:${eventName}`))
+      .map(([eventName, targets]) => toProp(eventName, DOM_EVENT_TYPES[eventName] || 'Event', [], targets));
+
+    return [...dispatched, ...forwarded];
+  }
+
+  /**
+   * スロットを子要素のPropとして表現
+   *
+   * @param slots マークアップの <slot> 定義
+   * @returns デフォルトスロットは children、名前付きスロットは slot:header のProp情報
+   */
+  private slotsToProps(slots: MarkupInfo['slots']): PropInfo[] {
+    return slots.map(slot => {
+      const scope = slot.bindings.length > 0 ? `（スロットProps: ${slot.bindings.join(', ')}）` : '';
+      return {
+        name: slot.name === 'default' ? 'children' : `slot:${slot.name}`,
+        type: 'Slot',
+        required: false,
+        docs: { description: `${slot.name === 'default' ? 'デフォルトスロット' : `名前付きスロット「${slot.name}」`}${scope}` },
+      };
+    });
+  }
+
+  /**
+   * {@render} で描画しているスニペットをPropとして記録（Svelte 5）
+   *
+   * 型注釈のない $props() で受け取ったスニペットは型を Snippet とし、
+   * Propとして宣言されていないもの（...rest 経由等）は追加します。
+   * 同じコンポーネント内の {#snippet} で定義したスニペットは対象外です。
+   *
+   * @param markup スクリプト・スタイルを除いたマークアップ
+   * @param props Props情報（参照渡し）
+   */
+  private addRenderedSnippets(markup: string, props: PropInfo[]): void {
+    const localSnippets = new Set(Array.from(markup.matchAll(/\{#snippet\s+([A-Za-z_$][\w$]*)/g), match => match[1]));
+
+    for (const match of markup.matchAll(/\{@render\s+([A-Za-z_$][\w$]*)\??\.?\(/g)) {
+      const name = match[1];
+      if (localSnippets.has(name)) continue;
+
+      const prop = props.find(candidate => candidate.name === name);
+      if (!prop) {
+        props.push({ name, type: 'Snippet', required: false });
+      } else if (prop.type === 'any') {
+        prop.type = 'Snippet';
+      }
+    }
+  }
+
+  /**
+   * <!-- @component --> コメントをコンポーネントの説明として取得
+   *
+   * @param source ファイルの内容
+   * @returns ドキュメント情報（コメントがない場合はundefined）
+   */
+  private extractMarkupDoc(source: string): DocComment | undefined {
+    const match = /<!--\s*@component\b([\s\S]*?)-->/.exec(source);
+    if (!match) return undefined;
+    return this.docCommentExtractor.parseComment(match[1].split('\n').map(line => line.trim()).join('\n').trim());
+  }
+}
@@ -1,3 +1,11 @@
+import { ASTNode, ClassCondition } from '../../types';
+
+// 条件式から得られる「Prop = 値」の組
+type PropCondition = { prop: string; value: string };
+
+// 引数をクラスとして結合するユーティリティ関数
+export const CLASS_UTILITIES = ['clsx', 'classnames', 'cn', 'twMerge'];
+
 /**
  * TailwindClassExtractor - Tailwind CSSクラス抽出専用クラス
  * 
@@ -10,6 +18,7 @@
  * - クラスユーティリティ関数のサポート（clsx, classnames, cn, twMerge）
  * - カスタムクラスとTailwindクラスの区別
  * - 無効なクラス名のフィルタリング
+ * - Propの値による条件付きクラスの帰属（どの値のときにどのクラスが適用されるか）
  * 
  * 対応するTailwindカテゴリ:
  * - Spacing & Layout: p-, m-, w-, h-, flex, grid, position
@@ -28,6 +37,13 @@
  * - オブジェクト構文: clsx({ 'bg-green-500': isSuccess })
  * - 配列構文: classnames(['bg-blue-500', 'text-white'])
  * 
+ * 条件付きクラスの対応形式:
+ * - 三項演算子: variant === 'danger' ? 'bg-red-500' : 'bg-blue-500'
+ * - 論理積: disabled && 'opacity-50'
+ * - clsxのオブジェクトキー: clsx({ 'ring-2': isActive })
+ * - ルックアップテーブル: const sizes = { sm: 'px-2', lg: 'px-4' }[size]
+ * - switch文: switch (size) { case 'sm': return 'px-2'; }
+ * 
  * パフォーマンス最適化:
  * - 正規表現ベースの高速マッチング
  * - Setを使用した重複除去
@@ -157,7 +173,7 @@ export class TailwindClassExtractor {
     const calleeName = this.getCalleeName(node);
     
     // サポートされたクラスユーティリティ関数のチェック
-    if (['clsx', 'classnames', 'cn', 'twMerge'].includes(calleeName)) {
+    if (CLASS_UTILITIES.includes(calleeName)) {
       node.arguments.forEach((arg: any) => {
         // 文字列引数: 'bg-red-500'
         if (arg.type === 'Literal' && typeof arg.value === 'string') {
@@ -183,6 +199,235 @@ export class TailwindClassExtractor {
     }
   }
 
+  /**
+   * Propの値による条件付きクラスを抽出
+   * 
+   * className の式を走査し、三項演算子・論理積・clsxのオブジェクトキー・
+   * ルックアップテーブルの条件から「Prop = 値」とクラスの対応を取り出します。
+   * 条件に依存しない静的なクラスは対象外です。
+   * 
+   * 条件の対象はPropらしい識別子（size, props.size）で判定するため、
+   * 実際にPropかどうかの絞り込みは呼び出し側で行います。
+   * 
+   * @param node className属性の値ノード
+   * @param bindings 変数名 → 初期化式（識別子参照の解決用）
+   * @returns 条件とクラスの組の配列
+   */
+  extractConditionalClasses(node: any, bindings: Map<string, ASTNode> = new Map()): ClassCondition[] {
+    const conditions: ClassCondition[] = [];
+    this.collectConditionalClasses(node, null, conditions, bindings, new Set());
+    return conditions;
+  }
+
+  /**
+   * switch文からPropの値毎のクラスを抽出
+   * 
+   * switch (size) の各 case 内の return 文・代入文のクラス文字列を、
+   * その case の値に帰属させます。default 節は '*'（列挙した値以外）として扱います。
+   * 
+   * @param node SwitchStatementノード
+   * @returns 条件とクラスの組の配列（判定対象がPropでない場合は空配列）
+   */
+  extractSwitchClasses(node: any): ClassCondition[] {
+    const prop = this.getPropName(node.discriminant);
+    if (!prop) {
+      return [];
+    }
+
+    const conditions: ClassCondition[] = [];
+    node.cases.forEach((switchCase: any) => {
+      if (switchCase.test && switchCase.test.type !== 'Literal') return;
+
+      const condition = { prop, value: switchCase.test ? String(switchCase.test.value) : '*' };
+      switchCase.consequent.forEach((statement: any) => {
+        const value = statement.type === 'ReturnStatement' ? statement.argument :
+                      statement.type === 'ExpressionStatement' && statement.expression.type === 'AssignmentExpression' ? statement.expression.right :
+                      null;
+        this.collectConditionalClasses(value, condition, conditions, new Map(), new Set());
+      });
+    });
+    return conditions;
+  }
+
+  /**
+   * 条件付きクラスの再帰的な収集
+   * 
+   * @param node 走査中の式ノード
+   * @param condition 現在適用されている条件（条件外の場合はnull）
+   * @param conditions 収集結果
+   * @param bindings 変数名 → 初期化式
+   * @param visited 解決済みの識別子（循環参照防止）
+   */
+  private collectConditionalClasses(
+    node: any,
+    condition: PropCondition | null,
+    conditions: ClassCondition[],
+    bindings: Map<string, ASTNode>,
+    visited: Set<string>
+  ): void {
+    if (!node) return;
+
+    const addClasses = (target: PropCondition | null, classString: string) => {
+      const classes = new Set<string>();
+      this.parseClassString(classString, classes);
+      if (target && classes.size > 0) {
+        conditions.push({ ...target, classes: Array.from(classes) });
+      }
+    };
+    const visit = (child: any, target: PropCondition | null = condition) =>
+      this.collectConditionalClasses(child, target, conditions, bindings, visited);
+
+    switch (node.type) {
+      case 'JSXExpressionContainer':
+        visit(node.expression);
+        break;
+
+      case 'Literal':
+        if (typeof node.value === 'string') {
+          addClasses(condition, node.value);
+        }
+        break;
+
+      case 'TemplateLiteral':
+        node.quasis.forEach((quasi: any) => addClasses(condition, quasi.value.raw));
+        node.expressions.forEach((expression: any) => visit(expression));
+        break;
+
+      // variant === 'danger' ? 'bg-red-500' : 'bg-blue-500'
+      case 'ConditionalExpression': {
+        const test = this.parseCondition(node.test);
+        visit(node.consequent, test ? test.then : condition);
+        visit(node.alternate, test ? test.otherwise : condition);
+        break;
+      }
+
+      // disabled && 'opacity-50'
+      case 'LogicalExpression':
+        if (node.operator === '&&') {
+          visit(node.right, this.parseCondition(node.left)?.then || condition);
+        } else {
+          visit(node.left);
+          visit(node.right);
+        }
+        break;
+
+      case 'CallExpression':
+        if (CLASS_UTILITIES.includes(this.getCalleeName(node))) {
+          node.arguments.forEach((arg: any) => visit(arg));
+        }
+        break;
+
+      // clsx({ 'ring-2': isActive })
+      case 'ObjectExpression':
+        node.properties.forEach((prop: any) => {
+          if (prop.type === 'Property' && prop.key.type === 'Literal' && typeof prop.key.value === 'string') {
+            addClasses(this.parseCondition(prop.value)?.then || condition, prop.key.value);
+          }
+        });
+        break;
+
+      case 'ArrayExpression':
+        node.elements.forEach((element: any) => visit(element));
+        break;
+
+      // { sm: 'px-2', lg: 'px-4' }[size] / sizes[size]
+      case 'MemberExpression': {
+        const prop = node.computed ? this.getPropName(node.property) : null;
+        const table = this.resolveBinding(node.object, bindings, visited);
+        if (prop && table?.type === 'ObjectExpression') {
+          table.properties.forEach((entry: any) => {
+            if (entry.type !== 'Property' || entry.computed) return;
+            const value = entry.key.type === 'Identifier' ? entry.key.name : String(entry.key.value);
+            visit(entry.value, { prop, value });
+          });
+        }
+        break;
+      }
+
+      case 'Identifier': {
+        const resolved = this.resolveBinding(node, bindings, visited);
+        if (resolved !== node) {
+          visit(resolved);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * 条件式を「Prop = 値」の組に変換
+   * 
+   * 対応形式:
+   * - disabled / props.disabled → 'true'（否定時は 'false'）
+   * - !disabled → 'false'（否定時は 'true'）
+   * - variant === 'danger' → 'danger'（否定時は '*'）
+   * - variant !== 'danger' → '*'（否定時は 'danger'）
+   * 
+   * @param node 条件式ノード
+   * @returns 条件成立時・不成立時の組（Propの条件でない場合はnull）
+   */
+  private parseCondition(node: any): { then: PropCondition; otherwise: PropCondition } | null {
+    if (!node) return null;
+
+    const prop = this.getPropName(node);
+    if (prop) {
+      return { then: { prop, value: 'true' }, otherwise: { prop, value: 'false' } };
+    }
+
+    if (node.type === 'UnaryExpression' && node.operator === '!') {
+      const inner = this.parseCondition(node.argument);
+      return inner && { then: inner.otherwise, otherwise: inner.then };
+    }
+
+    if (node.type === 'BinaryExpression' && ['===', '==', '!==', '!='].includes(node.operator)) {
+      const [propNode, literal] = node.right.type === 'Literal' ? [node.left, node.right] : [node.right, node.left];
+      const comparedProp = this.getPropName(propNode);
+      if (!comparedProp || literal.type !== 'Literal') return null;
+
+      const matched = { prop: comparedProp, value: String(literal.value) };
+      const unmatched = { prop: comparedProp, value: '*' };
+      return node.operator.startsWith('!')
+        ? { then: unmatched, otherwise: matched }
+        : { then: matched, otherwise: unmatched };
+    }
+
+    return null;
+  }
+
+  /**
+   * 条件の対象となるProp名を取得
+   * 
+   * @param node 識別子（size）または props.size 形式のメンバー式
+   * @returns Prop名（該当しない場合はnull）
+   */
+  private getPropName(node: any): string | null {
+    if (node?.type === 'Identifier') {
+      return node.name;
+    }
+    if (node?.type === 'MemberExpression' && !node.computed &&
+        node.object?.type === 'Identifier' && node.object.name === 'props' &&
+        node.property?.type === 'Identifier') {
+      return node.property.name;
+    }
+    return null;
+  }
+
+  /**
+   * 識別子を変数宣言の初期化式に解決
+   * 
+   * @param node 式ノード
+   * @param bindings 変数名 → 初期化式
+   * @param visited 解決済みの識別子
+   * @returns 初期化式（識別子でない・未解決の場合は元のノード）
+   */
+  private resolveBinding(node: any, bindings: Map<string, ASTNode>, visited: Set<string>): any {
+    if (node?.type !== 'Identifier' || visited.has(node.name) || !bindings.has(node.name)) {
+      return node;
+    }
+    visited.add(node.name);
+    return bindings.get(node.name);
+  }
+
   /**
    * 関数呼び出しから関数名を抽出
    * 
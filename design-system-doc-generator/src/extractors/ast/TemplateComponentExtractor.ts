@@ -0,0 +1,574 @@
+import * as path from 'path';
+import { ASTNode, ClassCondition, ConditionalClasses, DocComment, ExtractedComponent, JSXElement, Platform, PropInfo } from '../../types';
+import { generateHash } from '../../utils/hash';
+import { TailwindClassExtractor } from './TailwindClassExtractor';
+import { ComponentCategorizer } from './ComponentCategorizer';
+import { DocCommentExtractor } from './DocCommentExtractor';
+import { EventExtractor } from './EventExtractor';
+import { MarkupNode, MarkupParser } from './MarkupParser';
+import { topLevelDeclarations } from './TopLevelDeclarations';
+const { parse } = require('@typescript-eslint/typescript-estree');
+
+// コンポーネントファイル内の <script> ブロック（本文と開始タグの属性）
+export interface ScriptBlock {
+  content: string;
+  attrs: Record<string, string>;  // 値のない属性（setup 等）は空文字列
+}
+
+// 抽出結果の組み立てに必要な情報
+export interface TemplateComponentParts {
+  filePath: string;
+  source: string;               // ファイルの内容（ハッシュ用）
+  sourceDir: string;            // カテゴリ分類用
+  componentName: string;
+  platform: Platform;
+  props: PropInfo[];
+  classes: Set<string>;         // テンプレートで使用しているTailwindクラス
+  conditions: ClassCondition[]; // Propの条件付きで適用されるクラス
+  roots: JSXElement[];          // テンプレートのルート要素
+  fragmentType: string;         // ルート要素が複数の場合に包む要素の種別
+  scriptAsts: any[];            // インポート（dependencies）の収集対象
+  docs?: DocComment;
+}
+
+/**
+ * TemplateComponentExtractor - テンプレート構文を持つコンポーネント抽出の共通基底クラス
+ *
+ * このクラスは、<script> とHTMLベースのテンプレートで構成されるコンポーネントファイル
+ * （Vue SFC / Svelte）の抽出に共通する処理をまとめた抽象クラスです。スクリプトの
+ * パース、クラスバインディング式からのクラス抽出、型引数からのProps抽出、
+ * ExtractedComponent の組み立てを提供し、構文固有の解釈はサブクラスが担います。
+ *
+ * 主な責務:
+ * - <script> / <style> ブロックの切り出しとスクリプトのパース
+ * - クラスバインディング式からのTailwindクラス・条件付きクラスの抽出
+ * - 同一ファイルの interface・type alias を辿った型メンバーからのProps抽出
+ * - React向けの抽出結果と同じ形の ExtractedComponent の構築
+ *
+ * 使用例:
+ * class SvelteComponentExtractor extends TemplateComponentExtractor {
+ *   extract(filePath, source, sourceDir) { ... return this.buildComponent({ ... }); }
+ * }
+ *
+ * 他クラスとの関係:
+ * - VueSFCExtractor / SvelteComponentExtractor: このクラスを継承
+ * - MarkupParser: テンプレートの要素ツリーへの分解
+ * - TailwindClassExtractor: クラス文字列の判定と条件付きクラスの抽出
+ * - EventExtractor: 型ノード・式の表示用文字列への変換
+ * - DocCommentExtractor: ドキュメントコメントの解析
+ * - ComponentCategorizer: Atomic Design分類
+ */
+export abstract class TemplateComponentExtractor {
+  protected tailwindExtractor: TailwindClassExtractor;    // Tailwindクラス判定・条件付きクラス抽出
+  protected categorizer: ComponentCategorizer;            // Atomic Design分類
+  protected docCommentExtractor: DocCommentExtractor;     // ドキュメントコメント抽出
+  protected eventExtractor: EventExtractor;               // 型・式の文字列化
+  protected markupParser: MarkupParser;                   // テンプレートの要素ツリー化
+
+  constructor() {
+    this.tailwindExtractor = new TailwindClassExtractor();
+    this.categorizer = new ComponentCategorizer();
+    this.docCommentExtractor = new DocCommentExtractor();
+    this.eventExtractor = new EventExtractor();
+    this.markupParser = new MarkupParser();
+  }
+
+  /**
+   * コンポーネントファイルのソースからコンポーネント情報を抽出
+   *
+   * @param filePath ファイルのパス
+   * @param source ファイルの内容
+   * @param sourceDir ソースディレクトリ（カテゴリ分類用）
+   * @returns 抽出結果（コンポーネントとして解析できない場合はnull）
+   */
+  abstract extract(filePath: string, source: string, sourceDir: string): ExtractedComponent | null;
+
+  /**
+   * <script> ブロックを切り出し、<style> と合わせて除いた残りをマークアップとする
+   *
+   * @param source ファイルの内容
+   * @returns スクリプトブロック（出現順）と残りのマークアップ
+   */
+  protected splitScripts(source: string): { scripts: ScriptBlock[]; markup: string } {
+    const scripts: ScriptBlock[] = [];
+    const markup = source
+      .replace(/<script(\s[^>]*)?>([\s\S]*?)<\/script>/g, (_match, attrs: string | undefined, content: string) => {
+        const parsed = this.markupParser.parse(`<script${attrs || ''}></script>`)[0];
+        scripts.push({
+          content,
+          attrs: Object.fromEntries(parsed.attributes.map(attribute => [attribute.name, attribute.value ?? ''])),
+        });
+        return '';
+      })
+      .replace(/<style(\s[^>]*)?>[\s\S]*?<\/style>/g, '');
+    return { scripts, markup };
+  }
+
+  /**
+   * スクリプトブロックをパース
+   *
+   * @param block スクリプトブロック
+   * @returns コメント付きAST（ブロックがない・構文エラーの場合はnull）
+   */
+  protected parseScript(block?: ScriptBlock): any | null {
+    if (!block) return null;
+    try {
+      return parse(block.content, { jsx: /x$/.test(block.attrs.lang || ''), range: true, comment: true });
+    } catch (error) {
+      console.warn('Failed to parse script block:', error);
+      return null;
+    }
+  }
+
+  /**
+   * テンプレートの式をパース
+   *
+   * @param expression 属性値・波括弧内の式
+   * @returns 式ノード（構文エラーの場合はnull）
+   */
+  protected parseExpression(expression: string): any | null {
+    const program = this.parseStatements(`(${expression})`);
+    return program?.body[0]?.expression ?? null;
+  }
+
+  /**
+   * テンプレートの文（イベントハンドラ）をパース
+   *
+   * @param code ハンドラの属性値
+   * @returns Programノード（構文エラーの場合はnull）
+   */
+  protected parseStatements(code: string): any | null {
+    try {
+      return parse(code, { range: true });
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * マークアップの要素ツリーを JSXElement のツリーに変換
+   *
+   * @param nodes マークアップの要素
+   * @param createElement 要素（子を除く）の変換関数
+   * @returns 変換した要素（テキストの子はそのまま）
+   */
+  protected toElements(nodes: MarkupNode[], createElement: (node: MarkupNode) => JSXElement): JSXElement[] {
+    return nodes.map(node => {
+      const element = createElement(node);
+      if (node.children.length > 0) {
+        element.children = node.children.map(child =>
+          typeof child === 'string' ? child : this.toElements([child], createElement)[0]
+        );
+      }
+      return element;
+    });
+  }
+
+  /**
+   * クラスバインディング式からTailwindクラスと条件付きクラスを抽出
+   *
+   * @param expression 式ノード
+   * @param bindings スクリプトのトップレベル変数（ルックアップテーブル・computed の解決用）
+   * @returns 式が適用し得る全てのクラスと、Propの条件付きのクラス
+   */
+  protected extractBoundClasses(expression: any, bindings: Map<string, ASTNode>): { classes: string[]; conditions: ClassCondition[] } {
+    const strings: string[] = [];
+    this.collectClassStrings(expression, bindings, strings, new Set());
+    return {
+      classes: this.tailwindExtractor.extractClasses({ type: 'Literal', value: strings.join(' ') }),
+      conditions: this.tailwindExtractor.extractConditionalClasses(expression, bindings),
+    };
+  }
+
+  /**
+   * 式からクラス文字列になり得る値を収集
+   *
+   * 比較式・条件式の判定部分は対象外とし、配列・オブジェクトのキー・
+   * ルックアップテーブルの値・computed / $derived の戻り値を辿ります。
+   *
+   * @param node 式ノード
+   * @param bindings スクリプトのトップレベル変数
+   * @param strings 収集結果（参照渡し）
+   * @param visited 解決済みの識別子（循環参照防止）
+   */
+  private collectClassStrings(node: any, bindings: Map<string, ASTNode>, strings: string[], visited: Set<string>): void {
+    if (!node || typeof node !== 'object') return;
+    const visit = (child: any) => this.collectClassStrings(child, bindings, strings, visited);
+    const resolve = (identifier: any) => {
+      if (identifier?.type !== 'Identifier' || visited.has(identifier.name) || !bindings.has(identifier.name)) return null;
+      visited.add(identifier.name);
+      return bindings.get(identifier.name);
+    };
+
+    switch (node.type) {
+      case 'Literal':
+        if (typeof node.value === 'string') strings.push(node.value);
+        break;
+      case 'TemplateLiteral':
+        node.quasis.forEach((quasi: any) => strings.push(quasi.value.raw));
+        node.expressions.forEach(visit);
+        break;
+      case 'ConditionalExpression':
+        visit(node.consequent);
+        visit(node.alternate);
+        break;
+      case 'LogicalExpression':
+        if (node.operator !== '&&') visit(node.left);
+        visit(node.right);
+        break;
+      case 'ArrayExpression':
+        node.elements.forEach(visit);
+        break;
+      // { 'opacity-50': disabled, hidden: !open }
+      case 'ObjectExpression':
+        node.properties.forEach((property: any) => {
+          if (property.type === 'SpreadElement') {
+            visit(property.argument);
+          } else if (!property.computed) {
+            strings.push(this.getKeyName(property.key));
+          }
+        });
+        break;
+      // sizes[size] → テーブルの全ての値
+      case 'MemberExpression': {
+        const table = node.computed ? resolve(node.object) : null;
+        if (table?.type === 'ObjectExpression') {
+          table.properties.forEach((property: any) => property.type === 'Property' && visit(property.value));
+        }
+        break;
+      }
+      // cn(...) / computed(() => [...]) / $derived(...)
+      case 'CallExpression':
+        node.arguments.forEach(visit);
+        break;
+      case 'ArrowFunctionExpression':
+        if (node.body.type === 'BlockStatement') {
+          node.body.body.filter((statement: any) => statement.type === 'ReturnStatement').forEach((statement: any) => visit(statement.argument));
+        } else {
+          visit(node.body);
+        }
+        break;
+      case 'Identifier': {
+        const resolved = resolve(node);
+        if (resolved) visit(resolved);
+        break;
+      }
+    }
+  }
+
+  /**
+   * 抽出した情報から ExtractedComponent を構築
+   *
+   * @param parts コンポーネントの構成情報
+   * @returns React向けの抽出結果と同じ形の抽出結果
+   */
+  protected buildComponent(parts: TemplateComponentParts): ExtractedComponent {
+    const { filePath, source, sourceDir, componentName, platform, props, conditions, roots, docs } = parts;
+    const classes = Array.from(parts.classes).sort();
+    const conditionalClasses = this.buildConditionalClasses(conditions, props);
+
+    const dependencies = new Set<string>();
+    parts.scriptAsts.forEach(ast => (ast?.body || [])
+      .filter((statement: any) => statement.type === 'ImportDeclaration')
+      .forEach((statement: any) => dependencies.add(statement.source.value)));
+
+    // ルート要素が1つの場合はそのまま、複数（フラグメント）の場合は包んで1つにする
+    const jsxStructure = roots.length === 1
+      ? roots[0]
+      : roots.length > 1 ? { type: parts.fragmentType, props: {}, children: roots } : undefined;
+
+    return {
+      filePath,
+      componentName,
+      category: this.categorizer.categorizeComponent(filePath, componentName, sourceDir),
+      tailwindClasses: classes,
+      props,
+      dependencies: Array.from(dependencies),
+      hash: generateHash(source),
+      ...(jsxStructure && { jsxStructure }),
+      platform,
+      styleInfo: {
+        type: 'tailwind',
+        tailwindClasses: classes,
+        classes,
+        styles: {},
+        imports: [],
+        responsive: classes.some(cls => /^(sm:|md:|lg:|xl:|2xl:)/.test(cls)),
+        darkMode: classes.some(cls => cls.startsWith('dark:')),
+        animations: classes.filter(cls => /^(animate|transition|duration|delay|ease)-/.test(cls)),
+      },
+      ...(docs && { docs }),
+      ...(conditionalClasses.length > 0 && { conditionalClasses }),
+    };
+  }
+
+  /**
+   * 条件付きクラスをProp毎の「値 → クラス」に集約
+   *
+   * @param conditions 条件とクラスの組
+   * @param props コンポーネントのProps
+   * @returns Prop毎の対応（Props宣言順）
+   */
+  private buildConditionalClasses(conditions: ClassCondition[], props: PropInfo[]): ConditionalClasses[] {
+    return props
+      .map(prop => {
+        const values: Record<string, string[]> = {};
+        conditions
+          .filter(condition => condition.prop === prop.name)
+          .forEach(condition => {
+            values[condition.value] = Array.from(new Set([...(values[condition.value] || []), ...condition.classes])).sort();
+          });
+        return { prop: prop.name, values };
+      })
+      .filter(mapping => Object.keys(mapping.values).length > 0);
+  }
+
+  /**
+   * ファイル名からコンポーネント名を決定
+   *
+   * @param filePath コンポーネントファイルのパス
+   * @param extension 拡張子（.vue / .svelte）
+   * @returns ファイル名（index はディレクトリ名）のケバブケースをPascalCaseにした名前
+   */
+  protected componentNameFromFile(filePath: string, extension: string): string {
+    const baseName = path.basename(filePath, extension);
+    const name = baseName === 'index' ? path.basename(path.dirname(filePath)) : baseName;
+    return name.split('-').filter(Boolean).map(part => part.charAt(0).toUpperCase() + part.slice(1)).join('');
+  }
+
+  /**
+   * 型引数（型リテラル・同一ファイルの interface / type）からPropsを抽出
+   *
+   * @param ast 型宣言を含むスクリプトのAST
+   * @param typeNode Props型を表す型ノード
+   * @returns Props情報（型メンバーの宣言順）
+   */
+  protected propsFromType(ast: any, typeNode: any): PropInfo[] {
+    const docs = this.docCommentExtractor.extractMemberDocs(ast, typeNode);
+    return this.collectTypeMembers(ast, typeNode, new Set())
+      .filter((member: any) => member.type === 'TSPropertySignature' || member.type === 'TSMethodSignature')
+      .map((member: any) => {
+        const name = this.getKeyName(member.key);
+        const type = member.type === 'TSMethodSignature'
+          ? this.eventExtractor.typeToString({ ...member, type: 'TSFunctionType' })
+          : this.eventExtractor.typeToString(member.typeAnnotation?.typeAnnotation);
+        const doc = docs.get(name);
+        return {
+          name,
+          type,
+          required: !member.optional,
+          ...(doc?.defaultValue && { defaultValue: doc.defaultValue }),
+          ...(doc && { docs: doc }),
+        };
+      });
+  }
+
+  /**
+   * 型ノードのメンバーを収集（同一ファイルの interface・type alias、交差型を展開）
+   *
+   * @param ast スクリプトのAST
+   * @param typeNode 型ノード
+   * @param visited 循環参照防止用の訪問済み型名
+   * @returns 型メンバーノード（interface の継承元を先に並べる）
+   */
+  protected collectTypeMembers(ast: any, typeNode: any, visited: Set<string>): any[] {
+    if (!typeNode) return [];
+
+    switch (typeNode.type) {
+      case 'TSTypeAnnotation':
+        return this.collectTypeMembers(ast, typeNode.typeAnnotation, visited);
+      case 'TSTypeLiteral':
+        return typeNode.members;
+      case 'TSIntersectionType':
+        return typeNode.types.flatMap((type: any) => this.collectTypeMembers(ast, type, visited));
+      case 'TSTypeReference': {
+        const typeName = typeNode.typeName?.type === 'Identifier' ? typeNode.typeName.name : null;
+        if (!typeName || visited.has(typeName)) return [];
+        visited.add(typeName);
+
+        for (const { declaration } of topLevelDeclarations(ast)) {
+          if (declaration?.id?.name !== typeName) continue;
+          if (declaration.type === 'TSInterfaceDeclaration') {
+            const inherited = (declaration.extends || []).flatMap((heritage: any) =>
+              this.collectTypeMembers(ast, { type: 'TSTypeReference', typeName: heritage.expression }, visited)
+            );
+            return [...inherited, ...declaration.body.body];
+          }
+          if (declaration.type === 'TSTypeAliasDeclaration') {
+            return this.collectTypeMembers(ast, declaration.typeAnnotation, visited);
+          }
+        }
+        return [];
+      }
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * スクリプト先頭のドキュメントコメントをコンポーネントの説明として取得
+   *
+   * @param ast スクリプトのAST
+   * @returns ドキュメント情報（最初の文より前に /** コメントがない場合はundefined）
+   */
+  protected extractComponentDoc(ast: any): DocComment | undefined {
+    const firstStatementStart = ast?.body?.[0]?.range[0] ?? Infinity;
+    const comment = (ast?.comments || []).find((candidate: any) =>
+      candidate.type === 'Block' && candidate.value.startsWith('*') && candidate.range[1] <= firstStatementStart
+    );
+    return comment ? this.docCommentExtractor.parseComment(comment.value) : undefined;
+  }
+
+  /**
+   * ノード直前のドキュメントコメントを取得
+   *
+   * @param ast コメント情報を含むAST
+   * @param node 対象ノード
+   * @param previousEnd 直前の兄弟ノードの終端位置
+   * @returns ドキュメント情報（該当コメントがない場合はundefined）
+   */
+  protected findLeadingDoc(ast: any, node: any, previousEnd: number): DocComment | undefined {
+    const comment = (ast?.comments || [])
+      .filter((candidate: any) =>
+        candidate.type === 'Block' && candidate.value.startsWith('*') &&
+        candidate.range[0] >= previousEnd && candidate.range[1] <= node.range[0]
+      )
+      .pop();
+    return comment ? this.docCommentExtractor.parseComment(comment.value) : undefined;
+  }
+
+  /**
+   * スクリプトのトップレベルの変数宣言を収集
+   *
+   * @param ast スクリプトのAST
+   * @returns 変数名 → 初期化式
+   */
+  protected collectBindings(ast: any): Map<string, ASTNode> {
+    const bindings = new Map<string, ASTNode>();
+    topLevelDeclarations(ast).forEach(({ declaration }) => {
+      if (declaration?.type !== 'VariableDeclaration') return;
+      declaration.declarations.forEach((declarator: any) => {
+        if (declarator.id.type === 'Identifier' && declarator.init) {
+          bindings.set(declarator.id.name, declarator.init);
+        }
+      });
+    });
+    return bindings;
+  }
+
+  /**
+   * スクリプトでインポートしているローカル名を収集
+   *
+   * @param asts スクリプトのAST
+   * @returns ローカル名（import Spinner from ... の Spinner 等）
+   */
+  protected collectImportedNames(asts: any[]): Set<string> {
+    const names = new Set<string>();
+    asts.forEach(ast => (ast?.body || [])
+      .filter((statement: any) => statement.type === 'ImportDeclaration')
+      .forEach((statement: any) => statement.specifiers.forEach((specifier: any) => names.add(specifier.local.name))));
+    return names;
+  }
+
+  /**
+   * AST内で指定名の関数呼び出しを検索
+   *
+   * @param ast 検索対象のAST
+   * @param name 関数名（defineProps / $props 等）
+   * @returns 最初に見つかった呼び出しノード（ない場合はnull）
+   */
+  protected findCall(ast: any, name: string): any | null {
+    let found: any = null;
+    this.walk(ast, (node: any) => {
+      if (!found && node.type === 'CallExpression' && node.callee.type === 'Identifier' && node.callee.name === name) {
+        found = node;
+      }
+    });
+    return found;
+  }
+
+  /**
+   * ASTを深さ優先で走査
+   *
+   * @param node 走査開始ノード
+   * @param callback 各ノードで呼び出す関数
+   */
+  protected walk(node: any, callback: (node: any) => void): void {
+    if (!node || typeof node !== 'object') return;
+    if (Array.isArray(node)) {
+      node.forEach(child => this.walk(child, callback));
+      return;
+    }
+    if (typeof node.type === 'string') callback(node);
+    Object.keys(node).forEach(key => {
+      if (key !== 'parent' && key !== 'range' && key !== 'loc' && key !== 'comments' && key !== 'tokens') {
+        this.walk(node[key], callback);
+      }
+    });
+  }
+
+  /**
+   * オブジェクト式から指定キーのプロパティ値を取得
+   *
+   * @param object ObjectExpressionノード
+   * @param key キー名
+   * @returns プロパティの値ノード（ない場合はnull）
+   */
+  protected getProperty(object: any, key: string): any | null {
+    if (object?.type !== 'ObjectExpression') return null;
+    const property = object.properties.find((candidate: any) =>
+      candidate.type === 'Property' && !candidate.computed && this.getKeyName(candidate.key) === key
+    );
+    return property?.value ?? null;
+  }
+
+  /**
+   * 呼び出し・型参照の最初の型引数を取得
+   *
+   * @param node CallExpression / TSTypeReference
+   * @returns 型引数ノード（ない場合はnull）
+   */
+  protected getTypeArgument(node: any): any | null {
+    // 旧バージョンのパーサーは typeParameters に型引数を保持する
+    const typeArguments = 'typeArguments' in node ? node.typeArguments : node.typeParameters;
+    return typeArguments?.params?.[0] ?? null;
+  }
+
+  /**
+   * デフォルト値の式を表示用の文字列に変換
+   *
+   * @param node デフォルト値の式（() => [] のファクトリ関数は戻り値）
+   * @returns 値の文字列
+   */
+  protected describeDefault(node: any): string {
+    if (node.type === 'ArrowFunctionExpression' && node.body.type !== 'BlockStatement') {
+      return this.describeDefault(node.body);
+    }
+    if (node.type === 'ArrayExpression' && node.elements.length === 0) return '[]';
+    return this.eventExtractor.describeExpression(node);
+  }
+
+  /**
+   * 初期値のリテラルから型を推定
+   *
+   * @param node 初期値の式
+   * @returns string / number / boolean（推定できない場合は 'any'）
+   */
+  protected inferLiteralType(node: any): string {
+    if (node.type === 'Literal' && ['string', 'number', 'boolean'].includes(typeof node.value)) {
+      return typeof node.value;
+    }
+    if (node.type === 'TemplateLiteral') return 'string';
+    return 'any';
+  }
+
+  /**
+   * プロパティキーの名前を取得
+   *
+   * @param key Identifier / Literal
+   * @returns キー名
+   */
+  protected getKeyName(key: any): string {
+    return key.type === 'Identifier' ? key.name : String(key.value);
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * TopLevelDeclaration - モジュールのトップレベルの文と、export を外した宣言の組
+ */
+export interface TopLevelDeclaration {
+  statement: any;    // トップレベルの文
+  declaration: any;  // export const / export default function 等は内側の宣言、それ以外は文自体（export { a } はnull）
+}
+
+/**
+ * トップレベルの文を、export を外した宣言と組にして列挙
+ *
+ * export const / export function / export default class 等は内側の宣言を、
+ * それ以外の文（import・式文等を含む）はその文自体を宣言として返します。
+ * export の有無に関わらずファイル内の定義を検索する抽出器で共通に使用します。
+ *
+ * @param ast モジュールのAST（パースに失敗した場合はnull / undefined）
+ * @returns 文と宣言の組の配列（出現順）
+ */
+export function topLevelDeclarations(ast: any): TopLevelDeclaration[] {
+  return (ast?.body || []).map((statement: any) => ({
+    statement,
+    declaration: statement.type === 'ExportNamedDeclaration' || statement.type === 'ExportDefaultDeclaration'
+      ? statement.declaration
+      : statement,
+  }));
+}
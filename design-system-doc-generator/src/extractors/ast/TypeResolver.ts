@@ -0,0 +1,411 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+import { EventParameter, PropInfo } from '../../types';
+import { DocCommentExtractor } from './DocCommentExtractor';
+
+/**
+ * TypeResolver - TypeScript型チェッカー連携クラス
+ *
+ * このクラスは、解析対象プロジェクトのtsconfig.jsonに基づいて
+ * TypeScriptプログラムを構築し、コンポーネントのProps型を
+ * コンパイラと同じ視点で解決する役割を担います。
+ *
+ * 主な責務:
+ * - tsconfig.json（SourceConfig.tsConfigPath）に基づくProgramの構築とキャッシュ
+ * - ESTreeノードとTypeScriptノードの対応付け（parserServices経由）
+ * - Props型のプロパティ列挙と型文字列化
+ * - 必須/任意プロパティの判定
+ * - コールバックPropの呼び出しシグネチャ（引数・戻り値の型）の解決
+ * - 各プロパティのJSDoc/TSDocコメント（継承元の宣言を含む）の取得
+ * - tsconfig の paths / baseUrl に基づくインポート指定子のファイルパス解決
+ *
+ * 対応する型定義パターン:
+ * - interface ButtonProps { ... }
+ * - type Props = { ... }
+ * - 交差型: BaseProps & { variant: 'primary' | 'secondary' }
+ * - 継承: interface Props extends React.ButtonHTMLAttributes<HTMLButtonElement>
+ * - ジェネリクス: function List<T>({ items }: ListProps<T>)
+ * - 文脈的型付け: const Tag: React.FC<TagProps> = ({ label }) => ...
+ * - クラスコンポーネント: class Modal extends React.Component<ModalProps, ModalState>
+ *
+ * 設計方針:
+ * - node_modules や標準ライブラリで宣言されたプロパティ（ネイティブ属性等）は
+ *   Props一覧に含めず、プロジェクト内で宣言されたプロパティのみを対象とする
+ * - 型情報が得られない場合はnullを返し、呼び出し側のAST由来の推論にフォールバックさせる
+ *
+ * 使用例:
+ * const resolver = new TypeResolver('./tsconfig.json');
+ * const program = resolver.getProgram('./src/Button.tsx');
+ * const props = resolver.resolveParameterProps(paramNode, services);
+ *
+ * 他クラスとの関係:
+ * - ComponentAnalyzer: AST生成時にこのクラスのProgramを渡して型情報付きでパース
+ * - PropExtractor: コンポーネント関数の引数からProps型を解決する際に使用
+ */
+export class TypeResolver {
+  private tsConfigPath?: string;                                  // 明示的に指定されたtsconfigのパス
+  private programs = new Map<string, ts.Program>();               // 設定ファイル毎のProgramキャッシュ
+  private rootNames = new Map<string, Set<string>>();             // 設定ファイル毎のルートファイル一覧
+  private compilerOptions = new Map<string, ts.CompilerOptions>();  // 設定ファイル毎のコンパイラオプション（モジュール解決用）
+  private docCommentExtractor = new DocCommentExtractor();        // JSDocタグの変換
+
+  /**
+   * @param tsConfigPath tsconfig.jsonのパス（省略時は解析対象ファイルから上位ディレクトリを探索）
+   */
+  constructor(tsConfigPath?: string) {
+    this.tsConfigPath = tsConfigPath;
+  }
+
+  /**
+   * 指定ファイルを含むTypeScriptプログラムを取得
+   *
+   * 同じtsconfigを共有するファイル間でProgramを再利用し、
+   * 対象ファイルがまだ含まれていない場合のみ再構築します。
+   *
+   * @param filePath 解析対象ファイルのパス
+   * @returns 対象ファイルを含むProgram（構築できない場合はnull）
+   */
+  getProgram(filePath: string): ts.Program | null {
+    const absolutePath = path.resolve(filePath);
+    const configPath = this.findConfigPath(absolutePath);
+    const cacheKey = configPath || '';
+
+    let program = this.programs.get(cacheKey);
+    if (program && program.getSourceFile(absolutePath)) {
+      return program;
+    }
+
+    const { fileNames, options } = this.loadCompilerOptions(configPath);
+    const rootNames = this.rootNames.get(cacheKey) || new Set(fileNames);
+    rootNames.add(absolutePath);
+    this.rootNames.set(cacheKey, rootNames);
+
+    // 既存Programを再利用して差分のみ再構築
+    program = ts.createProgram(Array.from(rootNames), options, undefined, program);
+    this.programs.set(cacheKey, program);
+
+    return program.getSourceFile(absolutePath) ? program : null;
+  }
+
+  /**
+   * インポート指定子をプロジェクト内のファイルパスに解決
+   *
+   * 相対パスに加えて tsconfig の paths エイリアス・baseUrl・ディレクトリの index を
+   * コンパイラと同じ規則で解決します。node_modules 等の外部ライブラリや
+   * 型定義ファイルは対象外です。
+   *
+   * @param specifier インポート指定子（'./Button'、'@/components/ui' 等）
+   * @param fromFile インポートしているファイルのパス
+   * @returns 解決したファイルの絶対パス（解決できない場合はnull）
+   */
+  resolveModulePath(specifier: string, fromFile: string): string | null {
+    const absolutePath = path.resolve(fromFile);
+    const configPath = this.findConfigPath(absolutePath);
+    const cacheKey = configPath || '';
+
+    let options = this.compilerOptions.get(cacheKey);
+    if (!options) {
+      options = this.loadCompilerOptions(configPath).options;
+      this.compilerOptions.set(cacheKey, options);
+    }
+
+    const { resolvedModule } = ts.resolveModuleName(specifier, absolutePath, options, ts.sys);
+    if (!resolvedModule || resolvedModule.isExternalLibraryImport || resolvedModule.extension === ts.Extension.Dts) {
+      return null;
+    }
+    return path.resolve(resolvedModule.resolvedFileName);
+  }
+
+  /**
+   * 関数パラメータのProps型を解決
+   *
+   * コンポーネント関数の第一引数に対応するTypeScriptノードから型を取得し、
+   * 各プロパティの型文字列、必須/任意、ドキュメントコメントを列挙します。
+   *
+   * @param param ESTreeのパラメータノード（Identifier / ObjectPattern等）
+   * @param services parseAndGenerateServicesが返すparserServices
+   * @param propsTypeNode 引数に型注釈がない場合に使用するESTreeの型ノード（forwardRefの型引数等）
+   * @returns 解決されたProps情報（型情報が得られない場合はnull）
+   */
+  resolveParameterProps(param: any, services: any, propsTypeNode?: any): PropInfo[] | null {
+    const resolved = this.resolveParameterType(param, services, propsTypeNode);
+    if (!resolved) {
+      return null;
+    }
+
+    return this.collectProps(services.program, resolved.type, resolved.location);
+  }
+
+  /**
+   * 関数パラメータのProps型からコールバックPropのシグネチャを解決
+   *
+   * Props型の各プロパティのうち呼び出しシグネチャを持つもの（onChange等）について、
+   * 最初のシグネチャの引数名・引数型・任意判定と戻り値の型を返します。
+   * Props一覧と同様に、外部ライブラリで宣言されたプロパティは対象外です。
+   *
+   * @param param ESTreeのパラメータノード（Identifier / ObjectPattern等）
+   * @param services parseAndGenerateServicesが返すparserServices
+   * @param propsTypeNode 引数に型注釈がない場合に使用するESTreeの型ノード（forwardRefの型引数等）
+   * @returns Prop名 → シグネチャ（型情報が得られない場合はnull）
+   */
+  resolveCallSignatures(param: any, services: any, propsTypeNode?: any): Map<string, { parameters: EventParameter[]; returnType?: string }> | null {
+    const resolved = this.resolveParameterType(param, services, propsTypeNode);
+    if (!resolved || resolved.type.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) {
+      return null;
+    }
+
+    const program: ts.Program = services.program;
+    const checker = program.getTypeChecker();
+    const signatures = new Map<string, { parameters: EventParameter[]; returnType?: string }>();
+
+    for (const symbol of checker.getPropertiesOfType(resolved.type)) {
+      if (this.isDeclaredExternally(symbol, program)) {
+        continue;
+      }
+
+      // onChange?: (...) => void は undefined との合併型になるため除去してから取得
+      const symbolType = checker.getNonNullableType(checker.getTypeOfSymbolAtLocation(symbol, resolved.location));
+      const [signature] = symbolType.getCallSignatures();
+      if (!signature) {
+        continue;
+      }
+
+      signatures.set(symbol.getName(), {
+        parameters: signature.getParameters().map(parameter => {
+          const declaration = parameter.valueDeclaration;
+          const isParameter = declaration && ts.isParameter(declaration);
+          return {
+            name: `${isParameter && declaration.dotDotDotToken ? '...' : ''}${parameter.getName()}`,
+            type: this.typeToString(checker, checker.getTypeOfSymbolAtLocation(parameter, resolved.location)),
+            optional: !!(isParameter && (declaration.questionToken || declaration.initializer)),
+          };
+        }),
+        returnType: this.typeToString(checker, signature.getReturnType()),
+      });
+    }
+
+    return signatures;
+  }
+
+  /**
+   * 関数パラメータに対応するProps型を取得
+   *
+   * @param param ESTreeのパラメータノード
+   * @param services parseAndGenerateServicesが返すparserServices
+   * @param propsTypeNode 引数に型注釈がない場合に使用するESTreeの型ノード
+   * @returns Props型とプロパティ型の解決位置（型情報が得られない場合はnull）
+   */
+  private resolveParameterType(param: any, services: any, propsTypeNode?: any): { type: ts.Type; location: ts.Node } | null {
+    if (!param || !services?.program || !services.esTreeNodeToTSNodeMap) {
+      return null;
+    }
+
+    const checker = (services.program as ts.Program).getTypeChecker();
+
+    // ObjectPatternはObjectBindingPatternに対応するため、親のParameterDeclarationまで遡る
+    let tsParam: ts.Node | undefined = services.esTreeNodeToTSNodeMap.get(param);
+    if (tsParam && !ts.isParameter(tsParam) && tsParam.parent && ts.isParameter(tsParam.parent)) {
+      tsParam = tsParam.parent;
+    }
+    if (!tsParam || !ts.isParameter(tsParam)) {
+      return null;
+    }
+
+    // 型注釈 → 呼び出し元が特定した型ノード（forwardRef<Ref, Props>等）
+    // → 変数の型引数（React.FC<Props>等）→ 文脈的型付けの順で取得
+    const mappedTypeNode = propsTypeNode ? services.esTreeNodeToTSNodeMap.get(propsTypeNode) : undefined;
+    const tsTypeNode = tsParam.type ||
+      (mappedTypeNode && ts.isTypeNode(mappedTypeNode) ? mappedTypeNode : undefined) ||
+      this.getComponentTypeArgument(tsParam);
+    const type = tsTypeNode
+      ? checker.getTypeFromTypeNode(tsTypeNode)
+      : checker.getTypeAtLocation(tsParam);
+
+    return { type, location: tsParam };
+  }
+
+  /**
+   * 型ノードからProps情報を解決
+   *
+   * クラスコンポーネントの React.Component<Props, State> の型引数など、
+   * 関数パラメータを介さずに型ノードが直接得られる場合に使用します。
+   *
+   * @param typeNode ESTreeの型ノード
+   * @param services parseAndGenerateServicesが返すparserServices
+   * @returns 解決されたProps情報（型情報が得られない場合はnull）
+   */
+  resolveTypeNodeProps(typeNode: any, services: any): PropInfo[] | null {
+    if (!typeNode || !services?.program || !services.esTreeNodeToTSNodeMap) {
+      return null;
+    }
+
+    const program: ts.Program = services.program;
+    const tsTypeNode: ts.Node | undefined = services.esTreeNodeToTSNodeMap.get(typeNode);
+    if (!tsTypeNode || !ts.isTypeNode(tsTypeNode)) {
+      return null;
+    }
+
+    const type = program.getTypeChecker().getTypeFromTypeNode(tsTypeNode);
+    return this.collectProps(program, type, tsTypeNode);
+  }
+
+  /**
+   * 型のプロパティを列挙してProps情報に変換
+   *
+   * @param program TypeScriptプログラム
+   * @param propsType Props型
+   * @param location プロパティ型の解決位置となるノード
+   * @returns Props情報（any/unknownの場合はnull）
+   */
+  private collectProps(program: ts.Program, propsType: ts.Type, location: ts.Node): PropInfo[] | null {
+    const checker = program.getTypeChecker();
+    if (propsType.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) {
+      return null;
+    }
+
+    const props: PropInfo[] = [];
+    for (const symbol of checker.getPropertiesOfType(propsType)) {
+      if (this.isDeclaredExternally(symbol, program)) {
+        continue;
+      }
+
+      const optional = (symbol.flags & ts.SymbolFlags.Optional) !== 0;
+      const symbolType = checker.getTypeOfSymbolAtLocation(symbol, location);
+
+      const prop: PropInfo = {
+        name: symbol.getName(),
+        type: this.typeToString(checker, optional ? checker.getNonNullableType(symbolType) : symbolType),
+        required: !optional,
+      };
+
+      const docs = this.docCommentExtractor.fromTags(
+        ts.displayPartsToString(symbol.getDocumentationComment(checker)),
+        symbol.getJsDocTags(checker).map(tag => ({ name: tag.name, text: ts.displayPartsToString(tag.text) }))
+      );
+      if (docs) {
+        prop.docs = docs;
+      }
+
+      props.push(prop);
+    }
+
+    return props;
+  }
+
+  /**
+   * コンポーネント変数の型注釈からProps型引数を取得
+   *
+   * const Tag: React.FC<TagProps> = ({ label }) => ... のように、
+   * 引数ではなく変数側に型が付けられている場合に第一型引数を返します。
+   * Reactの型定義が解決できない環境でも、Props型そのものは解決できます。
+   *
+   * @param tsParam 関数のパラメータ宣言
+   * @returns Props型のTypeNode（該当しない場合はundefined）
+   */
+  private getComponentTypeArgument(tsParam: ts.ParameterDeclaration): ts.TypeNode | undefined {
+    const fn = tsParam.parent;
+    const declaration = fn && (ts.isArrowFunction(fn) || ts.isFunctionExpression(fn)) ? fn.parent : undefined;
+    if (!declaration || !ts.isVariableDeclaration(declaration) || !declaration.type) {
+      return undefined;
+    }
+
+    const typeNode = declaration.type;
+    if (ts.isTypeReferenceNode(typeNode) && typeNode.typeArguments?.length) {
+      return typeNode.typeArguments[0];
+    }
+    return undefined;
+  }
+
+  /**
+   * 型をドキュメント表示用の文字列に変換
+   *
+   * @param checker 型チェッカー
+   * @param type 変換対象の型
+   * @returns 省略なしの型文字列
+   */
+  private typeToString(checker: ts.TypeChecker, type: ts.Type): string {
+    return checker.typeToString(
+      type,
+      undefined,
+      ts.TypeFormatFlags.NoTruncation | ts.TypeFormatFlags.UseAliasDefinedOutsideCurrentScope
+    );
+  }
+
+  /**
+   * プロパティがプロジェクト外（node_modules・標準ライブラリ）で宣言されているか判定
+   *
+   * React.ButtonHTMLAttributes等から継承されるネイティブ属性を除外するために使用します。
+   *
+   * @param symbol プロパティシンボル
+   * @param program TypeScriptプログラム
+   * @returns 全ての宣言が外部ライブラリにある場合true
+   */
+  private isDeclaredExternally(symbol: ts.Symbol, program: ts.Program): boolean {
+    const declarations = symbol.getDeclarations() || [];
+    if (declarations.length === 0) {
+      return false;
+    }
+
+    return declarations.every(declaration => {
+      const sourceFile = declaration.getSourceFile();
+      return program.isSourceFileFromExternalLibrary(sourceFile) ||
+             program.isSourceFileDefaultLibrary(sourceFile) ||
+             sourceFile.fileName.includes('/node_modules/');
+    });
+  }
+
+  /**
+   * 使用するtsconfig.jsonのパスを決定
+   *
+   * @param filePath 解析対象ファイルの絶対パス
+   * @returns tsconfig.jsonの絶対パス（見つからない場合はundefined）
+   */
+  private findConfigPath(filePath: string): string | undefined {
+    if (this.tsConfigPath) {
+      return path.resolve(this.tsConfigPath);
+    }
+    return ts.findConfigFile(path.dirname(filePath), ts.sys.fileExists);
+  }
+
+  /**
+   * tsconfig.jsonからコンパイラオプションとファイル一覧を読み込み
+   *
+   * 設定ファイルがない場合や読み込みに失敗した場合は、
+   * JSX/JavaScriptを含むコンポーネント解析に必要な最小限のオプションを使用します。
+   *
+   * @param configPath tsconfig.jsonのパス
+   * @returns コンパイラオプションとルートファイル一覧
+   */
+  private loadCompilerOptions(configPath?: string): { fileNames: string[]; options: ts.CompilerOptions } {
+    const defaultOptions: ts.CompilerOptions = {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.CommonJS,
+      moduleResolution: ts.ModuleResolutionKind.Node10,
+      jsx: ts.JsxEmit.Preserve,
+      allowJs: true,
+      esModuleInterop: true,
+      skipLibCheck: true,
+      noEmit: true,
+    };
+
+    if (!configPath) {
+      return { fileNames: [], options: defaultOptions };
+    }
+
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (error) {
+      console.warn(`Failed to read tsconfig from ${configPath}:`, ts.flattenDiagnosticMessageText(error.messageText, '\n'));
+      return { fileNames: [], options: defaultOptions };
+    }
+
+    const parsed = ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(configPath));
+    return {
+      fileNames: parsed.fileNames,
+      options: {
+        ...parsed.options,
+        jsx: parsed.options.jsx ?? ts.JsxEmit.Preserve,
+        noEmit: true,
+      },
+    };
+  }
+}
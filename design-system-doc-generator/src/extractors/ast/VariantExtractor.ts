@@ -0,0 +1,271 @@
+import { CompoundVariant, PropInfo, VariantDefinition } from '../../types';
+import { topLevelDeclarations } from './TopLevelDeclarations';
+
+/**
+ * VariantExtractor - cva / tailwind-variants 定義解析クラス
+ *
+ * このクラスは、class-variance-authority（cva）および tailwind-variants（tv）で
+ * 定義されたスタイルバリアントを解析し、「バリアント名 → オプション → クラス」の
+ * 構造化されたマトリクスとして抽出する専門エクストラクターです。
+ *
+ * 主な責務:
+ * - モジュールレベルの cva(base, config) / tv(config) 定義の検出
+ * - variants・compoundVariants・defaultVariants の構造化
+ * - コンポーネント内での定義の使用箇所（buttonVariants({ intent })）の特定
+ * - バリアント名と一致するPropsへの型・デフォルト値の補完
+ *
+ * 対応パターン:
+ * - const buttonVariants = cva('inline-flex', { variants: { size: { sm: 'h-8' } }, defaultVariants: { size: 'sm' } })
+ * - const card = tv({ base: 'rounded', variants: { shadow: { true: 'shadow-lg' } } })
+ * - cva(['font-semibold', 'border'], { ... })（配列形式のベースクラス）
+ *
+ * 制限事項:
+ * - クラス指定は文字列リテラル・式を含まないテンプレートリテラル・それらの配列のみ対象
+ * - tv のスロット（{ base: '...', icon: '...' }）はスロットを区別せずクラスを連結
+ *
+ * 使用例:
+ * const extractor = new VariantExtractor();
+ * const definitions = extractor.extractVariants(ast);
+ * const used = extractor.findUsedVariants(componentNode, definitions);
+ * const props = extractor.linkProps(props, used);
+ *
+ * 他クラスとの関係:
+ * - TailwindExtractor: ファイル単位で定義を抽出し、コンポーネント毎に使用中の定義を紐付け
+ * - ComponentDocumentGenerator / MarkdownFormatter: バリアント表として出力
+ */
+export class VariantExtractor {
+  /**
+   * AST全体から cva / tv のバリアント定義を抽出
+   *
+   * @param ast TypeScript ESTree AST
+   * @returns バリアント定義の配列（宣言順）
+   */
+  extractVariants(ast: any): VariantDefinition[] {
+    const definitions: VariantDefinition[] = [];
+
+    for (const { declaration } of topLevelDeclarations(ast)) {
+      if (declaration?.type !== 'VariableDeclaration') continue;
+
+      for (const declarator of declaration.declarations) {
+        const library = this.getLibrary(declarator.init);
+        if (declarator.id?.type !== 'Identifier' || !library) continue;
+
+        definitions.push(library === 'cva'
+          ? this.parseDefinition(declarator.id.name, library, declarator.init.arguments[0], declarator.init.arguments[1])
+          : this.parseDefinition(declarator.id.name, library, this.getProperty(declarator.init.arguments[0], 'base'), declarator.init.arguments[0]));
+      }
+    }
+
+    return definitions;
+  }
+
+  /**
+   * コンポーネント内で呼び出されているバリアント定義を特定
+   *
+   * @param scope コンポーネントの定義ノード（またはAST全体）
+   * @param definitions ファイル内のバリアント定義
+   * @returns 使用されているバリアント定義（定義順）
+   */
+  findUsedVariants(scope: any, definitions: VariantDefinition[]): VariantDefinition[] {
+    if (definitions.length === 0) {
+      return [];
+    }
+
+    const calledNames = new Set<string>();
+    const visit = (node: any) => {
+      if (!node || typeof node !== 'object') return;
+
+      if (node.type === 'CallExpression' && node.callee?.type === 'Identifier') {
+        calledNames.add(node.callee.name);
+      }
+
+      for (const key in node) {
+        if (key !== 'parent' && node[key] && typeof node[key] === 'object') {
+          visit(node[key]);
+        }
+      }
+    };
+    visit(scope);
+
+    return definitions.filter(definition => calledNames.has(definition.name));
+  }
+
+  /**
+   * バリアント名と一致するPropsに型・デフォルト値を補完
+   *
+   * 型情報が得られなかったProps（'any'）はオプションのユニオン型とし、
+   * デフォルト値がない場合は defaultVariants の値を使用します。
+   *
+   * @param props Props情報
+   * @param variants コンポーネントが使用するバリアント定義
+   * @returns 補完後のProps情報
+   */
+  linkProps(props: PropInfo[], variants: VariantDefinition[]): PropInfo[] {
+    if (variants.length === 0) {
+      return props;
+    }
+
+    return props.map(prop => {
+      const definition = variants.find(variant => variant.variants[prop.name]);
+      if (!definition) return prop;
+
+      const options = Object.keys(definition.variants[prop.name]);
+      return {
+        ...prop,
+        type: prop.type === 'any' ? options.map(option => this.toTypeLiteral(option)).join(' | ') : prop.type,
+        defaultValue: prop.defaultValue ?? definition.defaultVariants[prop.name],
+      };
+    });
+  }
+
+  /**
+   * バリアント定義に含まれる全クラスを取得
+   *
+   * @param definition バリアント定義
+   * @returns ベース・各オプション・複合バリアントのクラス（重複なし）
+   */
+  getAllClasses(definition: VariantDefinition): string[] {
+    const classes = new Set<string>(definition.base);
+    Object.values(definition.variants).forEach(options =>
+      Object.values(options).forEach(optionClasses => optionClasses.forEach(cls => classes.add(cls)))
+    );
+    definition.compoundVariants.forEach(compound => compound.classes.forEach(cls => classes.add(cls)));
+    return Array.from(classes);
+  }
+
+  /**
+   * 呼び出し式が cva / tv の定義か判定
+   *
+   * @param node 初期化式ノード
+   * @returns ライブラリ種別（該当しない場合はnull）
+   */
+  private getLibrary(node: any): 'cva' | 'tv' | null {
+    if (node?.type !== 'CallExpression' || node.callee?.type !== 'Identifier') {
+      return null;
+    }
+    return node.callee.name === 'cva' ? 'cva' :
+           node.callee.name === 'tv' ? 'tv' :
+           null;
+  }
+
+  /**
+   * ベースクラスと設定オブジェクトからバリアント定義を構築
+   *
+   * @param name 定義変数名
+   * @param library ライブラリ種別
+   * @param baseNode ベースクラスのノード
+   * @param configNode 設定オブジェクト（variants, compoundVariants, defaultVariants）
+   * @returns バリアント定義
+   */
+  private parseDefinition(name: string, library: 'cva' | 'tv', baseNode: any, configNode: any): VariantDefinition {
+    const variants: Record<string, Record<string, string[]>> = {};
+    for (const variant of this.getProperties(this.getProperty(configNode, 'variants'))) {
+      variants[variant.key] = {};
+      for (const option of this.getProperties(variant.value)) {
+        variants[variant.key][option.key] = this.getClasses(option.value);
+      }
+    }
+
+    const compoundVariants: CompoundVariant[] = [];
+    for (const element of this.getProperty(configNode, 'compoundVariants')?.elements || []) {
+      const conditions: Record<string, string | string[]> = {};
+      let classes: string[] = [];
+
+      for (const property of this.getProperties(element)) {
+        // cva / tv ともに class または className でクラスを指定
+        if (property.key === 'class' || property.key === 'className') {
+          classes = this.getClasses(property.value);
+        } else if (property.value?.type === 'ArrayExpression') {
+          conditions[property.key] = property.value.elements.map((option: any) => String(option?.value));
+        } else if (property.value?.type === 'Literal') {
+          conditions[property.key] = String(property.value.value);
+        }
+      }
+      compoundVariants.push({ conditions, classes });
+    }
+
+    const defaultVariants: Record<string, string> = {};
+    for (const property of this.getProperties(this.getProperty(configNode, 'defaultVariants'))) {
+      if (property.value?.type === 'Literal') {
+        defaultVariants[property.key] = String(property.value.value);
+      }
+    }
+
+    return {
+      name,
+      library,
+      base: this.getClasses(baseNode),
+      variants,
+      compoundVariants,
+      defaultVariants,
+    };
+  }
+
+  /**
+   * オブジェクト式から指定キーの値ノードを取得
+   *
+   * @param node ObjectExpressionノード
+   * @param key プロパティ名
+   * @returns 値ノード（見つからない場合はundefined）
+   */
+  private getProperty(node: any, key: string): any {
+    return this.getProperties(node).find(property => property.key === key)?.value;
+  }
+
+  /**
+   * オブジェクト式のプロパティをキー文字列と値ノードの組に変換
+   *
+   * キーは識別子（size）・文字列（'primary'）・数値や真偽値（true: ...）に対応します。
+   *
+   * @param node ObjectExpressionノード
+   * @returns キーと値ノードの配列
+   */
+  private getProperties(node: any): Array<{ key: string; value: any }> {
+    if (node?.type !== 'ObjectExpression') {
+      return [];
+    }
+
+    return node.properties
+      .filter((property: any) => property.type === 'Property' && !property.computed)
+      .map((property: any) => ({
+        key: property.key.type === 'Identifier' ? property.key.name : String(property.key.value),
+        value: property.value,
+      }));
+  }
+
+  /**
+   * クラス指定ノードからクラス一覧を取得
+   *
+   * @param node 文字列・テンプレートリテラル・配列・tvのスロットオブジェクト
+   * @returns クラス名の配列（記述順）
+   */
+  private getClasses(node: any): string[] {
+    if (!node) {
+      return [];
+    }
+    if (node.type === 'Literal' && typeof node.value === 'string') {
+      return node.value.split(/\s+/).filter(Boolean);
+    }
+    if (node.type === 'TemplateLiteral' && node.expressions.length === 0) {
+      return node.quasis[0].value.cooked.split(/\s+/).filter(Boolean);
+    }
+    if (node.type === 'ArrayExpression') {
+      return node.elements.flatMap((element: any) => this.getClasses(element));
+    }
+    if (node.type === 'ObjectExpression') {
+      // tv のスロット指定: { base: '...', icon: '...' }
+      return this.getProperties(node).flatMap(property => this.getClasses(property.value));
+    }
+    return [];
+  }
+
+  /**
+   * オプション名をPropsの型表記に変換
+   *
+   * @param option オプション名
+   * @returns 真偽値はそのまま、それ以外は文字列リテラル型
+   */
+  private toTypeLiteral(option: string): string {
+    return option === 'true' || option === 'false' ? option : `"${option}"`;
+  }
+}
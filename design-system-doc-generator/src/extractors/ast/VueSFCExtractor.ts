@@ -0,0 +1,509 @@
+import { ASTNode, ClassCondition, EventParameter, ExtractedComponent, JSXElement, PropInfo } from '../../types';
+import { ScriptBlock, TemplateComponentExtractor } from './TemplateComponentExtractor';
+import { MarkupNode } from './MarkupParser';
+
+// SFCを分割した結果
+interface SFCDescriptor {
+  template?: MarkupNode;     // トップレベルの <template>
+  script?: ScriptBlock;      // 通常の <script>（Options API・defineComponent）
+  scriptSetup?: ScriptBlock; // <script setup>
+}
+
+// テンプレートの解析結果
+interface TemplateInfo {
+  roots: JSXElement[];
+  classes: Set<string>;
+  conditions: ClassCondition[];
+  slots: Array<{ name: string; bindings: string[] }>;
+  handlers: any[];  // イベントハンドラ式のAST（$emit の呼び出し検出用）
+}
+
+// ランタイム宣言の型コンストラクタ → 型名
+const RUNTIME_TYPES: Record<string, string> = {
+  String: 'string',
+  Number: 'number',
+  Boolean: 'boolean',
+  Array: 'any[]',
+  Object: 'object',
+  Function: 'Function',
+  Date: 'Date',
+  Symbol: 'symbol',
+};
+
+/**
+ * VueSFCExtractor - Vue単一ファイルコンポーネント（*.vue）抽出クラス
+ *
+ * このクラスは、Vue SFCを <template> / <script> / <script setup> のブロックに分割し、
+ * React向けの抽出結果と同じ ExtractedComponent を構築します。出力の形を揃えることで、
+ * デザイントークン・差分検出・ドキュメント生成をVueコンポーネントにもそのまま適用できます。
+ *
+ * 主な責務:
+ * - テンプレートの class / :class（v-bind:class）からのTailwindクラス・条件付きクラスの抽出
+ * - defineProps（型引数・ランタイム宣言・withDefaults）からのProps抽出
+ * - defineEmits の宣言と emit() / $emit() の呼び出しからのイベント抽出（onChange 形式のProp）
+ * - <slot> の子要素としての記録（デフォルトスロットは children、名前付きは #header）
+ * - テンプレートの要素構造（jsxStructure）とインポート（dependencies）の記録
+ *
+ * 対応パターン:
+ * - defineProps<{ size?: 'sm' | 'md' }>() / defineProps<Props>()（同一ファイルの interface・type）
+ * - withDefaults(defineProps<Props>(), { size: 'md' }) / const { size = 'md' } = defineProps<Props>()
+ * - defineProps({ size: { type: String as PropType<Size>, default: 'md' } }) / defineProps(['size'])
+ * - defineEmits<{ (e: 'change', value: string): void }>() / defineEmits<{ change: [value: string] }>()
+ * - defineEmits(['close']) / defineEmits({ change: (value: string) => true })
+ * - export default defineComponent({ props, emits })（Options API）
+ * - :class="['px-4', size === 'sm' ? 'py-1' : 'py-2', { 'opacity-50': disabled }]"
+ *
+ * 制限事項:
+ * - 型引数の解決は同一ファイル内の型宣言のみ（インポートした型のメンバーは取得しない）
+ * - <style> ブロック（@apply を含む）は解析対象外
+ *
+ * 使用例:
+ * const extractor = new VueSFCExtractor();
+ * const component = extractor.extract('/src/components/Button.vue', source, '/src');
+ * // => { componentName: 'Button', platform: 'vue', props: [...], tailwindClasses: [...] }
+ *
+ * 他クラスとの関係:
+ * - TemplateComponentExtractor: スクリプトのパース・クラス抽出・抽出結果の組み立てを継承
+ * - VuePlatformExtractor: ファイルを読み込んでこのクラスを呼び出す
+ */
+export class VueSFCExtractor extends TemplateComponentExtractor {
+  /**
+   * SFCのソースからコンポーネント情報を抽出
+   *
+   * @param filePath *.vue ファイルのパス
+   * @param source ファイルの内容
+   * @param sourceDir ソースディレクトリ（カテゴリ分類用）
+   * @returns 抽出結果（template・scriptのいずれもない場合はnull）
+   */
+  extract(filePath: string, source: string, sourceDir: string): ExtractedComponent | null {
+    const descriptor = this.splitBlocks(source);
+    if (!descriptor.template && !descriptor.script && !descriptor.scriptSetup) {
+      return null;
+    }
+
+    const setupAst = this.parseScript(descriptor.scriptSetup);
+    const scriptAst = this.parseScript(descriptor.script);
+    const optionsObject = this.findOptionsObject(scriptAst);
+
+    const bindings = this.collectBindings(setupAst);
+    const imported = this.collectImportedNames([scriptAst, setupAst]);
+    const template = this.parseTemplate(descriptor.template, bindings, imported);
+
+    // Props → イベント（emit）→ スロットの順に並べる
+    const props = [
+      ...this.extractProps(setupAst, scriptAst, optionsObject),
+      ...this.extractEmits(setupAst, scriptAst, optionsObject, template.handlers),
+      ...this.slotsToProps(template.slots),
+    ];
+
+    return this.buildComponent({
+      filePath,
+      source,
+      sourceDir,
+      componentName: this.resolveComponentName(filePath, setupAst, optionsObject),
+      platform: 'vue',
+      props,
+      classes: template.classes,
+      conditions: template.conditions,
+      roots: template.roots,
+      fragmentType: 'template',
+      scriptAsts: [scriptAst, setupAst],
+      docs: this.extractComponentDoc(setupAst) || this.extractComponentDoc(scriptAst),
+    });
+  }
+
+  /**
+   * SFCをトップレベルのブロックに分割
+   *
+   * @param source ファイルの内容
+   * @returns <template> の要素と、<script> / <script setup> のブロック
+   */
+  private splitBlocks(source: string): SFCDescriptor {
+    const { scripts, markup } = this.splitScripts(source);
+    return {
+      template: this.markupParser.parse(markup).find(node => node.tag === 'template'),
+      script: scripts.find(block => !('setup' in block.attrs)),
+      scriptSetup: scripts.find(block => 'setup' in block.attrs),
+    };
+  }
+
+  /**
+   * テンプレートを要素ツリーに変換し、クラス・スロット・イベントハンドラを収集
+   *
+   * @param template トップレベルの <template> 要素
+   * @param bindings <script setup> のトップレベル変数（ルックアップテーブル・computed の解決用）
+   * @param imported スクリプトでインポートしている名前（小文字のタグの解決用）
+   * @returns 要素ツリーと収集結果
+   */
+  private parseTemplate(template: MarkupNode | undefined, bindings: Map<string, ASTNode>, imported: Set<string>): TemplateInfo {
+    const info: TemplateInfo = { roots: [], classes: new Set(), conditions: [], slots: [], handlers: [] };
+    const rootNodes = (template?.children || []).filter((child): child is MarkupNode => typeof child !== 'string');
+    info.roots = this.toElements(rootNodes, node => this.createElement(node, info, bindings, imported));
+    return info;
+  }
+
+  /**
+   * テンプレートの要素を JSXElement に変換
+   *
+   * class / :class はTailwindクラスとして、<slot> はスロット定義として、
+   * @click / v-on:click はイベントハンドラ式として収集します。
+   *
+   * @param node マークアップの要素
+   * @param info 収集結果（参照渡し）
+   * @param bindings <script setup> のトップレベル変数
+   * @param imported スクリプトでインポートしている名前
+   * @returns 要素（className には静的な class 属性の値を保持）
+   */
+  private createElement(node: MarkupNode, info: TemplateInfo, bindings: Map<string, ASTNode>, imported: Set<string>): JSXElement {
+    const element: JSXElement = { type: this.resolveTagName(node.tag, imported), props: {} };
+    const elementClasses = new Set<string>();
+    const attrs: Record<string, string> = {};
+
+    node.attributes.forEach(({ name, value }) => {
+      attrs[name] = value ?? '';
+
+      if (name === 'class' && value) {
+        element.className = value;
+        this.tailwindExtractor.extractClasses({ type: 'Literal', value }).forEach(cls => elementClasses.add(cls));
+        return;
+      }
+
+      if ((name === ':class' || name === 'v-bind:class') && value) {
+        const expression = this.parseExpression(value);
+        if (expression) {
+          const bound = this.extractBoundClasses(expression, bindings);
+          bound.classes.forEach(cls => elementClasses.add(cls));
+          info.conditions.push(...bound.conditions);
+        }
+        return;
+      }
+
+      if (/^(@|v-on:)/.test(name) && value) {
+        const handler = this.parseStatements(value);
+        if (handler) info.handlers.push(handler);
+      }
+      element.props[name] = value ?? true;
+    });
+
+    if (elementClasses.size > 0) {
+      element.tailwindClasses = Array.from(elementClasses).sort();
+      elementClasses.forEach(cls => info.classes.add(cls));
+    }
+
+    // <slot name="header" :item="item" /> → スロット名とスロットProps
+    if (node.tag === 'slot' && !info.slots.some(slot => slot.name === (attrs.name || 'default'))) {
+      info.slots.push({
+        name: attrs.name || 'default',
+        bindings: Object.keys(attrs)
+          .filter(name => /^(:|v-bind:)/.test(name) && name !== ':name')
+          .map(name => name.replace(/^(:|v-bind:)/, '')),
+      });
+    }
+
+    return element;
+  }
+
+  /**
+   * Propsを抽出（<script setup> の defineProps、なければ Options API の props）
+   *
+   * @param setupAst <script setup> のAST
+   * @param scriptAst 通常の <script> のAST
+   * @param optionsObject Options APIのコンポーネント定義オブジェクト
+   * @returns Props情報（宣言順）
+   */
+  private extractProps(setupAst: any, scriptAst: any, optionsObject: any): PropInfo[] {
+    const definePropsCall = this.findCall(setupAst, 'defineProps');
+    if (!definePropsCall) {
+      const runtime = this.getProperty(optionsObject, 'props');
+      return runtime ? this.propsFromRuntime(scriptAst, runtime) : [];
+    }
+
+    const typeArgument = this.getTypeArgument(definePropsCall);
+    let props = typeArgument
+      ? this.propsFromType(setupAst, typeArgument)
+      : definePropsCall.arguments[0] ? this.propsFromRuntime(setupAst, definePropsCall.arguments[0]) : [];
+
+    // withDefaults(defineProps<Props>(), { size: 'md' }) / const { size = 'md' } = defineProps<Props>()
+    const defaults = new Map<string, string>();
+    const withDefaultsCall = this.findCall(setupAst, 'withDefaults');
+    if (withDefaultsCall?.arguments[1]?.type === 'ObjectExpression') {
+      withDefaultsCall.arguments[1].properties.forEach((property: any) => {
+        if (property.type === 'Property' && !property.computed) {
+          defaults.set(this.getKeyName(property.key), this.describeDefault(property.value));
+        }
+      });
+    }
+    this.walk(setupAst, (node: any) => {
+      if (node.type === 'VariableDeclarator' && node.id.type === 'ObjectPattern' && node.init === definePropsCall) {
+        node.id.properties.forEach((property: any) => {
+          if (property.type === 'Property' && property.value.type === 'AssignmentPattern') {
+            defaults.set(this.getKeyName(property.key), this.describeDefault(property.value.right));
+          }
+        });
+      }
+    });
+
+    props = props.map(prop => defaults.has(prop.name) ? { ...prop, defaultValue: defaults.get(prop.name) } : prop);
+    return props;
+  }
+
+  /**
+   * ランタイム宣言（オブジェクト・文字列配列）からPropsを抽出
+   *
+   * @param ast 宣言を含むスクリプトのAST（ドキュメントコメント参照用）
+   * @param node defineProps の引数、または Options API の props の値
+   * @returns Props情報
+   */
+  private propsFromRuntime(ast: any, node: any): PropInfo[] {
+    // defineProps(['label', 'size'])
+    if (node.type === 'ArrayExpression') {
+      return node.elements
+        .filter((element: any) => element?.type === 'Literal' && typeof element.value === 'string')
+        .map((element: any) => ({ name: element.value, type: 'any', required: false }));
+    }
+    if (node.type !== 'ObjectExpression') return [];
+
+    let previousEnd = node.range[0];
+    return node.properties
+      .filter((property: any) => property.type === 'Property' && !property.computed)
+      .map((property: any) => {
+        const prop: PropInfo = { name: this.getKeyName(property.key), type: 'any', required: false };
+        const doc = this.findLeadingDoc(ast, property, previousEnd);
+        previousEnd = property.range[1];
+
+        // size: String / size: [String, Number]
+        if (property.value.type !== 'ObjectExpression') {
+          prop.type = this.runtimeTypeToString(property.value);
+        } else {
+          // size: { type: String as PropType<Size>, required: true, default: 'md' }
+          const type = this.getProperty(property.value, 'type');
+          const required = this.getProperty(property.value, 'required');
+          const defaultValue = this.getProperty(property.value, 'default');
+          if (type) prop.type = this.runtimeTypeToString(type);
+          prop.required = required?.type === 'Literal' && required.value === true;
+          if (defaultValue) prop.defaultValue = this.describeDefault(defaultValue);
+        }
+
+        if (doc) {
+          prop.docs = doc;
+          if (!prop.defaultValue && doc.defaultValue) prop.defaultValue = doc.defaultValue;
+        }
+        return prop;
+      });
+  }
+
+  /**
+   * ランタイムの型指定を型文字列に変換
+   *
+   * @param node String / [String, Number] / Object as PropType<Item> 等
+   * @returns 型文字列
+   */
+  private runtimeTypeToString(node: any): string {
+    if (node.type === 'TSAsExpression') {
+      // String as PropType<'sm' | 'md'> → 型引数を優先
+      const typeArgument = this.getTypeArgument(node.typeAnnotation);
+      return typeArgument ? this.eventExtractor.typeToString(typeArgument) : this.runtimeTypeToString(node.expression);
+    }
+    if (node.type === 'Identifier') {
+      return RUNTIME_TYPES[node.name] || node.name;
+    }
+    if (node.type === 'ArrayExpression') {
+      return node.elements.map((element: any) => this.runtimeTypeToString(element)).join(' | ');
+    }
+    return 'any';
+  }
+
+  /**
+   * イベントを onChange 形式のPropとして抽出
+   *
+   * defineEmits（Options API は emits）の宣言から引数を、スクリプトの emit() /
+   * this.$emit() とテンプレートの $emit() の呼び出しから実引数を取得します。
+   * update:modelValue は Vue の規則どおり onUpdate:modelValue になります。
+   *
+   * @param setupAst <script setup> のAST
+   * @param scriptAst 通常の <script> のAST
+   * @param optionsObject Options APIのコンポーネント定義オブジェクト
+   * @param handlers テンプレートのイベントハンドラ式のAST
+   * @returns イベントのProp情報（宣言順、宣言のない呼び出しは末尾）
+   */
+  private extractEmits(setupAst: any, scriptAst: any, optionsObject: any, handlers: any[]): PropInfo[] {
+    const declarations = new Map<string, EventParameter[]>();
+    const defineEmitsCall = this.findCall(setupAst, 'defineEmits');
+    const typeArgument = defineEmitsCall && this.getTypeArgument(defineEmitsCall);
+
+    if (typeArgument) {
+      this.collectTypeMembers(setupAst, typeArgument, new Set()).forEach((member: any) => this.addTypedEmit(member, declarations));
+    } else {
+      const runtime = defineEmitsCall ? defineEmitsCall.arguments[0] : this.getProperty(optionsObject, 'emits');
+      if (runtime?.type === 'ArrayExpression') {
+        runtime.elements
+          .filter((element: any) => element?.type === 'Literal' && typeof element.value === 'string')
+          .forEach((element: any) => declarations.set(element.value, []));
+      } else if (runtime?.type === 'ObjectExpression') {
+        // change: (value: string) => true（バリデーター関数の引数をイベントの引数とする）
+        runtime.properties.filter((property: any) => property.type === 'Property').forEach((property: any) => {
+          const validator = property.value;
+          const params = /Function/.test(validator.type) ? validator.params : [];
+          declarations.set(this.getKeyName(property.key), params.map((param: any) => ({
+            name: param.name ?? 'arg',
+            type: this.eventExtractor.typeToString(param.typeAnnotation?.typeAnnotation),
+            optional: !!param.optional,
+          })));
+        });
+      }
+    }
+
+    // const emit = defineEmits(...) → emit('change', value)
+    const emitNames = new Set<string>();
+    this.walk(setupAst, (node: any) => {
+      if (node.type === 'VariableDeclarator' && node.id.type === 'Identifier' && node.init === defineEmitsCall) {
+        emitNames.add(node.id.name);
+      }
+    });
+
+    const invocations = new Map<string, string[][]>();
+    [setupAst, scriptAst, ...handlers].forEach(ast => this.walk(ast, (node: any) => {
+      if (node.type !== 'CallExpression') return;
+      const callee = node.callee;
+      const isEmit = (callee.type === 'Identifier' && (emitNames.has(callee.name) || callee.name === '$emit')) ||
+                     (callee.type === 'MemberExpression' && !callee.computed && callee.property.name === '$emit');
+      const [event, ...args] = node.arguments;
+      if (!isEmit || event?.type !== 'Literal' || typeof event.value !== 'string') return;
+      if (!invocations.has(event.value)) invocations.set(event.value, []);
+      invocations.get(event.value)!.push(args.map((arg: any) => this.eventExtractor.describeExpression(arg)));
+    }));
+
+    const eventNames = Array.from(new Set([...declarations.keys(), ...invocations.keys()]));
+    return eventNames.map(eventName => {
+      const parameters = declarations.get(eventName) || [];
+      const params = parameters.map(param => `${param.name}${param.optional ? '?' : ''}: ${param.type}`);
+      return {
+        name: `on${eventName.charAt(0).toUpperCase()}${eventName.slice(1)}`,
+        type: `(${params.join(', ')}) => void`,
+        required: false,
+        event: {
+          parameters,
+          returnType: 'void',
+          invocations: invocations.get(eventName) || [],
+          forwardedTo: [],
+        },
+      };
+    });
+  }
+
+  /**
+   * defineEmits の型引数のメンバーからイベント宣言を取得
+   *
+   * - (e: 'change' | 'input', value: string): void（呼び出しシグネチャ）
+   * - change: [value: string]（Vue 3.3 以降の名前付きタプル）
+   *
+   * @param member 型メンバーノード
+   * @param declarations イベント名 → 引数（参照渡し）
+   */
+  private addTypedEmit(member: any, declarations: Map<string, EventParameter[]>): void {
+    if (member.type === 'TSCallSignatureDeclaration') {
+      const [eventParam, ...rest] = member.params;
+      const eventType = eventParam?.typeAnnotation?.typeAnnotation;
+      const literals = eventType?.type === 'TSUnionType' ? eventType.types : [eventType];
+      const parameters = rest.map((param: any) => ({
+        name: param.name ?? 'arg',
+        type: this.eventExtractor.typeToString(param.typeAnnotation?.typeAnnotation),
+        optional: !!param.optional,
+      }));
+      literals
+        .filter((literal: any) => literal?.type === 'TSLiteralType' && typeof literal.literal.value === 'string')
+        .forEach((literal: any) => declarations.set(literal.literal.value, parameters));
+      return;
+    }
+
+    const type = member.typeAnnotation?.typeAnnotation;
+    if (member.type === 'TSPropertySignature' && type?.type === 'TSTupleType') {
+      declarations.set(this.getKeyName(member.key), type.elementTypes.map((element: any, index: number) =>
+        element.type === 'TSNamedTupleMember'
+          ? { name: element.label.name, type: this.eventExtractor.typeToString(element.elementType), optional: !!element.optional }
+          : { name: `arg${index}`, type: this.eventExtractor.typeToString(element), optional: false }
+      ));
+    }
+  }
+
+  /**
+   * スロットを子要素のPropとして表現
+   *
+   * @param slots テンプレートの <slot> 定義
+   * @returns デフォルトスロットは children、名前付きスロットは #header のProp情報
+   */
+  private slotsToProps(slots: TemplateInfo['slots']): PropInfo[] {
+    return slots.map(slot => {
+      const scope = slot.bindings.length > 0 ? `（スロットProps: ${slot.bindings.join(', ')}）` : '';
+      return {
+        name: slot.name === 'default' ? 'children' : `#${slot.name}`,
+        type: 'Slot',
+        required: false,
+        docs: { description: `${slot.name === 'default' ? 'デフォルトスロット' : `名前付きスロット「${slot.name}」`}${scope}` },
+      };
+    });
+  }
+
+  /**
+   * コンポーネント名を決定
+   *
+   * defineOptions({ name }) / Options API の name を優先し、
+   * なければファイル名（index.vue はディレクトリ名）をPascalCaseにします。
+   *
+   * @param filePath *.vue ファイルのパス
+   * @param setupAst <script setup> のAST
+   * @param optionsObject Options APIのコンポーネント定義オブジェクト
+   * @returns コンポーネント名
+   */
+  private resolveComponentName(filePath: string, setupAst: any, optionsObject: any): string {
+    const defineOptionsCall = this.findCall(setupAst, 'defineOptions');
+    const name = this.getProperty(defineOptionsCall?.arguments[0], 'name') || this.getProperty(optionsObject, 'name');
+    if (name?.type === 'Literal' && typeof name.value === 'string') {
+      return name.value;
+    }
+
+    return this.componentNameFromFile(filePath, '.vue');
+  }
+
+  /**
+   * 通常の <script> の export default からコンポーネント定義オブジェクトを取得
+   *
+   * @param ast 通常の <script> のAST
+   * @returns export default {...} / defineComponent({...}) のオブジェクト（ない場合はnull）
+   */
+  private findOptionsObject(ast: any): any | null {
+    const declaration = (ast?.body || []).find((statement: any) => statement.type === 'ExportDefaultDeclaration')?.declaration;
+    if (declaration?.type === 'ObjectExpression') return declaration;
+    if (declaration?.type === 'CallExpression' && declaration.arguments[0]?.type === 'ObjectExpression') {
+      return declaration.arguments[0];
+    }
+    return null;
+  }
+
+  /**
+   * テンプレートのタグを要素の種別に解決
+   *
+   * @param tag タグ名（base-button / spinner / div）
+   * @param imported スクリプトでインポートしている名前
+   * @returns コンポーネントの場合はPascalCaseの名前、HTML要素はタグ名のまま
+   */
+  private resolveTagName(tag: string, imported: Set<string>): string {
+    const componentName = this.toComponentName(tag);
+    const capitalized = componentName.charAt(0).toUpperCase() + componentName.slice(1);
+    return imported.has(capitalized) ? capitalized : componentName;
+  }
+
+  /**
+   * タグ名をコンポーネント名に変換
+   *
+   * Vue はケバブケースのタグ（<base-button>）をPascalCaseのコンポーネントに解決するため、
+   * 構成グラフ等で同じ名前として扱えるように揃えます。
+   *
+   * @param name base-button / BaseButton / div
+   * @returns ハイフンを含む場合はPascalCase（BaseButton）、それ以外はそのまま
+   */
+  private toComponentName(name: string): string {
+    if (!name.includes('-')) return name;
+    return name.split('-').filter(Boolean).map(part => part.charAt(0).toUpperCase() + part.slice(1)).join('');
+  }
+}
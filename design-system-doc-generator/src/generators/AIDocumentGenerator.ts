@@ -15,6 +15,7 @@ import { ComponentDocumentGenerator } from './document/ComponentDocumentGenerato
 import { PatternDetector } from './document/PatternDetector';
 import { GuidelineGenerator } from './document/GuidelineGenerator';
 import { MarkdownFormatter } from './document/MarkdownFormatter';
+import { CompositionGraphBuilder } from '../core/CompositionGraphBuilder';
 
 /**
  * AIDocumentGenerator - AI最適化ドキュメント生成エンジン
@@ -64,6 +65,7 @@ import { MarkdownFormatter } from './document/MarkdownFormatter';
  * - PatternDetector: デザインパターンの検出と分類
  * - GuidelineGenerator: ベストプラクティスガイドラインの生成
  * - MarkdownFormatter: 人間が読みやすいMarkdown形式への変換
+ * - CompositionGraphBuilder: コンポーネントの構成グラフ（誰が誰を描画しているか）の構築
  * - TailwindExtractor: このクラスで生成されたコンポーネント情報を受け取る
  */
 
@@ -72,6 +74,7 @@ export class AIDocumentGenerator {
   private patternDetector: PatternDetector;                   // デザインパターン検出器
   private guidelineGenerator: GuidelineGenerator;             // ガイドライン生成器
   private markdownFormatter: MarkdownFormatter;               // Markdown形式変換器
+  private compositionGraphBuilder: CompositionGraphBuilder;   // 構成グラフ構築器
 
   /**
    * AIDocumentGeneratorの初期化
@@ -84,6 +87,7 @@ export class AIDocumentGenerator {
     this.patternDetector = new PatternDetector();
     this.guidelineGenerator = new GuidelineGenerator();
     this.markdownFormatter = new MarkdownFormatter();
+    this.compositionGraphBuilder = new CompositionGraphBuilder();
   }
 
   /**
@@ -98,7 +102,8 @@ export class AIDocumentGenerator {
    * 2. 個別コンポーネントドキュメントの生成
    * 3. デザインパターンの自動検出・分類
    * 4. ベストプラクティスガイドラインの生成
-   * 5. メタデータの収集（処理時間、統計等）
+   * 5. コンポーネントの構成グラフの構築
+   * 6. メタデータの収集（処理時間、統計等）
    * 
    * @param components 抽出されたコンポーネント一覧
    * @param tokens デザイントークン情報
@@ -150,6 +155,10 @@ export class AIDocumentGenerator {
     // コンポーネントとトークンの使用状況から推奨事項を生成
     document.guidelines = this.guidelineGenerator.generateGuidelines(components, tokens);
 
+    // フェーズ4: コンポーネントの構成グラフ
+    // 解決済みのインポートとJSX構造から描画関係を記録
+    document.composition = this.compositionGraphBuilder.build(components);
+
     // 生成メタデータの収集
     const metadata: GenerationMetadata = {
       timestamp: new Date().toISOString(),
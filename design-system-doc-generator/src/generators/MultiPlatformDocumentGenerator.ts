@@ -615,6 +615,27 @@ export class MultiPlatformDocumentGenerator {
           'Consider platform-specific styling with Platform.OS',
           'Test on both iOS and Android platforms'
         ];
+      case 'vue':
+        return [
+          'Declare props and emits with defineProps / defineEmits',
+          'Use slots for composable content instead of render props',
+          'Bind Tailwind classes with :class arrays and objects',
+          'Ensure accessibility with proper ARIA labels'
+        ];
+      case 'svelte':
+        return [
+          'Declare props with $props() (or export let in Svelte 4)',
+          'Use snippets or slots for composable content',
+          'Toggle Tailwind classes with class: directives',
+          'Ensure accessibility with proper ARIA labels'
+        ];
+      case 'angular':
+        return [
+          'Declare inputs and outputs with input() / output() (or @Input() / @Output())',
+          'Use the component selector as the tag in templates',
+          'Bind Tailwind classes with [class] or [ngClass]',
+          'Ensure accessibility with proper ARIA labels'
+        ];
       default:
         return ['Follow platform-specific best practices'];
     }
@@ -624,6 +645,9 @@ export class MultiPlatformDocumentGenerator {
     switch (platform) {
       case 'web': return 'React Web';
       case 'react-native': return 'React Native';
+      case 'vue': return 'Vue';
+      case 'svelte': return 'Svelte';
+      case 'angular': return 'Angular';
       default: return 'Custom Platform';
     }
   }
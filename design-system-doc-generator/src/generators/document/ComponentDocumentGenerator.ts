@@ -1,6 +1,9 @@
-import { ExtractedComponent, ComponentDoc, PropDoc, PropInfo, CodeExample, GeneratorOptions } from '../../types';
+import { ExtractedComponent, ComponentDoc, PropDoc, PropInfo, CodeExample, GeneratorOptions, DocComment, CompositionGraph, ComponentBehavior, ValidationResult as PlatformValidationResult } from '../../types';
+import * as path from 'path';
 import { generateComponentId } from '../../utils/hash';
 import { CodeValidator, ValidationResult } from '../../utils/codeValidation';
+import { CompositionGraphBuilder } from '../../core/CompositionGraphBuilder';
+import { PlatformExtractorFactory } from '../../extractors/PlatformExtractorFactory';
 
 /**
  * ComponentDocumentGenerator - 個別コンポーネントドキュメント生成器
@@ -11,12 +14,15 @@ import { CodeValidator, ValidationResult } from '../../utils/codeValidation';
  * 統合して、AIが理解しやすい形式のComponentDocを作成します。
  * 
  * 主な責務:
- * - コンポーネントの目的と特徴を説明する記述の自動生成
+ * - JSDoc/TSDocコメント（説明文・@example・@deprecated等）のドキュメントへの反映
+ * - コメントがない場合の、目的と特徴を説明する記述の自動生成
  * - TypeScript Propsの詳細情報と使用例の提供
  * - Tailwind CSSクラスの解析と機能的特徴の抽出
  * - コード例の自動生成とバリデーション
  * - 関連コンポーネントの特定と分類
  * - JSX構造情報の保持とドキュメント化
+ * - Angularコンポーネント（selector を持つもの）のテンプレート構文での使用例の生成
+ * - Vue / Svelteコンポーネントの .vue / .svelte からのインポートとテンプレート構文での使用例の生成
  * 
  * 生成されるドキュメントの特徴:
  * - Atomic Designカテゴリに基づいた文脈的な説明
@@ -32,9 +38,8 @@ import { CodeValidator, ValidationResult } from '../../utils/codeValidation';
  * - コンポーネント間の依存関係の精密な分析
  * 
  * 関連コンポーネント特定アルゴリズム:
- * 1. 同一カテゴリのコンポーネント
- * 2. 直接的な依存関係にあるコンポーネント
- * 3. 名前の似ているコンポーネント（バリアント等）
+ * 1. 構成グラフでこのコンポーネントが描画しているコンポーネント
+ * 2. 構成グラフでこのコンポーネントを描画しているコンポーネント
  * 
  * 使用例:
  * const generator = new ComponentDocumentGenerator();
@@ -43,12 +48,16 @@ import { CodeValidator, ValidationResult } from '../../utils/codeValidation';
  * 他クラスとの関係:
  * - AIDocumentGenerator: このクラスを使用して個別コンポーネントドキュメントを生成
  * - CodeValidator: 生成されたコード例の品質検証
+ * - AngularPlatformExtractor / VuePlatformExtractor / SveltePlatformExtractor: テンプレートのコード例の検証
  * - TailwindExtractor: このクラスが生成したコンポーネント情報を受け取る
  * - MarkdownFormatter: このクラスが生成したComponentDocをMarkdown化
+ * - CompositionGraphBuilder: 関連コンポーネント算出用の構成グラフ構築
  */
 
 export class ComponentDocumentGenerator {
   private codeValidator: CodeValidator;  // コード品質検証器
+  private compositionGraphBuilder = new CompositionGraphBuilder();                 // 構成グラフ構築器
+  private compositionGraphs = new WeakMap<ExtractedComponent[], CompositionGraph>();  // コンポーネント群毎の構成グラフ
 
   /**
    * ComponentDocumentGeneratorの初期化
@@ -73,9 +82,10 @@ export class ComponentDocumentGenerator {
    * 3. 基本的な使用方法の提示
    * 4. TypeScript Propsの詳細情報化
    * 5. スタイル情報の統合と特徴抽出
-   * 6. コード例の生成と検証（オプション）
+   * 6. コード例の生成と検証（オプション。Storybookのストーリーがある場合はストーリーを優先）
    * 7. 関連コンポーネントの特定
    * 8. JSX構造情報の保持
+   * 9. 複合コンポーネントの子（Card.Header 等）の再帰的なドキュメント化
    * 
    * @param component ドキュメント化対象のコンポーネント
    * @param allComponents プロジェクト全体のコンポーネント一覧（関連分析用）
@@ -104,16 +114,54 @@ export class ComponentDocumentGenerator {
       examples: options.includeExamples ? this.generateAndValidateExamples(component) : [], // 検証済みコード例
       relatedComponents: this.findRelatedComponents(component, allComponents),               // 関連コンポーネント
       jsxStructure: component.jsxStructure,                                                 // JSX構造情報
+      ...this.getDocTags(component.docs),                                                   // @deprecated/@since/@see
+      ...(component.wrappers && { wrappers: component.wrappers }),                          // forwardRef/memo/HOC
+      ...(component.displayName && { displayName: component.displayName }),                 // 表示名
+      ...(component.state && {                                                              // クラスのState
+        state: component.state.map(member => this.convertPropToDoc(member, component)),
+      }),
+      ...(component.lifecycleMethods && { lifecycleMethods: component.lifecycleMethods }),  // ライフサイクル
+      ...(component.forwardedProps && { forwardedProps: component.forwardedProps }),        // 残余Propsの転送先
+      ...(component.variants && { variants: component.variants }),                          // cva/tvのバリアント
+      ...(component.conditionalClasses && { conditionalClasses: component.conditionalClasses }),  // Propの値毎のクラス
+      ...(component.classSources && { classSources: component.classSources }),             // 定数から解決したクラスの参照元
+      ...(component.behavior && {                                                           // フック・コンテキスト・副作用
+        behavior: this.generateBehaviorDoc(component, component.behavior, allComponents),
+      }),
+      ...(component.selector && { selector: component.selector }),                          // Angularのセレクタ
+      ...(component.platform && { platform: component.platform }),                          // プラットフォーム
+      ...(component.subcomponents && {                                                      // 複合コンポーネントの子
+        subcomponents: component.subcomponents.map(sub => this.generateComponentDoc(sub, allComponents, options)),
+      }),
     };
   }
 
   /**
-   * コンポーネントの文脈的説明文を自動生成
+   * ドキュメントコメントのタグ情報を抽出
    * 
-   * Atomic DesignカテゴリとTailwindクラスの特徴を組み合わせて、
+   * ComponentDoc/PropDocに引き継ぐ@deprecated・@since・@seeのうち、
+   * 記述されているものだけを返します。
+   * 
+   * @param docs JSDoc/TSDocコメント情報
+   * @returns 記述されているタグ情報
+   */
+  private getDocTags(docs?: DocComment): Pick<PropDoc, 'deprecated' | 'since' | 'see'> {
+    return {
+      ...(docs?.deprecated !== undefined && { deprecated: docs.deprecated }),
+      ...(docs?.since && { since: docs.since }),
+      ...(docs?.see && { see: docs.see }),
+    };
+  }
+
+  /**
+   * コンポーネントの文脈的説明文を生成
+   * 
+   * ドキュメントコメントに説明文がある場合はそれをそのまま使用します。
+   * ない場合は、Atomic DesignカテゴリとTailwindクラスの特徴を組み合わせて、
    * コンポーネントの目的と機能を明確に説明する文章を生成します。
    * 
    * 生成プロセス:
+   * 0. JSDoc/TSDocの説明文があればそれを採用（以降の処理は行わない）
    * 1. Atomic Designカテゴリに基づいたベース説明文を選択
    * 2. Tailwindクラスを解析して機能的特徴を抽出
    * 3. 特徴を自然な日本語で結合して完成
@@ -129,6 +177,11 @@ export class ComponentDocumentGenerator {
    * @returns 生成された説明文
    */
   private generateDescription(component: ExtractedComponent): string {
+    // エンジニアが記述した説明文を優先
+    if (component.docs?.description) {
+      return component.docs.description;
+    }
+
     // Atomic Designカテゴリ別のベーステンプレート
     const templates = {
       atoms: `基本的なUI要素「${component.componentName}」。`,                    // ボタン、インプット等
@@ -186,17 +239,25 @@ export class ComponentDocumentGenerator {
    * - childrenプロパティがある場合は含める（一般的なパターン）
    * - プロパティの型に基づいた適切な例値を生成
    * - 即座コピーアンドペーストで使用可能な形式
+   * - Angularコンポーネントはセレクタのタグとバインディング構文で記述
+   * - Vue / Svelteコンポーネントは各プラットフォームの属性・イベント構文で記述
    * 
    * @param component 使用方法生成対象のコンポーネント
-   * @returns 基本使用方法のJSXコード
+   * @returns 基本使用方法のJSXコード（Angular / Vue / Svelteの場合はテンプレート）
    */
   private generateUsageInstructions(component: ExtractedComponent): string {
+    if (this.getTemplateLanguage(component)) {
+      const { tag, attributes } = this.getTemplateTag(component);
+      const bindings = this.getTemplateAttributes(component, component.props.filter(p => p.required));
+      return `<${[tag, ...attributes, ...bindings].join(' ')} />`;
+    }
+
     const hasRequiredProps = component.props.some(p => p.required);
     
     // 必須プロパティと一般的なchildrenプロパティを抽出
     const propsExample = component.props
       .filter(p => p.required || p.name === 'children')
-      .map(p => `${p.name}={${this.getPropExample(p)}}`)
+      .map(p => this.formatPropAttribute(p))
       .join(' ');
 
     // 必須プロパティがある場合はそれらを含めた形式、ない場合はシンプルな形式
@@ -210,17 +271,23 @@ export class ComponentDocumentGenerator {
   /**
    * PropInfoをPropDocに変換（説明文を追加）
    * 
-   * 元のTypeScript型情報に加えて、人間が理解しやすい説明文を
-   * 自動生成して追加し、ドキュメント用に最適化します。
+   * 元のTypeScript型情報に加えて、ドキュメントコメントの説明文・タグを反映します。
+   * 説明文がない場合はストーリーの argTypes の description を使用し、
+   * それもない場合のみ、人間が理解しやすい説明文を自動生成して補完します。
    * 
    * @param prop 元のTypeScriptプロパティ情報
    * @param component コンテキスト情報用のコンポーネント
    * @returns 説明文付きのプロパティドキュメント
    */
   private convertPropToDoc(prop: PropInfo, component: ExtractedComponent): PropDoc {
+    const { docs, ...propInfo } = prop;
+    const argType = component.stories?.map(file => file.argTypes[prop.name]).find(Boolean);
     return {
-      ...prop,
-      description: this.generatePropDescription(prop, component),
+      ...propInfo,
+      defaultValue: propInfo.defaultValue ?? docs?.defaultValue,
+      description: docs?.description || argType?.description || this.generatePropDescription(prop, component),
+      ...this.getDocTags(docs),
+      ...(docs?.examples && { examples: docs.examples }),
     };
   }
 
@@ -234,7 +301,7 @@ export class ComponentDocumentGenerator {
    * 対応プロパティカテゴリ:
    * - コンテンツ関連: children, title, description, label
    * - スタイル関連: className, size, variant, color
-   * - イベント関連: onClick, onChange, onSubmit
+   * - イベント関連: onClick, onChange, onSubmit（その他のコールバックPropsはイベント名から生成）
    * - 状態関連: disabled, loading, error, value
    * - フォーム関連: name, id, placeholder, type
    * - メディア関連: src, alt, href
@@ -282,34 +349,76 @@ export class ComponentDocumentGenerator {
     };
 
     // マッピングされた説明がある場合はそれを使用、ない場合はフォールバック
+    // マッピングにないコールバックProps（onSelect 等）はイベント名から生成
+    if (!descriptions[prop.name] && prop.event && /^on[A-Z]/.test(prop.name)) {
+      return `${prop.name.slice(2)}時のイベントハンドラ`;
+    }
     return descriptions[prop.name] || `${prop.name}プロパティ`;
   }
 
   private generateAndValidateExamples(component: ExtractedComponent): CodeExample[] {
     const examples: CodeExample[] = [];
 
-    // Basic usage
-    const basicExample = this.generateBasicExample(component);
-    const basicValidation = this.codeValidator.validateExampleCode(basicExample, component.componentName);
-    
-    examples.push({
-      title: '基本的な使用方法',
-      code: basicExample,
-      description: `最もシンプルな使用例${basicValidation.isValid ? ' ✅' : ' ⚠️ バリデーションエラーあり'}`,
-      validation: basicValidation
+    // Examples written in @example tags
+    (component.docs?.examples || []).forEach((code, index, docExamples) => {
+      examples.push({
+        title: docExamples.length > 1 ? `ドキュメントコメントの使用例 ${index + 1}` : 'ドキュメントコメントの使用例',
+        code,
+        description: '@exampleタグに記述された使用例',
+      });
     });
 
-    // With props
-    if (component.props.length > 0) {
-      const fullExample = this.generateFullExample(component);
-      const fullValidation = this.codeValidator.validateExampleCode(fullExample, component.componentName);
-      
+    // Storybook stories（手書きのストーリーがある場合は合成のコード例より優先）
+    const stories = (component.stories || []).flatMap(file => file.stories.map(story => ({ file, story })));
+    stories.forEach(({ file, story }) => {
+      const validation = this.codeValidator.validateExampleCode(story.code, component.componentName);
       examples.push({
-        title: '全プロパティを使用した例',
-        code: fullExample,
-        description: `全ての利用可能なプロパティを含む例${fullValidation.isValid ? ' ✅' : ' ⚠️ バリデーションエラーあり'}`,
-        validation: fullValidation
+        title: `ストーリー: ${story.name}`,
+        code: story.code,
+        description: `${file.title ? `${file.title} / ` : ''}${story.exportName}（${path.basename(file.filePath)}）${validation.isValid ? ' ✅' : ' ⚠️ バリデーションエラーあり'}`,
+        validation,
       });
+    });
+
+    // 合成のコード例（ストーリーがない場合のみ）
+    if (stories.length === 0) {
+      // コード例はコンポーネントのプラットフォームの抽出器でも検証（React NativeでのclassName 等）
+      // Angular / Vue / Svelteコンポーネントはテンプレート構文で記述するため、プラットフォーム抽出器のみで検証
+      const templateLanguage = this.getTemplateLanguage(component);
+      const platformExtractor = PlatformExtractorFactory.createExtractor(component.platform || 'web', { sourceDir: path.dirname(component.filePath) });
+      const validate = (code: string) => templateLanguage
+        ? platformExtractor.validateCode(code)
+        : this.mergeValidation(this.codeValidator.validateExampleCode(code, component.componentName), platformExtractor.validateCode(code));
+
+      // Basic usage
+      const basicExample = templateLanguage
+        ? this.generateTemplateExample(component, component.props.filter(p => p.required))
+        : this.generateBasicExample(component);
+      const basicValidation = validate(basicExample);
+    
+      examples.push({
+        title: '基本的な使用方法',
+        code: basicExample,
+        ...(templateLanguage && { language: templateLanguage }),
+        description: `最もシンプルな使用例${basicValidation.isValid ? ' ✅' : ' ⚠️ バリデーションエラーあり'}`,
+        validation: basicValidation
+      });
+
+      // With props
+      if (component.props.length > 0) {
+        const fullExample = templateLanguage
+          ? this.generateTemplateExample(component, component.props)
+          : this.generateFullExample(component);
+        const fullValidation = validate(fullExample);
+      
+        examples.push({
+          title: '全プロパティを使用した例',
+          code: fullExample,
+          ...(templateLanguage && { language: templateLanguage }),
+          description: `全ての利用可能なプロパティを含む例${fullValidation.isValid ? ' ✅' : ' ⚠️ バリデーションエラーあり'}`,
+          validation: fullValidation
+        });
+      }
     }
 
     // Tailwind classes validation
@@ -338,7 +447,7 @@ function Example() {
     }
 
     const propsCode = requiredProps
-      .map(p => `    ${p.name}={${this.getPropExample(p)}}`)
+      .map(p => `    ${this.formatPropAttribute(p)}`)
       .join('\n');
 
     return `import { ${component.componentName} } from './${component.componentName}';
@@ -354,7 +463,7 @@ ${propsCode}
 
   private generateFullExample(component: ExtractedComponent): string {
     const propsCode = component.props
-      .map(p => `    ${p.name}={${this.getPropExample(p)}}`)
+      .map(p => `    ${this.formatPropAttribute(p)}`)
       .join('\n');
 
     return `import { ${component.componentName} } from './${component.componentName}';
@@ -368,7 +477,215 @@ ${propsCode}
 }`;
   }
 
-  private getPropExample(prop: PropInfo): string {
+  /**
+   * 構文検証の結果にプラットフォーム抽出器の検証結果を統合
+   * 
+   * @param validation コード例の構文検証の結果
+   * @param platformValidation プラットフォーム抽出器の検証結果
+   * @returns 統合した検証結果（いずれかにエラーがある場合は無効）
+   */
+  private mergeValidation(validation: ValidationResult, platformValidation: PlatformValidationResult): ValidationResult {
+    const toPosition = <T extends { line?: number; column?: number }>(issue: T) => ({ ...issue, line: issue.line ?? 0, column: issue.column ?? 0 });
+    return {
+      isValid: validation.isValid && platformValidation.errors.length === 0,
+      errors: [...validation.errors, ...platformValidation.errors.map(toPosition)],
+      warnings: [...validation.warnings, ...platformValidation.warnings.map(toPosition)],
+    };
+  }
+
+  /**
+   * Angularコンポーネントか判定
+   * 
+   * @param component 対象コンポーネント
+   * @returns platform が angular で selector を持つ場合true
+   */
+  private isAngularComponent(component: ExtractedComponent): boolean {
+    return component.platform === 'angular' && !!component.selector;
+  }
+
+  /**
+   * テンプレート構文で使用例を記述するコンポーネントのコードブロックの言語を取得
+   * 
+   * @param component 対象コンポーネント
+   * @returns Angularは html、Vueは vue、Svelteは svelte（JSXで記述する場合はnull）
+   */
+  private getTemplateLanguage(component: ExtractedComponent): string | null {
+    if (this.isAngularComponent(component)) return 'html';
+    if (component.platform === 'vue' || component.platform === 'svelte') return component.platform;
+    return null;
+  }
+
+  /**
+   * テンプレートで記述するタグと属性を取得
+   * 
+   * @param component Angular / Vue / Svelteコンポーネント
+   * @returns Angularはセレクタ（app-button → タグ app-button、button[appButton] → タグ button と属性 appButton）、
+   *          Vue / Svelteはコンポーネント名のタグ
+   */
+  private getTemplateTag(component: ExtractedComponent): { tag: string; attributes: string[] } {
+    if (!this.isAngularComponent(component)) {
+      return { tag: component.componentName, attributes: [] };
+    }
+    const selector = (component.selector || '').split(',')[0].trim();
+    const match = /^([\w-]*)((?:\[[^\]]+\])*)/.exec(selector);
+    const attributes = Array.from((match?.[2] || '').matchAll(/\[([^\]]+)\]/g), attribute => attribute[1]);
+    return { tag: match?.[1] || 'div', attributes };
+  }
+
+  /**
+   * PropをAngularテンプレートの属性に変換
+   * 
+   * @param prop 対象のプロパティ情報
+   * @returns label="サンプルテキスト" / variant="primary" / [size]="42" / (changed)="onChanged($event)"（コンテンツ投影のPropはnull）
+   */
+  private getTemplateAttribute(prop: PropInfo): string | null {
+    if (prop.type === 'Slot') {
+      return null;
+    }
+    const output = /^\((.+)\)$/.exec(prop.name);
+    if (output) {
+      const handler = `on${output[1].charAt(0).toUpperCase()}${output[1].slice(1)}`;
+      return `${prop.name}="${handler}(${prop.event?.parameters.length ? '$event' : ''})"`;
+    }
+    // 文字列の値（string 型・文字列リテラルのユニオン）は静的な属性として記述
+    const value = this.getPropExample(prop);
+    if (/^"[^"]*"$/.test(value)) {
+      return `${prop.name}=${value}`;
+    }
+    return `[${prop.name}]="${value.replace(/"/g, "'")}"`;
+  }
+
+  /**
+   * PropをVueテンプレートの属性に変換
+   * 
+   * @param prop 対象のプロパティ情報
+   * @returns label="サンプルテキスト" / :size="42" / @update:pressed="onUpdatePressed"（スロットはnull）
+   */
+  private getVueAttribute(prop: PropInfo): string | null {
+    if (prop.type === 'Slot') {
+      return null;
+    }
+    if (prop.event && /^on[A-Z]/.test(prop.name)) {
+      const eventName = `${prop.name.charAt(2).toLowerCase()}${prop.name.slice(3)}`;
+      return `@${eventName}="${this.getEventHandlerName(prop)}"`;
+    }
+    const value = this.getPropExample(prop);
+    if (/^"[^"]*"$/.test(value)) {
+      return `${prop.name}=${value}`;
+    }
+    return `:${prop.name}="${value.replace(/"/g, "'")}"`;
+  }
+
+  /**
+   * PropをSvelteマークアップの属性に変換
+   * 
+   * @param prop 対象のプロパティ情報
+   * @returns label="サンプルテキスト" / size={42} / on:change={handleChange} / onDismiss={handleDismiss}（スロット・スニペットはnull）
+   */
+  private getSvelteAttribute(prop: PropInfo): string | null {
+    if (prop.type === 'Slot' || prop.type.startsWith('Snippet')) {
+      return null;
+    }
+    if (prop.event) {
+      return `${prop.name}={${this.getEventHandlerName(prop, 'svelte')}}`;
+    }
+    return this.formatPropAttribute(prop);
+  }
+
+  /**
+   * コード例のスクリプトで宣言するイベントハンドラの名前を取得
+   * 
+   * @param prop イベントのプロパティ情報（Vueは onClick、Svelteは on:click / onDismiss）
+   * @param platform コンポーネントのプラットフォーム
+   * @returns Vueは onUpdatePressed、Svelteは handleClick 形式の名前
+   */
+  private getEventHandlerName(prop: PropInfo, platform?: string): string {
+    const name = platform === 'svelte' ? prop.name.replace(/^on:?/, 'handle-') : prop.name;
+    return name.replace(/[:\-|]+(\w)/g, (_, char: string) => char.toUpperCase());
+  }
+
+  /**
+   * Propsをプラットフォームのテンプレートの属性に変換
+   * 
+   * @param component Angular / Vue / Svelteコンポーネント
+   * @param props 対象のProps
+   * @returns 属性の配列（スロット・コンテンツ投影のPropは除く）
+   */
+  private getTemplateAttributes(component: ExtractedComponent, props: PropInfo[]): string[] {
+    const toAttribute = (prop: PropInfo) => component.platform === 'vue' ? this.getVueAttribute(prop)
+      : component.platform === 'svelte' ? this.getSvelteAttribute(prop)
+      : this.getTemplateAttribute(prop);
+    return props.map(toAttribute).filter((attribute): attribute is string => attribute !== null);
+  }
+
+  /**
+   * スロット・スニペットのPropをテンプレートの子要素に変換
+   * 
+   * @param component Angular / Vue / Svelteコンポーネント
+   * @param props 対象のProps
+   * @returns 子要素の行（名前付きスロット・スニペットの後にデフォルトのコンテンツ）
+   */
+  private getTemplateContents(component: ExtractedComponent, props: PropInfo[]): string[] {
+    const named = props.flatMap(prop => {
+      if (component.platform === 'vue' && prop.name.startsWith('#')) {
+        return [`<template ${prop.name}>コンテンツ</template>`];
+      }
+      if (component.platform === 'svelte' && prop.name.startsWith('slot:')) {
+        return [`<svelte:fragment slot="${prop.name.slice('slot:'.length)}">コンテンツ</svelte:fragment>`];
+      }
+      if (component.platform === 'svelte' && prop.type.startsWith('Snippet') && prop.name !== 'children') {
+        return [`{#snippet ${prop.name}()}コンテンツ{/snippet}`];
+      }
+      return [];
+    });
+    return props.some(p => p.name === 'children') ? [...named, 'コンテンツ'] : named;
+  }
+
+  /**
+   * テンプレートのコード例を生成
+   * 
+   * Angularはセレクタのタグで記述したテンプレートのみを、Vue / Svelteは .vue / .svelte の
+   * デフォルトインポートとイベントハンドラを宣言したスクリプトとテンプレートを出力します。
+   * 
+   * @param component Angular / Vue / Svelteコンポーネント
+   * @param props コード例に含めるProps（children がある場合は投影するコンテンツを含める）
+   * @returns テンプレート構文で記述したコード例
+   */
+  private generateTemplateExample(component: ExtractedComponent, props: PropInfo[]): string {
+    const { tag, attributes } = this.getTemplateTag(component);
+    const lines = [...attributes, ...this.getTemplateAttributes(component, props)];
+    const contents = this.getTemplateContents(component, props);
+    const opening = lines.length > 0 ? `<${tag}\n${lines.map(line => `  ${line}`).join('\n')}\n` : `<${tag}`;
+    const element = contents.length > 0
+      ? `${opening}>\n${contents.map(line => `  ${line}`).join('\n')}\n</${tag}>`
+      : `${opening}${lines.length > 0 ? '' : ' '}/>`;
+
+    if (component.platform !== 'vue' && component.platform !== 'svelte') {
+      return element;
+    }
+
+    const source = `./${path.basename(component.filePath)}`;
+    const handlers = props
+      .filter(prop => prop.event && (component.platform === 'svelte' || /^on[A-Z]/.test(prop.name)))
+      .map(prop => `const ${this.getEventHandlerName(prop, component.platform)} = (${(prop.event?.parameters || []).map(parameter => parameter.name).join(', ')}) => {};`);
+    const script = [`import ${component.componentName} from '${source}';`, ...(handlers.length > 0 ? ['', ...handlers] : [])];
+
+    if (component.platform === 'vue') {
+      const template = element.split('\n').map(line => `  ${line}`).join('\n');
+      return `<script setup>\n${script.join('\n')}\n</script>\n\n<template>\n${template}\n</template>`;
+    }
+    return `<script>\n${script.map(line => line && `  ${line}`).join('\n')}\n</script>\n\n${element}`;
+  }
+
+  /**
+   * Propの型に応じたサンプル値を生成
+   * 
+   * 合成のコード例に加え、StoryGenerator が必須Propsの args を補う際にも使用します。
+   * 
+   * @param prop 対象のプロパティ情報
+   * @returns JSX属性値・式として書けるサンプル値
+   */
+  getPropExample(prop: PropInfo): string {
     switch (prop.type) {
       case 'string':
         return `"サンプルテキスト"`;
@@ -383,40 +700,92 @@ ${propsCode}
       case 'React.ReactNode':
         return '<div>コンテンツ</div>';
       default:
-        return '{}';
+        // リテラル型のユニオン（'primary' | 'secondary'）は先頭のリテラル
+        return this.getFirstLiteral(prop.type) ?? '{}';
     }
   }
 
+  /**
+   * ユニオン型の先頭のリテラルを取得
+   * 
+   * @param type Propの型
+   * @returns "primary" / 1 等のリテラル（リテラル型のユニオンでない場合はnull）
+   */
+  private getFirstLiteral(type: string): string | null {
+    const members = type.split('|').map(member => member.trim()).filter(member => member && member !== 'undefined');
+    const isLiteral = (member: string) => /^(['"]).*\1$/.test(member) || /^-?\d+(\.\d+)?$/.test(member);
+    if (members.length === 0 || !members.every(isLiteral)) {
+      return null;
+    }
+    const first = members[0];
+    return /^['"]/.test(first) ? JSON.stringify(first.slice(1, -1)) : first;
+  }
+
+  /**
+   * PropをJSXの属性に変換
+   * 
+   * @param prop 対象のプロパティ情報
+   * @returns variant="primary"（文字列の値）/ count={42}（式の値）
+   */
+  private formatPropAttribute(prop: PropInfo): string {
+    const value = this.getPropExample(prop);
+    return /^"[^"]*"$/.test(value) ? `${prop.name}=${value}` : `${prop.name}={${value}}`;
+  }
+
+  /**
+   * 振る舞いに、参照しているコンテキストの提供元コンポーネントを補完
+   * 
+   * 「Tabs は TabsProvider の内側で使用する」のような配置の制約を明示するため、
+   * 参照しているコンテキストを <XContext.Provider> で提供しているコンポーネントを列挙します。
+   * 
+   * @param component 対象コンポーネント
+   * @param behavior 対象コンポーネントの振る舞い
+   * @param allComponents 全コンポーネント
+   * @returns 提供元コンポーネントを含む振る舞い（提供元がない場合はそのまま）
+   */
+  private generateBehaviorDoc(
+    component: ExtractedComponent,
+    behavior: ComponentBehavior,
+    allComponents: ExtractedComponent[]
+  ): ComponentBehavior {
+    const consumed = behavior.consumedContexts.filter(context => !behavior.providedContexts.includes(context));
+    const requiredProviders = allComponents
+      .filter(c => c.componentName !== component.componentName &&
+                   c.behavior?.providedContexts.some(context => consumed.includes(context)))
+      .map(c => c.componentName);
+
+    return requiredProviders.length > 0 ? { ...behavior, requiredProviders } : behavior;
+  }
+
+  /**
+   * 関連コンポーネントを算出
+   * 
+   * 構成グラフの辺（描画しているコンポーネント・描画されているコンポーネント）のみを使用します。
+   * 名前が似ているだけで描画関係のないコンポーネントは含めません。
+   * 
+   * @param component 対象コンポーネント
+   * @param allComponents 全コンポーネント
+   * @returns 関連コンポーネント名（最大5件）
+   */
   private findRelatedComponents(
     component: ExtractedComponent, 
     allComponents: ExtractedComponent[]
   ): string[] {
-    const related: string[] = [];
-    
-    // Same category
-    const sameCategory = allComponents
-      .filter(c => c.category === component.category && c.componentName !== component.componentName)
-      .map(c => c.componentName);
-    
-    // Components that this component depends on
-    const dependencies = component.dependencies
-      .map(dep => {
-        const match = allComponents.find(c => dep.includes(c.componentName));
-        return match?.componentName;
-      })
-      .filter(Boolean) as string[];
-    
-    // Components with similar names
-    const similarNames = allComponents
-      .filter(c => {
-        const name1 = c.componentName.toLowerCase();
-        const name2 = component.componentName.toLowerCase();
-        return name1 !== name2 && 
-               (name1.includes(name2) || name2.includes(name1));
-      })
-      .map(c => c.componentName);
-    
-    return [...new Set([...dependencies, ...similarNames, ...sameCategory])].slice(0, 5);
+    // 構成グラフはコンポーネント群毎に一度だけ構築
+    let graph = this.compositionGraphs.get(allComponents);
+    if (!graph) {
+      graph = this.compositionGraphBuilder.build(allComponents);
+      this.compositionGraphs.set(allComponents, graph);
+    }
+
+    // Components rendered by / rendering this component
+    const nodeId = this.compositionGraphBuilder.getNodeId(component);
+    const renders = this.compositionGraphBuilder.getRenders(graph, nodeId);
+    const renderedBy = this.compositionGraphBuilder.getRenderedBy(graph, nodeId);
+
+    return [...new Set([...renders, ...renderedBy])]
+      .filter(name => name !== component.componentName)
+      .slice(0, 5);
   }
 
   private hasResponsiveClasses(classes: string[]): boolean {
@@ -1,4 +1,4 @@
-import { AIDocument } from '../../types';
+import { AIDocument, ComponentBehavior, ComponentWrapper, PropDoc, PropForwarding, VariantDefinition } from '../../types';
 
 /**
  * MarkdownFormatter - 構造化ドキュメントのMarkdown変換器
@@ -204,11 +204,16 @@ export class MarkdownFormatter {
    * 各コンポーネントに含まれる情報:
    * - 基本説明とカテゴリ
    * - 使用方法とコード例
+   * - 非推奨・導入バージョン・参照（ドキュメントコメントのタグ）
+   * - ref転送・メモ化等のラッパー情報
+   * - State・ライフサイクルメソッド（クラスコンポーネント）
+   * - 振る舞い（内部状態・コンテキスト・副作用。関数コンポーネント）
    * - Props詳細（テーブル形式）
    * - スタイル情報（レスポンシブ、ダークモード、アニメーション）
    * - 使用しているTailwindクラス
    * - 実用的なコード例
    * - 関連コンポーネント
+   * - サブコンポーネント（複合コンポーネントの子をネストしたセクション）
    * 
    * @param document コンポーネント情報を含むAIDocument
    * @returns コンポーネント一覧部分のMarkdown文字列
@@ -232,17 +237,71 @@ export class MarkdownFormatter {
         
         componentsInCategory.forEach(comp => {
           md += `#### ${comp.name}\n\n`;
+          if (comp.deprecated !== undefined) {
+            md += `> ⚠️ **非推奨**${typeof comp.deprecated === 'string' ? `: ${comp.deprecated}` : ''}\n\n`;
+          }
           md += `${comp.description}\n\n`;
+          if (comp.since) {
+            md += `**導入バージョン**: ${comp.since}\n\n`;
+          }
+          if (comp.see && comp.see.length > 0) {
+            md += `**参照**: ${comp.see.join(', ')}\n\n`;
+          }
+          if (comp.displayName) {
+            md += `**displayName**: \`${comp.displayName}\`\n\n`;
+          }
+          if (comp.wrappers && comp.wrappers.length > 0) {
+            md += `**ラッパー**: ${this.formatWrappers(comp.wrappers)}\n\n`;
+          }
+          if (comp.selector) {
+            md += `**セレクタ**: \`${comp.selector}\`\n\n`;
+          }
+          if (comp.platform) {
+            md += `**プラットフォーム**: ${comp.platform}\n\n`;
+          }
           md += `**使用方法**: \`${comp.usage}\`\n\n`;
           
           // Props table
-          if (comp.props.length > 0) {
-            md += `**Props**:\n\n`;
-            md += '| Prop | Type | Required | Default | Description |\n';
-            md += '|------|------|----------|---------|-------------|\n';
-            comp.props.forEach(prop => {
-              const defaultValue = prop.defaultValue ? `\`${prop.defaultValue}\`` : '-';
-              md += `| ${prop.name} | \`${prop.type}\` | ${prop.required ? '✓' : '-'} | ${defaultValue} | ${prop.description} |\n`;
+          md += this.formatPropsTable(comp.props, comp.forwardedProps);
+
+          // Events table（コールバックPropsのシグネチャと呼び出し方）
+          md += this.formatEvents(comp.props);
+
+          // State table（クラスコンポーネント）
+          if (comp.state && comp.state.length > 0) {
+            md += `**State**:\n\n`;
+            md += '| State | Type | Initial | Description |\n';
+            md += '|-------|------|---------|-------------|\n';
+            comp.state.forEach(member => {
+              const initialValue = member.defaultValue ? `\`${this.escapeTableCell(member.defaultValue)}\`` : '-';
+              md += `| ${member.name} | \`${this.escapeTableCell(member.type)}\` | ${initialValue} | ${this.formatPropDescription(member)} |\n`;
+            });
+            md += '\n';
+          }
+          if (comp.lifecycleMethods && comp.lifecycleMethods.length > 0) {
+            md += `**ライフサイクル**: ${comp.lifecycleMethods.map(method => `\`${method}\``).join(', ')}\n\n`;
+          }
+
+          // Behavior（フック・コンテキスト・副作用）
+          if (comp.behavior) {
+            md += this.formatBehavior(comp.behavior);
+          }
+
+          // Variants（cva/tvのバリアントマトリクス）
+          if (comp.variants && comp.variants.length > 0) {
+            md += this.formatVariants(comp.variants, comp.props);
+          }
+
+          // Conditional classes（Propの値毎に適用されるクラス）
+          if (comp.conditionalClasses && comp.conditionalClasses.length > 0) {
+            md += `**条件付きクラス**:\n\n`;
+            md += '| Prop | Value | Classes |\n';
+            md += '|------|-------|---------|\n';
+            comp.conditionalClasses.forEach(mapping => {
+              Object.entries(mapping.values).forEach(([value, classes]) => {
+                const label = value === '*' ? 'その他' : `\`${this.escapeTableCell(value)}\``;
+                md += `| ${mapping.prop} | ${label} | ${classes.map(cls => `\`${this.escapeTableCell(cls)}\``).join(' ')} |\n`;
+              });
             });
             md += '\n';
           }
@@ -264,6 +323,11 @@ export class MarkdownFormatter {
             }
             md += '\n';
           }
+          if (comp.classSources && comp.classSources.length > 0) {
+            comp.classSources.forEach(source => {
+              md += `- クラスの参照元: \`${source.binding}\` (${source.filePath}): ${source.classes.map(cls => `\`${cls}\``).join(', ')}\n`;
+            });
+          }
           
           // Examples
           if (comp.examples.length > 0) {
@@ -273,7 +337,7 @@ export class MarkdownFormatter {
               if (example.description) {
                 md += `${example.description}\n\n`;
               }
-              md += '```tsx\n';
+              md += `\`\`\`${example.language || 'tsx'}\n`;
               md += example.code;
               md += '\n```\n\n';
             });
@@ -283,6 +347,29 @@ export class MarkdownFormatter {
           if (comp.relatedComponents.length > 0) {
             md += `**関連コンポーネント**: ${comp.relatedComponents.join(', ')}\n`;
           }
+
+          // Composition（構成グラフ上の描画関係。ノードIDは filePath#componentName のため同名のノードを対象とする）
+          const nodes = document.composition?.nodes || [];
+          const nodeIds = nodes.filter(node => node.componentName === comp.name).map(node => node.id);
+          const nameOf = (nodeId: string) => `\`${nodes.find(node => node.id === nodeId)?.componentName || nodeId}\``;
+          const edges = document.composition?.edges || [];
+          const renders = Array.from(new Set(edges.filter(edge => nodeIds.includes(edge.from)).map(edge => nameOf(edge.to))));
+          const renderedBy = Array.from(new Set(edges.filter(edge => nodeIds.includes(edge.to)).map(edge => nameOf(edge.from))));
+          if (renders.length > 0 || renderedBy.length > 0) {
+            md += `**構成**: 描画: ${renders.join(', ') || '-'} / 使用元: ${renderedBy.join(', ') || '-'}\n`;
+          }
+
+          // Subcomponents（複合コンポーネントの子をネストしたセクションとして出力）
+          if (comp.subcomponents && comp.subcomponents.length > 0) {
+            md += `\n**サブコンポーネント**: ${comp.subcomponents.map(sub => `\`${sub.name}\``).join(', ')}\n\n`;
+            comp.subcomponents.forEach(sub => {
+              md += `##### ${sub.name}\n\n`;
+              md += `${sub.description}\n\n`;
+              md += `**使用方法**: \`${sub.usage}\`\n\n`;
+              md += this.formatPropsTable(sub.props, sub.forwardedProps);
+              md += this.formatEvents(sub.props);
+            });
+          }
           
           md += '\n---\n\n';
         });
@@ -356,4 +443,211 @@ export class MarkdownFormatter {
 
     return md;
   }
-}
\ No newline at end of file
+
+  /**
+   * Propsテーブルの説明セルを生成
+   * 
+   * 説明文にドキュメントコメントのタグ情報（@deprecated・@since・@see）を付記します。
+   * 
+   * @param prop Propドキュメント
+   * @returns テーブルセル用の説明文字列
+   */
+  private formatPropDescription(prop: PropDoc): string {
+    const parts: string[] = [];
+
+    if (prop.deprecated !== undefined) {
+      parts.push(`**非推奨**${typeof prop.deprecated === 'string' ? `: ${prop.deprecated}` : ''}`);
+    }
+    parts.push(prop.description);
+    if (prop.since) {
+      parts.push(`(since ${prop.since})`);
+    }
+    if (prop.see && prop.see.length > 0) {
+      parts.push(`参照: ${prop.see.join(', ')}`);
+    }
+
+    return this.escapeTableCell(parts.join(' '));
+  }
+
+  /**
+   * PropsテーブルのMarkdownを生成
+   * 
+   * 残余Props（...rest）の転送先がある場合は、受け付ける属性・転送先を末尾の行に記載します。
+   * 
+   * @param props Props情報
+   * @param forwardedProps 残余Propsの転送先
+   * @returns Markdownテーブル（Propsも転送先もない場合は空文字列）
+   */
+  private formatPropsTable(props: PropDoc[], forwardedProps: PropForwarding[] = []): string {
+    if (props.length === 0 && forwardedProps.length === 0) {
+      return '';
+    }
+
+    let md = `**Props**:\n\n`;
+    md += '| Prop | Type | Required | Default | Description |\n';
+    md += '|------|------|----------|---------|-------------|\n';
+    props.forEach(prop => {
+      const defaultValue = prop.defaultValue ? `\`${this.escapeTableCell(prop.defaultValue)}\`` : '-';
+      md += `| ${prop.name} | \`${this.escapeTableCell(prop.type)}\` | ${prop.required ? '✓' : '-'} | ${defaultValue} | ${this.formatPropDescription(prop)} |\n`;
+    });
+    forwardedProps.forEach(forwarding => {
+      const description = forwarding.intrinsic
+        ? `\`<${forwarding.target}>\` 要素の全ての属性も受け付けます`
+        : `\`${forwarding.target}\` にPropsを転送します`;
+      md += `| ...${forwarding.source} | - | - | - | ${description} |\n`;
+    });
+    return md + '\n';
+  }
+
+  /**
+   * イベント（コールバックProps）表のMarkdownを生成
+   * 
+   * 型から解決した引数・戻り値の型に加え、コンポーネント内での呼び出し時の実引数と、
+   * そのまま渡している要素（ネイティブ要素・子コンポーネント）を出力します。
+   * 
+   * @param props Props情報（eventを持つPropsのみが対象）
+   * @returns Markdownテーブル（コールバックPropsがない場合は空文字列）
+   */
+  private formatEvents(props: PropDoc[]): string {
+    const events = props.filter(prop => prop.event);
+    if (events.length === 0) {
+      return '';
+    }
+
+    let md = `**Events**:\n\n`;
+    md += '| Event | Parameters | Returns | Called with |\n';
+    md += '|-------|------------|---------|-------------|\n';
+    events.forEach(prop => {
+      const event = prop.event!;
+      const parameters = event.parameters.length > 0
+        ? event.parameters.map(param => `\`${this.escapeTableCell(`${param.name}${param.optional ? '?' : ''}: ${param.type}`)}\``).join(', ')
+        : '-';
+      const returnType = event.returnType ? `\`${this.escapeTableCell(event.returnType)}\`` : '-';
+      const calls = [
+        ...event.invocations.map(args => `\`${this.escapeTableCell(`${prop.name}(${args.join(', ')})`)}\``),
+        ...event.forwardedTo.map(target => `\`${/^[a-z]/.test(target) ? `<${target}>` : target}\` に転送`),
+      ];
+      md += `| ${prop.name} | ${parameters} | ${returnType} | ${calls.join('<br>') || '-'} |\n`;
+    });
+    return md + '\n';
+  }
+
+  /**
+   * バリアント表のMarkdownを生成
+   * 
+   * 定義毎に「バリアント → オプション → クラス」の表を出力し、デフォルトのオプションと
+   * 同名のPropsで指定できるバリアントを明記します。複合バリアントは条件とクラスの表で続けます。
+   * 
+   * @param variants cva/tvのバリアント定義
+   * @param props コンポーネントのProps（バリアントとPropsの対応表示用）
+   * @returns Markdown文字列
+   */
+  private formatVariants(variants: VariantDefinition[], props: PropDoc[]): string {
+    const formatClasses = (classes: string[]) =>
+      classes.length > 0 ? classes.map(cls => `\`${this.escapeTableCell(cls)}\``).join(' ') : '-';
+    let md = '';
+
+    variants.forEach(definition => {
+      md += `**バリアント** (\`${definition.name}\` / ${definition.library}):\n\n`;
+      if (definition.base.length > 0) {
+        md += `ベースクラス: ${formatClasses(definition.base)}\n\n`;
+      }
+
+      md += '| Variant | Option | Classes |\n';
+      md += '|---------|--------|---------|\n';
+      Object.entries(definition.variants).forEach(([variant, options]) => {
+        const label = props.some(prop => prop.name === variant) ? `${variant} (Prop)` : variant;
+        Object.entries(options).forEach(([option, classes]) => {
+          const isDefault = definition.defaultVariants[variant] === option;
+          md += `| ${label} | ${option}${isDefault ? ' (default)' : ''} | ${formatClasses(classes)} |\n`;
+        });
+      });
+      md += '\n';
+
+      if (definition.compoundVariants.length > 0) {
+        md += `**複合バリアント**:\n\n`;
+        md += '| Conditions | Classes |\n';
+        md += '|------------|---------|\n';
+        definition.compoundVariants.forEach(compound => {
+          const conditions = Object.entries(compound.conditions)
+            .map(([variant, option]) => `${variant}=${Array.isArray(option) ? option.join('/') : option}`)
+            .join(', ');
+          md += `| ${this.escapeTableCell(conditions)} | ${formatClasses(compound.classes)} |\n`;
+        });
+        md += '\n';
+      }
+    });
+
+    return md;
+  }
+
+  /**
+   * 振る舞いのMarkdownを生成
+   * 
+   * コンテキストの提供元（配置の制約）を先頭に置き、内部状態・提供するコンテキスト・
+   * 副作用・使用しているフックの順に箇条書きで出力します。
+   * 
+   * @param behavior 関数コンポーネントの振る舞い
+   * @returns Markdown文字列
+   */
+  private formatBehavior(behavior: ComponentBehavior): string {
+    const code = (names: string[]) => names.map(name => `\`${name}\``).join(', ');
+    let md = `**振る舞い**:\n`;
+
+    if (behavior.consumedContexts.length > 0) {
+      md += `- 参照するコンテキスト: ${code(behavior.consumedContexts)}`;
+      if (behavior.requiredProviders && behavior.requiredProviders.length > 0) {
+        md += `（${code(behavior.requiredProviders)} の内側で使用する必要があります）`;
+      }
+      md += '\n';
+    }
+    if (behavior.providedContexts.length > 0) {
+      md += `- 提供するコンテキスト: ${code(behavior.providedContexts)}\n`;
+    }
+    behavior.state.forEach(state => {
+      const details = [state.hook, state.setter && `更新: \`${state.setter}\``, state.initialValue && `初期値: \`${state.initialValue}\``];
+      md += `- 内部状態: \`${state.name}\`（${details.filter(Boolean).join(', ')}）\n`;
+    });
+    behavior.effects.forEach(effect => {
+      const timing = effect.dependencies === null ? '毎回の描画後'
+        : effect.dependencies.length === 0 ? 'マウント時のみ'
+        : `依存: ${code(effect.dependencies)}`;
+      md += `- 副作用: ${effect.hook}（${timing}${effect.cleanup ? ', クリーンアップあり' : ''}）\n`;
+    });
+    if (behavior.hooks.length > 0) {
+      md += `- フック: ${behavior.hooks.map(hook => `\`${hook.name}\`${hook.custom ? ' (custom)' : ''}`).join(', ')}\n`;
+    }
+
+    return md + '\n';
+  }
+
+  /**
+   * コンポーネントのラッパー種別を説明文に変換
+   * 
+   * forwardRefでラップされている場合は、利用者がrefを渡せることを明記します。
+   * 
+   * @param wrappers ラッパー種別（外側から順）
+   * @returns 読点区切りの説明文
+   */
+  private formatWrappers(wrappers: ComponentWrapper[]): string {
+    const labels: Record<ComponentWrapper, string> = {
+      forwardRef: '`ref` をサポート（forwardRef）',
+      memo: 'メモ化（memo）',
+      hoc: '高階コンポーネント（HOC）でラップ',
+    };
+    return Array.from(new Set(wrappers)).map(wrapper => labels[wrapper]).join('、');
+  }
+
+  /**
+   * Markdownテーブルのセル内容をエスケープ
+   * 
+   * パイプ記号はセル区切りと解釈されるためエスケープし、
+   * 改行は表示が崩れないよう<br>に置き換えます。
+   * 
+   * @param text セルに表示するテキスト
+   * @returns エスケープされたテキスト
+   */
+  private escapeTableCell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+  }
+}
@@ -0,0 +1,339 @@
+import * as path from 'path';
+import { ComponentDoc, ExtractedComponent, PropDoc } from '../../types';
+import { ComponentAnalyzer } from '../../extractors/ast/ComponentAnalyzer';
+import { CodeValidator, ValidationResult } from '../../utils/codeValidation';
+import { ComponentDocumentGenerator } from './ComponentDocumentGenerator';
+
+// 生成したストーリーファイルの先頭に付ける目印（この行があるファイルのみ上書き対象）
+export const GENERATED_STORY_MARKER = '@generated by design-system-doc stories';
+
+/**
+ * ストーリー生成のオプション
+ */
+export interface StoryGenerationOptions {
+  /** コンポーネントのソースディレクトリ（出力先のディレクトリ構成の基準） */
+  sourceDir: string;
+  /** ストーリーファイルの出力ディレクトリ */
+  outputDir: string;
+}
+
+/**
+ * 生成したストーリーファイル
+ */
+export interface GeneratedStoryFile {
+  componentName: string;
+  filePath: string;              // 出力先（*.stories.tsx）
+  content: string;
+  stories: string[];             // ストーリーのエクスポート名
+  validation: ValidationResult;  // CodeValidator による構文検証の結果
+}
+
+// argTypes の1項目
+interface ArgTypeEntry {
+  control?: string;
+  options?: string[];
+  action?: string;
+  description?: string;
+  defaultValue?: string;
+}
+
+/**
+ * StoryGenerator - Storybook CSF3 ストーリー生成クラス
+ *
+ * このクラスは、ストーリーを持たないコンポーネントについて、抽出したProps情報から
+ * CSF3 形式の *.stories.tsx を生成します。StoryReader の逆方向の変換にあたり、
+ * 生成したファイルは Storybook でそのまま表示できる状態を目指します。
+ *
+ * 主な責務:
+ * - Propの型（リテラル型のユニオン・boolean・number・string・関数）からの argTypes コントロールの生成
+ * - デフォルト値・ドキュメントコメントの説明の argTypes への反映（ComponentDocumentGenerator 経由）
+ * - 必須Propsの args の補完
+ * - バリアント（選択肢のあるProp）の値毎・状態（booleanのProp）毎のストーリーの生成
+ * - 生成したファイルの構文検証（CodeValidator）
+ *
+ * 生成されるストーリー:
+ * - Default: 必須Propsのみを指定
+ * - {Prop}{Option}: 選択肢のあるPropのデフォルト以外の値毎（VariantSecondary、SizeLg 等）
+ * - {Prop} / No{Prop}: booleanのPropをデフォルトと逆の値にした状態（Disabled、NoShadow 等）
+ *
+ * 制限事項:
+ * - 既にストーリー（component.stories）を持つコンポーネントは対象外
+ * - サブコンポーネント（Card.Header 等）のストーリーは生成しない
+ * - 選択肢は文字列リテラル型のユニオン・条件付きクラスの値から取得（数値リテラル型は対象外）
+ *
+ * 使用例:
+ * const generator = new StoryGenerator();
+ * const files = await generator.generate(components, { sourceDir: './src', outputDir: './stories' });
+ * // => [{ componentName: 'Button', filePath: './stories/Button.stories.tsx', stories: ['Default', 'VariantSecondary', 'Disabled'], ... }]
+ *
+ * 他クラスとの関係:
+ * - ComponentDocumentGenerator: Propsの説明・デフォルト値・サンプル値の取得
+ * - CodeValidator: 生成したファイルの構文検証
+ * - ComponentAnalyzer: コンポーネントのエクスポート形式（named / default）の判定
+ * - StoriesCommand: このクラスの結果をファイルに出力（手書きのストーリーは上書きしない）
+ */
+export class StoryGenerator {
+  private documentGenerator: ComponentDocumentGenerator;
+  private codeValidator: CodeValidator;
+  private componentAnalyzer: ComponentAnalyzer;
+
+  /**
+   * @param documentGenerator Propsの説明・サンプル値の生成
+   * @param codeValidator 生成したファイルの構文検証
+   * @param componentAnalyzer コンポーネントファイルのパーサー（エクスポート形式の判定用）
+   */
+  constructor(
+    documentGenerator = new ComponentDocumentGenerator(),
+    codeValidator = new CodeValidator(),
+    componentAnalyzer = new ComponentAnalyzer()
+  ) {
+    this.documentGenerator = documentGenerator;
+    this.codeValidator = codeValidator;
+    this.componentAnalyzer = componentAnalyzer;
+  }
+
+  /**
+   * ストーリーを持たないコンポーネントのストーリーファイルを生成
+   *
+   * @param components 抽出済みのコンポーネント
+   * @param options 生成オプション
+   * @returns 生成したストーリーファイル（ファイルへの書き込みは呼び出し側で行う）
+   */
+  async generate(components: ExtractedComponent[], options: StoryGenerationOptions): Promise<GeneratedStoryFile[]> {
+    const files: GeneratedStoryFile[] = [];
+
+    for (const component of components) {
+      if (component.stories && component.stories.length > 0) continue;
+
+      const relativeDir = path.relative(options.sourceDir, path.dirname(component.filePath));
+      const filePath = path.join(options.outputDir, relativeDir.startsWith('..') ? '' : relativeDir, `${component.componentName}.stories.tsx`);
+      const doc = this.documentGenerator.generateComponentDoc(component, components, { includeExamples: false, outputFormat: 'json' });
+      const defaultExport = await this.isDefaultExport(component);
+
+      const { content, stories } = this.generateStoryFile(component, doc, this.getImportPath(filePath, component.filePath), defaultExport);
+      files.push({
+        componentName: component.componentName,
+        filePath,
+        content,
+        stories,
+        validation: this.codeValidator.validateReactCode(content, path.basename(filePath)),
+      });
+    }
+
+    return files;
+  }
+
+  /**
+   * CSF3 形式のストーリーファイルの内容を生成
+   *
+   * @param component 対象のコンポーネント
+   * @param doc コンポーネントのドキュメント（Propsの説明・デフォルト値）
+   * @param importPath ストーリーファイルからコンポーネントへのインポートパス
+   * @param defaultExport コンポーネントがデフォルトエクスポートの場合true
+   * @returns ファイルの内容とストーリーのエクスポート名
+   */
+  private generateStoryFile(
+    component: ExtractedComponent,
+    doc: ComponentDoc,
+    importPath: string,
+    defaultExport: boolean
+  ): { content: string; stories: string[] } {
+    const name = component.componentName;
+    const argTypes = new Map<string, ArgTypeEntry>();
+    const args: string[] = [];
+    const stories: Array<{ exportName: string; args: string[] }> = [{ exportName: 'Default', args: [] }];
+    const usedNames = new Set(['Default']);
+    const addStory = (exportName: string, storyArgs: string[]) => {
+      let uniqueName = exportName;
+      for (let index = 2; usedNames.has(uniqueName); index++) uniqueName = `${exportName}${index}`;
+      usedNames.add(uniqueName);
+      stories.push({ exportName: uniqueName, args: storyArgs });
+    };
+
+    doc.props.forEach(prop => {
+      const options = this.getOptions(prop, component);
+      const isFunction = !!prop.event || /=>/.test(prop.type);
+      const entry: ArgTypeEntry = {
+        ...(prop.description && { description: prop.description }),
+        ...(prop.defaultValue !== undefined && { defaultValue: prop.defaultValue }),
+      };
+
+      if (isFunction) {
+        entry.action = prop.name;
+      } else if (options) {
+        entry.control = options.length <= 3 ? 'radio' : 'select';
+        entry.options = options;
+        // デフォルト以外の値毎にストーリーを追加
+        options
+          .filter(option => option !== prop.defaultValue)
+          .forEach(option => addStory(`${this.toPascalCase(prop.name)}${this.toPascalCase(option)}`, [`${this.formatKey(prop.name)}: ${this.quote(option)}`]));
+      } else if (prop.type === 'boolean') {
+        entry.control = 'boolean';
+        // デフォルトと逆の値の状態をストーリーとして追加
+        const enabledByDefault = prop.defaultValue === 'true';
+        addStory(`${enabledByDefault ? 'No' : ''}${this.toPascalCase(prop.name)}`, [`${this.formatKey(prop.name)}: ${!enabledByDefault}`]);
+      } else if (prop.type === 'number') {
+        entry.control = 'number';
+      } else if (prop.type === 'string') {
+        entry.control = 'text';
+      }
+
+      if (Object.keys(entry).length > 0) {
+        argTypes.set(prop.name, entry);
+      }
+
+      // 必須Propsは型に応じたサンプル値で補完（選択肢がある場合は先頭の値）
+      if (prop.required && prop.defaultValue === undefined) {
+        const value = isFunction ? '() => {}' : options ? this.quote(options[0]) : this.documentGenerator.getPropExample(prop);
+        args.push(`${this.formatKey(prop.name)}: ${value}`);
+      }
+    });
+
+    const importStatement = defaultExport
+      ? `import ${name} from '${importPath}';`
+      : `import { ${name} } from '${importPath}';`;
+    const title = `${component.category.charAt(0).toUpperCase()}${component.category.slice(1)}/${name}`;
+
+    let content = `// ${GENERATED_STORY_MARKER} — 手書きで編集する場合はこの行を削除してください（削除後は上書きされません）\n`;
+    content += `import type { Meta, StoryObj } from '@storybook/react';\n`;
+    content += `${importStatement}\n\n`;
+    content += `const meta = {\n`;
+    content += `  title: ${this.quote(title)},\n`;
+    content += `  component: ${name},\n`;
+    content += `  parameters: {\n    docs: { description: { component: ${this.quote(doc.description)} } },\n  },\n`;
+    if (args.length > 0) {
+      content += `  args: {\n${args.map(arg => `    ${arg},\n`).join('')}  },\n`;
+    }
+    if (argTypes.size > 0) {
+      content += `  argTypes: {\n`;
+      argTypes.forEach((entry, propName) => {
+        content += `    ${this.formatKey(propName)}: ${this.formatArgType(entry)},\n`;
+      });
+      content += `  },\n`;
+    }
+    content += `} satisfies Meta<typeof ${name}>;\n\n`;
+    content += `export default meta;\n`;
+    content += `type Story = StoryObj<typeof meta>;\n`;
+
+    stories.forEach(story => {
+      content += story.args.length > 0
+        ? `\nexport const ${story.exportName}: Story = {\n  args: {\n${story.args.map(arg => `    ${arg},\n`).join('')}  },\n};\n`
+        : `\nexport const ${story.exportName}: Story = {};\n`;
+    });
+
+    return { content, stories: stories.map(story => story.exportName) };
+  }
+
+  /**
+   * argTypes の1項目をオブジェクトリテラルに変換
+   *
+   * @param entry argTypes の項目
+   * @returns オブジェクトリテラルのソース表記
+   */
+  private formatArgType(entry: ArgTypeEntry): string {
+    const fields: string[] = [];
+    if (entry.control) fields.push(`control: { type: ${this.quote(entry.control)} }`);
+    if (entry.options) fields.push(`options: [${entry.options.map(option => this.quote(option)).join(', ')}]`);
+    if (entry.action) fields.push(`action: ${this.quote(entry.action)}`);
+    if (entry.description) fields.push(`description: ${this.quote(entry.description)}`);
+    if (entry.defaultValue !== undefined) fields.push(`table: { defaultValue: { summary: ${this.quote(entry.defaultValue)} } }`);
+    return `{ ${fields.join(', ')} }`;
+  }
+
+  /**
+   * Propの選択肢を取得
+   *
+   * 文字列リテラル型のユニオン（"primary" | "secondary"）を優先し、
+   * 型から得られない場合は条件付きクラスが切り替わる値を使用します。
+   *
+   * @param prop Propドキュメント
+   * @param component 対象のコンポーネント（条件付きクラスの参照用）
+   * @returns 選択肢（選択肢を持たないPropの場合はnull）
+   */
+  private getOptions(prop: PropDoc, component: ExtractedComponent): string[] | null {
+    const members = prop.type.split('|').map(member => member.trim()).filter(member => member !== 'undefined');
+    const literals = members.map(member => member.match(/^(['"])(.*)\1$/)?.[2]);
+    if (members.length > 1 && literals.every(literal => literal !== undefined)) {
+      return literals as string[];
+    }
+
+    if (prop.type === 'boolean') {
+      return null;
+    }
+    const values = Object.keys(component.conditionalClasses?.find(mapping => mapping.prop === prop.name)?.values || {})
+      .filter(value => value !== '*' && value !== 'true' && value !== 'false');
+    return values.length > 1 ? values : null;
+  }
+
+  /**
+   * コンポーネントがデフォルトエクスポートのみで公開されているか判定
+   *
+   * @param component 対象のコンポーネント
+   * @returns 同名の名前付きエクスポートがない場合true
+   */
+  private async isDefaultExport(component: ExtractedComponent): Promise<boolean> {
+    const { ast } = await this.componentAnalyzer.parseFile(component.filePath);
+    if (!ast) {
+      return false;
+    }
+
+    const name = component.componentName;
+    const hasNamedExport = ast.body.some((statement: any) => {
+      if (statement.type !== 'ExportNamedDeclaration') return false;
+      const declaration = statement.declaration;
+      if (declaration?.id?.name === name) return true;
+      if (declaration?.type === 'VariableDeclaration' && declaration.declarations.some((declarator: any) => declarator.id?.name === name)) return true;
+      return (statement.specifiers || []).some((specifier: any) => (specifier.exported.name ?? specifier.exported.value) === name);
+    });
+    return !hasNamedExport && ast.body.some((statement: any) => statement.type === 'ExportDefaultDeclaration');
+  }
+
+  /**
+   * ストーリーファイルからコンポーネントファイルへのインポートパスを生成
+   *
+   * @param storyFile ストーリーファイルのパス
+   * @param componentFile コンポーネントファイルのパス
+   * @returns 拡張子なしの相対パス（'./Button'、'../src/Button' 等）
+   */
+  private getImportPath(storyFile: string, componentFile: string): string {
+    const relativePath = path.relative(path.dirname(storyFile), componentFile)
+      .replace(/\.(tsx|ts|jsx|js)$/, '')
+      .split(path.sep)
+      .join('/');
+    return relativePath.startsWith('.') ? relativePath : `./${relativePath}`;
+  }
+
+  /**
+   * 文字列をシングルクォートの文字列リテラルに変換
+   *
+   * @param value 文字列
+   * @returns エスケープ済みの文字列リテラル
+   */
+  private quote(value: string): string {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\r?\n/g, '\\n')}'`;
+  }
+
+  /**
+   * オブジェクトリテラルのキー表記
+   *
+   * @param name Prop名
+   * @returns 識別子として書ける場合はそのまま、それ以外（aria-label 等）は文字列リテラル
+   */
+  private formatKey(name: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? name : this.quote(name);
+  }
+
+  /**
+   * ストーリーのエクスポート名用に PascalCase へ変換
+   *
+   * @param value Prop名・選択肢の値
+   * @returns 英数字のみの PascalCase（secondary → Secondary、2xl → 2xl、x-large → XLarge）
+   */
+  private toPascalCase(value: string): string {
+    return value
+      .split(/[^A-Za-z0-9]+/)
+      .filter(Boolean)
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join('');
+  }
+}
@@ -0,0 +1,122 @@
+import { ComponentUsage, PropUsage, UsageReport } from '../../types';
+
+/**
+ * UsageMarkdownFormatter - 利用状況レポートのMarkdown変換器
+ *
+ * このクラスは、UsageAnalyzerが集計した利用状況レポートを、
+ * デザインシステムの保守者がレビューしやすいMarkdown形式に変換します。
+ *
+ * 生成されるMarkdownの構造:
+ * 1. ヘッダー（対象ディレクトリ、パッケージ、走査ファイル数）
+ * 2. 概要（コンポーネント別の呼び出し数・ファイル数の一覧）
+ * 3. 未使用のコンポーネント
+ * 4. コンポーネント別の詳細（Propの値の分布、未使用のProp）
+ *
+ * 使用例:
+ * const formatter = new UsageMarkdownFormatter();
+ * const markdown = formatter.generateMarkdown(report);
+ *
+ * 他クラスとの関係:
+ * - UsageAnalyzer: このクラスが変換するレポートを生成
+ * - UsageCommand: このクラスでMarkdown形式での保存を実行
+ */
+export class UsageMarkdownFormatter {
+  /**
+   * 利用状況レポートをMarkdownに変換
+   *
+   * @param report 利用状況レポート
+   * @returns Markdown文字列
+   */
+  generateMarkdown(report: UsageReport): string {
+    const used = report.components.filter(usage => usage.instances > 0);
+    const unused = report.components.filter(usage => usage.instances === 0);
+
+    let md = `# デザインシステム利用状況
+
+生成日時: ${new Date(report.generated).toLocaleString('ja-JP')}
+
+- **対象ディレクトリ**: ${report.sourceDir}
+- **パッケージ**: ${report.packages.length > 0 ? report.packages.map(name => `\`${name}\``).join(', ') : '（相対パスのインポートのみ）'}
+- **走査ファイル数**: ${report.filesScanned}
+
+## 概要
+
+`;
+
+    if (used.length > 0) {
+      md += '| Component | Instances | Files |\n';
+      md += '|-----------|-----------|-------|\n';
+      used.forEach(usage => {
+        md += `| ${usage.componentName} | ${usage.instances} | ${usage.files.length} |\n`;
+      });
+    } else {
+      md += 'デザインシステムのコンポーネントの呼び出しは見つかりませんでした。\n';
+    }
+    md += '\n';
+
+    if (unused.length > 0) {
+      md += '## 未使用のコンポーネント\n\n';
+      unused.forEach(usage => {
+        md += `- \`${usage.componentName}\`\n`;
+      });
+      md += '\n';
+    }
+
+    if (used.length > 0) {
+      md += '## コンポーネント別の利用状況\n\n';
+      used.forEach(usage => {
+        md += this.formatComponent(usage);
+      });
+    }
+
+    return md;
+  }
+
+  /**
+   * コンポーネント1件分の利用状況を生成
+   *
+   * @param usage コンポーネントの利用状況
+   * @returns Markdown文字列
+   */
+  private formatComponent(usage: ComponentUsage): string {
+    let md = `### ${usage.componentName}\n\n`;
+    md += `- **呼び出し数**: ${usage.instances}（${usage.files.length}ファイル）\n`;
+    if (usage.spreadInstances > 0) {
+      md += `- **スプレッドを含む呼び出し**: ${usage.spreadInstances}\n`;
+    }
+    md += '\n';
+
+    const props = Object.entries(usage.props).sort(([, a], [, b]) => b.count - a.count);
+    if (props.length > 0) {
+      md += '| Prop | Count | Values |\n';
+      md += '|------|-------|--------|\n';
+      props.forEach(([name, propUsage]) => {
+        md += `| ${name} | ${propUsage.count} | ${this.formatValues(propUsage)} |\n`;
+      });
+      md += '\n';
+    }
+
+    if (usage.unusedProps.length > 0) {
+      md += `**未使用のProp**: ${usage.unusedProps.map(name => `\`${name}\``).join(', ')}`;
+      md += usage.spreadInstances > 0 ? '（スプレッドで渡されている可能性があります）\n\n' : '\n\n';
+    }
+
+    return md;
+  }
+
+  /**
+   * Propの値の分布を出現数の多い順に整形
+   *
+   * @param propUsage Propの利用状況
+   * @returns 値の分布（例: `sm` ×3, `lg` ×2, 動的 ×1）
+   */
+  private formatValues(propUsage: PropUsage): string {
+    const values = Object.entries(propUsage.values)
+      .sort(([, a], [, b]) => b - a)
+      .map(([value, count]) => `\`${value.replace(/\|/g, '\\|')}\` ×${count}`);
+    if (propUsage.dynamic > 0) {
+      values.push(`動的 ×${propUsage.dynamic}`);
+    }
+    return values.join(', ');
+  }
+}
@@ -2,11 +2,18 @@
 export * from './types';
 export * from './extractors/TailwindExtractor';
 export * from './extractors/DesignTokenExtractor';
+// カスタムスタイルシステム・プラットフォームのプラグインが継承する抽象クラス
+export { StyleExtractor, ExtractedStyleInfo } from './extractors/StyleExtractorFactory';
+export { PlatformExtractor } from './extractors/PlatformExtractorFactory';
 export * from './generators/AIDocumentGenerator';
 export * from './core/DiffEngine';
+export * from './core/UsageAnalyzer';
+export * from './core/StoryReader';
 export * from './commands/snapshot';
 export * from './commands/generate';
 export * from './commands/diff';
 export * from './commands/watch';
+export * from './commands/usage';
+export * from './commands/stories';
 export * from './utils/fileUtils';
 export * from './utils/hash';
\ No newline at end of file
@@ -9,13 +9,153 @@ export interface ExtractedComponent {
   jsxStructure?: JSXElement;
   platform?: Platform;
   styleInfo?: StyleInfo;
+  docs?: DocComment;
+  wrappers?: ComponentWrapper[];  // 外側から順（例: memo(forwardRef(...)) → ['memo', 'forwardRef']）
+  displayName?: string;
+  state?: PropInfo[];           // クラスコンポーネントのState（React.Component<Props, State>）
+  lifecycleMethods?: string[];  // クラスコンポーネントで使用しているライフサイクルメソッド
+  subcomponents?: ExtractedComponent[];  // 複合コンポーネントの子（componentNameは Card.Header 形式）
+  forwardedProps?: PropForwarding[];     // 残余Props（...rest）の転送先
+  variants?: VariantDefinition[];        // cva/tvで定義されたバリアント
+  conditionalClasses?: ConditionalClasses[];  // Propの値毎に適用されるクラス
+  classSources?: ClassSource[];          // 定数・スタイルモジュールから解決したクラスの参照元
+  imports?: ComponentImport[];           // プロジェクト内のファイルに解決できたインポート
+  renderedElements?: string[];           // コンポーネント本体の全JSX要素名（jsxStructure は最初のJSXリターンのみ）
+  behavior?: ComponentBehavior;          // フック・コンテキスト・副作用による振る舞い
+  stories?: ComponentStories[];          // Storybook（CSF）のストーリーファイル
+  selector?: string;                     // Angularコンポーネントのセレクタ（テンプレートでの使用タグ）
+}
+
+// Storybook CSF ファイルから読み込んだストーリー（default export の component で紐付け）
+export interface ComponentStories {
+  filePath: string;                        // *.stories.tsx のパス
+  title?: string;                          // meta.title
+  args: Record<string, string>;            // 全ストーリー共通の args（値はソース表記）
+  argTypes: Record<string, StoryArgType>;  // meta.argTypes とストーリー毎の argTypes の合成
+  stories: StoryInfo[];
+}
+
+export interface StoryInfo {
+  name: string;                  // 表示名（name / storyName、省略時はエクスポート名から生成）
+  exportName: string;
+  args: Record<string, string>;  // ストーリー固有の args（共通 args との合成前）
+  code: string;                  // 描画されるJSX（args を属性として展開済み）
+}
+
+export interface StoryArgType {
+  control?: string;      // 'select'、'boolean' 等（control: { type } も同様）
+  options?: string[];
+  description?: string;
+  defaultValue?: string; // table.defaultValue.summary
+}
+
+// 関数コンポーネントの振る舞い（フック・コンテキスト・副作用）
+export interface ComponentBehavior {
+  hooks: HookUsage[];            // 呼び出しているフック（初出順・重複なし）
+  state: LocalState[];           // useState / useReducer で管理している内部状態
+  consumedContexts: string[];    // useContext（同一ファイルのカスタムフック経由を含む）で参照しているコンテキスト
+  providedContexts: string[];    // <XContext.Provider> で子孫に提供しているコンテキスト
+  effects: EffectUsage[];
+  requiredProviders?: string[];  // 参照しているコンテキストを提供するコンポーネント（ドキュメント生成時に算出）
+}
+
+export interface HookUsage {
+  name: string;     // useState、useDisclosure 等
+  custom: boolean;  // React組み込み以外のフック
+}
+
+export interface LocalState {
+  name: string;                       // 状態の変数名（const [open, setOpen] の open）
+  setter?: string;                    // 更新関数（setOpen / dispatch）
+  hook: 'useState' | 'useReducer';
+  initialValue?: string;              // リテラル・識別子の場合のみ
+}
+
+export interface EffectUsage {
+  hook: string;                  // useEffect / useLayoutEffect / useInsertionEffect
+  dependencies: string[] | null; // 依存配列（省略時はnull = 毎回実行、[] はマウント時のみ）
+  cleanup: boolean;              // クリーンアップ関数を返すか
+}
+
+// プロジェクト内のファイルに解決したインポート（構成グラフの構築用）
+export interface ComponentImport {
+  localName: string;     // ファイル内での名前（Button、名前空間インポートは UI 等）
+  importedName: string;  // インポート元でのエクスポート名（デフォルトは 'default'、名前空間は '*'）
+  source: string;        // インポート指定子（'./Button'、'@/components/ui' 等）
+  resolvedPath: string;  // 定義元のファイル（バレルの再エクスポートは定義元まで追跡）
+}
+
+// コンポーネント間の構成関係（どのコンポーネントがどのコンポーネントを描画しているか）
+export interface CompositionGraph {
+  nodes: CompositionNode[];
+  edges: CompositionEdge[];
+}
+
+// 構成グラフのノード（別ファイルの同名コンポーネントを区別するため filePath#componentName で識別）
+export interface CompositionNode {
+  id: string;             // filePath#componentName
+  componentName: string;
+  filePath: string;
+}
+
+export interface CompositionEdge {
+  from: string;  // 描画する側のノードID
+  to: string;    // 描画される側のノードID
+}
+
+// className に識別子で指定されたクラスの解決元（className={baseButton} 等）
+export interface ClassSource {
+  binding: string;    // 参照している式（baseButton, styles.primary）
+  filePath: string;   // 定義しているファイル
+  classes: string[];  // 解決されたクラス
+}
+
+// 条件付きで適用されるクラス（variant === 'danger' ? 'bg-red-500' : ... 等）
+export interface ClassCondition {
+  prop: string;       // 条件となるProp名
+  value: string;      // Propの値（真偽値は 'true' / 'false'、列挙した値以外は '*'）
+  classes: string[];
+}
+
+// Prop毎の「値 → 適用されるクラス」の対応
+export interface ConditionalClasses {
+  prop: string;
+  values: Record<string, string[]>;
+}
+
+// cva / tailwind-variants（tv）によるバリアント定義
+export interface VariantDefinition {
+  name: string;                                          // 定義している変数名（buttonVariants 等）
+  library: 'cva' | 'tv';
+  base: string[];                                        // 全バリアント共通のクラス
+  variants: Record<string, Record<string, string[]>>;    // バリアント名 → オプション → クラス
+  compoundVariants: CompoundVariant[];
+  defaultVariants: Record<string, string>;               // バリアント名 → デフォルトのオプション
+}
+
+export interface CompoundVariant {
+  conditions: Record<string, string | string[]>;  // バリアント名 → 該当するオプション
+  classes: string[];
+}
+
+// 残余Props（...rest）をスプレッドで渡している転送先
+export interface PropForwarding {
+  source: string;      // スプレッドしている変数名（rest, props 等）
+  target: string;      // 転送先の要素名（button, Icon, Menu.Item 等）
+  intrinsic: boolean;  // HTML要素（小文字始まり）の場合true
 }
 
+// コンポーネントを包むラッパーの種別
+export type ComponentWrapper = 'forwardRef' | 'memo' | 'hoc';
+
 export interface StyleInfo {
-  type: 'tailwind' | 'stylesheet' | 'inline' | 'styled-components';
+  type: 'tailwind' | 'stylesheet' | 'inline' | 'css-modules' | CSSInJSStyleSystem;
   tailwindClasses?: string[];
   classes?: string[];
   styles?: Record<string, any>;
+  declarations?: Record<string, StyleDeclaration[]>;  // クラス・スタイル毎のCSS宣言（CSS Modules / CSS-in-JS）
+  variants?: Record<string, Record<string, Record<string, StyleDeclaration[]>>>;  // プロップ条件付きのスタイル（スタイル名 → プロップ名 → 値 → CSS宣言）
+  missingClasses?: string[];                          // スタイルシートに定義がない参照クラス（CSS Modules）
   imports?: string[];
   customStyles?: string;
   responsive?: boolean;
@@ -23,6 +163,19 @@ export interface StyleInfo {
   animations?: string[];
 }
 
+/**
+ * StyleDeclaration - CSS宣言
+ * 
+ * CSS-in-JSのテンプレート・スタイルオブジェクトや、CSS Modulesのスタイルシートから
+ * 解析した1つの宣言です。プロパティ名は kebab-case に正規化されます。
+ */
+export interface StyleDeclaration {
+  property: string;   // CSSプロパティ（kebab-case）
+  value: string;      // 値（補間は ${式} 形式）
+  selector?: string;  // ネストしたセレクタ・メディアクエリ（&:hover / @media (min-width: 768px)）
+  token?: string;     // 対応するデザイントークン（colors.primary / --color-primary / $primary 等）
+}
+
 export interface JSXElement {
   type: string;
   props: Record<string, any>;
@@ -36,6 +189,32 @@ export interface PropInfo {
   type: string;
   required: boolean;
   defaultValue?: string;
+  docs?: DocComment;
+  event?: EventSignature;  // コールバックProp（onChange 等）のシグネチャと呼び出し方
+}
+
+// コールバックPropのシグネチャ（型）と、コンポーネント内での実際の呼び出し方
+export interface EventSignature {
+  parameters: EventParameter[];  // 型から解決した引数（型が得られない場合は空）
+  returnType?: string;           // 戻り値の型
+  invocations: string[][];       // コンポーネント内の呼び出しの実引数（onChange?.(value, event) → ['value', 'event']）
+  forwardedTo: string[];         // そのまま渡している要素（<input onChange={onChange} /> → 'input'）
+}
+
+export interface EventParameter {
+  name: string;
+  type: string;
+  optional: boolean;
+}
+
+// JSDoc/TSDocコメントから抽出した情報
+export interface DocComment {
+  description?: string;
+  defaultValue?: string;          // @default
+  examples?: string[];            // @example
+  deprecated?: string | boolean;  // @deprecated（理由がない場合はtrue）
+  since?: string;                 // @since
+  see?: string[];                 // @see
 }
 
 export interface DesignTokens {
@@ -68,7 +247,7 @@ export interface ExtractorConfig {
   platform?: Platform;
 }
 
-export type Platform = 'web' | 'react-native';
+export type Platform = 'web' | 'react-native' | 'vue' | 'svelte' | 'angular';
 
 export interface PlatformConfig {
   platform: Platform;
@@ -77,7 +256,10 @@ export interface PlatformConfig {
   generation?: GenerationConfig;
 }
 
-export type StyleSystem = 'tailwind' | 'stylesheet' | 'styled-components';
+export type StyleSystem = 'tailwind' | 'stylesheet' | 'css-modules' | CSSInJSStyleSystem;
+
+// 解析済みCSS宣言を持つCSS-in-JSのスタイルシステム
+export type CSSInJSStyleSystem = 'styled-components' | 'emotion' | 'stitches' | 'vanilla-extract';
 
 export interface ValidationConfig {
   enabled: boolean;
@@ -101,6 +283,30 @@ export interface ProjectInfo {
   styling: string;
 }
 
+// 利用側のコードベースにおけるコンポーネントの利用状況（usage コマンドの出力）
+export interface UsageReport {
+  generated: string;
+  sourceDir: string;
+  packages: string[];             // 照合に使用したインポート元のパッケージ名
+  filesScanned: number;
+  components: ComponentUsage[];   // 利用数の多い順
+}
+
+export interface ComponentUsage {
+  componentName: string;
+  instances: number;                  // JSXでの呼び出し数
+  files: string[];                    // 呼び出しのあるファイル（sourceDir からの相対パス）
+  props: Record<string, PropUsage>;   // 渡されたProp名 → 利用状況
+  unusedProps: string[];              // 一度も渡されていないドキュメント上のProp
+  spreadInstances: number;            // {...props} を含む呼び出し数（未使用Propの判定が不確実）
+}
+
+export interface PropUsage {
+  count: number;                    // Propを渡している呼び出し数
+  values: Record<string, number>;   // リテラル値 → 出現数（<Button disabled /> は 'true'）
+  dynamic: number;                  // 変数・式で渡している呼び出し数
+}
+
 export interface DiffResult {
   hasChanges: boolean;
   changes: {
@@ -120,6 +326,7 @@ export interface DiffResult {
 
 export interface ModifiedComponent {
   path: string;
+  componentName: string;
   changes: {
     classesAdded: string[];
     classesRemoved: string[];
@@ -142,6 +349,7 @@ export interface Snapshot {
   components: ExtractedComponent[];
   tokens: DesignTokens;
   project: ProjectInfo;
+  composition?: CompositionGraph;  // コンポーネントの構成グラフ
 }
 
 // AST関連の型
@@ -151,10 +359,26 @@ export interface ASTNode {
 }
 
 export interface TraversalCallbacks {
-  onClassName?: (node: ASTNode) => void;
+  onClassName?: (node: ASTNode, bindings?: Map<string, ASTNode>) => void;  // bindings: 走査済みの変数宣言（名前 → 初期化式）
+  onSwitch?: (node: ASTNode) => void;  // switch文（Propの値によるクラスの切り替え検出用）
   onProp?: (prop: PropInfo) => void;
   onImport?: (dep: string) => void;
   onJSXReturn?: (element: JSXElement) => void;
+  onJSXElement?: (node: ASTNode) => void;  // 全てのJSX要素（利用状況の集計・コンテキスト提供の検出用）
+  onHookCall?: (node: ASTNode, parent?: ASTNode) => void;  // useX() の呼び出し（parent: const [a, setA] = ... の宣言子等）
+}
+
+// ファイル内でエクスポートされたコンポーネント定義
+export interface ComponentDefinition {
+  name: string;
+  node: ASTNode | null;  // 定義ノード（関数宣言・変数宣言子・クラス宣言。ファイル名由来の場合はnull）
+  wrappers?: ComponentWrapper[];
+  displayName?: string;  // Component.displayName = '...' で指定された表示名
+  subcomponents?: SubcomponentDefinition[];  // 複合コンポーネントの子（Card.Header 等）
+}
+
+export interface SubcomponentDefinition extends ComponentDefinition {
+  memberName: string;  // 親コンポーネント上のプロパティ名（Card.Header → Header）
 }
 
 export interface ComponentInfo {
@@ -195,6 +419,7 @@ export interface AIDocument {
   components: ComponentDoc[];
   patterns: DesignPattern[];
   guidelines: string[];
+  composition?: CompositionGraph;  // コンポーネントの構成グラフ
 }
 
 export interface ComponentDoc {
@@ -208,6 +433,21 @@ export interface ComponentDoc {
   examples: CodeExample[];
   relatedComponents: string[];
   jsxStructure?: JSXElement;
+  deprecated?: string | boolean;
+  since?: string;
+  see?: string[];
+  wrappers?: ComponentWrapper[];
+  displayName?: string;
+  state?: PropDoc[];
+  lifecycleMethods?: string[];
+  subcomponents?: ComponentDoc[];
+  forwardedProps?: PropForwarding[];
+  variants?: VariantDefinition[];
+  conditionalClasses?: ConditionalClasses[];
+  classSources?: ClassSource[];
+  behavior?: ComponentBehavior;
+  selector?: string;
+  platform?: Platform;
 }
 
 export interface PropDoc {
@@ -216,12 +456,18 @@ export interface PropDoc {
   required: boolean;
   defaultValue?: string;
   description: string;
+  deprecated?: string | boolean;
+  since?: string;
+  see?: string[];
+  examples?: string[];
+  event?: EventSignature;
 }
 
 
 export interface CodeExample {
   title: string;
   code: string;
+  language?: string;  // コードブロックの言語（省略時は tsx）
   description?: string;
   validation?: ValidationResult;
 }
@@ -259,6 +505,11 @@ export interface ValidationSuggestion {
   severity?: 'error' | 'warning' | 'info';
 }
 
+// カスタムバリデーター（extensions.customValidators のモジュールが実装）
+export interface ComponentValidator {
+  validate(component: ExtractedComponent): Partial<Pick<ValidationResult, 'errors' | 'warnings' | 'suggestions'>>;
+}
+
 export interface GenerationMetadata {
   timestamp: string;
   version: string;
@@ -41,6 +41,15 @@ export async function findFiles(pattern: string, options?: any): Promise<string[
   return glob(pattern, options);
 }
 
+// ディレクトリ配下を複数のパターンで検索（重複を除いてソート）
+export async function findSourceFiles(sourceDir: string, patterns: string[], ignore?: string[]): Promise<string[]> {
+  const files = new Set<string>();
+  for (const pattern of new Set(patterns)) {
+    (await findFiles(`${sourceDir}/${pattern}`, { ignore })).forEach(file => files.add(file));
+  }
+  return Array.from(files).sort();
+}
+
 export function getRelativePath(from: string, to: string): string {
   return path.relative(from, to);
 }